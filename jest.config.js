@@ -19,6 +19,9 @@ module.exports = {
         '!src/**/*.test.ts'
     ],
 
+    // 盤面のテキスト表記と比べるマッチャー（toMatchBoard）
+    setupFilesAfterEnv: ['<rootDir>/src/__tests__/boardMatchers.ts'],
+
     // モジュール名のマッピング
     moduleNameMapper: {
         // Phaserのモック
@@ -1,12 +1,48 @@
 import * as Phaser from "phaser";
 import { GameUI, GameState, getDefaultUIConfig } from "./ui/gameUI";
 import {
-  generateTetromino,
-  BlockShape,
-  TetrominoType,
-  TETROMINO_COLORS,
-  getTetrominoByIndex,
-} from "./tetromino";
+  FRAME_MS,
+  GameEngine,
+  GameEngineConfig,
+  GameEngineState,
+  TetrisAction,
+  GameEndReason,
+} from "./gameEngine";
+import { InputHandler, getDefaultInputConfig } from "./inputHandler";
+import { BoardSpec, computeCellSize, createBoardSpec } from "./boardSpec";
+import { GameMode, ModeSelection } from "./modes/gameMode";
+import { createGameMode } from "./modes/modeFactory";
+import { PuzzlePack, parsePuzzlePack } from "./puzzle";
+import { createFumenPage, encodeFumen } from "./fumen";
+import {
+  StackVisibility,
+  getDefaultStackVisibilityConfig,
+  loadStackVisibilitySettings,
+} from "./stackVisibility";
+import { getDefaultStorage, saveJSON } from "./storage";
+import { RandomizerType, generateSeed } from "./randomizer";
+import { RotationSystemType } from "./rotationSystem";
+import { ScoringSystemType } from "./scoreAndLevel";
+import {
+  Replay,
+  ReplayRecorder,
+  ReplayRules,
+  createRulesEngineConfig,
+  encodeReplay,
+} from "./replay";
+import {
+  SuspendedGame,
+  clearSuspendedGame,
+  loadSuspendedGame,
+  saveSuspendedGame,
+} from "./suspend";
+import {
+  GameStats,
+  GameStatsRecorder,
+  formatGameStatsCSV,
+  formatGameStatsJSON,
+} from "./gameStats";
+import { BoardRenderer } from "./ui/boardRenderer";
 import { SoundManager, SoundType } from "./assets/sounds/soundAndEffect";
 
 
@@ -14,97 +50,136 @@ import { SoundManager, SoundType } from "./assets/sounds/soundAndEffect";
  * ゲーム定数
  */
 const GAME_CONFIG = {
-  GRID: {
+  BOARD: {
     WIDTH: 10,
     HEIGHT: 20,
-    CELL_SIZE: 30,
+    BUFFER_ROWS: 20,
+  },
+  LAYOUT: {
+    // 盤面の描画に使うキャンバスの割合（セルサイズはこの範囲に収まるよう計算する）
+    AREA_WIDTH_RATIO: 0.84,
+    AREA_HEIGHT_RATIO: 0.94,
+    MAX_CELL_SIZE: 30,
   },
+  RULES: {
+    RANDOMIZER: "sevenBag" as RandomizerType,
+    ROTATION_SYSTEM: "srs" as RotationSystemType,
+    ALL_SPIN: false,
+    SCORING_SYSTEM: "guideline" as ScoringSystemType,
+    PARTIAL_LOCK_OUT: false,
+  },
+  // 実行時に読み込むパズルパック（public/assets 以下に置く）
+  PUZZLE_PACKS: ["assets/puzzles/basic.json"],
   TIMING: {
-    FALL_DELAY: 1000,
+    INPUT_LOCK_DURATION: 1500,
     MESSAGE_DURATION: 2000,
   },
-  SCORING: {
-    POINTS_PER_LINE: 100,
-  },
   COLORS: {
-    GRID_LINE: 0x888888,
-    GRID_LINE_ALPHA: 0.5,
-    GRID_BACKGROUND: 0x000000,
-    GRID_BACKGROUND_ALPHA: 0.8,
-    GRID_BORDER: 0xffffff,
     MESSAGE_TEXT: "#00ff00",
     MESSAGE_BACKGROUND: "#000000",
   },
 } as const;
 
 /**
- * 壁キック用のオフセット定義
+ * ゲームオーバー画面に表示する終了条件
  */
-const WALL_KICK_OFFSETS = [
-  { x: -1, y: 0 },
-  { x: 1, y: 0 },
-  { x: -2, y: 0 },
-  { x: 2, y: 0 },
-  { x: 0, y: -1 },
-] as const;
+const END_REASON_LABELS: Record<GameEndReason, string> = {
+  blockOut: "BLOCK OUT",
+  lockOut: "LOCK OUT",
+  partialLockOut: "PARTIAL LOCK OUT",
+  topOut: "TOP OUT",
+  goalReached: "CLEAR",
+  timeUp: "TIME UP",
+  outOfPieces: "OUT OF PIECES",
+};
 
 /**
  * テトリスゲームのメインシーンクラス
+ * ルールは GameEngine に委譲し、このシーンは描画と入力の転送のみを担当する
  */
 export class GameScene extends Phaser.Scene {
 
   // ゲーム状態
   private gameState = {
     isPlaying: false,
-    score: 0,
-    level: 1,
-    lines: 0,
-  };
-
-  // 現在のピース情報
-  private currentPiece: {
-    blocks: number[][] | null;
-    type: TetrominoType | null;
-    x: number;
-    y: number;
-  } = {
-    blocks: null,
-    type: null,
-    x: 0,
-    y: 0,
   };
 
-  // グリッド（10列×20行）
-  private grid!: number[][];
+  // ルールエンジンとゲームモード
+  private engine!: GameEngine;
+  private mode: GameMode = createGameMode({ type: "endless" });
+  private modeSelection: ModeSelection = { type: "endless" };
 
   // UI要素
   private gameUI!: GameUI;
-  private gridGraphics!: Phaser.GameObjects.Graphics;
+  private boardRenderer!: BoardRenderer;
 
-  // タイマー
-  private fallTimer: Phaser.Time.TimerEvent | null = null;
+  // 固定したブロックの見え方（セルごとの固定時刻を盤面と並べて持つ）
+  private stackVisibility = new StackVisibility(
+    getDefaultStackVisibilityConfig()
+  );
+
+  // 盤面の寸法と、キャンバスから計算したセルサイズ
+  private board!: BoardSpec;
+  private cellSize: number = GAME_CONFIG.LAYOUT.MAX_CELL_SIZE;
+
+  // リプレイ（プレイ中の操作を記録し、終了時に最後のリプレイとして残す）
+  private replayRecorder: ReplayRecorder | null = null;
+  private lastReplay: Replay | null = null;
+
+  // 統計（ピースごとの記録とキー入力を集計し、終了時に最後の統計として残す）
+  private statsRecorder: GameStatsRecorder | null = null;
+  private lastStats: GameStats | null = null;
 
   // 入力
-  private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
-  private keyboardCallbacks: Array<() => void> = [];
+  private inputHandler!: InputHandler;
   private isInputLocked: boolean = false;
 
   constructor() {
     super({ key: "GameScene" });
   }
 
-  private pieceQueue: TetrominoType[] = [];
-  private readonly QUEUE_SIZE = 3;
+  preload(): void {
+    GAME_CONFIG.PUZZLE_PACKS.forEach((url, index) => {
+      this.load.json(`puzzlePack${index}`, url);
+    });
+  }
 
   create(): void {
-    this.pieceQueue = [];
+    this.board = createBoardSpec(
+      GAME_CONFIG.BOARD.WIDTH,
+      GAME_CONFIG.BOARD.HEIGHT,
+      GAME_CONFIG.BOARD.BUFFER_ROWS
+    );
+    this.cellSize = this.computeCellSize();
+    this.engine = new GameEngine(this.createEngineConfig(generateSeed()));
     this.initializeGame();
     this.setupUI();
+    const { packs, skipped } = this.loadPuzzlePacks();
+    this.gameUI.setPuzzlePacks(packs, skipped);
+    this.gameUI.setContinueAvailable(
+      loadSuspendedGame(getDefaultStorage()) !== null
+    );
     this.setupInputs();
     this.setupEventListeners();
+    this.setupEngineListeners();
   }
 
   update(time: number, delta: number): void {
+    if (!this.gameState.isPlaying) {
+      // ゲーム終了後も、盤面全体を表示するアニメーションは進める
+      if (this.stackVisibility.isEndRevealing()) {
+        this.stackVisibility.update(delta);
+        this.redrawAll();
+      }
+      return;
+    }
+
+    // モードのタイマーはエンジンのframeイベントで進む（リプレイで同じ結果になるように）
+    this.inputHandler.update(time, delta);
+    this.engine.tick(delta);
+    this.stackVisibility.update(delta);
+    this.gameUI.updateModeHud(this.mode.getHud());
+    this.redrawAll();
   }
 
   destroy(): void {
@@ -112,9 +187,52 @@ export class GameScene extends Phaser.Scene {
   }
 
 
+  /**
+   * シーンの設定からゲームのルールを作成する（リプレイにも保存する）
+   */
+  private getRules(): ReplayRules {
+    return {
+      board: this.board,
+      randomizer: GAME_CONFIG.RULES.RANDOMIZER,
+      rotationSystem: GAME_CONFIG.RULES.ROTATION_SYSTEM,
+      allSpin: GAME_CONFIG.RULES.ALL_SPIN,
+      scoringSystem: GAME_CONFIG.RULES.SCORING_SYSTEM,
+      partialLockOut: GAME_CONFIG.RULES.PARTIAL_LOCK_OUT,
+    };
+  }
+
+  /**
+   * シーンで使用するエンジン設定を作成する
+   * ピース生成・回転システム・得点表・盤面の寸法はシーン設定のものを使う
+   * @param seed - ゲームごとに生成した乱数シード
+   */
+  private createEngineConfig(seed: number): GameEngineConfig {
+    return createRulesEngineConfig(this.getRules(), seed);
+  }
+
+  /**
+   * 読み込んだパズルパックを検証する
+   * 形式が正しくないパックは選択肢に出さず、読み込めなかった数を数える
+   */
+  private loadPuzzlePacks(): { packs: PuzzlePack[]; skipped: number } {
+    const packs: PuzzlePack[] = [];
+    let skipped = 0;
+    GAME_CONFIG.PUZZLE_PACKS.forEach((_url, index) => {
+      try {
+        packs.push(parsePuzzlePack(this.cache.json.get(`puzzlePack${index}`)));
+      } catch {
+        skipped++;
+      }
+    });
+    return { packs, skipped };
+  }
+
   private initializeGame(): void {
-    this.initializeGrid();
-    this.gridGraphics = this.add.graphics();
+    const { startX, startY } = this.getGridPosition();
+    this.boardRenderer = new BoardRenderer(this, this.board, this.cellSize, {
+      x: startX,
+      y: startY,
+    });
     this.drawGrid();
   }
 
@@ -123,23 +241,65 @@ export class GameScene extends Phaser.Scene {
     this.gameUI = new GameUI(this, uiConfig);
   }
 
+  /**
+   * 入力をInputHandler経由でエンジンに渡す
+   * 横移動とソフトドロップの連続入力はInputHandlerのDAS・ARR・SDFで処理する
+   */
   private setupInputs(): void {
-    this.cursors = this.input.keyboard!.createCursorKeys();
-  }
+    this.inputHandler = new InputHandler(this, {
+      ...getDefaultInputConfig(),
+      keyBindings: {
+        LEFT: TetrisAction.MoveLeft,
+        RIGHT: TetrisAction.MoveRight,
+        DOWN: TetrisAction.SoftDrop,
+        UP: TetrisAction.RotateClockwise,
+        X: TetrisAction.RotateClockwise,
+        Z: TetrisAction.RotateCounterClockwise,
+        A: TetrisAction.Rotate180,
+        SPACE: TetrisAction.HardDrop,
+        C: TetrisAction.Hold,
+      },
+    });
+    this.inputHandler.setDropIntervalProvider(() =>
+      this.engine.getDropInterval()
+    );
+
+    // ブロックを隠す設定で、盤面全体を一時的に表示する
+    this.input.keyboard?.on("keydown-F", () => this.flashStack());
 
-  private initializeGrid(): void {
-    this.grid = Array(GAME_CONFIG.GRID.HEIGHT)
-      .fill(null)
-      .map(() => Array(GAME_CONFIG.GRID.WIDTH).fill(0));
+    Object.values(TetrisAction).forEach((action) => {
+      // 統計のキー数はDAS・ARRによる繰り返しを除いた押下の回数で数える
+      this.inputHandler.onPress(action, () => {
+        if (this.gameState.isPlaying && !this.isInputLocked) {
+          this.statsRecorder?.recordKey(action);
+        }
+      });
+      this.inputHandler.on(action, () => {
+        if (!this.gameState.isPlaying || this.isInputLocked) {
+          return false;
+        }
+        this.mode.onInput();
+        this.replayRecorder?.record(action);
+        // 描画はupdateで毎フレーム行う
+        return this.engine.applyAction(action);
+      });
+    });
   }
 
   private setupEventListeners(): void {
     const eventHandlers = {
-      gameStart: () => this.handleGameStart(),
+      gameStart: (selection?: ModeSelection) =>
+        this.handleGameStart(selection),
       gamePause: () => this.handleGamePause(),
       gameResume: () => this.handleGameResume(),
       gameRestart: () => this.handleGameRestart(),
       gameStop: () => this.handleGameStop(),
+      stackFlash: () => this.flashStack(),
+      watchReplay: () => this.watchReplay(),
+      copyFumen: () => this.copyFumen(),
+      gameContinue: () => this.handleGameContinue(),
+      gameSuspend: () => this.suspendGame(),
+      exportStats: () => this.exportStats(),
     };
 
     Object.entries(eventHandlers).forEach(([event, handler]) => {
@@ -147,219 +307,163 @@ export class GameScene extends Phaser.Scene {
     });
   }
 
-
-  private generateRandomTetromino(): TetrominoType {
-    const pieces: TetrominoType[] = [
-      TetrominoType.I,
-      TetrominoType.O,
-      TetrominoType.T,
-      TetrominoType.S,
-      TetrominoType.Z,
-      TetrominoType.J,
-      TetrominoType.L,
-    ];
-
-    const randomIndex = Math.floor(Math.random() * pieces.length);
-    return pieces[randomIndex];
-  }
-
-  private initializePieceQueue(): void {
-    this.pieceQueue = [];
-    const initialQueueSize = this.QUEUE_SIZE + 1;
-    
-    while (this.pieceQueue.length < initialQueueSize) {
-      const piece = this.generateRandomTetromino();
-      this.pieceQueue.push(piece);
-    }
+  /**
+   * エンジンのイベントをUIに反映する
+   */
+  private setupEngineListeners(): void {
+    this.engine.on("frame", () => this.mode.update(FRAME_MS));
+    this.engine.on("spawn", () => this.updateNextDisplay());
+    this.engine.on("hold", (piece) => {
+      this.gameUI.updateHoldPiece(piece);
+      this.updateNextDisplay();
+    });
+    this.engine.on("score", ({ score, level, lines }) => {
+      this.gameUI.updateScore(score, level, lines);
+    });
+    this.engine.on("award", (award) => {
+      // ドロップの得点は表示せず、ライン消去とスピンのみ表示する
+      if (award.linesCleared > 0 || award.spin !== "none") {
+        this.gameUI.showAward(award.label, award.points);
+      }
+    });
+    this.engine.on("lock", (result) => {
+      this.stackVisibility.onLock(
+        result.clearedRows,
+        this.engine.getState().grid
+      );
+    });
+    this.engine.on("gameOver", ({ reason }) => this.gameOver(reason));
   }
 
   private updateNextDisplay(): void {
-    const nextPieces = this.pieceQueue.slice(0, this.QUEUE_SIZE);
-    this.gameUI.updateNextPieces(nextPieces);
-  }
-
-  private startGameplay(): void {
-    if (this.gameState.isPlaying) {
-      return;
-    }
-
-    this.gameState.isPlaying = true;
-    this.resetGameState();
-    this.clearGrid();
-    this.drawGrid();
-    this.initializePieceQueue();
-    this.updateNextDisplay();
-    this.spawnNewPiece();
-    this.startFallTimer();
-    this.setupKeyboardControls();
-
-    this.isInputLocked = true;
-    this.time.delayedCall(1500, () => {
-      this.isInputLocked = false;
-    });
-
-    this.showGameStartMessage();
+    const { nextQueue } = this.engine.getState();
+    this.gameUI.updateNextPieces(nextQueue);
   }
 
   /**
-   * ===================================
-   * ピース操作メソッド（安全性強化）
-   * ===================================
+   * ゲームを開始する
+   * 中断したゲームを指定した場合は、新しく始める代わりに中断した時点の状態に戻す
+   * @param suspended - 再開する中断したゲーム
+   * @throws 中断したゲームの状態が現在の盤面に合わない場合
    */
-
-  private spawnNewPiece(): void {
-    if (!this.gameState.isPlaying) {
+  private startGameplay(suspended: SuspendedGame | null = null): void {
+    if (this.gameState.isPlaying) {
       return;
     }
 
-    if (this.pieceQueue.length === 0) {
-      this.initializePieceQueue();
+    // モードごとに設定が異なるため、ゲームごとにエンジンを作り直す
+    this.mode.detach();
+    clearSuspendedGame(getDefaultStorage());
+    if (suspended) {
+      this.modeSelection = suspended.replay.selection;
     }
+    const seed = suspended?.replay.seed ?? generateSeed();
+    this.mode = createGameMode(this.modeSelection, getDefaultStorage(), seed);
+    const config = this.mode.configureEngine(this.createEngineConfig(seed));
+    this.engine = new GameEngine(config);
+    this.setupEngineListeners();
+    this.mode.attach(this.engine);
 
-    // キュー先頭から取り出し
-    const pieceType = this.pieceQueue.shift();
-    
-    if (pieceType === undefined) {
-      this.gameOver();
-      return;
-    }
-
-    // generateTetromino を使用して正しくテトロミノを生成
-    let generatedShape: number[][];
-    try {
-      // pieceTypeは既に数値型なので直接使用
-      generatedShape = getTetrominoByIndex(pieceType);
-
-      // 生成されたシェイプが有効かチェック
-      if (
-        !generatedShape ||
-        !Array.isArray(generatedShape) ||
-        generatedShape.length === 0
-      ) {
-        throw new Error(`Invalid shape generated for piece type: ${pieceType}`);
+    this.gameState.isPlaying = true;
+    const settings =
+      suspended?.replay.stackVisibility ??
+      loadStackVisibilitySettings(getDefaultStorage());
+    if (suspended) {
+      this.engine.restoreSaveState(suspended.engine);
+      if (suspended.mode) {
+        this.mode.restoreSaveState(suspended.mode);
       }
-    } catch (error) {
-      this.gameOver();
-      return;
+      this.replayRecorder = ReplayRecorder.resume(
+        suspended.replay,
+        this.engine
+      );
+    } else {
+      this.engine.start();
+      this.replayRecorder = new ReplayRecorder(
+        {
+          selection: this.modeSelection,
+          seed,
+          rules: this.getRules(),
+          stackVisibility: settings,
+        },
+        this.engine
+      );
     }
-
-    // 新規追加＆Next更新
-    const newPiece = this.generateRandomTetromino();
-    this.pieceQueue.push(newPiece);
-    
+    this.statsRecorder = new GameStatsRecorder(this.engine, {
+      mode: this.mode.name,
+      rotationSystem: config.rotationSystem,
+    });
+    this.stackVisibility = new StackVisibility({
+      ...getDefaultStackVisibilityConfig(),
+      ...settings,
+      mode: this.mode.stackVisibility ?? settings.mode,
+    });
+    this.stackVisibility.reset(this.engine.getState().grid, this.board.height);
+    const { heldPiece, score, level, lines } = this.engine.getState();
+    this.gameUI.setFlashButtonVisible(this.stackVisibility.isActive());
+    this.gameUI.updateHoldPiece(heldPiece);
+    this.gameUI.updateScore(score, level, lines);
     this.updateNextDisplay();
-
-    // 現在のピースをセット
-    this.currentPiece = {
-      blocks: generatedShape,
-      type: pieceType,
-      x: Math.floor(GAME_CONFIG.GRID.WIDTH / 2) - 2,
-      y: 0,
-    };
-
-    if (!this.canPlacePiece(this.currentPiece.x, this.currentPiece.y)) {
-      this.gameOver();
-      return;
-    }
-    
+    this.gameUI.setScorePanelVisible(this.mode.showsScorePanel);
+    this.gameUI.updateModeHud(this.mode.getHud());
     this.redrawAll();
-  }
-
-  private lockPiece(): void {
-    if (
-      !this.currentPiece.blocks ||
-      this.currentPiece.type === null ||
-      this.currentPiece.type === undefined
-    ) {
+    if (suspended) {
+      this.isInputLocked = false;
       return;
     }
 
-    // グリッドにピースを固定
-    this.currentPiece.blocks.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        if (cell !== 0) {
-          const gridRow = this.currentPiece.y + rowIndex;
-          const gridCol = this.currentPiece.x + colIndex;
-
-          if (this.isValidGridPosition(gridRow, gridCol)) {
-            this.grid[gridRow][gridCol] = cell;
-          }
-        }
-      });
+    this.isInputLocked = true;
+    this.time.delayedCall(GAME_CONFIG.TIMING.INPUT_LOCK_DURATION, () => {
+      this.isInputLocked = false;
     });
 
-    this.checkAndClearLines();
-
-    // ゲームが続行可能な場合のみ新しいピースを生成
-    if (this.gameState.isPlaying) {
-      this.spawnNewPiece();
-    }
+    this.showGameStartMessage();
   }
 
-  private checkAndClearLines(): void {
-    let linesCleared = 0;
-    const completedRows: number[] = [];
-
-    // 完成した行を特定
-    for (let row = 0; row < GAME_CONFIG.GRID.HEIGHT; row++) {
-      if (this.isRowComplete(row)) {
-        completedRows.push(row);
-      }
-    }
-
-    // 下から上に向かって削除
-    for (let i = completedRows.length - 1; i >= 0; i--) {
-      this.clearLine(completedRows[i]);
-      linesCleared++;
-    }
+  private gameOver(reason: GameEndReason): void {
+    this.gameState.isPlaying = false;
+    clearSuspendedGame(getDefaultStorage());
+    this.saveReplay();
+    this.lastStats = this.statsRecorder?.finish() ?? null;
+    this.statsRecorder = null;
+    this.stackVisibility.startEndReveal();
+    this.redrawAll();
+    this.gameUI.updateModeHud(this.mode.getHud());
 
-    if (linesCleared > 0) {
-      this.updateScore(linesCleared);
+    // 目標を達成したモードはリザルト画面を表示する
+    const result = this.mode.getResult();
+    if (result) {
+      this.gameUI.showResult(result);
+      return;
     }
+    this.gameUI.gameOver(END_REASON_LABELS[reason]);
   }
 
-  private gameOver(): void {
-    this.gameState.isPlaying = false;
-    this.stopFallTimer();
-    this.gameUI.gameOver();
+  private async handleGameStart(selection?: ModeSelection): Promise<void> {
+    if (selection) {
+      this.modeSelection = selection;
+    }
+    this.startGameplay();
   }
 
   /**
-   * ===================================
-   * 既存メソッドの継続...
-   * ===================================
+   * 保存されている中断したゲームを一時停止した状態で再開する
+   * 読み込めない場合や盤面に合わない場合は破棄し、お知らせを表示してメインメニューに戻る
    */
-
-  private setupKeyboardControls(): void {
-    this.keyboardCallbacks.forEach((callback) => {
-      this.input.keyboard!.off("keydown", callback);
-    });
-    this.keyboardCallbacks = [];
-
-    const keyMappings = {
-      LEFT: () => this.handleMove(-1, 0),
-      RIGHT: () => this.handleMove(1, 0),
-      DOWN: () => this.handleMove(0, 1),
-      UP: () => this.handleRotate(),
-      SPACE: () => this.handleMove(0, 1),
-    };
-
-    Object.entries(keyMappings).forEach(([key, action]) => {
-      const callback = () => {
-        if (this.gameState.isPlaying && !this.isInputLocked) {
-          action();
-        }
-      };
-      this.input.keyboard!.on(`keydown-${key}`, callback);
-      this.keyboardCallbacks.push(callback);
-    });
-  }
-
-  // [他のメソッドは省略 - 必要に応じて同様のデバッグ機能を追加]
-
-  private async handleGameStart(): Promise<void> {
-    this.pieceQueue = [];
-    this.startGameplay();
+  private handleGameContinue(): void {
+    const suspended = loadSuspendedGame(getDefaultStorage());
+    this.gameUI.setContinueAvailable(false);
+    try {
+      if (!suspended) {
+        throw new Error("No suspended game");
+      }
+      this.startGameplay(suspended);
+      this.pauseGameplay();
+    } catch {
+      this.stopGameplay();
+      this.gameUI.setState(GameState.MainMenu);
+      this.gameUI.showMessage("COULD NOT RESUME");
+    }
   }
 
   private handleGamePause(): void {
@@ -378,344 +482,152 @@ export class GameScene extends Phaser.Scene {
     this.stopGameplay();
   }
 
-  private pauseGameplay(): void {
-    this.gameState.isPlaying = false;
-
-    if (this.fallTimer) {
-      this.fallTimer.paused = true;
-    }
-  }
-
-  private resumeGameplay(): void {
-    this.gameState.isPlaying = true;
-
-    if (this.fallTimer) {
-      this.fallTimer.paused = false;
-    }
-  }
-
-  private stopGameplay(): void {
-    this.gameState.isPlaying = false;
-
-    this.stopFallTimer();
-    this.clearGrid();
-    this.drawGrid();
-  }
-
-  private restartGame(): void {
-    this.stopGameplay();
-    this.resetGameState();
-    this.gameUI.updateScore(0, 1, 0);
-    this.isInputLocked = false;
-
-    this.pieceQueue = [];
-
-    this.startGameplay();
-  }
-
-  private resetGameState(): void {
-    this.gameState = {
-      isPlaying: true,
-      score: 0,
-      level: 1,
-      lines: 0,
-    };
-  }
-
-  private handleMove(dx: number, dy: number): void {
-    this.movePiece(dx, dy);
-  }
-
-  private handleRotate(): void {
-    this.rotatePiece();
-  }
-
-  private handleDrop(): void {
-    this.dropPiece();
-  }
-
-  private movePiece(dx: number, dy: number): void {
-    if (!this.currentPiece.blocks) return;
-
-    const newX = this.currentPiece.x + dx;
-    const newY = this.currentPiece.y + dy;
-
-    if (this.canPlacePiece(newX, newY)) {
-      this.currentPiece.x = newX;
-      this.currentPiece.y = newY;
-      this.redrawAll();
-    } else if (dy > 0) {
-      this.lockPiece();
-    }
-  }
-
-  private rotatePiece(): void {
-    if (!this.currentPiece.blocks) return;
-
-    const originalShape = this.currentPiece.blocks;
-    const rotatedShape = this.getRotatedShape(originalShape);
-
-    this.currentPiece.blocks = rotatedShape;
-
-    if (!this.canPlacePiece(this.currentPiece.x, this.currentPiece.y)) {
-      if (!this.tryWallKick()) {
-        this.currentPiece.blocks = originalShape;
-      }
-    }
-
-    this.redrawAll();
-  }
-
-  private dropPiece(): void {
-    if (!this.currentPiece.blocks) return;
-
-    while (this.canPlacePiece(this.currentPiece.x, this.currentPiece.y + 1)) {
-      this.currentPiece.y++;
-    }
-
-    this.lockPiece();
-  }
-
-  private canPlacePiece(x: number, y: number): boolean {
-    if (!this.currentPiece.blocks) return false;
-
-    return this.currentPiece.blocks.every((row, rowIndex) => {
-      return row.every((cell, colIndex) => {
-        if (!cell) return true;
-
-        const gridX = x + colIndex;
-        const gridY = y + rowIndex;
-
-        return (
-          this.isValidGridPosition(gridY, gridX) &&
-          this.grid[gridY][gridX] === 0
-        );
-      });
+  /**
+   * プレイ中（一時停止中を含む）のゲームを中断したゲームとして保存する
+   * ページを隠した時・離れる時に呼び出され、次回の起動時にメインメニューから再開できる
+   */
+  private suspendGame(): void {
+    const engineState = this.engine.getSaveState();
+    if (!engineState || !this.replayRecorder) return;
+
+    saveSuspendedGame(getDefaultStorage(), {
+      replay: this.replayRecorder.finish(),
+      engine: engineState,
+      mode: this.mode.getSaveState(),
     });
   }
 
-  private isValidGridPosition(row: number, col: number): boolean {
-    return (
-      row >= 0 &&
-      row < GAME_CONFIG.GRID.HEIGHT &&
-      col >= 0 &&
-      col < GAME_CONFIG.GRID.WIDTH
-    );
-  }
-
-  private tryWallKick(): boolean {
-    for (const offset of WALL_KICK_OFFSETS) {
-      const newX = this.currentPiece.x + offset.x;
-      const newY = this.currentPiece.y + offset.y;
-
-      if (this.canPlacePiece(newX, newY)) {
-        this.currentPiece.x = newX;
-        this.currentPiece.y = newY;
-        return true;
-      }
-    }
+  /**
+   * 記録を終えたリプレイを最後のリプレイとして保存する
+   */
+  private saveReplay(): void {
+    if (!this.replayRecorder) return;
 
-    return false;
+    this.lastReplay = this.replayRecorder.finish();
+    this.replayRecorder = null;
+    saveJSON(getDefaultStorage(), "replay.last", encodeReplay(this.lastReplay));
   }
 
-  private getRotatedShape(shape: number[][]): number[][] {
-    const n = shape.length;
-    const rotated: number[][] = Array(n)
-      .fill(null)
-      .map(() => Array(n).fill(0));
-
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        rotated[j][n - 1 - i] = shape[i][j];
-      }
+  /**
+   * 現在の盤面と操作中のピースをフュミンとしてクリップボードにコピーする
+   * 盤面の幅が10列でない場合などは書き出せないため、お知らせを表示する
+   */
+  private copyFumen(): void {
+    const { grid, activePiece } = this.engine.getState();
+    try {
+      const fumen = encodeFumen([createFumenPage(grid, activePiece)]);
+      navigator.clipboard?.writeText(fumen).catch(() => undefined);
+    } catch {
+      this.gameUI.showMessage("COULD NOT EXPORT FUMEN");
     }
-
-    return rotated;
   }
 
-  private isRowComplete(row: number): boolean {
-    return (
-      row >= 0 &&
-      row < GAME_CONFIG.GRID.HEIGHT &&
-      this.grid[row].every((cell) => cell !== 0)
-    );
-  }
+  /**
+   * 最後のゲームの統計をJSONとCSVのファイルとしてダウンロードする
+   */
+  private exportStats(): void {
+    if (!this.lastStats) return;
 
-  private clearLine(row: number): void {
-    this.grid.splice(row, 1);
-    this.grid.unshift(new Array(GAME_CONFIG.GRID.WIDTH).fill(0));
+    const name = `tetris-stats-${this.lastStats.date.replace(/[:.]/g, "-")}`;
+    const json = formatGameStatsJSON(this.lastStats);
+    const csv = formatGameStatsCSV(this.lastStats);
+    this.downloadFile(`${name}.json`, json, "application/json");
+    this.downloadFile(`${name}.csv`, csv, "text/csv");
   }
 
-  private updateScore(linesCleared: number): void {
-    this.gameState.lines += linesCleared;
-    this.gameState.score += linesCleared * GAME_CONFIG.SCORING.POINTS_PER_LINE;
-
-    const newLevel = Math.floor(this.gameState.lines / 10) + 1;
-    if (newLevel > this.gameState.level) {
-      this.gameState.level = newLevel;
-      this.updateFallSpeed();
-    }
-
-    this.gameUI.updateScore(
-      this.gameState.score,
-      this.gameState.level,
-      this.gameState.lines
-    );
+  /**
+   * テキストをファイルとしてダウンロードさせる
+   * @param filename - 保存するファイル名
+   * @param text - ファイルの内容
+   * @param type - ファイルのMIMEタイプ
+   */
+  private downloadFile(filename: string, text: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
   }
 
-  private startFallTimer(): void {
-    this.stopFallTimer();
+  /**
+   * 最後のリプレイを再生画面で再生する（閉じるとこのシーンに戻る）
+   */
+  private watchReplay(): void {
+    if (!this.lastReplay) return;
 
-    const delay = this.calculateFallDelay();
-    this.fallTimer = this.time.addEvent({
-      delay,
-      callback: () => {
-        if (this.gameState.isPlaying) {
-          this.movePiece(0, 1);
-        }
-      },
-      loop: true,
-    });
+    this.scene.launch("ReplayScene", { replay: this.lastReplay });
+    this.scene.sleep();
   }
 
-  private stopFallTimer(): void {
-    if (this.fallTimer) {
-      this.fallTimer.destroy();
-      this.fallTimer = null;
+  private flashStack(): void {
+    if (this.gameState.isPlaying && this.stackVisibility.isActive()) {
+      this.stackVisibility.flash();
     }
   }
 
-  private updateFallSpeed(): void {
-    if (this.fallTimer && this.gameState.isPlaying) {
-      this.startFallTimer();
-    }
+  private pauseGameplay(): void {
+    this.gameState.isPlaying = false;
+    this.engine.setPaused(true);
   }
 
-  private calculateFallDelay(): number {
-    return Math.max(
-      100,
-      GAME_CONFIG.TIMING.FALL_DELAY - (this.gameState.level - 1) * 100
-    );
+  private resumeGameplay(): void {
+    this.gameState.isPlaying = true;
+    this.engine.setPaused(false);
   }
 
-  private redrawAll(): void {
-    this.drawGrid();
-    this.drawCurrentPiece();
+  private stopGameplay(): void {
+    this.gameState.isPlaying = false;
+    clearSuspendedGame(getDefaultStorage());
+    this.replayRecorder = null;
+    this.statsRecorder = null;
+    this.mode.detach();
+    this.gameUI.updateModeHud([]);
+    this.gameUI.setScorePanelVisible(true);
+    this.gameUI.setFlashButtonVisible(false);
+    this.clearGrid();
   }
 
-  private drawGrid(): void {
-    this.gridGraphics.clear();
-
-    const { startX, startY } = this.getGridPosition();
+  private restartGame(): void {
+    this.stopGameplay();
+    this.gameUI.updateScore(0, 1, 0);
+    this.isInputLocked = false;
 
-    this.drawGridBackground(startX, startY);
-    this.drawGridLines(startX, startY);
-    this.drawGridBorder(startX, startY);
-    this.drawGridCells();
+    this.startGameplay();
   }
 
-  private getGridPosition(): { startX: number; startY: number } {
-    const { WIDTH, HEIGHT, CELL_SIZE } = GAME_CONFIG.GRID;
-    const startX = (this.scale.width - WIDTH * CELL_SIZE) / 2;
-    const startY = (this.scale.height - HEIGHT * CELL_SIZE) / 2;
-    return { startX, startY };
+  private redrawAll(): void {
+    const state = this.engine.getState();
+    // ガベージの追加など、固定以外で盤面が変わった分を反映する
+    this.stackVisibility.sync(state.grid);
+    this.drawGrid(state);
   }
 
-  private drawGridBackground(startX: number, startY: number): void {
-    const { WIDTH, HEIGHT, CELL_SIZE } = GAME_CONFIG.GRID;
-    const { GRID_BACKGROUND, GRID_BACKGROUND_ALPHA } = GAME_CONFIG.COLORS;
-
-    this.gridGraphics.fillStyle(GRID_BACKGROUND, GRID_BACKGROUND_ALPHA);
-    this.gridGraphics.fillRect(
-      startX,
-      startY,
-      WIDTH * CELL_SIZE,
-      HEIGHT * CELL_SIZE
+  private drawGrid(state: GameEngineState = this.engine.getState()): void {
+    this.boardRenderer.draw(state, (row, col) =>
+      this.stackVisibility.getAlpha(row, col)
     );
   }
 
-  private drawGridLines(startX: number, startY: number): void {
-    const { WIDTH, HEIGHT, CELL_SIZE } = GAME_CONFIG.GRID;
-    const { GRID_LINE, GRID_LINE_ALPHA } = GAME_CONFIG.COLORS;
-
-    this.gridGraphics.lineStyle(1, GRID_LINE, GRID_LINE_ALPHA);
-
-    for (let col = 0; col <= WIDTH; col++) {
-      const x = startX + col * CELL_SIZE;
-      this.gridGraphics.moveTo(x, startY);
-      this.gridGraphics.lineTo(x, startY + HEIGHT * CELL_SIZE);
-    }
-
-    for (let row = 0; row <= HEIGHT; row++) {
-      const y = startY + row * CELL_SIZE;
-      this.gridGraphics.moveTo(startX, y);
-      this.gridGraphics.lineTo(startX + WIDTH * CELL_SIZE, y);
-    }
-
-    this.gridGraphics.strokePath();
-  }
-
-  private drawGridBorder(startX: number, startY: number): void {
-    const { WIDTH, HEIGHT, CELL_SIZE } = GAME_CONFIG.GRID;
-    const { GRID_BORDER } = GAME_CONFIG.COLORS;
-
-    this.gridGraphics.lineStyle(2, GRID_BORDER, 1);
-    this.gridGraphics.strokeRect(
-      startX,
-      startY,
-      WIDTH * CELL_SIZE,
-      HEIGHT * CELL_SIZE
+  /**
+   * キャンバスの大きさから、盤面が収まるセルサイズを計算する
+   */
+  private computeCellSize(): number {
+    const { AREA_WIDTH_RATIO, AREA_HEIGHT_RATIO, MAX_CELL_SIZE } =
+      GAME_CONFIG.LAYOUT;
+    const size = computeCellSize(
+      this.board,
+      this.scale.width * AREA_WIDTH_RATIO,
+      this.scale.height * AREA_HEIGHT_RATIO
     );
+    return Math.min(MAX_CELL_SIZE, size);
   }
 
-  private drawGridCells(): void {
-    for (let row = 0; row < GAME_CONFIG.GRID.HEIGHT; row++) {
-      for (let col = 0; col < GAME_CONFIG.GRID.WIDTH; col++) {
-        if (this.grid[row][col] !== 0) {
-          this.drawCell(row, col, this.grid[row][col]);
-        }
-      }
-    }
-  }
-
-  private drawCell(row: number, col: number, value: number): void {
-    const { startX, startY } = this.getGridPosition();
-    const { CELL_SIZE } = GAME_CONFIG.GRID;
-
-    const x = startX + col * CELL_SIZE;
-    const y = startY + row * CELL_SIZE;
-    // グリッドセルでは値をそのまま使用（I-テトロミノの値は1）
-    const color = TETROMINO_COLORS[value] || 0xffffff;
-
-    this.gridGraphics.fillStyle(color, 1);
-    this.gridGraphics.fillRect(x + 1, y + 1, CELL_SIZE - 2, CELL_SIZE - 2);
-  }
-
-  private drawCurrentPiece(): void {
-    if (!this.currentPiece.blocks || this.currentPiece.type === null) return;
-
-    const { startX, startY } = this.getGridPosition();
-    const { CELL_SIZE } = GAME_CONFIG.GRID;
-    const colorIndex = this.currentPiece.type as number;
-    // I-テトロミノ（type=0）の場合、インデックス1（シアン色）を使用
-    const color = TETROMINO_COLORS[colorIndex + 1];
-
-    this.currentPiece.blocks.forEach((row, rowIndex) => {
-      row.forEach((cell, colIndex) => {
-        if (cell) {
-          const x = startX + (this.currentPiece.x + colIndex) * CELL_SIZE;
-          const y = startY + (this.currentPiece.y + rowIndex) * CELL_SIZE;
-
-          this.gridGraphics.fillStyle(color, 1);
-          this.gridGraphics.fillRect(
-            x + 1,
-            y + 1,
-            CELL_SIZE - 2,
-            CELL_SIZE - 2
-          );
-        }
-      });
-    });
+  private getGridPosition(): { startX: number; startY: number } {
+    const { width, height } = this.board;
+    const startX = (this.scale.width - width * this.cellSize) / 2;
+    const startY = (this.scale.height - height * this.cellSize) / 2;
+    return { startX, startY };
   }
 
   private showGameStartMessage(): void {
@@ -738,20 +650,14 @@ export class GameScene extends Phaser.Scene {
   }
 
   public clearGrid(): void {
-    for (let row = 0; row < GAME_CONFIG.GRID.HEIGHT; row++) {
-      for (let col = 0; col < GAME_CONFIG.GRID.WIDTH; col++) {
-        this.grid[row][col] = 0;
-      }
-    }
+    this.engine.reset();
+    this.drawGrid();
   }
 
   private cleanup(): void {
+    this.mode.detach();
     this.gameUI?.destroy();
-    this.stopFallTimer();
-    this.keyboardCallbacks.forEach((callback) => {
-      this.input.keyboard!.off("keydown", callback);
-    });
-    this.keyboardCallbacks = [];
+    this.inputHandler?.destroy();
   }
 
 }
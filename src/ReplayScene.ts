@@ -0,0 +1,256 @@
+import * as Phaser from "phaser";
+import { getDefaultUIConfig } from "./ui/gameUI";
+import { BoardRenderer } from "./ui/boardRenderer";
+import { FRAME_MS, FRAMES_PER_SECOND } from "./gameEngine";
+import { computeCellSize } from "./boardSpec";
+import { Replay, ReplayPlayer } from "./replay";
+import { createFumenPage, encodeFumen } from "./fumen";
+import {
+  StackVisibility,
+  getDefaultStackVisibilityConfig,
+} from "./stackVisibility";
+
+/**
+ * 再生画面の定数
+ */
+const REPLAY_CONFIG = {
+  LAYOUT: {
+    // 操作ボタンを置くため、ゲーム画面より盤面を小さく描画する
+    AREA_WIDTH_RATIO: 0.84,
+    AREA_HEIGHT_RATIO: 0.72,
+    MAX_CELL_SIZE: 30,
+    BOARD_TOP: 50,
+    CONTROLS_BOTTOM: 40,
+  },
+} as const;
+
+/**
+ * リプレイを再生するシーン
+ * 再生・一時停止、0.25〜8倍の再生速度、コマ送りができる
+ * 閉じるとゲーム画面に戻る
+ */
+export class ReplayScene extends Phaser.Scene {
+  private replay!: Replay;
+  private player!: ReplayPlayer;
+  private boardRenderer!: BoardRenderer;
+  private stackVisibility!: StackVisibility;
+
+  // UI要素
+  private hudText!: Phaser.GameObjects.Text;
+  private statusText!: Phaser.GameObjects.Text;
+  // 再生状態の代わりに一定時間表示するお知らせ
+  private message: string | null = null;
+  private messageTimer: Phaser.Time.TimerEvent | null = null;
+  private playButton!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: "ReplayScene" });
+  }
+
+  init(data: { replay: Replay }): void {
+    this.replay = data.replay;
+  }
+
+  create(): void {
+    this.player = new ReplayPlayer(this.replay);
+    this.setupStackVisibility();
+    this.setupBoard();
+    this.setupUI();
+    this.setupKeyboard();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+      this.player.destroy()
+    );
+    this.redraw();
+  }
+
+  update(_time: number, delta: number): void {
+    this.player.update(delta);
+    if (this.player.isFinished() && this.stackVisibility.isEndRevealing()) {
+      this.stackVisibility.update(delta);
+    }
+    this.redraw();
+  }
+
+  /**
+   * 記録時と同じ見え方でブロックを表示する
+   */
+  private setupStackVisibility(): void {
+    const engine = this.player.getEngine();
+    const mode = this.player.getMode();
+    this.stackVisibility = new StackVisibility({
+      ...getDefaultStackVisibilityConfig(),
+      ...this.replay.stackVisibility,
+      mode: mode.stackVisibility ?? this.replay.stackVisibility.mode,
+    });
+    this.stackVisibility.reset(
+      engine.getState().grid,
+      this.replay.rules.board.height
+    );
+
+    engine.on("frame", () => this.stackVisibility.update(FRAME_MS));
+    engine.on("lock", (result) => {
+      this.stackVisibility.onLock(result.clearedRows, engine.getState().grid);
+    });
+    engine.on("gameOver", () => this.stackVisibility.startEndReveal());
+  }
+
+  private setupBoard(): void {
+    const { AREA_WIDTH_RATIO, AREA_HEIGHT_RATIO, MAX_CELL_SIZE, BOARD_TOP } =
+      REPLAY_CONFIG.LAYOUT;
+    const board = this.replay.rules.board;
+    const cellSize = Math.min(
+      MAX_CELL_SIZE,
+      computeCellSize(
+        board,
+        this.scale.width * AREA_WIDTH_RATIO,
+        this.scale.height * AREA_HEIGHT_RATIO
+      )
+    );
+    this.boardRenderer = new BoardRenderer(this, board, cellSize, {
+      x: (this.scale.width - board.width * cellSize) / 2,
+      y: BOARD_TOP,
+    });
+  }
+
+  /**
+   * タイトル・HUD・再生状態と、操作ボタンを作成する
+   */
+  private setupUI(): void {
+    const uiConfig = getDefaultUIConfig();
+    const { width, height } = this.scale;
+    const { CONTROLS_BOTTOM } = REPLAY_CONFIG.LAYOUT;
+    const textStyle = {
+      fontFamily: uiConfig.fontFamily,
+      fontSize: "16px",
+      color: uiConfig.textColor,
+      align: "center",
+    };
+
+    this.add
+      .text(width / 2, 20, `REPLAY  ${this.player.getMode().name}`, {
+        ...textStyle,
+        fontSize: "20px",
+        color: uiConfig.primaryColor,
+      })
+      .setOrigin(0.5);
+    this.hudText = this.add
+      .text(width / 2, height - CONTROLS_BOTTOM - 64, "", textStyle)
+      .setOrigin(0.5);
+    this.statusText = this.add
+      .text(width / 2, height - CONTROLS_BOTTOM - 40, "", textStyle)
+      .setOrigin(0.5);
+
+    const buttons: Array<[string, () => void]> = [
+      ["<<", () => this.player.changeSpeed(-1)],
+      ["PAUSE", () => this.player.togglePaused()],
+      [">>", () => this.player.changeSpeed(1)],
+      ["STEP", () => this.stepFrame()],
+      ["FUMEN", () => this.copyFumen()],
+      ["BACK", () => this.close()],
+    ];
+    buttons.forEach(([label, callback], index) => {
+      const button = this.add
+        .text(
+          (width / buttons.length) * (index + 0.5),
+          height - CONTROLS_BOTTOM,
+          label,
+          { ...textStyle, fontSize: "18px", color: uiConfig.primaryColor }
+        )
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+      button.on("pointerdown", callback);
+      if (index === 1) {
+        this.playButton = button;
+      }
+    });
+  }
+
+  /**
+   * キーボード操作
+   * SPACE: 再生・一時停止、←→: 速度、PERIOD: コマ送り、F: フュミンをコピー、ESC: 戻る
+   */
+  private setupKeyboard(): void {
+    const keyboard = this.input.keyboard;
+    if (!keyboard) return;
+
+    keyboard.on("keydown-SPACE", () => this.player.togglePaused());
+    keyboard.on("keydown-LEFT", () => this.player.changeSpeed(-1));
+    keyboard.on("keydown-RIGHT", () => this.player.changeSpeed(1));
+    keyboard.on("keydown-PERIOD", () => this.stepFrame());
+    keyboard.on("keydown-F", () => this.copyFumen());
+    keyboard.on("keydown-ESC", () => this.close());
+  }
+
+  /**
+   * 一時停止してから1フレームだけ進める
+   */
+  private stepFrame(): void {
+    if (!this.player.isPaused()) {
+      this.player.togglePaused();
+    }
+    this.player.stepFrame();
+  }
+
+  /**
+   * 再生中の局面（盤面と操作中のピース）をフュミンとしてコピーする
+   * 書き出せない盤面の場合はお知らせを表示する
+   */
+  private copyFumen(): void {
+    const { grid, activePiece } = this.player.getEngine().getState();
+    try {
+      const fumen = encodeFumen([createFumenPage(grid, activePiece)]);
+      navigator.clipboard?.writeText(fumen).catch(() => undefined);
+    } catch {
+      this.showMessage("COULD NOT EXPORT FUMEN");
+    }
+  }
+
+  /**
+   * 再生状態の行にお知らせを一定時間表示する
+   * @param text - 表示する文字列
+   */
+  private showMessage(text: string): void {
+    this.message = text;
+    this.messageTimer?.remove();
+    this.messageTimer = this.time.delayedCall(2500, () => {
+      this.message = null;
+      this.messageTimer = null;
+    });
+  }
+
+  private redraw(): void {
+    const state = this.player.getEngine().getState();
+    this.stackVisibility.sync(state.grid);
+    this.boardRenderer.draw(state, (row, col) =>
+      this.stackVisibility.getAlpha(row, col)
+    );
+
+    this.hudText.setText(
+      this.player
+        .getMode()
+        .getHud()
+        .map((item) => `${item.label} ${item.value}`)
+        .join("  ")
+    );
+    const status = this.player.isFinished()
+      ? "END"
+      : this.player.isPaused()
+        ? "PAUSED"
+        : "PLAYING";
+    const seconds = (frame: number) => (frame / FRAMES_PER_SECOND).toFixed(1);
+    this.statusText.setText(
+      this.message ??
+        `${this.player.getSpeed()}x  ${status}  ` +
+          `${seconds(this.player.getFrame())}/${seconds(this.replay.frames)}s`
+    );
+    this.playButton.setText(this.player.isPaused() ? "PLAY" : "PAUSE");
+  }
+
+  /**
+   * 再生画面を閉じてゲーム画面に戻る
+   */
+  private close(): void {
+    this.scene.wake("GameScene");
+    this.scene.stop();
+  }
+}
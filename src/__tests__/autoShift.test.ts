@@ -0,0 +1,129 @@
+import {
+  AutoShiftController,
+  HandlingConfig,
+  ShiftDirection,
+} from "../autoShift";
+
+describe("autoShift.ts", () => {
+  // テスト用のヘルパー関数
+  // 盤面の代わりに、幅10列・高さ20行の範囲で位置だけを追跡する
+  const createController = (config: HandlingConfig) => {
+    const state = { x: 4, y: 0, shifts: [] as ShiftDirection[] };
+    const controller = new AutoShiftController(config, {
+      shift: (direction) => {
+        const next = state.x + direction;
+        if (next < 0 || next > 9) return false;
+        state.x = next;
+        state.shifts.push(direction);
+        return true;
+      },
+      softDrop: () => {
+        if (state.y >= 19) return false;
+        state.y++;
+        return true;
+      },
+      getDropInterval: () => 1000,
+    });
+    return { controller, state };
+  };
+
+  test("押した瞬間に1マス移動し、DAS経過後にARR間隔で連続移動する", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 20,
+      sdf: 20,
+    });
+
+    controller.pressShift(1);
+    expect(state.x).toBe(5);
+
+    controller.update(99);
+    expect(state.x).toBe(5);
+
+    // DAS完了で1マス、超過分の時間はARRに持ち越される
+    controller.update(21);
+    expect(state.x).toBe(7);
+    expect(controller.isCharged()).toBe(true);
+  });
+
+  test("ARR 0ではDAS完了時に壁まで瞬時に移動する", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 0,
+      sdf: 20,
+    });
+
+    controller.pressShift(-1);
+    controller.update(100);
+
+    expect(state.x).toBe(0);
+  });
+
+  test("DASのチャージはキーを押している限り維持される", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 0,
+      sdf: 20,
+    });
+
+    controller.pressShift(1);
+    controller.update(100);
+    expect(state.x).toBe(9);
+
+    // 新しいピースが出現した想定で位置を戻すと、次のフレームで即座に壁まで移動する
+    state.x = 4;
+    controller.update(16);
+    expect(state.x).toBe(9);
+  });
+
+  test("両方向を押している場合は後から押した方向が優先される", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 20,
+      sdf: 20,
+    });
+
+    controller.pressShift(-1);
+    controller.pressShift(1);
+    expect(controller.getActiveDirection()).toBe(1);
+    expect(state.shifts).toEqual([-1, 1]);
+
+    // 右を離すと左に戻り、DASは最初からチャージし直す
+    controller.releaseShift(1);
+    expect(controller.getActiveDirection()).toBe(-1);
+    controller.update(99);
+    expect(state.shifts).toEqual([-1, 1]);
+    controller.update(1);
+    expect(state.shifts).toEqual([-1, 1, -1]);
+  });
+
+  test("ソフトドロップは落下間隔をSDFで割った間隔で落下する", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 20,
+      sdf: 20,
+    });
+
+    controller.pressSoftDrop();
+    expect(state.y).toBe(1);
+
+    controller.update(100);
+    expect(state.y).toBe(3);
+
+    controller.releaseSoftDrop();
+    controller.update(100);
+    expect(state.y).toBe(3);
+  });
+
+  test("SDFが無限大の場合は瞬時に接地する", () => {
+    const { controller, state } = createController({
+      das: 100,
+      arr: 20,
+      sdf: Infinity,
+    });
+
+    controller.pressSoftDrop();
+
+    expect(state.y).toBe(19);
+  });
+});
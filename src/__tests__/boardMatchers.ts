@@ -0,0 +1,79 @@
+import {
+  BoardNotation,
+  formatBoardNotation,
+  getBoardNotation,
+  parseBoardNotation,
+} from "../boardNotation";
+import { getBoardSpecFromGrid } from "../boardSpec";
+import { GameEngineState } from "../gameEngine";
+
+/**
+ * toMatchBoard で比べられる値（グリッド、テキストの盤面、エンジンの状態）
+ */
+type BoardLike = number[][] | BoardNotation | GameEngineState;
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      /**
+       * 盤面がテキストの盤面と一致することを確かめる
+       * 操作中のピースは向きではなく占めるセルで比べ、
+       * ホールド・ネクストは期待する盤面に書いた場合だけ比べる
+       * @param expected - 盤面のテキスト（形式は BoardNotation を参照）
+       */
+      toMatchBoard(expected: string): R;
+    }
+  }
+}
+
+function toNotation(received: BoardLike): BoardNotation {
+  if (Array.isArray(received)) {
+    return { grid: received, activePiece: null };
+  }
+  return "nextQueue" in received ? getBoardNotation(received) : received;
+}
+
+/**
+ * ブロック（操作中のピースを含む）のある最も上の行から最下段までの行数
+ */
+function countUsedRows(notation: BoardNotation): number {
+  const { grid, activePiece } = notation;
+  return formatBoardNotation({ grid, activePiece }, { rotation: false }).split(
+    "\n"
+  ).length;
+}
+
+expect.extend({
+  toMatchBoard(received: BoardLike, expected: string) {
+    const actual = toNotation(received);
+    const spec =
+      !Array.isArray(received) && "board" in received
+        ? received.board
+        : getBoardSpecFromGrid(actual.grid);
+    const wanted = parseBoardNotation(expected, spec);
+    const compared: BoardNotation = {
+      grid: actual.grid,
+      activePiece: actual.activePiece,
+      hold: wanted.hold === undefined ? undefined : (actual.hold ?? null),
+      next: wanted.next === undefined ? undefined : (actual.next ?? []),
+    };
+
+    // 両方のブロックが収まる行数に揃えて、テキスト同士で比べる
+    const rows = Math.max(countUsedRows(wanted), countUsedRows(compared));
+    const format = (notation: BoardNotation) =>
+      formatBoardNotation(notation, { rows, rotation: false });
+    const expectedText = format(wanted);
+    const receivedText = format(compared);
+    const pass = expectedText === receivedText;
+
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `${this.utils.matcherHint(".not.toMatchBoard")}\n\n` +
+            `Expected board not to be:\n${expectedText}`
+          : `${this.utils.matcherHint(".toMatchBoard")}\n\n` +
+            `${this.utils.diff(expectedText, receivedText)}`,
+    };
+  },
+});
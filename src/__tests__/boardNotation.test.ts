@@ -0,0 +1,145 @@
+import {
+  formatBoardNotation,
+  getBoardNotation,
+  parseBoardNotation,
+} from "../boardNotation";
+import { DEFAULT_BOARD_SPEC, createEmptyGrid } from "../boardSpec";
+import {
+  GameEngine,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import { GARBAGE_CELL, TetrominoType } from "../tetromino";
+
+describe("boardNotation.ts", () => {
+  const bottom = createEmptyGrid(DEFAULT_BOARD_SPEC).length - 1;
+
+  test("盤面・操作中のピース・ホールド・ネクストを読み込む", () => {
+    const notation = parseBoardNotation(`
+      hold:T next:IOZ
+      ....s.....
+      ....ss....
+      .....s....
+      J.........
+      JJJ..GGGGG
+    `);
+
+    expect(notation.hold).toBe(TetrominoType.T);
+    expect(notation.next).toEqual([
+      TetrominoType.I,
+      TetrominoType.O,
+      TetrominoType.Z,
+    ]);
+    expect(notation.grid[bottom]).toEqual([6, 6, 6, 0, 0, 8, 8, 8, 8, 8]);
+    expect(notation.grid[bottom - 1][0]).toBe(TetrominoType.J + 1);
+    expect(notation.grid[bottom - 2].every((cell) => cell === 0)).toBe(true);
+    expect(notation.activePiece).toMatchObject({
+      type: TetrominoType.S,
+      rotation: 1,
+    });
+  });
+
+  test("書き出したテキストを読み込むと同じ盤面に戻る", () => {
+    const text = [
+      "hold:- next:LJ",
+      "...i......",
+      "...i......",
+      "...i......",
+      "...i......",
+      "..........",
+      "..........",
+      "...*......",
+      "...*......",
+      "...*......",
+      "O..*......",
+      "OO.GGGGGGG",
+    ].join("\n");
+
+    const notation = parseBoardNotation(text);
+    expect(notation.hold).toBeNull();
+    expect(notation.grid[bottom][1]).toBe(TetrominoType.O + 1);
+    expect(notation.grid[bottom][3]).toBe(GARBAGE_CELL);
+    expect(formatBoardNotation(notation, { ghost: true })).toBe(text);
+    expect(formatBoardNotation(notation)).toBe(text.replace(/\*/g, "."));
+  });
+
+  test("同じ形になる向きが複数ある場合は向きを書き出す", () => {
+    const horizontal = parseBoardNotation("..........\n...iiii...");
+    expect(horizontal.activePiece?.rotation).toBe(0);
+    expect(formatBoardNotation(horizontal)).toBe("...iiii...");
+
+    const flipped = parseBoardNotation("rotation:2\n...iiii...");
+    expect(flipped.activePiece?.rotation).toBe(2);
+    expect(formatBoardNotation(flipped)).toBe("rotation:2\n...iiii...");
+    expect(parseBoardNotation(formatBoardNotation(flipped))).toEqual(flipped);
+  });
+
+  test("形式の誤りは場所を含めたエラーになる", () => {
+    expect(() => parseBoardNotation("..........\n.........")).toThrow(
+      "Invalid board notation: rows[1] must be 10 cells wide"
+    );
+    expect(() => parseBoardNotation("....X.....")).toThrow(
+      'Invalid board notation: rows[0] has an unknown cell "X"'
+    );
+    expect(() => parseBoardNotation("...tt.....\n...tt.....")).toThrow(
+      "Invalid board notation: activePiece cells do not form T"
+    );
+    expect(() => parseBoardNotation("...ttt.z..\n....t.....")).toThrow(
+      "Invalid board notation: rows[0] has cells of more than one active piece"
+    );
+    expect(() => parseBoardNotation("queue:IO\n..........")).toThrow(
+      'Invalid board notation: header has an unknown field "queue"'
+    );
+    expect(() =>
+      parseBoardNotation("...oo.....\n...oo.....\n..........\n....**....")
+    ).toThrow(
+      "Invalid board notation: ghost does not match where the active piece lands"
+    );
+    expect(() =>
+      parseBoardNotation(
+        "..........\n".repeat(DEFAULT_BOARD_SPEC.height * 2 + 1)
+      )
+    ).toThrow("Invalid board notation: rows must be at most");
+
+    const grid = createEmptyGrid(DEFAULT_BOARD_SPEC);
+    grid[bottom][0] = 9;
+    expect(() => formatBoardNotation({ grid, activePiece: null })).toThrow(
+      `Invalid board notation: grid[${bottom}][0] has no character for 9`
+    );
+  });
+
+  test("toMatchBoard はエンジンの状態もテキストの盤面と比べられる", () => {
+    const config = getDefaultEngineConfig();
+    const { O, T, I, L, S } = TetrominoType;
+    const engine = new GameEngine({
+      ...config,
+      nextHold: { ...config.nextHold, sequence: [O, T, I, L, S] },
+    });
+    engine.start();
+    engine.applyAction(TetrisAction.HardDrop);
+    expect(engine.getState().grid).toMatchBoard(`
+      ....OO....
+      ....OO....
+    `);
+
+    // 操作中のTを着地させる（固定はされない）
+    for (let i = 0; i < 40; i++) {
+      engine.applyAction(TetrisAction.SoftDrop);
+    }
+    expect(engine.getState()).toMatchBoard(`
+      hold:- next:ILS
+      ....t.....
+      ...ttt....
+      ....OO....
+      ....OO....
+    `);
+    expect(engine.getState()).not.toMatchBoard(`
+      hold:T
+      ....t.....
+      ...ttt....
+      ....OO....
+      ....OO....
+    `);
+    expect(getBoardNotation(engine.getState()).activePiece?.type).toBe(T);
+  });
+});
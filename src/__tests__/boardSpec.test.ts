@@ -0,0 +1,76 @@
+import {
+  BOARD_SIZE_LIMITS,
+  DEFAULT_BOARD_SPEC,
+  computeCellSize,
+  createBoardSpec,
+  createEmptyGrid,
+  getBoardSpecFromGrid,
+  getTotalRows,
+  isGridMatchingSpec,
+} from "../boardSpec";
+
+describe("boardSpec.ts", () => {
+  describe("createBoardSpec", () => {
+    test("範囲内の寸法で作成できる", () => {
+      expect(createBoardSpec(4, 10, 0)).toEqual({
+        width: 4,
+        height: 10,
+        bufferRows: 0,
+      });
+      expect(createBoardSpec(20, 40).bufferRows).toBe(
+        DEFAULT_BOARD_SPEC.bufferRows
+      );
+    });
+
+    test("範囲外や整数でない寸法はエラーになる", () => {
+      const { minWidth, maxWidth, minHeight, maxHeight } = BOARD_SIZE_LIMITS;
+
+      expect(() => createBoardSpec(minWidth - 1, 20)).toThrow();
+      expect(() => createBoardSpec(maxWidth + 1, 20)).toThrow();
+      expect(() => createBoardSpec(10, minHeight - 1)).toThrow();
+      expect(() => createBoardSpec(10, maxHeight + 1)).toThrow();
+      expect(() => createBoardSpec(10.5, 20)).toThrow();
+      expect(() => createBoardSpec(10, 20, -1)).toThrow();
+    });
+  });
+
+  describe("グリッド", () => {
+    test("バッファ行を含む空のグリッドを作成する", () => {
+      const spec = createBoardSpec(6, 12, 3);
+      const grid = createEmptyGrid(spec);
+
+      expect(getTotalRows(spec)).toBe(15);
+      expect(grid).toHaveLength(15);
+      expect(grid.every((row) => row.length === 6)).toBe(true);
+    });
+
+    test("グリッドから寸法を求めると全ての行が可視領域になる", () => {
+      const grid = createEmptyGrid(createBoardSpec(8, 16, 4));
+
+      expect(getBoardSpecFromGrid(grid)).toEqual({
+        width: 8,
+        height: 20,
+        bufferRows: 0,
+      });
+    });
+
+    test("グリッドの大きさが盤面の寸法と一致するか判定する", () => {
+      const spec = createBoardSpec(6, 12, 3);
+      const grid = createEmptyGrid(spec);
+
+      expect(isGridMatchingSpec(grid, spec)).toBe(true);
+      expect(isGridMatchingSpec(grid.slice(1), spec)).toBe(false);
+      expect(isGridMatchingSpec(grid, createBoardSpec(7, 12, 3))).toBe(false);
+    });
+  });
+
+  describe("computeCellSize", () => {
+    test("描画領域に収まる最大の整数サイズを返す", () => {
+      expect(computeCellSize(DEFAULT_BOARD_SPEC, 302, 601)).toBe(30);
+      // 縦長の盤面は高さで制限される
+      expect(computeCellSize(createBoardSpec(10, 40), 300, 600)).toBe(15);
+      // 横長の盤面は幅で制限される
+      expect(computeCellSize(createBoardSpec(20, 20), 300, 600)).toBe(15);
+    });
+  });
+});
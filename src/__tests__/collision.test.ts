@@ -3,6 +3,7 @@ import {
   placeTetromino,
   findCompletedRows,
   removeRows,
+  pushRowsUp,
   canMoveDown,
   canMoveLeft,
   canMoveRight,
@@ -14,6 +15,8 @@ import {
   Grid,
   BlockShape,
 } from "../collision";
+import { BoardSpec, createEmptyGrid as createGrid } from "../boardSpec";
+import { parseBoardNotation } from "../boardNotation";
 
 describe("collision.ts", () => {
   // テスト用のヘルパー関数
@@ -23,6 +26,14 @@ describe("collision.ts", () => {
       .map(() => Array(GRID_WIDTH).fill(0));
   };
 
+  // テキストの盤面からグリッドを作る（最後の行が最下段）
+  const board = (text: string): Grid =>
+    parseBoardNotation(text, {
+      width: GRID_WIDTH,
+      height: GRID_HEIGHT,
+      bufferRows: 0,
+    }).grid;
+
   describe("isPositionValid", () => {
     test("空のグリッドでは有効な位置に配置可能", () => {
       const grid = createEmptyGrid();
@@ -142,17 +153,12 @@ describe("collision.ts", () => {
 
   describe("findCompletedRows", () => {
     test("完全に埋まった行を検出", () => {
-      const grid = createEmptyGrid();
-
-      // 19行目を完全に埋める
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        grid[19][col] = 1;
-      }
-
-      // 17行目も完全に埋める
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        grid[17][col] = 2;
-      }
+      // 17行目と19行目が埋まっている
+      const grid = board(`
+        TTTTTTTTTT
+        ..........
+        IIIIIIIIII
+      `);
 
       const completedRows = findCompletedRows(grid);
       expect(completedRows).toEqual([17, 19]);
@@ -258,6 +264,34 @@ describe("collision.ts", () => {
     });
   });
 
+  describe("pushRowsUp", () => {
+    test("下に行を追加し、既存の行を押し上げる", () => {
+      const grid = createEmptyGrid();
+      const height = grid.length;
+      grid[height - 1] = Array(GRID_WIDTH).fill(1);
+
+      const garbage = [Array(GRID_WIDTH).fill(8), Array(GRID_WIDTH).fill(9)];
+      const overflow = pushRowsUp(grid, garbage);
+
+      expect(overflow).toBe(false);
+      expect(grid).toHaveLength(height);
+      expect(grid[height - 3].every((cell) => cell === 1)).toBe(true);
+      expect(grid[height - 2].every((cell) => cell === 8)).toBe(true);
+      expect(grid[height - 1].every((cell) => cell === 9)).toBe(true);
+      // 追加した行は複製される
+      expect(grid[height - 1]).not.toBe(garbage[1]);
+    });
+
+    test("上端から押し出された行にブロックがあるとtrueを返す", () => {
+      const grid = createEmptyGrid();
+      grid[1][0] = 1;
+
+      expect(pushRowsUp(grid, [Array(GRID_WIDTH).fill(8)])).toBe(false);
+      expect(grid[0][0]).toBe(1);
+      expect(pushRowsUp(grid, [Array(GRID_WIDTH).fill(8)])).toBe(true);
+    });
+  });
+
   describe("移動可能性チェック関数", () => {
     let grid: Grid;
     const shape: BlockShape = [
@@ -364,14 +398,10 @@ describe("collision.ts", () => {
 
   describe("実際のゲームシナリオ", () => {
     test("テトロミノの配置と行削除の統合テスト", () => {
-      const grid = createEmptyGrid();
-
       // 最下段をほぼ埋める（1列だけ空ける）
-      for (let col = 0; col < GRID_WIDTH; col++) {
-        if (col !== 5) {
-          grid[19][col] = 1;
-        }
-      }
+      const grid = board(`
+        IIIII.IIII
+      `);
 
       // I型テトロミノ（縦）で隙間を埋める
       const iPiece: BlockShape = [[1], [1], [1], [1]];
@@ -381,17 +411,65 @@ describe("collision.ts", () => {
 
       // 配置
       placeTetromino(grid, iPiece, 5, 16);
+      expect(grid).toMatchBoard(`
+        .....I....
+        .....I....
+        .....I....
+        IIIIIIIIII
+      `);
 
       // 完成した行を検出
       const completedRows = findCompletedRows(grid);
       expect(completedRows).toEqual([19]);
 
-      // 行を削除
+      // 行を削除（全体が1行下にシフト）
       removeRows(grid, completedRows);
+      expect(grid).toMatchBoard(`
+        .....I....
+        .....I....
+        .....I....
+      `);
+    });
+  });
 
-      // 最下段が空になったことを確認（全体が1行下にシフト）
-      expect(grid[19].some((cell) => cell !== 0)).toBe(true);
-      expect(grid[0].every((cell) => cell === 0)).toBe(true);
+  describe.each([
+    [4, 10],
+    [10, 20],
+    [20, 40],
+  ])("%i列×%i行の盤面", (width, height) => {
+    const spec: BoardSpec = { width, height, bufferRows: 2 };
+    const shape: BlockShape = [
+      [1, 1],
+      [1, 1],
+    ];
+
+    test("境界は盤面の寸法で判定される", () => {
+      const grid = createGrid(spec);
+
+      expect(isPositionValid(grid, shape, width - 2, 0, spec)).toBe(true);
+      expect(isPositionValid(grid, shape, width - 1, 0, spec)).toBe(false);
+      // バッファ行を含む最下段まで配置できる
+      expect(isPositionValid(grid, shape, 0, height, spec)).toBe(true);
+      expect(isPositionValid(grid, shape, 0, height + 1, spec)).toBe(false);
+    });
+
+    test("寸法を省略するとグリッドの大きさから判定される", () => {
+      const grid = createGrid(spec);
+
+      expect(isPositionValid(grid, shape, width - 2, height)).toBe(true);
+      expect(isPositionValid(grid, shape, width - 1, height)).toBe(false);
+    });
+
+    test("最下段を埋めると完成した行として検出される", () => {
+      const grid = createGrid(spec);
+      const bottom = height + 1;
+      grid[bottom].fill(1);
+
+      expect(findCompletedRows(grid, spec)).toEqual([bottom]);
+      expect(placeTetromino(grid, shape, 0, bottom - 2, spec)).toBe(true);
+      expect(removeRows(grid, [bottom], spec)).toBe(1);
+      expect(grid[0]).toHaveLength(width);
+      expect(grid[bottom].filter((cell) => cell !== 0)).toHaveLength(2);
     });
   });
 });
@@ -0,0 +1,148 @@
+import {
+  DailyChallenge,
+  compareDailyScores,
+  createDailyChallenge,
+  encodeDailyResultCode,
+  getDailyDateKey,
+  getDailyStreak,
+  loadDailyHistory,
+  parseDailyResultCode,
+  recordDailyResult,
+} from "../dailyChallenge";
+import { PuzzlePack, parsePuzzlePack } from "../puzzle";
+import { MemoryStorage } from "../storage";
+
+describe("dailyChallenge.ts", () => {
+  const pack: PuzzlePack = parsePuzzlePack({
+    version: 1,
+    id: "test",
+    name: "TEST",
+    puzzles: [
+      {
+        id: "lines",
+        name: "LINES",
+        board: ["GGGGGGGGG."],
+        pieces: "I",
+        goal: { type: "lines", lines: 1 },
+        pieceLimit: 1,
+      },
+    ],
+  });
+
+  // テスト用のヘルパー関数
+  const createSprint = (date: string): DailyChallenge => ({
+    date,
+    seed: 1,
+    ruleset: { type: "sprint", lineTarget: 40 },
+    modifiers: { stackVisibility: "normal", hold: true },
+  });
+
+  test("同じ日付からは同じチャレンジを作成し、日付が変わるとシードが変わる", () => {
+    const morning = new Date(2026, 9, 19, 8, 0);
+    const night = new Date(2026, 9, 19, 23, 59);
+    const nextDay = new Date(2026, 9, 20, 0, 0);
+
+    expect(getDailyDateKey(morning)).toBe("2026-10-19");
+    expect(createDailyChallenge(night, [pack])).toEqual(
+      createDailyChallenge(morning, [pack])
+    );
+    expect(createDailyChallenge(nextDay).seed).not.toBe(
+      createDailyChallenge(morning).seed
+    );
+  });
+
+  test("日付ごとにルールが入れ替わり、パズルはパックがある場合のみ選ばれる", () => {
+    const types = (packs: PuzzlePack[]): Set<string> => {
+      const found = new Set<string>();
+      for (let day = 1; day <= 60; day++) {
+        const challenge = createDailyChallenge(new Date(2026, 0, day), packs);
+        found.add(challenge.ruleset.type);
+        if (challenge.ruleset.type === "puzzle") {
+          expect(challenge.modifiers).toEqual({
+            stackVisibility: "normal",
+            hold: true,
+          });
+        }
+      }
+      return found;
+    };
+
+    expect(types([])).toEqual(new Set(["sprint", "ultra", "dig"]));
+    expect(types([pack])).toEqual(
+      new Set(["sprint", "ultra", "dig", "puzzle"])
+    );
+  });
+
+  test("結果コードは日付・ルール・記録を復元でき、書き換えると検出される", () => {
+    const code = encodeDailyResultCode("2026-10-19", "S40", {
+      completed: true,
+      value: 65432,
+    });
+
+    expect(code).toMatch(/^DAILY-20261019-S40-C[0-9A-Z]+-[0-9A-Z]{2}$/);
+    expect(parseDailyResultCode(` ${code.toLowerCase()} `)).toEqual({
+      date: "2026-10-19",
+      tag: "S40",
+      score: { completed: true, value: 65432 },
+    });
+
+    const tampered = code.replace("-C", "-F");
+    expect(() => parseDailyResultCode(tampered)).toThrow("checksum mismatch");
+    expect(() => parseDailyResultCode("hello")).toThrow(
+      "Invalid daily result code"
+    );
+  });
+
+  test("記録は達成したものを優先し、指標に応じて比べる", () => {
+    const done = (value: number) => ({ completed: true, value });
+    const failed = (value: number) => ({ completed: false, value });
+
+    expect(
+      compareDailyScores("time", done(60000), done(50000))
+    ).toBeGreaterThan(0);
+    expect(compareDailyScores("time", done(90000), failed(39))).toBeLessThan(0);
+    expect(compareDailyScores("time", failed(12), failed(30))).toBeGreaterThan(
+      0
+    );
+    expect(compareDailyScores("score", done(5000), done(8000))).toBeGreaterThan(
+      0
+    );
+    expect(compareDailyScores("pieces", done(3), done(3))).toBe(0);
+  });
+
+  test("日ごとに最高記録とプレイ回数を保存し、連続日数を数える", () => {
+    const storage = new MemoryStorage();
+
+    recordDailyResult(storage, createSprint("2026-10-17"), {
+      completed: true,
+      value: 70000,
+    });
+    recordDailyResult(storage, createSprint("2026-10-18"), {
+      completed: true,
+      value: 70000,
+    });
+    const first = recordDailyResult(storage, createSprint("2026-10-19"), {
+      completed: true,
+      value: 60000,
+    });
+    const second = recordDailyResult(storage, createSprint("2026-10-19"), {
+      completed: true,
+      value: 65000,
+    });
+
+    expect(first.isBest).toBe(true);
+    expect(second.isBest).toBe(false);
+    expect(second.entry).toEqual({
+      date: "2026-10-19",
+      tag: "S40",
+      best: { completed: true, value: 60000 },
+      attempts: 2,
+    });
+
+    const history = loadDailyHistory(storage);
+    expect(getDailyStreak(history, "2026-10-19")).toBe(3);
+    // 今日まだプレイしていなくても、昨日までの連続日数は途切れない
+    expect(getDailyStreak(history, "2026-10-20")).toBe(3);
+    expect(getDailyStreak(history, "2026-10-21")).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { DailyChallenge, parseDailyResultCode } from "../dailyChallenge";
+import { MemoryStorage } from "../storage";
+import { DailyMode } from "../modes/dailyMode";
+import {
+  ModeEngineOptions,
+  clearLines,
+  startModeEngine,
+} from "./modeTestHelper";
+
+describe("dailyMode.ts", () => {
+  const challenge: DailyChallenge = {
+    date: "2026-10-19",
+    seed: 12345,
+    ruleset: { type: "sprint", lineTarget: 20 },
+    modifiers: { stackVisibility: "fading", hold: false },
+  };
+
+  // テスト用のヘルパー関数
+  const createMode = (
+    storage: MemoryStorage = new MemoryStorage(),
+    options: ModeEngineOptions = {}
+  ) => {
+    const mode = new DailyMode(challenge, storage);
+    const engine = startModeEngine(mode, options);
+
+    return {
+      engine,
+      mode,
+      clear: (lines: number) => clearLines(engine, lines),
+    };
+  };
+
+  test("日付のシードと修飾を適用し、誰が遊んでも同じピース順になる", () => {
+    // ピースの順はモードが設定した乱数のまま
+    const first = createMode(new MemoryStorage(), { sequence: null });
+    const second = createMode(new MemoryStorage(), { sequence: null });
+
+    expect(first.engine.getState().nextQueue).toEqual(
+      second.engine.getState().nextQueue
+    );
+    expect(first.engine.getState().canHold).toBe(false);
+    expect(first.mode.stackVisibility).toBe("fading");
+  });
+
+  test("目標を達成すると記録を保存し、結果コードを結果に含める", () => {
+    const storage = new MemoryStorage();
+    const { mode, clear } = createMode(storage);
+
+    mode.onInput();
+    mode.update(45000);
+    clear(20);
+
+    const result = mode.getResult()!;
+    expect(result.title).toBe("SPRINT 20L CLEAR");
+    expect(result.isPersonalBest).toBe(true);
+    expect(result.items[0]).toEqual({ label: "DAILY", value: "2026-10-19" });
+    expect(result.items).toContainEqual({ label: "STREAK", value: "1" });
+
+    const code = result.items[result.items.length - 1];
+    expect(code.label).toBe("CODE");
+    expect(parseDailyResultCode(code.value)).toEqual({
+      date: "2026-10-19",
+      tag: "S20",
+      score: { completed: true, value: 45000 },
+    });
+  });
+
+  test("トップアウトしても結果を表示し、プレイ回数を数える", () => {
+    const storage = new MemoryStorage();
+    createMode(storage).engine.end("topOut");
+    const { engine, mode } = createMode(storage);
+    engine.end("topOut");
+
+    expect(mode.getResult()).toMatchObject({
+      title: "GAME OVER",
+      isPersonalBest: false,
+    });
+    expect(mode.getResult()!.items).toContainEqual({
+      label: "ATTEMPTS",
+      value: "2",
+    });
+  });
+});
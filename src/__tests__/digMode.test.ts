@@ -0,0 +1,132 @@
+import { countGarbageRows, getDefaultGarbageConfig } from "../garbage";
+import { MemoryStorage, saveJSON } from "../storage";
+import { DigConfig, DigMode, getDefaultDigConfig } from "../modes/digMode";
+import { dropPiece, startModeEngine } from "./modeTestHelper";
+
+describe("digMode.ts", () => {
+  // テスト用のヘルパー関数
+  // board を指定すると、モードが置いたガベージの代わりにその盤面から始める
+  const createMode = (
+    config: Partial<DigConfig> = {},
+    storage: MemoryStorage = new MemoryStorage(),
+    board?: string
+  ) => {
+    const mode = new DigMode(
+      { ...getDefaultDigConfig(), seed: 1, ...config },
+      storage
+    );
+    const engine = startModeEngine(mode, { board });
+
+    // I型を縦にして左端の列に落とし、ガベージを4行消去する
+    const clearWell = (): void => dropPiece(engine, 0, 1);
+    // I型を横にして指定した列から落とし、ガベージを1行消去する
+    const clearGap = (column: number): void => dropPiece(engine, column);
+
+    return { engine, mode, clearWell, clearGap };
+  };
+
+  // 左端の列だけ空いたガベージの行
+  const WELL_ROW = ".GGGGGGGGG";
+
+  test("盤面の下部をガベージで埋めた状態から始まる", () => {
+    const { engine } = createMode({ lineTarget: 18, garbageRows: 10 });
+    const { grid } = engine.getState();
+
+    expect(countGarbageRows(grid)).toBe(10);
+    expect(countGarbageRows(grid.slice(-10))).toBe(10);
+
+    // 目標が盤面の行数より少ない場合は目標の行数だけ置く
+    const small = createMode({ lineTarget: 4 });
+    expect(countGarbageRows(small.engine.getState().grid)).toBe(4);
+  });
+
+  test("消去したガベージの分だけ下から補充し、目標の行数までで止める", () => {
+    const { engine, mode, clearWell, clearGap } = createMode(
+      { lineTarget: 12, garbageRows: 10 },
+      new MemoryStorage(),
+      ["....GGGGGG", ...Array(9).fill(WELL_ROW)].join("\n")
+    );
+    const rows = () => countGarbageRows(engine.getState().grid);
+
+    clearGap(0);
+    expect(rows()).toBe(10);
+    expect(mode.getRemaining()).toBe(11);
+
+    // 残りの補充は1行だけ
+    clearWell();
+    expect(rows()).toBe(7);
+    expect(mode.getRemaining()).toBe(7);
+  });
+
+  test("目標の行数を消去するとタイムを記録してゲームを終了する", () => {
+    const storage = new MemoryStorage();
+    const board = [...Array(8).fill(WELL_ROW), "GGGGGG....", "GGGGGG...."].join(
+      "\n"
+    );
+    const { engine, mode, clearWell, clearGap } = createMode(
+      { lineTarget: 10 },
+      storage,
+      board
+    );
+    mode.onInput();
+
+    mode.update(3000);
+    clearWell();
+    mode.update(4500);
+    clearWell();
+    clearGap(6);
+    clearGap(6);
+
+    expect(engine.getState().endReason).toBe("goalReached");
+    const result = mode.getResult()!;
+    expect(result.title).toBe("DIG 10L CLEAR");
+    expect(result.isPersonalBest).toBe(true);
+    expect(result.items[0]).toEqual({ label: "TIME", value: "0:07.500" });
+    expect(result.items[1]).toEqual({ label: "PIECES", value: "4" });
+    expect(
+      createMode({ lineTarget: 10 }, storage).mode.getPersonalBest()!.time
+    ).toBe(7500);
+  });
+
+  test("自己ベストは穴の開け方ごとに保存される", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "dig.best.clean.18", {
+      version: 1,
+      time: 20000,
+      pieces: 40,
+      date: "2026-01-01T00:00:00.000Z",
+    });
+
+    const messy = createMode(
+      { garbage: { ...getDefaultGarbageConfig(), style: "messy" } },
+      storage
+    );
+    expect(messy.mode.name).toBe("DIG 18L MESSY");
+    expect(messy.mode.getPersonalBest()).toBeNull();
+    expect(createMode({}, storage).mode.getPersonalBest()!.time).toBe(20000);
+  });
+
+  test("形式が誤っている進行状況は復元しない", () => {
+    const saved = createMode().mode.getSaveState()!;
+    const restored = createMode().mode;
+
+    expect(() =>
+      restored.restoreSaveState({ ...saved, generator: { random: 1 } })
+    ).toThrow("Invalid mode save state: generator is not valid");
+    expect(() => restored.restoreSaveState({ ...saved, cleared: "0" })).toThrow(
+      "Invalid mode save state: cleared must be a finite number"
+    );
+
+    restored.restoreSaveState({ ...saved, generator: null });
+    expect(restored.getRemaining()).toBe(getDefaultDigConfig().lineTarget);
+  });
+
+  test("バージョンや形式が異なる自己ベストは読み込まない", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "dig.best.clean.18", { time: 20000, pieces: 40 });
+    expect(createMode({}, storage).mode.getPersonalBest()).toBeNull();
+
+    saveJSON(storage, "dig.best.clean.18", { version: 1, time: "20000" });
+    expect(createMode({}, storage).mode.getPersonalBest()).toBeNull();
+  });
+});
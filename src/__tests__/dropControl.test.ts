@@ -0,0 +1,181 @@
+import * as Phaser from "phaser";
+import { hardDrop, startDrop, BlockShape, Grid } from "../dropControl";
+import { getDefaultLockDelayConfig } from "../lockDelay";
+import { createEmptyGrid } from "../boardSpec";
+
+describe("dropControl.ts", () => {
+  // テスト用のヘルパー関数
+  const SPEC = { width: 10, height: 20, bufferRows: 0 };
+  const O_SHAPE: BlockShape = [
+    [1, 1],
+    [1, 1],
+  ];
+
+  // Phaserのループタイマーを模した最小限のシーン
+  const createScene = () => {
+    const timers: {
+      event: { delay: number; paused: boolean; hasDispatched: boolean };
+      callback: () => void;
+      elapsed: number;
+    }[] = [];
+
+    const scene = {
+      time: {
+        addEvent: (config: { delay: number; callback: () => void }) => {
+          const event = {
+            delay: config.delay,
+            paused: false,
+            hasDispatched: false,
+            remove: () => {
+              event.hasDispatched = true;
+            },
+            reset: (next: { delay: number }) => {
+              event.delay = next.delay;
+            },
+          };
+          timers.push({ event, callback: config.callback, elapsed: 0 });
+          return event;
+        },
+      },
+    };
+
+    // 1フレームずつ時間を進め、期限を過ぎたタイマーを実行する
+    const advance = (ms: number, frame: number = 10) => {
+      for (let t = 0; t < ms; t += frame) {
+        for (const timer of timers) {
+          if (timer.event.hasDispatched || timer.event.paused) {
+            continue;
+          }
+          timer.elapsed += frame;
+          if (timer.elapsed >= timer.event.delay) {
+            timer.elapsed -= timer.event.delay;
+            timer.callback();
+          }
+        }
+      }
+    };
+
+    return { scene: scene as unknown as Phaser.Scene, advance };
+  };
+
+  describe("startDrop", () => {
+    test("固定猶予がない場合は接地した次の判定で固定する", () => {
+      const { scene, advance } = createScene();
+      const grid: Grid = createEmptyGrid(SPEC);
+      const onLock = jest.fn();
+
+      startDrop({
+        scene,
+        shape: O_SHAPE,
+        grid,
+        offsetX: 4,
+        offsetY: 16,
+        dropInterval: 100,
+        onLock,
+      });
+
+      advance(200);
+      expect(onLock).not.toHaveBeenCalled();
+      advance(100);
+      expect(onLock).toHaveBeenCalledTimes(1);
+      expect(grid[19][4]).toBe(1);
+    });
+
+    test("固定猶予がある場合は接地してから猶予を使い切るまで固定しない", () => {
+      const { scene, advance } = createScene();
+      const grid: Grid = createEmptyGrid(SPEC);
+      const onLock = jest.fn();
+      const onPositionUpdate = jest.fn();
+
+      startDrop({
+        scene,
+        shape: O_SHAPE,
+        grid,
+        offsetX: 4,
+        offsetY: 17,
+        dropInterval: 100,
+        onLock,
+        onPositionUpdate,
+        lockDelay: { ...getDefaultLockDelayConfig(), delay: 500 },
+      });
+
+      // 100msで接地し、そこから500ms後に固定される
+      advance(100);
+      expect(onPositionUpdate).toHaveBeenCalledWith(4, 18);
+      advance(490);
+      expect(onLock).not.toHaveBeenCalled();
+      advance(10);
+      expect(onLock).toHaveBeenCalledTimes(1);
+      expect(grid[19][4]).toBe(1);
+    });
+
+    test("固定までの時間は落下間隔に依存しない", () => {
+      for (const dropInterval of [30, 1000]) {
+        const { scene, advance } = createScene();
+        const onLock = jest.fn();
+
+        startDrop({
+          scene,
+          shape: O_SHAPE,
+          grid: createEmptyGrid(SPEC),
+          offsetX: 4,
+          offsetY: 18,
+          dropInterval,
+          onLock,
+          lockDelay: { ...getDefaultLockDelayConfig(), delay: 500 },
+        });
+
+        advance(490);
+        expect(onLock).not.toHaveBeenCalled();
+        advance(10);
+        expect(onLock).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    test("infiniteモードでは時間切れで固定しない", () => {
+      const { scene, advance } = createScene();
+      const onLock = jest.fn();
+
+      startDrop({
+        scene,
+        shape: O_SHAPE,
+        grid: createEmptyGrid(SPEC),
+        offsetX: 4,
+        offsetY: 18,
+        dropInterval: 100,
+        onLock,
+        lockDelay: {
+          ...getDefaultLockDelayConfig(),
+          delay: 500,
+          resetMode: "infinite",
+        },
+      });
+
+      advance(5000);
+      expect(onLock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("hardDrop", () => {
+    test("最下部まで落下して固定し、onLockを呼ぶ", () => {
+      const { scene } = createScene();
+      const grid: Grid = createEmptyGrid(SPEC);
+      const onLock = jest.fn();
+
+      const distance = hardDrop({
+        scene,
+        shape: O_SHAPE,
+        grid,
+        offsetX: 0,
+        offsetY: 0,
+        dropInterval: 1000,
+        onLock,
+      });
+
+      expect(distance).toBe(18);
+      expect(grid[18][0]).toBe(1);
+      expect(grid[19][1]).toBe(1);
+      expect(onLock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
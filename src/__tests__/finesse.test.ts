@@ -0,0 +1,60 @@
+import { DEFAULT_BOARD_SPEC } from "../boardSpec";
+import { getMinimumInputs } from "../finesse";
+import { ActivePiece } from "../gameEngine";
+import { RotationState } from "../rotation";
+import { createRotationSystem } from "../rotationSystem";
+import { TetrominoType } from "../tetromino";
+
+describe("finesse.ts", () => {
+  const createPiece = (
+    type: TetrominoType,
+    rotation: RotationState,
+    x: number,
+    y: number
+  ): ActivePiece => ({
+    type,
+    shape: createRotationSystem("srs").getShape(type, rotation),
+    x,
+    y,
+    rotation,
+  });
+  const minimumInputs = (spawn: ActivePiece, target: ActivePiece) =>
+    getMinimumInputs(spawn, target, "srs", DEFAULT_BOARD_SPEC);
+
+  test("横移動は1マスずつか壁まで、回転は向きごとに1回と数える", () => {
+    const spawn = createPiece(TetrominoType.T, 0, 3, 18);
+
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 0, 3, 38))).toBe(
+      0
+    );
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 0, 2, 38))).toBe(
+      1
+    );
+    // 壁までの横移動（DAS）は1回
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 0, 0, 38))).toBe(
+      1
+    );
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 0, 1, 38))).toBe(
+      2
+    );
+    // SRSには180度回転がないため、右回転2回と壁までの横移動
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 2, 7, 37))).toBe(
+      3
+    );
+    expect(minimumInputs(spawn, createPiece(TetrominoType.T, 1, -1, 37))).toBe(
+      2
+    );
+  });
+
+  test("ハードドロップして同じ場所に置かれる向きは区別しない", () => {
+    const spawn = createPiece(TetrominoType.S, 0, 3, 18);
+
+    // 2の向きは0の向きを1段下げた形
+    expect(minimumInputs(spawn, createPiece(TetrominoType.S, 2, 3, 30))).toBe(
+      0
+    );
+    expect(minimumInputs(spawn, createPiece(TetrominoType.S, 3, 4, 30))).toBe(
+      1
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { DEFAULT_BOARD_SPEC, createEmptyGrid } from "../boardSpec";
+import { ActivePiece } from "../gameEngine";
+import {
+  FumenPage,
+  createFumenPage,
+  decodeFumen,
+  encodeFumen,
+  parseFumenQuiz,
+} from "../fumen";
+import { RotationState } from "../rotation";
+import { createRotationSystem } from "../rotationSystem";
+import { GARBAGE_CELL, TetrominoType } from "../tetromino";
+
+describe("fumen.ts", () => {
+  // テスト用のヘルパー関数
+  const emptyGrid = () => createEmptyGrid(DEFAULT_BOARD_SPEC);
+  const bottom = emptyGrid().length - 1;
+
+  const createPiece = (
+    type: TetrominoType,
+    rotation: RotationState,
+    x: number,
+    y: number
+  ): ActivePiece => ({
+    type,
+    shape: createRotationSystem("srs").getShape(type, rotation),
+    x,
+    y,
+    rotation,
+  });
+
+  // ピースが占めるセル（行・列）を並べたもの
+  const pieceCells = (piece: ActivePiece | null): string[] => {
+    const cells: string[] = [];
+    piece?.shape.forEach((row, rowIndex) =>
+      row.forEach((cell, colIndex) => {
+        if (cell !== 0) {
+          cells.push(`${piece.y + rowIndex},${piece.x + colIndex}`);
+        }
+      })
+    );
+    return cells.sort();
+  };
+
+  test("空の盤面の1ページを読み書きできる", () => {
+    const [page, ...rest] = decodeFumen("v115@vhAAgH");
+
+    expect(rest).toHaveLength(0);
+    expect(page.grid).toEqual(emptyGrid());
+    expect(page.piece).toBeNull();
+    expect(page.comment).toBe("");
+    expect(page.flags).toEqual({
+      lock: true,
+      rise: false,
+      mirror: false,
+      colorize: true,
+    });
+    expect(encodeFumen([createFumenPage(emptyGrid())])).toBe("v115@vhAAgH");
+  });
+
+  test("ピースの種類・向き・位置を盤面のピースに変換する", () => {
+    // 最下段の中央に出現時の向きのT
+    const [page] = decodeFumen("v115@vhAVQJ");
+
+    expect(page.piece?.type).toBe(TetrominoType.T);
+    expect(page.piece?.rotation).toBe(0);
+    expect(pieceCells(page.piece)).toEqual(
+      [`${bottom},3`, `${bottom},4`, `${bottom},5`, `${bottom - 1},4`].sort()
+    );
+    expect(encodeFumen([createFumenPage(emptyGrid(), page.piece)])).toBe(
+      "v115@vhAVQJ"
+    );
+  });
+
+  test("全ての種類と向きのピースが同じ位置に戻る", () => {
+    const types = [
+      TetrominoType.I,
+      TetrominoType.O,
+      TetrominoType.T,
+      TetrominoType.S,
+      TetrominoType.Z,
+      TetrominoType.J,
+      TetrominoType.L,
+    ];
+    const rotations: RotationState[] = [0, 1, 2, 3];
+    const pages = types.flatMap((type) =>
+      rotations.map((rotation) => ({
+        ...createFumenPage(emptyGrid(), createPiece(type, rotation, 3, 30)),
+        flags: { lock: false, rise: false, mirror: false, colorize: true },
+      }))
+    );
+
+    const decoded = decodeFumen(encodeFumen(pages));
+    expect(decoded).toHaveLength(pages.length);
+    decoded.forEach((page, index) => {
+      expect(page.piece?.type).toBe(pages[index].piece?.type);
+      expect(page.piece?.rotation).toBe(pages[index].piece?.rotation);
+      expect(pieceCells(page.piece)).toEqual(pieceCells(pages[index].piece));
+    });
+  });
+
+  test("固定したピースとライン消去が次のページの盤面に引き継がれる", () => {
+    const grid = emptyGrid();
+    grid[bottom] = [8, 8, 8, 8, 8, 8, 0, 0, 0, 0];
+    // 最下段の右端を埋める横向きのI（1ライン消去）
+    const first = createFumenPage(
+      grid,
+      createPiece(TetrominoType.I, 0, 6, bottom - 1)
+    );
+    const second = createFumenPage(emptyGrid());
+
+    const data = encodeFumen([first, second]);
+    const pages = decodeFumen(data);
+
+    expect(pages[0].grid).toEqual(grid);
+    expect(pages[1].grid).toEqual(emptyGrid());
+    // 2ページ目は前のページと同じ盤面として保存される
+    expect(encodeFumen(pages)).toBe(data);
+  });
+
+  test("せり上がりと左右反転のフラグを固定後の盤面に適用する", () => {
+    const first = createFumenPage(
+      emptyGrid(),
+      createPiece(TetrominoType.O, 0, 0, bottom - 2)
+    );
+    first.garbageRow = [0, 8, 8, 8, 8, 8, 8, 8, 8, 8];
+    first.flags = { ...first.flags, rise: true, mirror: true };
+
+    const expected = emptyGrid();
+    expected[bottom] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+    expected[bottom - 1] = [0, 0, 0, 0, 0, 0, 0, 2, 2, 0];
+    expected[bottom - 2] = [0, 0, 0, 0, 0, 0, 0, 2, 2, 0];
+    const second = createFumenPage(expected);
+
+    const pages = decodeFumen(encodeFumen([first, second]));
+    expect(pages[0].garbageRow).toEqual(first.garbageRow);
+    expect(pages[0].flags.rise).toBe(true);
+    expect(pages[0].flags.mirror).toBe(true);
+    expect(pages[1].grid).toEqual(expected);
+    expect(pages[1].grid[bottom][0]).toBe(GARBAGE_CELL);
+  });
+
+  test("コメントは変更されるまで次のページに引き継がれる", () => {
+    const pages: FumenPage[] = [
+      createFumenPage(emptyGrid(), null, "TSD の練習 #1"),
+      createFumenPage(emptyGrid(), null, "TSD の練習 #1"),
+      createFumenPage(emptyGrid(), null, ""),
+    ];
+
+    const data = encodeFumen(pages);
+    const decoded = decodeFumen(data);
+
+    expect(decoded.map((page) => page.comment)).toEqual([
+      "TSD の練習 #1",
+      "TSD の練習 #1",
+      "",
+    ]);
+    // 長いデータは "?" で区切られる
+    expect(data.slice(5, 47)).not.toContain("?");
+    expect(data.slice(47)).toContain("?");
+  });
+
+  test("変化のないページが続く場合も全てのページを読み込める", () => {
+    const pages = Array.from({ length: 70 }, () =>
+      createFumenPage(emptyGrid())
+    );
+
+    expect(decodeFumen(encodeFumen(pages))).toHaveLength(70);
+  });
+
+  test("URLに含まれるフュミンも読み込める", () => {
+    expect(
+      decodeFumen("https://knewjade.github.io/fumen-for-mobile/#?d=v115@vhAAgH")
+    ).toHaveLength(1);
+  });
+
+  test("クイズのコメントからホールド・現在・次のピースを読み取る", () => {
+    expect(parseFumenQuiz("#Q=[S](T)IZO")).toEqual({
+      hold: TetrominoType.S,
+      current: TetrominoType.T,
+      next: [TetrominoType.I, TetrominoType.Z, TetrominoType.O],
+    });
+    expect(parseFumenQuiz("#Q=[](L)")).toEqual({
+      hold: null,
+      current: TetrominoType.L,
+      next: [],
+    });
+    expect(parseFumenQuiz("TSD")).toBeNull();
+  });
+
+  test("形式の誤りや盤面に収まらない場合はエラーになる", () => {
+    expect(() => decodeFumen("hello")).toThrow("Invalid fumen: version");
+    expect(() => decodeFumen("v115@vhAAg")).toThrow(
+      "Invalid fumen: data ends unexpectedly"
+    );
+    expect(() =>
+      decodeFumen("v115@vhAAgH", { width: 8, height: 20, bufferRows: 2 })
+    ).toThrow("Invalid fumen: board must be 10 columns wide");
+
+    const narrow = createFumenPage(
+      createEmptyGrid({ width: 8, height: 20, bufferRows: 2 })
+    );
+    expect(() => encodeFumen([narrow])).toThrow(
+      "Invalid fumen: pages[0].grid must be 10 columns wide"
+    );
+
+    const tall = emptyGrid();
+    tall[0][0] = 1;
+    expect(() => encodeFumen([createFumenPage(tall)])).toThrow(
+      "Invalid fumen: pages[0].grid has blocks above row 23"
+    );
+  });
+});
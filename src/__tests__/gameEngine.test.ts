@@ -0,0 +1,481 @@
+import {
+  GameEngine,
+  GameEngineConfig,
+  TetrisAction,
+  GameEndReason,
+  TopOutClearInfo,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import { TetrominoType } from "../tetromino";
+import { DEFAULT_BOARD_SPEC, createEmptyGrid } from "../boardSpec";
+import { GRID_WIDTH, GRID_HEIGHT, isPositionValid } from "../collision";
+
+describe("gameEngine.ts", () => {
+  // テスト用のヘルパー関数
+  const createStartedEngine = (): GameEngine => {
+    const engine = new GameEngine(getDefaultEngineConfig());
+    engine.start();
+    return engine;
+  };
+
+  const countBlocks = (grid: number[][]): number =>
+    grid.reduce((sum, row) => sum + row.filter((cell) => cell !== 0).length, 0);
+
+  describe("start", () => {
+    test("開始するとピースが出現し、ネクストキューが埋まる", () => {
+      const engine = createStartedEngine();
+      const state = engine.getState();
+
+      expect(state.isPlaying).toBe(true);
+      expect(state.activePiece).not.toBeNull();
+      expect(state.nextQueue).toHaveLength(3);
+      // 可視領域の上にバッファ行がある
+      expect(state.grid).toHaveLength(GRID_HEIGHT + state.board.bufferRows);
+      expect(state.grid[0]).toHaveLength(GRID_WIDTH);
+      expect(state.score).toBe(0);
+      expect(state.level).toBe(1);
+    });
+
+    test("開始前はアクションを受け付けない", () => {
+      const engine = new GameEngine(getDefaultEngineConfig());
+
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(false);
+      expect(engine.getState().activePiece).toBeNull();
+    });
+  });
+
+  describe("applyAction", () => {
+    test("左右移動でX座標が変わる", () => {
+      const engine = createStartedEngine();
+      const startX = engine.getState().activePiece!.x;
+
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(true);
+      expect(engine.getState().activePiece!.x).toBe(startX - 1);
+
+      expect(engine.applyAction(TetrisAction.MoveRight)).toBe(true);
+      expect(engine.applyAction(TetrisAction.MoveRight)).toBe(true);
+      expect(engine.getState().activePiece!.x).toBe(startX + 1);
+    });
+
+    test("壁より先には移動できない", () => {
+      const engine = createStartedEngine();
+
+      for (let i = 0; i < GRID_WIDTH; i++) {
+        engine.applyAction(TetrisAction.MoveLeft);
+      }
+
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(false);
+    });
+
+    test("ハードドロップでピースが固定され、次のピースが出現する", () => {
+      const engine = createStartedEngine();
+      const nextType = engine.getState().nextQueue[0];
+      const locks: number[] = [];
+      engine.on("lock", (result) => locks.push(result.linesCleared));
+
+      engine.applyAction(TetrisAction.HardDrop);
+      const state = engine.getState();
+
+      expect(locks).toEqual([0]);
+      expect(countBlocks(state.grid)).toBe(4);
+      // 最下段にブロックが存在する
+      expect(state.grid[state.grid.length - 1].some((cell) => cell !== 0)).toBe(
+        true
+      );
+      expect(state.activePiece!.type).toBe(nextType);
+    });
+
+    test("ハードドロップは落下したマス数の2倍の得点になる", () => {
+      const engine = createStartedEngine();
+      const { grid, activePiece } = engine.getState();
+      let cells = 0;
+      while (
+        isPositionValid(
+          grid,
+          activePiece!.shape,
+          activePiece!.x,
+          activePiece!.y + cells + 1
+        )
+      ) {
+        cells++;
+      }
+      const awards: string[] = [];
+      engine.on("award", (award) => awards.push(award.label));
+
+      engine.applyAction(TetrisAction.HardDrop);
+
+      expect(awards).toEqual(["HARD DROP"]);
+      expect(engine.getState().score).toBe(cells * 2);
+    });
+
+    test("ホールドは1ピースにつき1回まで", () => {
+      const engine = createStartedEngine();
+      const firstType = engine.getState().activePiece!.type;
+
+      expect(engine.applyAction(TetrisAction.Hold)).toBe(true);
+      expect(engine.getState().heldPiece).toBe(firstType);
+      expect(engine.getState().canHold).toBe(false);
+
+      expect(engine.applyAction(TetrisAction.Hold)).toBe(false);
+
+      // 固定すると再びホールドできる
+      engine.applyAction(TetrisAction.HardDrop);
+      expect(engine.getState().canHold).toBe(true);
+    });
+
+    test("一時停止中は操作と時間経過が無視される", () => {
+      const engine = createStartedEngine();
+      const before = engine.getState().activePiece!;
+
+      engine.applyAction(TetrisAction.Pause);
+      expect(engine.getState().isPaused).toBe(true);
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(false);
+
+      engine.tick(5000);
+      expect(engine.getState().activePiece!.y).toBe(before.y);
+
+      engine.applyAction(TetrisAction.Pause);
+      expect(engine.getState().isPaused).toBe(false);
+    });
+  });
+
+  describe("tick", () => {
+    test("落下間隔が経過するとピースが1行下がる", () => {
+      const engine = createStartedEngine();
+      const startY = engine.getState().activePiece!.y;
+
+      engine.tick(500);
+      expect(engine.getState().activePiece!.y).toBe(startY);
+
+      engine.tick(500);
+      expect(engine.getState().activePiece!.y).toBe(startY + 1);
+    });
+
+    test("細かいtickでも合計時間が同じなら同じ結果になる", () => {
+      const engineA = createStartedEngine();
+      const engineB = createStartedEngine();
+
+      engineA.tick(3000);
+      for (let i = 0; i < 180; i++) {
+        engineB.tick(1000 / 60);
+      }
+
+      expect(engineA.getState().frame).toBe(180);
+      expect(engineB.getState().frame).toBe(180);
+      expect(engineA.getState().activePiece!.y).toBe(
+        engineB.getState().activePiece!.y
+      );
+    });
+
+    test("落下間隔が1フレームより短い場合は1フレームで複数行落下する", () => {
+      const config = getDefaultEngineConfig();
+      const engine = new GameEngine({
+        ...config,
+        // ガイドラインのレベル15は約7ミリ秒/行なので、1フレームで2行落下する
+        score: { ...config.score, gravityCurve: "guideline", initialLevel: 15 },
+      });
+      engine.start();
+      const startY = engine.getState().activePiece!.y;
+
+      engine.tick(1000 / 60);
+      expect(engine.getState().activePiece!.y).toBe(startY + 2);
+    });
+  });
+
+  describe("ゲームオーバー", () => {
+    test("積み上げ続けるとゲームオーバーになり、イベントが発行される", () => {
+      const engine = createStartedEngine();
+      const reasons: GameEndReason[] = [];
+      engine.on("gameOver", ({ reason }) => reasons.push(reason));
+
+      for (let i = 0; i < 200 && !engine.getState().isGameOver; i++) {
+        engine.applyAction(TetrisAction.HardDrop);
+      }
+
+      const state = engine.getState();
+      expect(state.isGameOver).toBe(true);
+      expect(state.isPlaying).toBe(false);
+      expect(reasons).toHaveLength(1);
+      expect(state.endReason).toBe(reasons[0]);
+
+      // ゲームオーバー後は操作を受け付けない
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(false);
+    });
+
+    test("endで外部からゲームを終了でき、終了条件が通知される", () => {
+      const engine = createStartedEngine();
+      const reasons: GameEndReason[] = [];
+      engine.on("gameOver", ({ reason }) => reasons.push(reason));
+
+      engine.end("goalReached");
+      // 終了後は再度終了しない
+      engine.end("goalReached");
+
+      const state = engine.getState();
+      expect(reasons).toEqual(["goalReached"]);
+      expect(state.endReason).toBe("goalReached");
+      expect(state.activePiece).toBeNull();
+    });
+
+    test("resetで開始前の状態に戻る", () => {
+      const engine = createStartedEngine();
+      engine.applyAction(TetrisAction.HardDrop);
+
+      engine.reset();
+      const state = engine.getState();
+
+      expect(state.isPlaying).toBe(false);
+      expect(state.activePiece).toBeNull();
+      expect(countBlocks(state.grid)).toBe(0);
+    });
+  });
+
+  describe("バッファ行とトップアウト", () => {
+    const createEngine = (config: Partial<GameEngineConfig> = {}) => {
+      const engine = new GameEngine({ ...getDefaultEngineConfig(), ...config });
+      engine.start();
+      return engine;
+    };
+
+    const board = { ...DEFAULT_BOARD_SPEC, bufferRows: 4 };
+
+    // 指定した行を、指定した列を除いて埋めた開始時の盤面を作る
+    const fillRows = (rows: number[], hole: number): number[][] => {
+      const grid = createEmptyGrid(board);
+      rows.forEach((row) => {
+        grid[row] = grid[row].map((_, col) => (col === hole ? 0 : 8));
+      });
+      return grid;
+    };
+
+    test("ピースは可視領域のすぐ上に出現し、即座に1行落下する", () => {
+      const engine = createEngine({ board });
+      const { activePiece } = engine.getState();
+
+      // 4×4の枠の3行目（I型以外の下段）が可視領域の最上段にある
+      expect(activePiece!.y + 2).toBe(board.bufferRows);
+    });
+
+    test("出現位置が埋まっているとブロックアウトになる", () => {
+      // 出現位置（バッファの最下部2行）を塞ぐ
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        board,
+        initialGrid: fillRows([2, 3], 0),
+      });
+      const reasons: GameEndReason[] = [];
+      engine.on("gameOver", ({ reason }) => reasons.push(reason));
+      engine.start();
+
+      expect(reasons).toEqual(["blockOut"]);
+      expect(engine.getState().endReason).toBe("blockOut");
+    });
+
+    test("ピースが全てバッファ内で固定されるとロックアウトになる", () => {
+      // 可視領域を全て埋め、ピースが出現位置から落下できないようにする
+      const engine = createEngine({
+        board,
+        initialGrid: fillRows(
+          Array.from({ length: GRID_HEIGHT }, (_, i) => i + 4),
+          9
+        ),
+      });
+      const reasons: GameEndReason[] = [];
+      engine.on("gameOver", ({ reason }) => reasons.push(reason));
+
+      engine.applyAction(TetrisAction.HardDrop);
+
+      expect(reasons).toEqual(["lockOut"]);
+    });
+
+    test("一部がバッファに入った固定は、設定した場合のみゲームオーバーになる", () => {
+      const drop = (partialLockOut: boolean): boolean => {
+        // 可視領域の上から2行目まで埋め、ピースの上半分がバッファに残るようにする
+        const engine = createEngine({
+          board,
+          partialLockOut,
+          initialGrid: fillRows(
+            Array.from({ length: GRID_HEIGHT - 1 }, (_, i) => i + 5),
+            9
+          ),
+        });
+        // I型は横向きだと1行に収まるため、縦にしてから落とす
+        if (engine.getState().activePiece!.type === TetrominoType.I) {
+          engine.applyAction(TetrisAction.RotateClockwise);
+        }
+        // 次のピースの出現位置を塞がないよう左端に寄せる
+        for (let i = 0; i < GRID_WIDTH; i++) {
+          engine.applyAction(TetrisAction.MoveLeft);
+        }
+        engine.applyAction(TetrisAction.HardDrop);
+        return engine.getState().isGameOver;
+      };
+
+      expect(drop(false)).toBe(false);
+      expect(drop(true)).toBe(true);
+    });
+
+    test("topOutClearRowsを設定すると、トップアウトの代わりに最下段の行を消去して続行する", () => {
+      // 出現位置を塞ぐと、行が下に移動して出現できるようになる
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        board,
+        topOutClearRows: 10,
+        initialGrid: fillRows([2, 3], 0),
+      });
+      const cleared: TopOutClearInfo[] = [];
+      engine.on("topOutCleared", (info) => cleared.push(info));
+      engine.start();
+
+      const state = engine.getState();
+      expect(cleared).toHaveLength(1);
+      expect(cleared[0].reason).toBe("blockOut");
+      expect(cleared[0].rows).toBe(10);
+      expect(state.isPlaying).toBe(true);
+      expect(state.activePiece).not.toBeNull();
+      expect(state.grid[12].filter((cell) => cell !== 0)).toHaveLength(9);
+    });
+  });
+
+  describe("ゲームモード用の設定", () => {
+    test("自然落下を無効にすると時間が経ってもピースは落下しない", () => {
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        gravity: false,
+      });
+      engine.start();
+      const startY = engine.getState().activePiece!.y;
+
+      engine.tick(5000);
+      expect(engine.getState().activePiece!.y).toBe(startY);
+    });
+
+    test("落下速度をGで指定すると、20Gでは出現した直後に床まで落下する", () => {
+      const engine = createStartedEngine();
+      engine.setGravity(20);
+      expect(engine.getGravity()).toBe(20);
+
+      engine.tick(1000 / 60);
+      const { grid, activePiece } = engine.getState();
+      expect(
+        isPositionValid(
+          grid,
+          activePiece!.shape,
+          activePiece!.x,
+          activePiece!.y + 1,
+          DEFAULT_BOARD_SPEC
+        )
+      ).toBe(false);
+
+      // nullでレベルに応じた速度に戻る
+      engine.setGravity(null);
+      expect(engine.getDropInterval()).toBe(1000);
+    });
+
+    test("出現待ちを設定すると、固定してから待ち時間が経つまで次のピースが出現しない", () => {
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        entryDelay: { are: 100, lineClearDelay: 200 },
+      });
+      engine.start();
+
+      engine.applyAction(TetrisAction.HardDrop);
+      expect(engine.getState().activePiece).toBeNull();
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(false);
+
+      engine.tick(90);
+      expect(engine.getState().activePiece).toBeNull();
+      engine.tick(20);
+      expect(engine.getState().activePiece).not.toBeNull();
+    });
+
+    test("開始時の盤面を指定できる", () => {
+      const config = getDefaultEngineConfig();
+      const initialGrid = createEmptyGrid(config.board);
+      initialGrid[initialGrid.length - 1] = Array(GRID_WIDTH).fill(8);
+      initialGrid[initialGrid.length - 1][0] = 0;
+
+      const engine = new GameEngine({ ...config, initialGrid });
+      engine.start();
+      expect(engine.getState().grid).toEqual(initialGrid);
+
+      // 寸法が一致しない盤面はエラーになる
+      expect(
+        () => new GameEngine({ ...config, initialGrid: initialGrid.slice(1) })
+      ).toThrow();
+    });
+
+    test("ガベージの行を追加すると盤面と操作中のピースが押し上げられる", () => {
+      const engine = new GameEngine(getDefaultEngineConfig());
+      engine.start();
+      for (let i = 0; i < 40; i++) {
+        engine.applyAction(TetrisAction.SoftDrop);
+      }
+      const landedY = engine.getState().activePiece!.y;
+
+      const garbage = Array(GRID_WIDTH).fill(8);
+      garbage[3] = 0;
+      engine.addGarbageRows([garbage, garbage]);
+
+      const { grid, activePiece } = engine.getState();
+      expect(grid[grid.length - 1]).toEqual(garbage);
+      expect(grid[grid.length - 2]).toEqual(garbage);
+      expect(activePiece!.y).toBe(landedY - 2);
+      expect(
+        isPositionValid(
+          grid,
+          activePiece!.shape,
+          activePiece!.x,
+          activePiece!.y
+        )
+      ).toBe(true);
+    });
+
+    test("ブロックが盤面の上端から押し出されるとトップアウトになる", () => {
+      const config = getDefaultEngineConfig();
+      const initialGrid = createEmptyGrid(config.board);
+      initialGrid[0][0] = 8;
+      const engine = new GameEngine({ ...config, initialGrid });
+      engine.start();
+
+      engine.addGarbageRows([Array(GRID_WIDTH).fill(8)]);
+
+      expect(engine.getState().endReason).toBe("topOut");
+    });
+  });
+
+  describe("盤面の寸法", () => {
+    test.each([
+      [4, 10],
+      [10, 20],
+      [20, 40],
+    ])("%i列×%i行の盤面でプレイできる", (width, height) => {
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        board: { width, height, bufferRows: 4 },
+      });
+      engine.start();
+
+      const { grid, activePiece } = engine.getState();
+      expect(grid).toHaveLength(height + 4);
+      expect(grid[0]).toHaveLength(width);
+      expect(activePiece!.x).toBe(Math.floor(width / 2) - 2);
+
+      // 4列の盤面では横向きのIで最下段が消去されるため、消去行数も合わせて確認する
+      engine.applyAction(TetrisAction.HardDrop);
+      const state = engine.getState();
+      const bottom = state.grid[height + 3];
+      expect(bottom.some((cell) => cell !== 0) || state.lines > 0).toBe(true);
+    });
+
+    test("範囲外の寸法はエラーになる", () => {
+      expect(
+        () =>
+          new GameEngine({
+            ...getDefaultEngineConfig(),
+            board: { width: 3, height: 20, bufferRows: 4 },
+          })
+      ).toThrow();
+    });
+  });
+});
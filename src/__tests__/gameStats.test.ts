@@ -0,0 +1,135 @@
+import { parseBoardNotation } from "../boardNotation";
+import { DEFAULT_BOARD_SPEC } from "../boardSpec";
+import {
+  GameEngine,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import {
+  GameStats,
+  GameStatsRecorder,
+  formatGameStatsCSV,
+  formatGameStatsJSON,
+  getAttack,
+  getClearType,
+} from "../gameStats";
+import { ScoreAward } from "../scoreAndLevel";
+import { TetrominoType } from "../tetromino";
+
+describe("gameStats.ts", () => {
+  // 最下段の右側を埋めた盤面で、O・Iの順に出現するゲームを記録する
+  const playGame = (): GameStats => {
+    const config = getDefaultEngineConfig();
+    const { O, I, T } = TetrominoType;
+    const engine = new GameEngine({
+      ...config,
+      nextHold: { ...config.nextHold, sequence: [O, I, T] },
+      initialGrid: parseBoardNotation("....GGGGGG", DEFAULT_BOARD_SPEC).grid,
+    });
+    engine.start();
+    const recorder = new GameStatsRecorder(engine, {
+      mode: "Sprint, 40 lines",
+      rotationSystem: "srs",
+    });
+    const press = (action: TetrisAction) => {
+      recorder.recordKey(action);
+      engine.applyAction(action);
+    };
+
+    engine.tick(500);
+    press(TetrisAction.HardDrop);
+    engine.tick(500);
+    // 壁までは1回で移動できるところを1マスずつ3回押す
+    press(TetrisAction.MoveLeft);
+    press(TetrisAction.MoveLeft);
+    press(TetrisAction.MoveLeft);
+    press(TetrisAction.HardDrop);
+    return recorder.finish();
+  };
+
+  test("消去行数とスピンからライン消去の種類と攻撃力を求める", () => {
+    expect(getClearType(0, "none")).toBe("none");
+    expect(getClearType(4, "none")).toBe("tetris");
+    expect(getClearType(0, "full")).toBe("spin");
+    expect(getClearType(2, "full")).toBe("spinDouble");
+    expect(getClearType(1, "mini")).toBe("miniSpinSingle");
+
+    const award: ScoreAward = {
+      label: "B2B T-SPIN DOUBLE 2 COMBO",
+      points: 0,
+      items: [],
+      linesCleared: 2,
+      spin: "full",
+      backToBack: true,
+      combo: 2,
+      perfectClear: false,
+    };
+    expect(getAttack("spinDouble", award)).toBe(4 + 1 + 1);
+    expect(getAttack("tetris", { ...award, perfectClear: true })).toBe(
+      4 + 1 + 1 + 10
+    );
+    expect(getAttack("double", null)).toBe(1);
+  });
+
+  test("固定したピースごとに位置・キー数・ライン消去・フィネスを記録する", () => {
+    const stats = playGame();
+
+    expect(stats.pieces).toHaveLength(2);
+    expect(stats.pieces[0]).toMatchObject({
+      piece: 1,
+      type: "O",
+      rotation: "0",
+      keys: 1,
+      linesCleared: 0,
+      clearType: "none",
+      attack: 0,
+      finesseFaults: 0,
+    });
+    expect(stats.pieces[1]).toMatchObject({
+      piece: 2,
+      type: "I",
+      x: 0,
+      rotation: "0",
+      keys: 4,
+      linesCleared: 1,
+      clearType: "single",
+      backToBack: false,
+      combo: 0,
+      finesseFaults: 2,
+    });
+    expect(stats.pieces[1].time).toBeGreaterThan(stats.pieces[0].time);
+
+    const { totals } = stats;
+    expect(totals).toMatchObject({
+      pieces: 2,
+      keys: 5,
+      lines: 1,
+      attack: 0,
+      kpp: 2.5,
+      finesseFaults: 2,
+    });
+    expect(totals.pps).toBeCloseTo(2, 1);
+    expect(totals.clearTypes.single).toBe(1);
+    expect(totals.clearTypes.none).toBe(1);
+    expect(totals.clearTypes.tetris).toBe(0);
+  });
+
+  test("ピースごとの記録と集計をCSVとJSONに書き出す", () => {
+    const stats = playGame();
+    const lines = formatGameStatsCSV(stats).split("\n");
+
+    expect(lines[0]).toBe(
+      "piece,type,x,y,rotation,time,keys,linesCleared,clearType," +
+        "backToBack,combo,perfectClear,attack,finesseFaults"
+    );
+    expect(lines[2]).toMatch(/^2,I,0,\d+,0,\d+,4,1,single,false,0,false,0,2$/);
+    expect(lines[3]).toBe("");
+    expect(lines[4]).toBe("stat,value");
+    // 区切り文字を含む値は引用符で囲む
+    expect(lines).toContain('mode,"Sprint, 40 lines"');
+    expect(lines).toContain("kpp,2.5");
+    expect(lines).toContain("clearType.single,1");
+
+    expect(JSON.parse(formatGameStatsJSON(stats))).toEqual(stats);
+  });
+});
@@ -0,0 +1,93 @@
+import { GarbageGenerator, countGarbageRows, isGarbageRow } from "../garbage";
+import { createBoardSpec, createEmptyGrid } from "../boardSpec";
+import { clearLinesWithSummary, lockPiece } from "../lockAndClear";
+import { GARBAGE_CELL } from "../tetromino";
+
+describe("garbage.ts", () => {
+  const countHoles = (row: number[]): number =>
+    row.filter((cell) => cell === 0).length;
+
+  describe("GarbageGenerator", () => {
+    test("clean: 各行に穴が1つだけあり、続く行の穴は別の列になる", () => {
+      const generator = new GarbageGenerator(
+        10,
+        { style: "clean", messiness: 0 },
+        1234
+      );
+      const rows = generator.nextRows(50);
+
+      rows.forEach((row, index) => {
+        expect(row).toHaveLength(10);
+        expect(countHoles(row)).toBe(1);
+        expect(row.every((cell) => cell === 0 || cell === GARBAGE_CELL)).toBe(
+          true
+        );
+        if (index > 0) {
+          expect(row.indexOf(0)).not.toBe(rows[index - 1].indexOf(0));
+        }
+      });
+    });
+
+    test("messy: 穴が複数ある行もあるが、全て穴になる行はない", () => {
+      const generator = new GarbageGenerator(
+        4,
+        { style: "messy", messiness: 0.9 },
+        99
+      );
+      const rows = generator.nextRows(100);
+
+      expect(rows.some((row) => countHoles(row) > 1)).toBe(true);
+      rows.forEach((row) => {
+        expect(countHoles(row)).toBeGreaterThanOrEqual(1);
+        expect(countHoles(row)).toBeLessThan(4);
+      });
+    });
+
+    test("同じシードからは同じ行が生成される", () => {
+      const config = { style: "messy" as const, messiness: 0.3 };
+      const a = new GarbageGenerator(10, config, 42).nextRows(20);
+      const b = new GarbageGenerator(10, config, 42).nextRows(20);
+
+      expect(a).toEqual(b);
+    });
+  });
+
+  describe("ライン消去との連携", () => {
+    test("ガベージを含む行を区別して数える", () => {
+      const spec = createBoardSpec(4, 10, 0);
+      const grid = createEmptyGrid(spec);
+      grid[9] = [GARBAGE_CELL, GARBAGE_CELL, 1, GARBAGE_CELL];
+      grid[8] = [1, 1, 1, 1];
+      grid[7] = [GARBAGE_CELL, 0, GARBAGE_CELL, GARBAGE_CELL];
+
+      expect(isGarbageRow(grid[9])).toBe(true);
+      expect(isGarbageRow(grid[8])).toBe(false);
+      expect(countGarbageRows(grid)).toBe(2);
+
+      expect(clearLinesWithSummary(grid, spec)).toEqual({
+        total: 2,
+        garbage: 1,
+      });
+      expect(countGarbageRows(grid)).toBe(1);
+    });
+
+    test("ピースの固定結果に消去したガベージの行数が含まれる", () => {
+      const spec = createBoardSpec(4, 10, 0);
+      const grid = createEmptyGrid(spec);
+      grid[9] = [0, GARBAGE_CELL, GARBAGE_CELL, GARBAGE_CELL];
+      grid[8] = [0, GARBAGE_CELL, GARBAGE_CELL, GARBAGE_CELL];
+
+      // 縦向きのIで左端の穴を埋める
+      const verticalI = [
+        [1, 0, 0, 0],
+        [1, 0, 0, 0],
+        [1, 0, 0, 0],
+        [1, 0, 0, 0],
+      ];
+      const result = lockPiece(grid, verticalI, 0, 6, undefined, spec);
+
+      expect(result.linesCleared).toBe(2);
+      expect(result.garbageLinesCleared).toBe(2);
+    });
+  });
+});
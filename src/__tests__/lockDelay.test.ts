@@ -0,0 +1,131 @@
+import {
+  LockDelay,
+  LockDelayConfig,
+  getDefaultLockDelayConfig,
+} from "../lockDelay";
+import {
+  GameEngine,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+
+describe("lockDelay.ts", () => {
+  // テスト用のヘルパー関数
+  const createLockDelay = (
+    config: Partial<LockDelayConfig> = {}
+  ): LockDelay => {
+    const lockDelay = new LockDelay({
+      ...getDefaultLockDelayConfig(),
+      ...config,
+    });
+    lockDelay.reset(0);
+    return lockDelay;
+  };
+
+  describe("LockDelay", () => {
+    test("接地中のみ時間が進み、猶予を使い切ると固定する", () => {
+      const lockDelay = createLockDelay({ delay: 500 });
+
+      expect(lockDelay.update(1000, false)).toBe(false);
+      expect(lockDelay.update(300, true)).toBe(false);
+      expect(lockDelay.getRemaining()).toBe(200);
+      expect(lockDelay.update(200, true)).toBe(true);
+    });
+
+    test("moveモードでは接地中の移動で猶予がリセットされ、回数制限がある", () => {
+      const lockDelay = createLockDelay({ delay: 500, maxResets: 2 });
+
+      lockDelay.update(400, true);
+      lockDelay.onMove(0, true);
+      expect(lockDelay.getRemaining()).toBe(500);
+      expect(lockDelay.getResetsLeft()).toBe(1);
+
+      lockDelay.update(400, true);
+      lockDelay.onMove(0, true);
+      lockDelay.update(400, true);
+      // リセット回数を使い切ったので猶予は戻らない
+      lockDelay.onMove(0, true);
+      expect(lockDelay.getResetsLeft()).toBe(0);
+      expect(lockDelay.update(100, true)).toBe(true);
+    });
+
+    test("より低い行に到達するとリセット回数が回復する", () => {
+      const lockDelay = createLockDelay({ maxResets: 3 });
+
+      lockDelay.onMove(0, true);
+      lockDelay.onMove(0, true);
+      expect(lockDelay.getResetsLeft()).toBe(1);
+
+      lockDelay.onStepDown(1);
+      expect(lockDelay.getResetsLeft()).toBe(3);
+    });
+
+    test("stepモードでは移動でリセットされず、落下でのみリセットされる", () => {
+      const lockDelay = createLockDelay({ delay: 500, resetMode: "step" });
+
+      lockDelay.update(400, true);
+      lockDelay.onMove(0, true);
+      expect(lockDelay.getRemaining()).toBe(100);
+
+      lockDelay.onStepDown(1);
+      expect(lockDelay.getRemaining()).toBe(500);
+    });
+
+    test("infiniteモードでは時間切れで固定しない", () => {
+      const lockDelay = createLockDelay({ resetMode: "infinite" });
+
+      expect(lockDelay.update(60000, true)).toBe(false);
+    });
+  });
+
+  describe("GameEngine", () => {
+    const createEngine = (
+      config: Partial<LockDelayConfig> = {}
+    ): GameEngine => {
+      const engine = new GameEngine({
+        ...getDefaultEngineConfig(),
+        lockDelay: { ...getDefaultLockDelayConfig(), ...config },
+      });
+      engine.start();
+      return engine;
+    };
+
+    // ソフトドロップで接地させる
+    const dropToFloor = (engine: GameEngine): void => {
+      while (engine.applyAction(TetrisAction.SoftDrop)) {
+        // 接地するまで落下
+      }
+    };
+
+    test("接地しても即座には固定されず、猶予が過ぎると固定される", () => {
+      const engine = createEngine({ delay: 500 });
+      const locks: number[] = [];
+      engine.on("lock", (result) => locks.push(result.linesCleared));
+
+      dropToFloor(engine);
+      engine.tick(400);
+      expect(locks).toHaveLength(0);
+
+      // 接地中でも左右には動ける
+      expect(engine.applyAction(TetrisAction.MoveLeft)).toBe(true);
+
+      engine.tick(400);
+      expect(locks).toHaveLength(0);
+      engine.tick(100);
+      expect(locks).toHaveLength(1);
+    });
+
+    test("ハードドロップは猶予なしで即座に固定される", () => {
+      const engine = createEngine({ resetMode: "infinite" });
+      const locks: number[] = [];
+      engine.on("lock", (result) => locks.push(result.linesCleared));
+
+      dropToFloor(engine);
+      engine.tick(10000);
+      expect(locks).toHaveLength(0);
+
+      engine.applyAction(TetrisAction.HardDrop);
+      expect(locks).toHaveLength(1);
+    });
+  });
+});
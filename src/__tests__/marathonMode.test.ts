@@ -0,0 +1,93 @@
+import { getDefaultEngineConfig } from "../gameEngine";
+import {
+  MarathonConfig,
+  MarathonMode,
+  getDefaultMarathonConfig,
+  getMarathonName,
+} from "../modes/marathonMode";
+import { clearLines, startModeEngine } from "./modeTestHelper";
+
+describe("marathonMode.ts", () => {
+  // テスト用のヘルパー関数
+  // 4ラインごと（テトリス1回ごと）にレベルが上がる設定で、実際にラインを消去して進める
+  const createMode = (config: Partial<MarathonConfig> = {}) => {
+    const mode = new MarathonMode({
+      ...getDefaultMarathonConfig(),
+      linesPerLevel: 4,
+      ...config,
+    });
+    const engine = startModeEngine(mode);
+    const clear = (lines: number): void => clearLines(engine, lines);
+
+    return { engine, mode, clear };
+  };
+
+  test("ガイドラインの落下速度と選択したレベルアップの条件でエンジンを設定する", () => {
+    const mode = new MarathonMode({
+      ...getDefaultMarathonConfig(),
+      levelGoal: "variable",
+    });
+    const config = mode.configureEngine(getDefaultEngineConfig());
+
+    expect(config.score.gravityCurve).toBe("guideline");
+    expect(config.score.levelGoal).toBe("variable");
+    expect(config.score.initialLevel).toBe(1);
+    expect(mode.name).toBe("MARATHON VARIABLE");
+    expect(getMarathonName("fixed", true)).toBe("MARATHON ENDLESS");
+  });
+
+  test("ゴールのレベルをクリアするとゲームを終了する", () => {
+    const { engine, mode, clear } = createMode({ goalLevel: 3 });
+
+    clear(8);
+    expect(engine.getState().isPlaying).toBe(true);
+    expect(mode.getHud()[0]).toMatchObject({ label: "LEVEL", value: "3/3" });
+
+    clear(4);
+    const state = engine.getState();
+    expect(state.level).toBe(4);
+    expect(state.endReason).toBe("goalReached");
+    expect(mode.getResult()).toMatchObject({ title: "MARATHON CLEAR" });
+    expect(mode.getResult()!.items[0]).toEqual({
+      label: "SCORE",
+      value: String(state.score),
+    });
+  });
+
+  test("レベルより先にゴールのライン数に達してもゴールになる", () => {
+    const { engine, clear } = createMode({
+      levelGoal: "variable",
+      goalLines: 8,
+    });
+
+    clear(8);
+    expect(engine.getState().level).toBeLessThan(15);
+    expect(engine.getState().endReason).toBe("goalReached");
+  });
+
+  test("エンドレス設定ではゴール達成後もトップアウトまで続ける", () => {
+    const { engine, mode, clear } = createMode({ goalLevel: 2, endless: true });
+
+    clear(8);
+    expect(engine.getState().isPlaying).toBe(true);
+    expect(mode.isGoalCleared()).toBe(true);
+    expect(mode.getResult()).toBeNull();
+
+    clear(8);
+    engine.end("blockOut");
+    expect(mode.getResult()).toMatchObject({
+      title: "MARATHON ENDLESS CLEAR",
+    });
+    expect(mode.getResult()!.items[1]).toEqual({ label: "LEVEL", value: "5" });
+  });
+
+  test("ゴール前にトップアウトするとゲームオーバーの結果になる", () => {
+    const { engine, mode, clear } = createMode();
+
+    clear(8);
+    engine.end("lockOut");
+
+    expect(mode.isGoalCleared()).toBe(false);
+    expect(mode.getResult()!.title).toBe("GAME OVER");
+  });
+});
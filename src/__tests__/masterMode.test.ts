@@ -0,0 +1,150 @@
+import { FRAME_MS, getDefaultEngineConfig } from "../gameEngine";
+import {
+  MASTER_GM_SECTION_TIME,
+  MasterMode,
+  calculateMasterScore,
+  getDefaultMasterConfig,
+  getMasterGrade,
+  getMasterGravity,
+  getMasterTimings,
+} from "../modes/masterMode";
+import { clearLines, dropPiece, startModeEngine } from "./modeTestHelper";
+
+describe("masterMode.ts", () => {
+  // テスト用のヘルパー関数
+  // ピースの出現と消去でレベルが上がるため、実際にピースを固定して進める
+  const createMode = (startLevel: number = 0, board?: string) => {
+    const mode = new MasterMode({ ...getDefaultMasterConfig(), startLevel });
+    const engine = startModeEngine(mode, { board });
+
+    // 時間を進めてから、実際にピースを固定してラインを消去する
+    const clear = (lines: number, ms: number = 0): void => {
+      mode.update(ms);
+      clearLines(engine, lines);
+    };
+
+    return { engine, mode, clear };
+  };
+
+  test("落下速度と待ち時間はレベルに応じて速くなり、500以降は20Gになる", () => {
+    expect(getMasterGravity(0)).toBe(4 / 256);
+    expect(getMasterGravity(199)).toBe(144 / 256);
+    expect(getMasterGravity(200)).toBe(4 / 256);
+    expect(getMasterGravity(500)).toBe(20);
+
+    expect(getMasterTimings(0)).toEqual({
+      are: 25 * FRAME_MS,
+      lineClearDelay: 40 * FRAME_MS,
+      lockDelay: 30 * FRAME_MS,
+    });
+    expect(getMasterTimings(950).lockDelay).toBe(17 * FRAME_MS);
+  });
+
+  test("ARS・ホールドなし・出現待ちありでエンジンを設定する", () => {
+    const config = new MasterMode().configureEngine(getDefaultEngineConfig());
+
+    expect(config.rotationSystem).toBe("ars");
+    expect(config.nextHold.enableHold).toBe(false);
+    expect(config.lockDelay.resetMode).toBe("step");
+    expect(config.entryDelay.are).toBe(25 * FRAME_MS);
+  });
+
+  test("ピースの出現とライン消去でレベルが上がり、x99ではライン消去でしか上がらない", () => {
+    const { engine, mode, clear } = createMode(90);
+    expect(engine.getGravity()).toBe(64 / 256);
+
+    // 消去せずに右端へ積み、次のピースの出現ごとにレベルを上げる
+    for (let i = 0; i < 10; i++) {
+      dropPiece(engine, 6);
+    }
+    expect(mode.getLevel()).toBe(99);
+    expect(mode.getHud()[2]).toEqual({ label: "LEVEL", value: "99/99" });
+
+    // 消去で100になり、次のピースの出現で101になる
+    clear(1);
+    expect(mode.getLevel()).toBe(101);
+    expect(mode.getHud()[2]).toEqual({ label: "LEVEL", value: "101/199" });
+    expect(engine.getGravity()).toBe(80 / 256);
+    expect(mode.getSectionTimes()).toHaveLength(1);
+  });
+
+  test("スコアは消去前のレベル・行数・コンボから計算し、段位が上がる", () => {
+    expect(calculateMasterScore(10, 4, 7, false)).toBe(4 * 4 * 7);
+    expect(calculateMasterScore(10, 4, 7, true)).toBe(4 * 4 * 7 * 4);
+    expect(getMasterGrade(0)).toBe("9");
+    expect(getMasterGrade(12000)).toBe("1");
+    expect(getMasterGrade(130000)).toBe("S9");
+
+    // 盤面が空になった扱い（ブラボー）にならないようにブロックを置く
+    const { mode, clear } = createMode(100, ".........G");
+    clear(1);
+    // ceil((100 + 1) / 4) * 1 * 1
+    expect(mode.getScore()).toBe(26);
+    // 次のピースの出現でレベルは102になり、コンボは 1 + 2*4 - 2 = 7
+    clear(4);
+    expect(mode.getScore()).toBe(26 + Math.ceil(106 / 4) * 4 * 7);
+  });
+
+  test("レベル999に到達するとゲームを終了し、セクションタイムを結果に含める", () => {
+    const { engine, mode, clear } = createMode(997);
+
+    // 998では出現でレベルが上がらないため、2回の消去で999になる
+    clear(2, 60000);
+    expect(engine.getState().endReason).toBe("goalReached");
+    const result = mode.getResult()!;
+    expect(result.title).toBe("MASTER CLEAR");
+    expect(result.items[2]).toEqual({ label: "LEVEL", value: "999" });
+    expect(result.items[result.items.length - 1].label).toBe("900-999");
+  });
+
+  test("制限時間を超えたセクションがあるとGMにならない", () => {
+    // 盤面を空にするテトリスを続けてレベル999まで進め、slowSection番目のセクションだけ遅くする
+    // ブラボーとコンボでスコアの条件は満たされる
+    const play = (slowSection: number | null) => {
+      const { mode, clear } = createMode();
+      while (mode.getLevel() < 999) {
+        const section = Math.floor(mode.getLevel() / 100);
+        clear(4, section === slowSection ? MASTER_GM_SECTION_TIME / 10 : 1000);
+      }
+      return mode;
+    };
+
+    const fast = play(null);
+    expect(fast.getGrade()).toBe("GM");
+    expect(fast.getSectionTimes()).toHaveLength(10);
+
+    const slow = play(1);
+    expect(slow.getSectionTimes()[1]).toBeGreaterThan(MASTER_GM_SECTION_TIME);
+    expect(slow.getGrade()).toBe("S9");
+    expect(slow.getResult()!.items[0]).toEqual({ label: "GRADE", value: "S9" });
+  });
+
+  test("形式が誤っている進行状況は復元しない", () => {
+    const { mode, clear } = createMode();
+    clear(1);
+    const saved = mode.getSaveState()!;
+    const restored = createMode().mode;
+
+    expect(() =>
+      restored.restoreSaveState({ ...saved, gmFailed: "no" })
+    ).toThrow("Invalid mode save state: gmFailed must be a boolean");
+    expect(() =>
+      restored.restoreSaveState({ ...saved, sectionTimes: null })
+    ).toThrow(
+      "Invalid mode save state: sectionTimes must be an array of finite numbers"
+    );
+    expect(restored.getLevel()).toBe(0);
+
+    restored.restoreSaveState(saved);
+    expect(restored.getLevel()).toBe(mode.getLevel());
+  });
+
+  test("トップアウトするとゲームオーバーの結果になる", () => {
+    const { engine, mode, clear } = createMode();
+
+    clear(1);
+    engine.end("blockOut");
+    expect(mode.getResult()).toMatchObject({ title: "GAME OVER" });
+    expect(mode.getResult()!.items[0]).toEqual({ label: "GRADE", value: "9" });
+  });
+});
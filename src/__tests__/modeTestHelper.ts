@@ -0,0 +1,148 @@
+import { parseBoardNotation } from "../boardNotation";
+import {
+  GameEngine,
+  GameEngineConfig,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import { GameMode } from "../modes/gameMode";
+import { TetrominoType } from "../tetromino";
+
+/**
+ * ゲームモードのテスト用のエンジンを作成するオプション
+ */
+export interface ModeEngineOptions {
+  /** 開始時の盤面（テキストの盤面、省略時はモードが設定した盤面） */
+  board?: string;
+  /** 出現するピースの順（省略時はI型だけが出現する） */
+  sequence?: TetrominoType[] | null;
+  /** モードが調整した後の設定をさらに変更する */
+  configure?: (config: GameEngineConfig) => GameEngineConfig;
+}
+
+/**
+ * 出現待ちを進める最大のフレーム数（これを超えても出現しない場合はテストの誤り）
+ */
+const MAX_WAIT_FRAMES = 1000;
+
+/**
+ * I型だけの出現順（ライン消去の手順を固定するため）
+ */
+const I_SEQUENCE: TetrominoType[] = Array(2000).fill(TetrominoType.I);
+
+/**
+ * モードを取り付けたエンジンを作成して開始する
+ * @param mode - テストするモード
+ * @param options - 盤面・ピースの順などのオプション
+ * @returns 開始したエンジン
+ */
+export function startModeEngine(
+  mode: GameMode,
+  options: ModeEngineOptions = {}
+): GameEngine {
+  let config = mode.configureEngine(getDefaultEngineConfig());
+  const sequence =
+    options.sequence === undefined ? I_SEQUENCE : options.sequence;
+  if (sequence) {
+    config = { ...config, nextHold: { ...config.nextHold, sequence } };
+  }
+  if (options.board !== undefined) {
+    config = {
+      ...config,
+      initialGrid: parseBoardNotation(options.board, config.board).grid,
+    };
+  }
+  if (options.configure) {
+    config = options.configure(config);
+  }
+
+  const engine = new GameEngine(config);
+  mode.attach(engine);
+  engine.start();
+  return engine;
+}
+
+/**
+ * 出現待ちのフレームを進め、次のピースを出現させる
+ * 出現したフレームでは落下しないため、出現位置から操作できる
+ * @param engine - 対象のエンジン
+ */
+export function waitForSpawn(engine: GameEngine): void {
+  for (let i = 0; i < MAX_WAIT_FRAMES; i++) {
+    const state = engine.getState();
+    if (state.activePiece || !state.isPlaying) {
+      return;
+    }
+    engine.advanceFrame();
+  }
+  throw new Error("The next piece did not spawn");
+}
+
+/**
+ * 操作中のピースを回転・移動してハードドロップし、次のピースの出現まで進める
+ * @param engine - 対象のエンジン
+ * @param column - ピースの左端のブロックを置く列
+ * @param rotations - 右回転する回数
+ */
+export function dropPiece(
+  engine: GameEngine,
+  column: number,
+  rotations: number = 0
+): void {
+  waitForSpawn(engine);
+  for (let i = 0; i < rotations; i++) {
+    engine.applyAction(TetrisAction.RotateClockwise);
+  }
+
+  const piece = engine.getState().activePiece;
+  if (!piece) {
+    throw new Error("No piece to drop");
+  }
+  const left =
+    piece.x +
+    Math.min(
+      ...piece.shape
+        .map((row) => row.findIndex((cell) => cell !== 0))
+        .filter((index) => index >= 0)
+    );
+  const action = column < left ? TetrisAction.MoveLeft : TetrisAction.MoveRight;
+  for (let i = 0; i < Math.abs(column - left); i++) {
+    if (!engine.applyAction(action)) {
+      throw new Error(`The piece cannot reach column ${column}`);
+    }
+  }
+
+  engine.applyAction(TetrisAction.HardDrop);
+  waitForSpawn(engine);
+}
+
+/**
+ * 盤面の下から行を押し上げ、I型のピースで消去する
+ * 4行ずつ縦のI型でテトリスにし、余りは横のI型で1行ずつ消去する
+ * 押し上げた行だけを消去するため、消去した後の盤面は元に戻る
+ * @param engine - 対象のエンジン（I型だけが出現するもの）
+ * @param lines - 消去する行数
+ */
+export function clearLines(engine: GameEngine, lines: number): void {
+  const { board } = engine.getState();
+  // 左端の1列だけ空いた行と、左端の4列が空いた行
+  const wellRow = ".".padEnd(board.width, "I");
+  const gapRow = "....".padEnd(board.width, "I");
+  const pushRows = (rows: string[]) =>
+    engine.addGarbageRows(
+      parseBoardNotation(rows.join("\n"), board).grid.slice(-rows.length)
+    );
+
+  for (let remaining = lines; remaining > 0 && engine.getState().isPlaying;) {
+    waitForSpawn(engine);
+    if (remaining >= 4) {
+      pushRows(Array(4).fill(wellRow));
+      dropPiece(engine, 0, 1);
+      remaining -= 4;
+    } else {
+      pushRows([gapRow]);
+      dropPiece(engine, 0);
+      remaining--;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createBoardSpec } from "../boardSpec";
+import {
+  PuzzlePack,
+  createPuzzleGrid,
+  describePuzzleGoal,
+  parsePieceSequence,
+  parsePuzzlePack,
+} from "../puzzle";
+import { GARBAGE_CELL, TetrominoType } from "../tetromino";
+
+describe("puzzle.ts", () => {
+  // テスト用のヘルパー関数
+  const createPackData = (puzzle: Record<string, unknown> = {}) => ({
+    version: 1,
+    id: "test",
+    name: "TEST",
+    puzzles: [
+      {
+        id: "p1",
+        name: "P1",
+        board: ["GGGG.G"],
+        pieces: "IT",
+        goal: { type: "lines", lines: 1 },
+        pieceLimit: 2,
+        ...puzzle,
+      },
+    ],
+  });
+
+  describe("parsePuzzlePack", () => {
+    test("正しい形式のパックを読み込み、省略した項目を既定値で埋める", () => {
+      const pack = parsePuzzlePack(createPackData());
+
+      expect(pack.puzzles).toHaveLength(1);
+      expect(pack.puzzles[0].hold).toBe(true);
+      expect(pack.puzzles[0].goal).toEqual({ type: "lines", lines: 1 });
+    });
+
+    test("形式が正しくない場合は誤りのある場所を含むエラーになる", () => {
+      expect(() => parsePuzzlePack(null)).toThrow("pack");
+      expect(() =>
+        parsePuzzlePack({ ...createPackData(), version: 2 })
+      ).toThrow("version");
+      expect(() =>
+        parsePuzzlePack(createPackData({ goal: { type: "allClear" } }))
+      ).toThrow("puzzles[0].goal.type");
+      expect(() =>
+        parsePuzzlePack(createPackData({ board: ["GG", "GGG"] }))
+      ).toThrow("puzzles[0].board[1]");
+      expect(() => parsePuzzlePack(createPackData({ pieces: "IX" }))).toThrow(
+        "puzzles[0].pieces"
+      );
+      expect(() => parsePuzzlePack(createPackData({ pieceLimit: 3 }))).toThrow(
+        "puzzles[0].pieceLimit"
+      );
+    });
+
+    test("パック内でIDが重複しているとエラーになる", () => {
+      const data = createPackData();
+      data.puzzles.push({ ...data.puzzles[0] });
+
+      expect(() => parsePuzzlePack(data)).toThrow("puzzles[1].id");
+    });
+
+    test("同梱のパズルパックは正しい形式である", () => {
+      const file = path.join(
+        __dirname,
+        "../../public/assets/puzzles/basic.json"
+      );
+      const pack: PuzzlePack = parsePuzzlePack(
+        JSON.parse(fs.readFileSync(file, "utf8"))
+      );
+      const spec = createBoardSpec(10, 20, 20);
+
+      pack.puzzles.forEach((puzzle) => {
+        expect(() => createPuzzleGrid(puzzle.board, spec)).not.toThrow();
+      });
+    });
+  });
+
+  test("盤面は可視領域の最下段に揃えてグリッドに変換する", () => {
+    const spec = createBoardSpec(4, 10, 2);
+    const grid = createPuzzleGrid(["T...", "GGI."], spec);
+
+    expect(grid).toHaveLength(12);
+    expect(grid[10]).toEqual([TetrominoType.T + 1, 0, 0, 0]);
+    expect(grid[11]).toEqual([
+      GARBAGE_CELL,
+      GARBAGE_CELL,
+      TetrominoType.I + 1,
+      0,
+    ]);
+    expect(
+      grid
+        .slice(0, 10)
+        .flat()
+        .some((cell) => cell !== 0)
+    ).toBe(false);
+
+    expect(() => createPuzzleGrid(["GG"], spec)).toThrow();
+  });
+
+  test("ピース順と目標の説明文を変換する", () => {
+    expect(parsePieceSequence("TIO")).toEqual([
+      TetrominoType.T,
+      TetrominoType.I,
+      TetrominoType.O,
+    ]);
+    expect(describePuzzleGoal({ type: "tSpin", lines: 2 })).toBe(
+      "T-SPIN DOUBLE"
+    );
+    expect(describePuzzleGoal({ type: "lines", lines: 1 })).toBe(
+      "CLEAR 1 LINE"
+    );
+    expect(describePuzzleGoal({ type: "survive", pieces: 10 })).toBe(
+      "SURVIVE 10 PIECES"
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  GameEngine,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import { PuzzlePack, parsePuzzlePack } from "../puzzle";
+import { MemoryStorage } from "../storage";
+import { PuzzleMode, loadPuzzleProgress } from "../modes/puzzleMode";
+
+describe("puzzleMode.ts", () => {
+  const pack: PuzzlePack = parsePuzzlePack({
+    version: 1,
+    id: "test",
+    name: "TEST",
+    puzzles: [
+      {
+        id: "tsd",
+        name: "TSD",
+        board: ["GGGG......", "GGG...GGGG", "GGGG.GGGGG"],
+        pieces: "TT",
+        hold: false,
+        goal: { type: "tSpin", lines: 2 },
+        pieceLimit: 1,
+      },
+      {
+        id: "survive",
+        name: "SURVIVE",
+        board: ["GGGGGGGGG."],
+        pieces: "OOO",
+        goal: { type: "survive", pieces: 3 },
+        pieceLimit: 3,
+      },
+    ],
+  });
+
+  // テスト用のヘルパー関数
+  const startPuzzle = (index: number, storage: MemoryStorage) => {
+    const mode = new PuzzleMode({ pack, index }, storage);
+    const engine = new GameEngine(
+      mode.configureEngine(getDefaultEngineConfig())
+    );
+    mode.attach(engine);
+    engine.start();
+    const play = (...actions: TetrisAction[]): void => {
+      actions.forEach((action) => engine.applyAction(action));
+    };
+    return { engine, mode, play };
+  };
+
+  test("パズルの盤面とピース順から始まり、自然落下しない", () => {
+    const { engine, mode } = startPuzzle(0, new MemoryStorage());
+    const state = engine.getState();
+
+    expect(state.grid[state.grid.length - 1]).toEqual([
+      8, 8, 8, 8, 0, 8, 8, 8, 8, 8,
+    ]);
+    expect(state.activePiece!.type).toBe(2);
+    expect(state.canHold).toBe(false);
+    expect(mode.getHud()).toEqual([
+      { label: "GOAL", value: "T-SPIN DOUBLE" },
+      { label: "PIECES", value: "1" },
+    ]);
+  });
+
+  test("目標を達成するとクリアになり、パックの進捗を保存する", () => {
+    const storage = new MemoryStorage();
+    const { engine, mode, play } = startPuzzle(0, storage);
+
+    // 縦向きにして穴の底まで下ろし、回転で差し込む
+    play(TetrisAction.RotateClockwise);
+    for (let i = 0; i < 20; i++) play(TetrisAction.SoftDrop);
+    play(TetrisAction.RotateClockwise, TetrisAction.HardDrop);
+
+    expect(engine.getState().endReason).toBe("goalReached");
+    expect(mode.getResult()).toMatchObject({ title: "PUZZLE CLEAR" });
+    expect(mode.getResult()!.items[3]).toEqual({ label: "TEST", value: "1/2" });
+    expect(loadPuzzleProgress(storage, "test").cleared).toEqual(["tsd"]);
+  });
+
+  test("目標を達成せずにピースを使い切ると失敗になり、進捗は保存しない", () => {
+    const storage = new MemoryStorage();
+    const { engine, mode, play } = startPuzzle(0, storage);
+
+    play(TetrisAction.HardDrop);
+
+    expect(engine.getState().endReason).toBe("outOfPieces");
+    expect(mode.isCleared()).toBe(false);
+    expect(mode.getResult()!.title).toBe("PUZZLE FAILED");
+    expect(loadPuzzleProgress(storage, "test").cleared).toEqual([]);
+  });
+
+  test("生き残りの目標は指定の数のピースを置くとクリアになる", () => {
+    const { engine, mode, play } = startPuzzle(1, new MemoryStorage());
+
+    play(TetrisAction.HardDrop, TetrisAction.HardDrop);
+    expect(engine.getState().isPlaying).toBe(true);
+    expect(mode.getPiecesLeft()).toBe(1);
+
+    play(TetrisAction.HardDrop);
+    expect(mode.isCleared()).toBe(true);
+  });
+});
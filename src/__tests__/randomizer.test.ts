@@ -0,0 +1,197 @@
+import {
+  SeededRandom,
+  BagRandomizer,
+  HistoryRandomizer,
+  createRandomizer,
+  RandomizerType,
+} from "../randomizer";
+import { NextHoldManager } from "../nextAndHold";
+import { TetrominoType } from "../tetromino";
+
+describe("randomizer.ts", () => {
+  // テスト用のヘルパー関数
+  const take = (
+    randomizer: { next(): TetrominoType },
+    count: number
+  ): TetrominoType[] => {
+    const pieces: TetrominoType[] = [];
+    for (let i = 0; i < count; i++) {
+      pieces.push(randomizer.next());
+    }
+    return pieces;
+  };
+
+  const countByType = (pieces: TetrominoType[]): Map<TetrominoType, number> => {
+    const counts = new Map<TetrominoType, number>();
+    pieces.forEach((piece) => counts.set(piece, (counts.get(piece) ?? 0) + 1));
+    return counts;
+  };
+
+  describe("SeededRandom", () => {
+    test("同じシードからは同じ乱数列が得られる", () => {
+      const a = new SeededRandom(12345);
+      const b = new SeededRandom(12345);
+
+      for (let i = 0; i < 100; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    test("乱数は0以上1未満", () => {
+      const random = new SeededRandom(1);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    test("内部状態を保存・復元すると続きの乱数列が再現される", () => {
+      const random = new SeededRandom(42);
+      random.next();
+      const saved = random.getState();
+      const expected = [random.next(), random.next(), random.next()];
+
+      random.setState(saved);
+      expect([random.next(), random.next(), random.next()]).toEqual(expected);
+    });
+  });
+
+  describe("createRandomizer", () => {
+    const types: RandomizerType[] = [
+      "sevenBag",
+      "fourteenBag",
+      "pure",
+      "nes",
+      "tgm",
+    ];
+
+    test.each(types)("%s: 同じシードなら同じピース順になる", (type) => {
+      const a = take(createRandomizer(type, 2024), 100);
+      const b = take(createRandomizer(type, 2024), 100);
+
+      expect(a).toEqual(b);
+    });
+
+    test.each(types)("%s: 全7種類のピースが出現する", (type) => {
+      const pieces = take(createRandomizer(type, 7), 200);
+
+      expect(countByType(pieces).size).toBe(7);
+    });
+
+    test.each(types)(
+      "%s: 内部状態を別の生成器に復元すると、続きのピース順が同じになる",
+      (type) => {
+        const original = createRandomizer(type, 31);
+        take(original, 10);
+        const state = JSON.parse(JSON.stringify(original.getState()));
+
+        const restored = createRandomizer(type, 1);
+        restored.setState(state);
+        expect(take(restored, 50)).toEqual(take(original, 50));
+      }
+    );
+  });
+
+  describe("BagRandomizer", () => {
+    test("7-bagは7個ごとに全種類が1個ずつ含まれる", () => {
+      const randomizer = new BagRandomizer(new SeededRandom(99), 1);
+
+      for (let bag = 0; bag < 10; bag++) {
+        const pieces = take(randomizer, 7);
+        expect(new Set(pieces).size).toBe(7);
+      }
+    });
+
+    test("14-bagは14個ごとに各種類が2個ずつ含まれる", () => {
+      const randomizer = new BagRandomizer(new SeededRandom(99), 2);
+
+      for (let bag = 0; bag < 10; bag++) {
+        const counts = countByType(take(randomizer, 14));
+        expect(counts.size).toBe(7);
+        counts.forEach((count) => expect(count).toBe(2));
+      }
+    });
+  });
+
+  describe("HistoryRandomizer", () => {
+    test("初手にS・Z・Oは出現しない", () => {
+      for (let seed = 0; seed < 50; seed++) {
+        const first = new HistoryRandomizer(new SeededRandom(seed)).next();
+        expect([
+          TetrominoType.S,
+          TetrominoType.Z,
+          TetrominoType.O,
+        ]).not.toContain(first);
+      }
+    });
+
+    test("完全ランダムより同じピースの連続が少ない", () => {
+      const countRepeats = (pieces: TetrominoType[]): number =>
+        pieces.filter((piece, i) => i > 0 && piece === pieces[i - 1]).length;
+
+      const tgm = take(createRandomizer("tgm", 3), 1000);
+      const pure = take(createRandomizer("pure", 3), 1000);
+
+      expect(countRepeats(tgm)).toBeLessThan(countRepeats(pure));
+    });
+  });
+
+  describe("NextHoldManager", () => {
+    test("シードを指定すると同じネクスト順が再現され、リセット後も同じになる", () => {
+      const config = { nextQueueSize: 5, enableHold: true, seed: 777 };
+      const a = new NextHoldManager(config);
+      const b = new NextHoldManager(config);
+
+      const sequenceA = Array.from({ length: 20 }, () => a.getNextPiece());
+      const sequenceB = Array.from({ length: 20 }, () => b.getNextPiece());
+      expect(sequenceA).toEqual(sequenceB);
+
+      a.reset();
+      const afterReset = Array.from({ length: 20 }, () => a.getNextPiece());
+      expect(afterReset).toEqual(sequenceA);
+      expect(a.getSeed()).toBe(777);
+    });
+
+    test("固定のピース順を指定するとその順に出現し、使い切った後は通常の生成に戻る", () => {
+      const sequence = [TetrominoType.T, TetrominoType.I, TetrominoType.O];
+      const manager = new NextHoldManager({
+        nextQueueSize: 2,
+        enableHold: true,
+        seed: 1,
+        sequence,
+      });
+
+      expect(manager.getNextQueue()).toEqual(sequence.slice(0, 2));
+      expect(Array.from({ length: 3 }, () => manager.getNextPiece())).toEqual(
+        sequence
+      );
+      expect(Object.values(TetrominoType)).toContain(manager.getNextPiece());
+
+      manager.reset();
+      expect(manager.getNextPiece()).toBe(TetrominoType.T);
+    });
+
+    test("状態を復元すると、ネクスト・ホールドと固定のピース順の続きが同じになる", () => {
+      const config = {
+        nextQueueSize: 3,
+        enableHold: true,
+        seed: 5,
+        sequence: [TetrominoType.T, TetrominoType.I, TetrominoType.O],
+      };
+      const original = new NextHoldManager(config);
+      original.getNextPiece();
+      original.holdPiece(TetrominoType.S);
+
+      const restored = new NextHoldManager({ ...config, seed: 6 });
+      restored.setState(JSON.parse(JSON.stringify(original.getState())));
+      expect(restored.getHeldPiece()).toBe(TetrominoType.S);
+      expect(restored.canHold()).toBe(false);
+      expect(restored.getSeed()).toBe(5);
+      expect(Array.from({ length: 20 }, () => restored.getNextPiece())).toEqual(
+        Array.from({ length: 20 }, () => original.getNextPiece())
+      );
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { DEFAULT_BOARD_SPEC } from "../boardSpec";
+import { FRAME_MS, GameEngine, TetrisAction } from "../gameEngine";
+import { ModeSelection } from "../modes/gameMode";
+import { createGameMode } from "../modes/modeFactory";
+import {
+  Replay,
+  ReplayPlayer,
+  ReplayRecorder,
+  ReplayRules,
+  createRulesEngineConfig,
+  decodeReplay,
+  encodeReplay,
+} from "../replay";
+import { MemoryStorage } from "../storage";
+
+describe("replay.ts", () => {
+  const rules: ReplayRules = {
+    board: { ...DEFAULT_BOARD_SPEC },
+    randomizer: "sevenBag",
+    rotationSystem: "srs",
+    allSpin: false,
+    scoringSystem: "guideline",
+    partialLockOut: false,
+  };
+
+  // シーンと同じ手順でモードとエンジンを用意し、操作を記録しながら遊ぶ
+  const startLiveGame = (selection: ModeSelection, seed: number) => {
+    const mode = createGameMode(selection, new MemoryStorage(), seed);
+    const engine = new GameEngine(
+      mode.configureEngine(createRulesEngineConfig(rules, seed))
+    );
+    engine.on("frame", () => mode.update(FRAME_MS));
+    mode.attach(engine);
+    engine.start();
+    const recorder = new ReplayRecorder(
+      {
+        selection,
+        seed,
+        rules,
+        stackVisibility: { mode: "normal", revealInterval: 0 },
+      },
+      engine
+    );
+    const input = (action: TetrisAction): void => {
+      recorder.record(action);
+      mode.onInput();
+      engine.applyAction(action);
+    };
+    return { mode, engine, recorder, input };
+  };
+
+  // 不規則な描画間隔で時間を進めながら、決まった操作を繰り返す
+  const playScript = (
+    engine: GameEngine,
+    input: (action: TetrisAction) => void,
+    steps: number
+  ): void => {
+    const deltas = [16, 17, 33, 7, 50, 16];
+    const script = [
+      TetrisAction.MoveLeft,
+      TetrisAction.RotateClockwise,
+      TetrisAction.HardDrop,
+      TetrisAction.MoveRight,
+      TetrisAction.MoveRight,
+      TetrisAction.Hold,
+      TetrisAction.SoftDrop,
+      TetrisAction.HardDrop,
+    ];
+    for (let i = 0; i < steps && engine.getState().isPlaying; i++) {
+      if (i % 5 === 0) {
+        input(script[(i / 5) % script.length]);
+      }
+      engine.tick(deltas[i % deltas.length]);
+    }
+  };
+
+  // 記録したフレーム数より少し長い時間で最後まで再生する
+  const playToEnd = (player: ReplayPlayer): void => {
+    player.update((player.getReplay().frames + 10) * FRAME_MS);
+  };
+
+  test("操作列はフレーム差と操作の文字に詰めて保存し、元に戻せる", () => {
+    const replay: Replay = {
+      version: 1,
+      selection: { type: "sprint", lineTarget: 40 },
+      seed: 7,
+      rules,
+      stackVisibility: { mode: "normal", revealInterval: 0 },
+      initialGrid: null,
+      events: [
+        { frame: 0, action: TetrisAction.MoveLeft },
+        { frame: 0, action: TetrisAction.HardDrop },
+        { frame: 40, action: TetrisAction.RotateCounterClockwise },
+        { frame: 41, action: TetrisAction.Hold },
+      ],
+      frames: 100,
+      date: "2024-05-01T00:00:00.000Z",
+    };
+
+    const data = encodeReplay(replay);
+    expect(data.inputs).toBe("LH14Z1C");
+    expect(data).not.toHaveProperty("events");
+    expect(decodeReplay(JSON.parse(JSON.stringify(data)))).toEqual(replay);
+  });
+
+  test("開始時の盤面はブロックのある行だけを保存し、読み込み時に空の行を補う", () => {
+    const { engine, recorder } = startLiveGame(
+      { type: "dig", lineTarget: 10, style: "clean" },
+      3
+    );
+    const replay = recorder.finish();
+
+    const data = encodeReplay(replay);
+    expect(data.initialGrid).not.toBeNull();
+    expect(data.initialGrid!.length).toBeLessThan(
+      engine.getState().grid.length
+    );
+    expect(decodeReplay(data).initialGrid).toEqual(engine.getState().grid);
+  });
+
+  test("形式の誤りは場所を含めたエラーになる", () => {
+    const data = encodeReplay({
+      version: 1,
+      selection: { type: "endless" },
+      seed: 1,
+      rules,
+      stackVisibility: { mode: "normal", revealInterval: 0 },
+      initialGrid: null,
+      events: [],
+      frames: 0,
+      date: "",
+    });
+
+    expect(() => decodeReplay(null)).toThrow("Invalid replay: replay");
+    expect(() => decodeReplay({ ...data, version: 2 })).toThrow(
+      "Invalid replay: version"
+    );
+    expect(() => decodeReplay({ ...data, seed: 1.5 })).toThrow(
+      "Invalid replay: seed"
+    );
+    expect(() => decodeReplay({ ...data, inputs: "3L?H" })).toThrow(
+      "Invalid replay: inputs has an unknown input at 2"
+    );
+    expect(() => decodeReplay({ ...data, initialGrid: ["12"] })).toThrow(
+      "Invalid replay: initialGrid[0] must match the board width"
+    );
+    expect(() =>
+      decodeReplay({ ...data, selection: { type: "battle" } })
+    ).toThrow("Invalid replay: selection.type must be a known game mode");
+    expect(() =>
+      decodeReplay({ ...data, selection: { type: "sprint", lineTarget: "40" } })
+    ).toThrow(
+      "Invalid replay: selection.lineTarget must be a positive integer"
+    );
+    expect(() =>
+      decodeReplay({ ...data, rules: { ...rules, rotationSystem: "dtet" } })
+    ).toThrow("Invalid replay: rules.rotationSystem must be one of");
+    expect(() =>
+      decodeReplay({ ...data, rules: { ...rules, allSpin: "yes" } })
+    ).toThrow("Invalid replay: rules.allSpin must be a boolean");
+    expect(() =>
+      decodeReplay({
+        ...data,
+        rules: { ...rules, board: { ...rules.board, width: 2 } },
+      })
+    ).toThrow("Invalid replay: rules.board is not a valid board");
+    expect(() =>
+      decodeReplay({
+        ...data,
+        stackVisibility: { mode: "ghost", revealInterval: 0 },
+      })
+    ).toThrow("Invalid replay: stackVisibility.mode must be one of");
+  });
+
+  test("記録したリプレイを再生すると、同じ盤面・スコア・フレームになる", () => {
+    const live = startLiveGame({ type: "survival" }, 12345);
+    playScript(live.engine, live.input, 3000);
+    const replay = decodeReplay(
+      JSON.parse(JSON.stringify(encodeReplay(live.recorder.finish())))
+    );
+
+    const player = new ReplayPlayer(replay);
+    playToEnd(player);
+
+    const expected = live.engine.getState();
+    const actual = player.getEngine().getState();
+    expect(player.isFinished()).toBe(true);
+    expect(actual.frame).toBe(expected.frame);
+    expect(actual.grid).toEqual(expected.grid);
+    expect(actual.score).toEqual(expected.score);
+    expect(actual.isPlaying).toBe(expected.isPlaying);
+    expect(player.getMode().getHud()).toEqual(live.mode.getHud());
+  });
+
+  test("再生速度に応じて進むフレーム数が変わり、上限と下限で止まる", () => {
+    const live = startLiveGame({ type: "endless" }, 1);
+    playScript(live.engine, live.input, 600);
+    const player = new ReplayPlayer(live.recorder.finish());
+
+    player.update(FRAME_MS * 10);
+    expect(player.getFrame()).toBe(10);
+
+    player.changeSpeed(1);
+    player.changeSpeed(1);
+    expect(player.getSpeed()).toBe(4);
+    player.update(FRAME_MS * 10);
+    expect(player.getFrame()).toBe(50);
+
+    for (let i = 0; i < 10; i++) {
+      player.changeSpeed(1);
+    }
+    expect(player.getSpeed()).toBe(8);
+    for (let i = 0; i < 10; i++) {
+      player.changeSpeed(-1);
+    }
+    expect(player.getSpeed()).toBe(0.25);
+  });
+
+  test("一時停止中は時間では進まず、コマ送りで1フレームずつ進む", () => {
+    const live = startLiveGame({ type: "endless" }, 1);
+    playScript(live.engine, live.input, 300);
+    const player = new ReplayPlayer(live.recorder.finish());
+
+    player.togglePaused();
+    player.update(1000);
+    expect(player.getFrame()).toBe(0);
+
+    player.stepFrame();
+    player.stepFrame();
+    expect(player.getFrame()).toBe(2);
+    expect(player.isPaused()).toBe(true);
+  });
+
+  test("コマ送りで最後まで進めても、時間で進めた場合と同じ結果になる", () => {
+    const live = startLiveGame({ type: "sprint", lineTarget: 40 }, 99);
+    playScript(live.engine, live.input, 600);
+    const replay = live.recorder.finish();
+
+    const stepped = new ReplayPlayer(replay);
+    while (!stepped.isFinished()) {
+      stepped.stepFrame();
+    }
+    const timed = new ReplayPlayer(replay);
+    playToEnd(timed);
+
+    expect(stepped.getFrame()).toBe(replay.frames);
+    expect(stepped.getEngine().getState().grid).toEqual(
+      timed.getEngine().getState().grid
+    );
+    expect(stepped.getMode().getHud()).toEqual(timed.getMode().getHud());
+  });
+});
@@ -0,0 +1,165 @@
+import { attemptRotationSRS, rotateShapeSRS, RotationState } from "../rotation";
+import { GRID_WIDTH, GRID_HEIGHT, Grid } from "../collision";
+import { getTetrominoByIndex, TetrominoType } from "../tetromino";
+
+describe("rotation.ts", () => {
+  // テスト用のヘルパー関数
+  const createEmptyGrid = (): Grid => {
+    return Array(GRID_HEIGHT)
+      .fill(null)
+      .map(() => Array(GRID_WIDTH).fill(0));
+  };
+
+  describe("rotateShapeSRS", () => {
+    test("T型は3x3の回転中心で回転する", () => {
+      const t = getTetrominoByIndex(TetrominoType.T);
+
+      expect(rotateShapeSRS(t, TetrominoType.T, "clockwise")).toEqual([
+        [0, 0, 0, 0],
+        [0, 3, 0, 0],
+        [0, 3, 3, 0],
+        [0, 3, 0, 0],
+      ]);
+      expect(rotateShapeSRS(t, TetrominoType.T, "counterClockwise")).toEqual([
+        [0, 0, 0, 0],
+        [0, 3, 0, 0],
+        [3, 3, 0, 0],
+        [0, 3, 0, 0],
+      ]);
+    });
+
+    test("I型は4x4の回転中心で回転する", () => {
+      const i = getTetrominoByIndex(TetrominoType.I);
+
+      expect(rotateShapeSRS(i, TetrominoType.I, "clockwise")).toEqual([
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+        [0, 0, 1, 0],
+      ]);
+    });
+
+    test("O型は回転しても形状が変わらない", () => {
+      const o = getTetrominoByIndex(TetrominoType.O);
+
+      expect(rotateShapeSRS(o, TetrominoType.O, "clockwise")).toEqual(o);
+    });
+
+    test("4回回転で元の形に戻る", () => {
+      for (let type = 0; type < 7; type++) {
+        let shape = getTetrominoByIndex(type);
+        for (let i = 0; i < 4; i++) {
+          shape = rotateShapeSRS(shape, type, "clockwise");
+        }
+        expect(shape).toEqual(getTetrominoByIndex(type));
+      }
+    });
+  });
+
+  describe("attemptRotationSRS", () => {
+    test("回転状態が時計回り・反時計回りに遷移する", () => {
+      const grid = createEmptyGrid();
+      const t = getTetrominoByIndex(TetrominoType.T);
+
+      const cw = attemptRotationSRS(
+        grid,
+        t,
+        3,
+        5,
+        "clockwise",
+        0,
+        TetrominoType.T
+      );
+      expect(cw.valid).toBe(true);
+      expect(cw.newRotation).toBe(1);
+      expect(cw.x).toBe(3);
+      expect(cw.y).toBe(5);
+
+      const ccw = attemptRotationSRS(
+        grid,
+        t,
+        3,
+        5,
+        "counterClockwise",
+        0,
+        TetrominoType.T
+      );
+      expect(ccw.newRotation).toBe(3);
+    });
+
+    test("左壁に接したR状態のT型は右にキックされる", () => {
+      const grid = createEmptyGrid();
+      const tRight = rotateShapeSRS(
+        getTetrominoByIndex(TetrominoType.T),
+        TetrominoType.T,
+        "clockwise"
+      );
+
+      // R状態では回転領域の1列目が空なので、x=-1で左壁に接する
+      const result = attemptRotationSRS(
+        grid,
+        tRight,
+        -1,
+        5,
+        "counterClockwise",
+        1 as RotationState,
+        TetrominoType.T
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.newRotation).toBe(0);
+      expect(result.x).toBe(0);
+      expect(result.y).toBe(5);
+    });
+
+    test("上方向のキックはグリッド上で上（Yが減る方向）に適用される", () => {
+      const grid = createEmptyGrid();
+      const i = getTetrominoByIndex(TetrominoType.I);
+
+      // 最下段に横向きのI型（形状の1行目がグリッドの最下段）
+      const result = attemptRotationSRS(
+        grid,
+        i,
+        3,
+        GRID_HEIGHT - 2,
+        "clockwise",
+        0,
+        TetrominoType.I
+      );
+
+      // 0->R の5番目のキック (+1, +2) で2行上に持ち上がる
+      expect(result.valid).toBe(true);
+      expect(result.x).toBe(4);
+      expect(result.y).toBe(GRID_HEIGHT - 4);
+    });
+
+    test("全てのキックが失敗すると元の状態を返す", () => {
+      const grid = createEmptyGrid();
+      // T型の周囲を埋めて回転できない状態にする
+      for (let row = 0; row < GRID_HEIGHT; row++) {
+        for (let col = 0; col < GRID_WIDTH; col++) {
+          grid[row][col] = 8;
+        }
+      }
+      const t = getTetrominoByIndex(TetrominoType.T);
+      grid[6][4] = 0;
+      grid[7][3] = 0;
+      grid[7][4] = 0;
+      grid[7][5] = 0;
+
+      const result = attemptRotationSRS(
+        grid,
+        t,
+        3,
+        5,
+        "clockwise",
+        0,
+        TetrominoType.T
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.rotated).toBe(t);
+      expect(result.newRotation).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  createRotationSystem,
+  getNextRotation,
+  RotatablePiece,
+  RotationDirection,
+  RotationSystemType,
+} from "../rotationSystem";
+import { GRID_WIDTH, GRID_HEIGHT, Grid } from "../collision";
+import { RotationState } from "../rotation";
+import { TetrominoType } from "../tetromino";
+
+describe("rotationSystem.ts", () => {
+  // テスト用のヘルパー関数
+  const createEmptyGrid = (): Grid => {
+    return Array(GRID_HEIGHT)
+      .fill(null)
+      .map(() => Array(GRID_WIDTH).fill(0));
+  };
+
+  const createPiece = (
+    systemType: RotationSystemType,
+    type: TetrominoType,
+    x: number,
+    y: number,
+    rotation: RotationState = 0
+  ): RotatablePiece => ({
+    type,
+    shape: createRotationSystem(systemType).getShape(type, rotation),
+    x,
+    y,
+    rotation,
+  });
+
+  const countBlocks = (shape: number[][]): number =>
+    shape.reduce(
+      (sum, row) => sum + row.filter((cell) => cell !== 0).length,
+      0
+    );
+
+  const systems: RotationSystemType[] = [
+    "srs",
+    "srsPlus",
+    "ars",
+    "nrs",
+    "noKick",
+  ];
+
+  test("回転状態は方向に応じて遷移する", () => {
+    expect(getNextRotation(0, "clockwise")).toBe(1);
+    expect(getNextRotation(0, "counterClockwise")).toBe(3);
+    expect(getNextRotation(1, "180")).toBe(3);
+  });
+
+  test.each(systems)("%s: 全ての回転状態が4ブロックで構成される", (type) => {
+    const system = createRotationSystem(type);
+
+    for (let piece = 0; piece < 7; piece++) {
+      for (let rotation = 0; rotation < 4; rotation++) {
+        const shape = system.getShape(piece, rotation as RotationState);
+        expect(shape).toHaveLength(4);
+        expect(countBlocks(shape)).toBe(4);
+      }
+    }
+  });
+
+  test.each(systems)("%s: 空の盤面では4回転で元の位置と形に戻る", (type) => {
+    const system = createRotationSystem(type);
+    const grid = createEmptyGrid();
+    let piece = createPiece(type, TetrominoType.T, 3, 5);
+
+    for (let i = 0; i < 4; i++) {
+      const result = system.rotate(grid, piece, "clockwise");
+      expect(result.valid).toBe(true);
+      expect(result.kickIndex).toBe(0);
+      piece = {
+        ...piece,
+        shape: result.rotated,
+        x: result.x,
+        y: result.y,
+        rotation: result.newRotation,
+      };
+    }
+
+    expect(piece.rotation).toBe(0);
+    expect(piece.x).toBe(3);
+    expect(piece.y).toBe(5);
+    expect(piece.shape).toEqual(system.getShape(TetrominoType.T, 0));
+  });
+
+  describe("SRS+", () => {
+    test("180度回転ができるのはSRS+のみ", () => {
+      const grid = createEmptyGrid();
+
+      systems.forEach((type) => {
+        const system = createRotationSystem(type);
+        const result = system.rotate(
+          grid,
+          createPiece(type, TetrominoType.T, 3, 5),
+          "180"
+        );
+        expect(result.valid).toBe(system.supports180);
+        expect(system.supports180).toBe(type === "srsPlus");
+      });
+    });
+
+    test("床に接したT型の180度回転は上にキックされる", () => {
+      const system = createRotationSystem("srsPlus");
+      const grid = createEmptyGrid();
+      // 0状態のT型の下端（形状の2行目）が最下段にある
+      const piece = createPiece("srsPlus", TetrominoType.T, 3, GRID_HEIGHT - 3);
+
+      const result = system.rotate(grid, piece, "180");
+
+      expect(result.valid).toBe(true);
+      expect(result.newRotation).toBe(2);
+      expect(result.kickIndex).toBe(1);
+      expect(result.y).toBe(GRID_HEIGHT - 4);
+    });
+
+    test("I型のキックは左右対称になる", () => {
+      const system = createRotationSystem("srsPlus");
+      const kicks = system.getKicks(TetrominoType.I, 0, 1);
+      const mirrored = system.getKicks(TetrominoType.I, 0, 3);
+
+      expect(mirrored).toEqual(kicks.map(([x, y]) => [0 - x, y]));
+    });
+  });
+
+  describe("ARS", () => {
+    test("T型は平らな面を上にして、下向きで出現する", () => {
+      const system = createRotationSystem("ars");
+
+      expect(system.getShape(TetrominoType.T, 0)).toEqual([
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [3, 3, 3, 0],
+        [0, 3, 0, 0],
+      ]);
+    });
+
+    test("壁際では右に1マスキックする", () => {
+      const system = createRotationSystem("ars");
+      const grid = createEmptyGrid();
+      // L状態のT型（形状の1〜2列目）を左壁に接した位置で回転する
+      const piece = createPiece("ars", TetrominoType.T, -1, 5, 3);
+
+      const result = system.rotate(grid, piece, "clockwise");
+
+      expect(result.valid).toBe(true);
+      expect(result.kickIndex).toBe(1);
+      expect(result.x).toBe(0);
+    });
+
+    test("I型はキックしない", () => {
+      const system = createRotationSystem("ars");
+      const grid = createEmptyGrid();
+      // 縦向きのI型を右壁に接した位置に置く（ブロックは形状の2列目）
+      const piece = createPiece("ars", TetrominoType.I, GRID_WIDTH - 3, 5, 1);
+
+      expect(system.rotate(grid, piece, "clockwise").valid).toBe(false);
+    });
+
+    test("中央列がふさがっている場合はキックしない", () => {
+      const system = createRotationSystem("ars");
+      const grid = createEmptyGrid();
+      // 回転後のL型の中央列の下端にブロックを置く（右キックなら回転できる位置）
+      const piece = createPiece("ars", TetrominoType.L, 3, 5);
+      grid[8][4] = 8;
+
+      expect(system.rotate(grid, piece, "clockwise").valid).toBe(false);
+    });
+  });
+
+  describe("NRS / キックなし", () => {
+    // 左壁に接した縦向きのT型（NRSはL状態、SRSの形状はR状態が1〜2列目にある）
+    test.each([
+      ["nrs", 3, "clockwise"],
+      ["noKick", 1, "counterClockwise"],
+    ] as [RotationSystemType, RotationState, RotationDirection][])(
+      "%s: 壁際で回転できない場合はキックしない",
+      (type, rotation, direction) => {
+        const system = createRotationSystem(type);
+        const grid = createEmptyGrid();
+        const piece = createPiece(type, TetrominoType.T, -1, 5, rotation);
+
+        const result = system.rotate(grid, piece, direction);
+
+        expect(result.valid).toBe(false);
+        expect(result.kickIndex).toBe(-1);
+        expect(result.x).toBe(-1);
+      }
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  ScoreManager,
+  ScoringSystemType,
+  getDefaultScoreConfig,
+  getGuidelineDropInterval,
+} from "../scoreAndLevel";
+import { NO_SPIN, SpinResult } from "../spinDetection";
+import { TetrominoType } from "../tetromino";
+
+describe("scoreAndLevel.ts", () => {
+  // テスト用のヘルパー関数
+  const createManager = (
+    scoringSystem: ScoringSystemType = "guideline",
+    initialLevel: number = 1
+  ): ScoreManager =>
+    new ScoreManager({
+      ...getDefaultScoreConfig(),
+      scoringSystem,
+      initialLevel,
+    });
+
+  const tSpin: SpinResult = { kind: "full", pieceType: TetrominoType.T };
+  const tSpinMini: SpinResult = { kind: "mini", pieceType: TetrominoType.T };
+
+  describe("ガイドライン", () => {
+    test("ライン消去の点数にレベルを掛ける", () => {
+      const manager = createManager("guideline", 3);
+
+      const award = manager.awardLock(4, NO_SPIN, false);
+
+      expect(award.label).toBe("TETRIS");
+      expect(award.points).toBe(2400);
+      expect(manager.score).toBe(2400);
+    });
+
+    test("T-スピンとミニの点数", () => {
+      const manager = createManager();
+
+      expect(manager.awardLock(2, tSpin, false)).toMatchObject({
+        label: "T-SPIN DOUBLE",
+        points: 1200,
+        spin: "full",
+      });
+      expect(manager.awardLock(0, tSpinMini, false)).toMatchObject({
+        label: "T-SPIN MINI",
+        points: 100,
+      });
+    });
+
+    test("難しい消去が続くとバックトゥバックで1.5倍になる", () => {
+      const manager = createManager();
+
+      manager.awardLock(4, NO_SPIN, false);
+      // ライン消去なしの固定ではバックトゥバックは途切れない
+      manager.awardLock(0, NO_SPIN, false);
+      const award = manager.awardLock(4, NO_SPIN, false);
+
+      expect(award.label).toBe("B2B TETRIS");
+      expect(award.backToBack).toBe(true);
+      expect(award.points).toBe(1200);
+      expect(award.items.map((item) => item.kind)).toEqual([
+        "lineClear",
+        "backToBack",
+      ]);
+    });
+
+    test("通常のライン消去でバックトゥバックが途切れる", () => {
+      const manager = createManager();
+
+      manager.awardLock(4, NO_SPIN, false);
+      manager.awardLock(1, NO_SPIN, false);
+      manager.awardLock(0, NO_SPIN, false);
+
+      expect(manager.awardLock(2, tSpin, false).backToBack).toBe(false);
+    });
+
+    test("連続でライン消去するとコンボ点が加算される", () => {
+      const manager = createManager();
+
+      expect(manager.awardLock(1, NO_SPIN, false).combo).toBe(0);
+
+      const award = manager.awardLock(1, NO_SPIN, false);
+      expect(award.combo).toBe(1);
+      expect(award.label).toBe("SINGLE 1 COMBO");
+      expect(award.points).toBe(100 + 50);
+
+      expect(manager.awardLock(1, NO_SPIN, false).points).toBe(100 + 100);
+
+      // ライン消去なしでコンボが途切れる
+      manager.awardLock(0, NO_SPIN, false);
+      expect(manager.awardLock(1, NO_SPIN, false).combo).toBe(0);
+    });
+
+    test("パーフェクトクリアのボーナス", () => {
+      const manager = createManager();
+
+      const award = manager.awardLock(4, NO_SPIN, true);
+      expect(award.label).toBe("TETRIS PERFECT CLEAR");
+      expect(award.points).toBe(800 + 2000);
+
+      // バックトゥバックのテトリスでのパーフェクトクリア
+      expect(manager.awardLock(4, NO_SPIN, true).points).toBe(1200 + 50 + 3200);
+    });
+
+    test("ドロップの得点はマス数に比例し、レベル倍率は掛からない", () => {
+      const manager = createManager("guideline", 5);
+
+      expect(manager.awardDrop("soft", 3).points).toBe(3);
+      expect(manager.awardDrop("hard", 10).points).toBe(20);
+      expect(manager.score).toBe(23);
+    });
+
+    test("レベル倍率はレベルアップ前のレベルで計算する", () => {
+      const manager = createManager();
+
+      for (let i = 0; i < 9; i++) {
+        manager.awardLock(1, NO_SPIN, false);
+        manager.awardLock(0, NO_SPIN, false);
+      }
+      expect(manager.level).toBe(1);
+
+      expect(manager.awardLock(1, NO_SPIN, false).points).toBe(100);
+      expect(manager.level).toBe(2);
+    });
+  });
+
+  describe("落下速度とレベルアップの条件", () => {
+    test("ガイドラインの落下間隔は (0.8 - (レベル - 1) × 0.007)^(レベル - 1) 秒", () => {
+      expect(getGuidelineDropInterval(1)).toBe(1000);
+      expect(getGuidelineDropInterval(2)).toBeCloseTo(793, 0);
+      expect(getGuidelineDropInterval(15)).toBeCloseTo(7.05, 1);
+
+      const manager = new ScoreManager({
+        ...getDefaultScoreConfig(),
+        gravityCurve: "guideline",
+        initialLevel: 10,
+      });
+      expect(manager.getDropInterval()).toBeCloseTo(
+        getGuidelineDropInterval(10)
+      );
+    });
+
+    test("可変ゴールではテトリスを8ライン、レベルごとのゴールを レベル × 5 として数える", () => {
+      const manager = new ScoreManager({
+        ...getDefaultScoreConfig(),
+        levelGoal: "variable",
+      });
+      expect(manager.getLinesToNextLevel()).toBe(5);
+
+      manager.awardLock(4, NO_SPIN, false);
+      expect(manager.level).toBe(2);
+      expect(manager.getLinesToNextLevel()).toBe(7);
+
+      // バックトゥバックのテトリスは半分が加算されて12ライン
+      manager.awardLock(4, NO_SPIN, false);
+      expect(manager.level).toBe(3);
+      expect(manager.goalProgress).toBe(5);
+
+      // T-スピン（消去なし）は4ライン
+      manager.awardLock(0, tSpin, false);
+      expect(manager.goalProgress).toBe(9);
+      expect(manager.totalLinesCleared).toBe(8);
+    });
+
+    test("固定ゴールでは消去行数がそのまま数えられる", () => {
+      const manager = createManager();
+
+      manager.awardLock(4, NO_SPIN, false);
+      manager.awardLock(4, NO_SPIN, false);
+      expect(manager.level).toBe(1);
+      expect(manager.getLinesToNextLevel()).toBe(2);
+
+      manager.awardLock(3, NO_SPIN, false);
+      expect(manager.level).toBe(2);
+      expect(manager.getLinesToNextLevel()).toBe(9);
+    });
+  });
+
+  describe("他の得点表", () => {
+    test("NES: テトリスは1200点で、バックトゥバックやコンボはない", () => {
+      const manager = createManager("nes", 2);
+
+      manager.awardLock(4, NO_SPIN, false);
+      const award = manager.awardLock(4, NO_SPIN, false);
+
+      expect(award.points).toBe(2400);
+      expect(award.backToBack).toBe(false);
+      expect(manager.awardDrop("hard", 10).points).toBe(0);
+    });
+
+    test("セガ: 2レベルごとに倍率が上がる", () => {
+      expect(createManager("sega", 1).awardLock(4, NO_SPIN, false).points).toBe(
+        2000
+      );
+      expect(createManager("sega", 3).awardLock(4, NO_SPIN, false).points).toBe(
+        4000
+      );
+      expect(
+        createManager("sega", 20).awardLock(1, NO_SPIN, false).points
+      ).toBe(500);
+    });
+  });
+});
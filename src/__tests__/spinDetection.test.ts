@@ -0,0 +1,192 @@
+import {
+  detectSpin,
+  detectTSpin,
+  isImmobile,
+  isTstKick,
+  SpinContext,
+  TST_KICK_INDEX,
+} from "../spinDetection";
+import { lockPiece } from "../lockAndClear";
+import { GRID_WIDTH, GRID_HEIGHT, Grid } from "../collision";
+import { rotateShapeSRS } from "../rotation";
+import { createRotationSystem } from "../rotationSystem";
+import { getTetrominoByIndex, TetrominoType } from "../tetromino";
+
+describe("spinDetection.ts", () => {
+  // テスト用のヘルパー関数
+  const createEmptyGrid = (): Grid => {
+    return Array(GRID_HEIGHT)
+      .fill(null)
+      .map(() => Array(GRID_WIDTH).fill(0));
+  };
+
+  const fillRow = (grid: Grid, row: number, holes: number[]): void => {
+    for (let col = 0; col < GRID_WIDTH; col++) {
+      grid[row][col] = holes.includes(col) ? 0 : 8;
+    }
+  };
+
+  const tShape = (rotations: number): number[][] => {
+    let shape = getTetrominoByIndex(TetrominoType.T);
+    for (let i = 0; i < rotations; i++) {
+      shape = rotateShapeSRS(shape, TetrominoType.T, "clockwise");
+    }
+    return shape;
+  };
+
+  const rotated = (
+    pieceType: TetrominoType,
+    tstKick: boolean = false,
+    allSpin: boolean = false
+  ): SpinContext => ({
+    pieceType,
+    lastMoveWasRotation: true,
+    tstKick,
+    allSpin,
+  });
+
+  // T-スピンダブルの形：下向きのT型がぴったり収まる穴と、左上の屋根
+  const createTSDGrid = (): Grid => {
+    const grid = createEmptyGrid();
+    fillRow(grid, GRID_HEIGHT - 1, [4]);
+    fillRow(grid, GRID_HEIGHT - 2, [3, 4, 5]);
+    grid[GRID_HEIGHT - 3][3] = 8;
+    return grid;
+  };
+
+  describe("detectTSpin", () => {
+    test("前方の角が2つとも埋まっていれば通常のT-スピン", () => {
+      const grid = createTSDGrid();
+
+      expect(detectTSpin(grid, tShape(2), 3, GRID_HEIGHT - 4, false)).toBe(
+        "full"
+      );
+    });
+
+    test("前方の角が1つしか埋まっていなければT-スピンミニ", () => {
+      const grid = createEmptyGrid();
+      // 上向きのT型を床に置き、左上の角だけを埋める
+      grid[GRID_HEIGHT - 2][3] = 8;
+
+      expect(detectTSpin(grid, tShape(0), 3, GRID_HEIGHT - 3, false)).toBe(
+        "mini"
+      );
+    });
+
+    test("TSTキック（5番目のキック）を使った場合はミニではなく通常のT-スピン", () => {
+      const grid = createEmptyGrid();
+      grid[GRID_HEIGHT - 2][3] = 8;
+
+      expect(detectTSpin(grid, tShape(0), 3, GRID_HEIGHT - 3, true)).toBe(
+        "full"
+      );
+    });
+
+    test("SRS+の180度回転の5番目のキックはTSTキックとして扱わない", () => {
+      const system = createRotationSystem("srsPlus");
+      const grid = createEmptyGrid();
+      // R状態のT型の縦の3マスが、下から3行目から最下段までにある
+      const y = GRID_HEIGHT - 4;
+      const top = y + 1;
+      // 180度回転すると、4番目までのキックがふさがれて2マス上に移る
+      grid[top + 1][3] = 8;
+      grid[top + 2][5] = 8;
+      grid[top][5] = 8;
+      // 移った先の中心の斜めは、凸部（左）側の1マスと後方の2マスが埋まっている
+      grid[top - 2][5] = 8;
+      grid[top][3] = 8;
+      const piece = {
+        type: TetrominoType.T,
+        shape: system.getShape(TetrominoType.T, 1),
+        x: 3,
+        y,
+        rotation: 1 as const,
+      };
+
+      const result = system.rotate(grid, piece, "180");
+
+      expect(result.valid).toBe(true);
+      expect(result.kickIndex).toBe(TST_KICK_INDEX);
+      expect(isTstKick(result.kickIndex, "180")).toBe(false);
+      expect(isTstKick(TST_KICK_INDEX, "clockwise")).toBe(true);
+      expect(detectTSpin(grid, result.rotated, result.x, result.y, false)).toBe(
+        "mini"
+      );
+    });
+
+    test("埋まっている角が2つ以下ならT-スピンではない", () => {
+      const grid = createEmptyGrid();
+
+      // 床の2つの角のみ
+      expect(detectTSpin(grid, tShape(0), 3, GRID_HEIGHT - 3, false)).toBe(
+        "none"
+      );
+    });
+  });
+
+  describe("detectSpin", () => {
+    test("最後の操作が回転でなければスピンにならない", () => {
+      const grid = createTSDGrid();
+      const context = {
+        ...rotated(TetrominoType.T),
+        lastMoveWasRotation: false,
+      };
+
+      expect(
+        detectSpin(grid, tShape(2), 3, GRID_HEIGHT - 4, context).kind
+      ).toBe("none");
+    });
+
+    test("オールスピン有効時は動けないS型がスピンになる", () => {
+      const grid = createEmptyGrid();
+      for (let row = GRID_HEIGHT - 4; row < GRID_HEIGHT; row++) {
+        fillRow(grid, row, []);
+      }
+      // S型（0状態）が収まる穴だけを空ける
+      grid[GRID_HEIGHT - 2][4] = 0;
+      grid[GRID_HEIGHT - 2][5] = 0;
+      grid[GRID_HEIGHT - 1][3] = 0;
+      grid[GRID_HEIGHT - 1][4] = 0;
+      const s = getTetrominoByIndex(TetrominoType.S);
+
+      expect(isImmobile(grid, s, 3, GRID_HEIGHT - 3)).toBe(true);
+      expect(
+        detectSpin(
+          grid,
+          s,
+          3,
+          GRID_HEIGHT - 3,
+          rotated(TetrominoType.S, false, true)
+        )
+      ).toEqual({ kind: "full", pieceType: TetrominoType.S });
+      expect(
+        detectSpin(grid, s, 3, GRID_HEIGHT - 3, rotated(TetrominoType.S)).kind
+      ).toBe("none");
+    });
+  });
+
+  describe("lockPiece", () => {
+    test("固定結果にスピンの判定が含まれる", () => {
+      const grid = createTSDGrid();
+
+      const result = lockPiece(
+        grid,
+        tShape(2),
+        3,
+        GRID_HEIGHT - 4,
+        rotated(TetrominoType.T)
+      );
+
+      expect(result.linesCleared).toBe(2);
+      expect(result.spin).toEqual({ kind: "full", pieceType: TetrominoType.T });
+    });
+
+    test("判定情報を渡さない場合はスピンなし", () => {
+      const grid = createTSDGrid();
+
+      expect(lockPiece(grid, tShape(2), 3, GRID_HEIGHT - 4).spin.kind).toBe(
+        "none"
+      );
+    });
+  });
+});
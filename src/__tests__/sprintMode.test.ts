@@ -0,0 +1,166 @@
+import { MemoryStorage, saveJSON } from "../storage";
+import { formatDelta, formatTime } from "../modes/gameMode";
+import { SprintMode, SprintRecord, getSplitPoints } from "../modes/sprintMode";
+import { clearLines, startModeEngine } from "./modeTestHelper";
+
+describe("sprintMode.ts", () => {
+  // テスト用のヘルパー関数
+  const createMode = (
+    storage: MemoryStorage = new MemoryStorage(),
+    lineTarget: number = 40
+  ) => {
+    const mode = new SprintMode({ lineTarget, splitInterval: 10 }, storage);
+    const engine = startModeEngine(mode);
+
+    // 時間を進めてから、実際にピースを固定してラインを消去する
+    const clear = (lines: number, ms: number = 0): void => {
+      mode.update(ms);
+      clearLines(engine, lines);
+    };
+
+    return { engine, mode, clear };
+  };
+
+  test("スプリット地点は間隔ごとに作られ、目標ライン数で終わる", () => {
+    expect(getSplitPoints(40, 10)).toEqual([10, 20, 30, 40]);
+    expect(getSplitPoints(25, 10)).toEqual([10, 20, 25]);
+  });
+
+  test("タイマーは最初の入力で開始する", () => {
+    const { mode } = createMode();
+
+    mode.update(1000);
+    expect(mode.getElapsed()).toBe(0);
+
+    mode.onInput();
+    mode.update(1234);
+    expect(mode.getElapsed()).toBe(1234);
+  });
+
+  test("10ラインごとにスプリットを記録し、目標到達でゲームを終了する", () => {
+    const { engine, mode, clear } = createMode(new MemoryStorage(), 20);
+    mode.onInput();
+
+    clear(4, 5000);
+    clear(4, 5000);
+    clear(4, 5000);
+    expect(mode.getSplits()).toEqual([15000]);
+    expect(engine.getState().isPlaying).toBe(true);
+
+    clear(4, 5000);
+    clear(4, 5000);
+    expect(mode.getSplits()).toEqual([15000, 25000]);
+
+    const state = engine.getState();
+    expect(state.isGameOver).toBe(true);
+    expect(state.endReason).toBe("goalReached");
+    expect(state.lines).toBe(20);
+
+    const result = mode.getResult()!;
+    expect(result.isPersonalBest).toBe(true);
+    expect(result.items[0]).toEqual({ label: "TIME", value: "0:25.000" });
+
+    // 終了後はタイマーが止まる
+    mode.update(1000);
+    expect(mode.getElapsed()).toBe(25000);
+  });
+
+  test("自己ベストを保存し、次回のプレイでは差を表示する", () => {
+    const storage = new MemoryStorage();
+    const best: SprintRecord = {
+      version: 1,
+      time: 20000,
+      splits: [8000, 20000],
+      pieces: 50,
+      date: "2026-01-01T00:00:00.000Z",
+    };
+    saveJSON(storage, "sprint.best.20", best);
+
+    const { mode, clear } = createMode(storage, 20);
+    mode.onInput();
+    expect(mode.getDelta()).toBeNull();
+
+    // 最初のスプリット地点の自己ベスト（8秒）を超えると遅れが表示される
+    mode.update(9000);
+    expect(mode.getDelta()).toBe(1000);
+
+    clear(10, 0);
+    expect(mode.getDelta()).toBe(1000);
+    expect(mode.getHud().find((item) => item.label === "PB")).toMatchObject({
+      value: "+1.000",
+    });
+
+    // 自己ベストより速くクリアすると更新される
+    clear(10, 9000);
+    expect(mode.getDelta()).toBe(-2000);
+    expect(mode.getResult()!.isPersonalBest).toBe(true);
+    expect(createMode(storage, 20).mode.getPersonalBest()!.time).toBe(18000);
+  });
+
+  test("自己ベストより遅い記録は保存しない", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "sprint.best.20", {
+      version: 1,
+      time: 10000,
+      splits: [5000, 10000],
+      pieces: 40,
+      date: "2026-01-01T00:00:00.000Z",
+    });
+
+    const { mode, clear } = createMode(storage, 20);
+    mode.onInput();
+    clear(20, 12000);
+
+    expect(mode.getResult()!.isPersonalBest).toBe(false);
+    expect(createMode(storage, 20).mode.getPersonalBest()!.time).toBe(10000);
+  });
+
+  test("バージョンや形式が異なる自己ベストは読み込まない", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "sprint.best.20", { version: 1, time: 10000 });
+
+    const { mode, clear } = createMode(storage, 20);
+    expect(mode.getPersonalBest()).toBeNull();
+    mode.onInput();
+    mode.update(9000);
+    expect(mode.getDelta()).toBeNull();
+    clear(20, 0);
+    expect(mode.getResult()!.isPersonalBest).toBe(true);
+
+    saveJSON(storage, "sprint.best.20", {
+      time: 10000,
+      splits: [5000, 10000],
+      pieces: 40,
+      date: "2026-01-01T00:00:00.000Z",
+    });
+    expect(createMode(storage, 20).mode.getPersonalBest()).toBeNull();
+  });
+
+  test("形式が誤っている進行状況は復元しない", () => {
+    const { mode } = createMode();
+    mode.onInput();
+    mode.update(1234);
+    const saved = mode.getSaveState()!;
+    const restored = createMode().mode;
+
+    expect(() =>
+      restored.restoreSaveState({ ...saved, splits: ["10"] })
+    ).toThrow(
+      "Invalid mode save state: splits must be an array of finite numbers"
+    );
+    expect(() =>
+      restored.restoreSaveState({ ...saved, elapsed: undefined })
+    ).toThrow("Invalid mode save state: elapsed must be a finite number");
+    expect(restored.getElapsed()).toBe(0);
+
+    restored.restoreSaveState(saved);
+    expect(restored.getElapsed()).toBe(1234);
+  });
+
+  test("時間と差の表示形式", () => {
+    expect(formatTime(65432)).toBe("1:05.432");
+    expect(formatTime(0)).toBe("0:00.000");
+    expect(formatDelta(-1234)).toBe("-1.234");
+    expect(formatDelta(500)).toBe("+0.500");
+  });
+});
@@ -0,0 +1,120 @@
+import { MemoryStorage } from "../storage";
+import {
+  StackVisibility,
+  StackVisibilityConfig,
+  getDefaultStackVisibilityConfig,
+  loadStackVisibilitySettings,
+  saveStackVisibilitySettings,
+} from "../stackVisibility";
+
+describe("stackVisibility.ts", () => {
+  // テスト用のヘルパー関数
+  const createVisibility = (config: Partial<StackVisibilityConfig>) =>
+    new StackVisibility({ ...getDefaultStackVisibilityConfig(), ...config });
+
+  const emptyGrid = (): number[][] =>
+    Array.from({ length: 4 }, () => Array(3).fill(0));
+
+  test("fading: 固定したブロックは設定した時間をかけて見えなくなる", () => {
+    const visibility = createVisibility({ mode: "fading", fadeTime: 1000 });
+    const grid = emptyGrid();
+    visibility.reset(grid);
+
+    visibility.update(500);
+    grid[3][0] = 1;
+    visibility.onLock([], grid);
+    expect(visibility.getAlpha(3, 0)).toBe(1);
+
+    visibility.update(250);
+    expect(visibility.getAlpha(3, 0)).toBeCloseTo(0.75);
+    visibility.update(1000);
+    expect(visibility.getAlpha(3, 0)).toBe(0);
+  });
+
+  test("invisible: 固定した瞬間に見えなくなり、フラッシュで一時的に表示される", () => {
+    const visibility = createVisibility({
+      mode: "invisible",
+      revealDuration: 300,
+    });
+    const grid = emptyGrid();
+    grid[3] = [8, 8, 0];
+    visibility.reset(grid);
+
+    expect(visibility.isActive()).toBe(true);
+    expect(visibility.getAlpha(3, 0)).toBe(0);
+
+    visibility.flash();
+    expect(visibility.getAlpha(3, 0)).toBe(1);
+    visibility.update(300);
+    expect(visibility.getAlpha(3, 0)).toBe(0);
+  });
+
+  test("定期的な表示の間隔ごとに盤面全体を表示する", () => {
+    const visibility = createVisibility({
+      mode: "invisible",
+      revealInterval: 1000,
+      revealDuration: 200,
+    });
+    const grid = emptyGrid();
+    grid[3][1] = 2;
+    visibility.reset(grid);
+
+    visibility.update(900);
+    expect(visibility.getAlpha(3, 1)).toBe(0);
+    visibility.update(150);
+    expect(visibility.getAlpha(3, 1)).toBe(1);
+    visibility.update(200);
+    expect(visibility.getAlpha(3, 1)).toBe(0);
+  });
+
+  test("ライン消去では固定時刻も盤面と同じように詰める", () => {
+    const visibility = createVisibility({ mode: "fading", fadeTime: 1000 });
+    const grid = emptyGrid();
+    grid[3] = [8, 8, 0];
+    visibility.reset(grid);
+
+    // 古いブロックの上に新しいブロックを置き、最下段を消去する
+    visibility.update(600);
+    const afterClear = emptyGrid();
+    afterClear[3] = [0, 1, 0];
+    visibility.onLock([3], afterClear);
+
+    expect(visibility.getAlpha(3, 1)).toBe(1);
+    expect(visibility.getAlpha(3, 0)).toBe(1); // 空のセル
+  });
+
+  test("ゲーム終了時には下の行から順に盤面全体を表示する", () => {
+    const visibility = createVisibility({
+      mode: "invisible",
+      endRevealDuration: 400,
+    });
+    const grid = emptyGrid();
+    grid[0][0] = 1;
+    grid[3][0] = 1;
+    visibility.reset(grid);
+
+    visibility.startEndReveal();
+    visibility.update(100);
+    expect(visibility.isEndRevealing()).toBe(true);
+    expect(visibility.getAlpha(3, 0)).toBe(1);
+    expect(visibility.getAlpha(0, 0)).toBe(0);
+
+    visibility.update(300);
+    expect(visibility.isEndRevealing()).toBe(false);
+    expect(visibility.getAlpha(0, 0)).toBe(1);
+  });
+
+  test("設定を保存して読み込める", () => {
+    const storage = new MemoryStorage();
+    expect(loadStackVisibilitySettings(storage).mode).toBe("normal");
+
+    saveStackVisibilitySettings(storage, {
+      mode: "fading",
+      revealInterval: 5000,
+    });
+    expect(loadStackVisibilitySettings(storage)).toEqual({
+      mode: "fading",
+      revealInterval: 5000,
+    });
+  });
+});
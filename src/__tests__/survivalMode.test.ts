@@ -0,0 +1,84 @@
+import { GameEngine } from "../gameEngine";
+import { countGarbageRows } from "../garbage";
+import { MemoryStorage } from "../storage";
+import {
+  SurvivalConfig,
+  SurvivalMode,
+  getDefaultSurvivalConfig,
+  getSurvivalRiseInterval,
+} from "../modes/survivalMode";
+import { clearLines, startModeEngine } from "./modeTestHelper";
+
+describe("survivalMode.ts", () => {
+  // テスト用のヘルパー関数
+  const createMode = (
+    config: Partial<SurvivalConfig> = {},
+    storage: MemoryStorage = new MemoryStorage()
+  ) => {
+    const mode = new SurvivalMode(
+      { ...getDefaultSurvivalConfig(), seed: 1, ...config },
+      storage
+    );
+    const engine = startModeEngine(mode);
+    mode.onInput();
+
+    return {
+      engine,
+      mode,
+      clear: (lines: number) => clearLines(engine, lines),
+    };
+  };
+
+  const garbageRows = (engine: GameEngine): number =>
+    countGarbageRows(engine.getState().grid);
+
+  test("せり上がりの間隔はレベルが上がるほど短くなり、下限で止まる", () => {
+    const config = getDefaultSurvivalConfig();
+
+    expect(getSurvivalRiseInterval(config, 1)).toBe(10000);
+    expect(getSurvivalRiseInterval(config, 5)).toBe(7000);
+    expect(getSurvivalRiseInterval(config, 30)).toBe(2000);
+  });
+
+  test("間隔が経過するとガベージがせり上がり、警告メーターが表示される", () => {
+    const { engine, mode } = createMode({ startInterval: 3000 });
+
+    mode.update(1500);
+    expect(mode.getHud()[1]).toEqual({
+      label: "RISE",
+      value: "1 [####----]",
+      color: "#ff4444",
+    });
+    expect(garbageRows(engine)).toBe(0);
+
+    mode.update(1500);
+    expect(garbageRows(engine)).toBe(1);
+    expect(mode.getTimeToRise()).toBe(3000);
+  });
+
+  test("ラインを消去すると次のせり上がりが遅れる", () => {
+    const { mode, clear } = createMode();
+
+    mode.update(6000);
+    clear(2);
+    expect(mode.getTimeToRise()).toBe(6000);
+
+    // 経過時間以上には遅らせない
+    clear(4);
+    expect(mode.getTimeToRise()).toBe(10000);
+  });
+
+  test("トップアウトすると生き残った時間を記録する", () => {
+    const storage = new MemoryStorage();
+    const { engine, mode } = createMode({}, storage);
+
+    mode.update(25000);
+    engine.end("topOut");
+
+    const result = mode.getResult()!;
+    expect(result.isPersonalBest).toBe(true);
+    expect(result.items[0]).toEqual({ label: "TIME", value: "0:25.000" });
+    expect(result.items[3]).toEqual({ label: "RISEN", value: "2" });
+    expect(createMode({}, storage).mode.getPersonalBest()!.time).toBe(25000);
+  });
+});
@@ -0,0 +1,240 @@
+import { DEFAULT_BOARD_SPEC } from "../boardSpec";
+import { FRAME_MS, GameEngine, TetrisAction } from "../gameEngine";
+import { GameMode, ModeSelection } from "../modes/gameMode";
+import { createGameMode } from "../modes/modeFactory";
+import {
+  ReplayPlayer,
+  ReplayRecorder,
+  ReplayRules,
+  createRulesEngineConfig,
+} from "../replay";
+import { MemoryStorage } from "../storage";
+import {
+  SUSPEND_VERSION,
+  SuspendedGame,
+  clearSuspendedGame,
+  decodeSuspendedGame,
+  encodeSuspendedGame,
+  loadSuspendedGame,
+  saveSuspendedGame,
+} from "../suspend";
+
+describe("suspend.ts", () => {
+  const rules: ReplayRules = {
+    board: { ...DEFAULT_BOARD_SPEC },
+    randomizer: "sevenBag",
+    rotationSystem: "srs",
+    allSpin: false,
+    scoringSystem: "guideline",
+    partialLockOut: false,
+  };
+  const stackVisibility = { mode: "normal" as const, revealInterval: 0 };
+
+  interface Game {
+    mode: GameMode;
+    engine: GameEngine;
+    recorder: ReplayRecorder;
+    /** これまでに入力した操作の数 */
+    inputs: number;
+  }
+
+  // シーンと同じ手順でモードとエンジンを用意する（中断したゲームを指定した場合は再開する）
+  const createGame = (
+    selection: ModeSelection,
+    seed: number,
+    suspended: SuspendedGame | null = null
+  ): Game => {
+    const mode = createGameMode(selection, new MemoryStorage(), seed);
+    const engine = new GameEngine(
+      mode.configureEngine(createRulesEngineConfig(rules, seed))
+    );
+    engine.on("frame", () => mode.update(FRAME_MS));
+    mode.attach(engine);
+    if (suspended) {
+      engine.restoreSaveState(suspended.engine);
+      if (suspended.mode) {
+        mode.restoreSaveState(suspended.mode);
+      }
+      return {
+        mode,
+        engine,
+        recorder: ReplayRecorder.resume(suspended.replay, engine),
+        inputs: suspended.replay.events.length,
+      };
+    }
+    engine.start();
+    const recorder = new ReplayRecorder(
+      { selection, seed, rules, stackVisibility },
+      engine
+    );
+    return { mode, engine, recorder, inputs: 0 };
+  };
+
+  // 不規則な描画間隔で時間を進めながら、ピースを左右に散らして置く操作を繰り返す
+  // 出現待ちの間の操作は無視されるため、操作中のピースがある時だけ入力する
+  const { MoveLeft: L, MoveRight: R, HardDrop: H } = TetrisAction;
+  const script = [
+    ...[L, L, L, L, H, R, R, R, R, H, L, L, H, R, R, H],
+    ...[TetrisAction.RotateClockwise, L, L, L, L, H, TetrisAction.Hold],
+    ...[TetrisAction.RotateCounterClockwise, R, R, R, H, TetrisAction.SoftDrop],
+  ];
+  const play = (game: Game, from: number, to: number): void => {
+    const deltas = [16, 17, 33, 7, 50, 16];
+    for (let i = from; i < to && game.engine.getState().isPlaying; i++) {
+      if (i % 4 === 0 && game.engine.getState().activePiece) {
+        const action = script[game.inputs++ % script.length];
+        game.recorder.record(action);
+        game.mode.onInput();
+        game.engine.applyAction(action);
+      }
+      game.engine.tick(deltas[i % deltas.length]);
+    }
+  };
+
+  // JSONを経由して保存・読み込みした中断データ
+  const suspend = (game: Game): SuspendedGame => {
+    const data = encodeSuspendedGame({
+      replay: game.recorder.finish(),
+      engine: game.engine.getSaveState()!,
+      mode: game.mode.getSaveState(),
+    });
+    return decodeSuspendedGame(JSON.parse(JSON.stringify(data)));
+  };
+
+  test.each<[string, ModeSelection]>([
+    ["サバイバル", { type: "survival" }],
+    ["マスター", { type: "master" }],
+    ["マラソン", { type: "marathon", levelGoal: "variable", endless: false }],
+  ])(
+    "%sを中断して再開すると、中断しなかった場合と同じ展開になる",
+    (_name, selection) => {
+      const original = createGame(selection, 2024);
+      play(original, 0, 400);
+      expect(original.engine.getState().isPlaying).toBe(true);
+      const resumed = createGame(selection, 2024, suspend(original));
+
+      expect(resumed.engine.getState()).toEqual(original.engine.getState());
+      play(original, 400, 1200);
+      play(resumed, 400, 1200);
+
+      const expected = original.engine.getState();
+      expect(resumed.engine.getState()).toEqual(expected);
+      expect(resumed.mode.getHud()).toEqual(original.mode.getHud());
+      expect(resumed.engine.getDropInterval()).toBe(
+        original.engine.getDropInterval()
+      );
+
+      // 再開後の記録も含めて、1つのリプレイとして再生できる
+      const player = new ReplayPlayer(resumed.recorder.finish());
+      player.update((expected.frame + 10) * FRAME_MS);
+      expect(player.getEngine().getState().grid).toEqual(expected.grid);
+    }
+  );
+
+  test("プレイ中でないエンジンは中断できず、盤面の寸法が違う状態は復元できない", () => {
+    const game = createGame({ type: "endless" }, 1);
+    const state = game.engine.getSaveState()!;
+
+    game.engine.end("goalReached");
+    expect(game.engine.getSaveState()).toBeNull();
+
+    const narrow = new GameEngine({
+      ...createRulesEngineConfig(rules, 1),
+      board: { width: 8, height: 20, bufferRows: 2 },
+    });
+    expect(() => narrow.restoreSaveState(state)).toThrow(
+      "Saved grid does not match the board size"
+    );
+  });
+
+  test("古いバージョンは変換処理があれば変換し、なければ読み込まない", () => {
+    const game = createGame({ type: "sprint", lineTarget: 40 }, 5);
+    play(game, 0, 100);
+    const current = encodeSuspendedGame(suspend(game));
+    const { engine, ...rest } = current;
+    const older = { ...rest, version: 0, state: engine };
+
+    expect(() => decodeSuspendedGame(older)).toThrow(
+      "Invalid suspended game: version 0 is no longer supported"
+    );
+    const migrated = decodeSuspendedGame(older, {
+      0: ({ state, ...data }) => ({ ...data, engine: state }),
+    });
+    expect(migrated.engine).toEqual(engine);
+    expect(() =>
+      decodeSuspendedGame({ ...current, version: SUSPEND_VERSION + 1 })
+    ).toThrow("Invalid suspended game: version");
+  });
+
+  test("形式の誤りは場所を含めたエラーになる", () => {
+    const game = createGame({ type: "endless" }, 5);
+    const data = encodeSuspendedGame(suspend(game));
+
+    expect(() => decodeSuspendedGame("{}")).toThrow(
+      "Invalid suspended game: suspended game must be an object"
+    );
+    expect(() =>
+      decodeSuspendedGame({ ...data, engine: { ...data.engine, grid: 3 } })
+    ).toThrow("Invalid suspended game: engine.grid must be an array of rows");
+    expect(() =>
+      decodeSuspendedGame({
+        ...data,
+        engine: { ...data.engine, nextHold: null },
+      })
+    ).toThrow("Invalid suspended game: engine.nextHold must be an object");
+    expect(() =>
+      decodeSuspendedGame({
+        ...data,
+        engine: { ...data.engine, score: { ...data.engine.score, level: "1" } },
+      })
+    ).toThrow("Invalid suspended game: engine.score.level must be an integer");
+    expect(() =>
+      decodeSuspendedGame({
+        ...data,
+        engine: {
+          ...data.engine,
+          nextHold: { ...data.engine.nextHold, nextQueue: [7] },
+        },
+      })
+    ).toThrow(
+      "Invalid suspended game: engine.nextHold.nextQueue[0] must be a tetromino type"
+    );
+    expect(() =>
+      decodeSuspendedGame({
+        ...data,
+        engine: {
+          ...data.engine,
+          lockDelay: { ...data.engine.lockDelay, grounded: 0 },
+        },
+      })
+    ).toThrow(
+      "Invalid suspended game: engine.lockDelay.grounded must be a boolean"
+    );
+    expect(() =>
+      decodeSuspendedGame({ ...data, engine: { ...data.engine, frame: -1 } })
+    ).toThrow(
+      "Invalid suspended game: engine.frame must be a non-negative integer"
+    );
+    expect(() => decodeSuspendedGame({ ...data, replay: null })).toThrow(
+      "Invalid replay: replay must be an object"
+    );
+  });
+
+  test("保存した中断データを読み込み、壊れている場合は破棄する", () => {
+    const storage = new MemoryStorage();
+    const game = createGame({ type: "ultra", timeLimit: 120000 }, 8);
+    play(game, 0, 50);
+    const suspended = suspend(game);
+
+    expect(loadSuspendedGame(storage)).toBeNull();
+    expect(saveSuspendedGame(storage, suspended)).toBe(true);
+    expect(loadSuspendedGame(storage)).toEqual(suspended);
+
+    clearSuspendedGame(storage);
+    expect(loadSuspendedGame(storage)).toBeNull();
+
+    storage.setItem("tetris-ts.suspend.game", '{"version":99}');
+    expect(loadSuspendedGame(storage)).toBeNull();
+    expect(storage.getItem("tetris-ts.suspend.game")).toBeNull();
+  });
+});
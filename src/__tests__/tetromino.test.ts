@@ -7,12 +7,13 @@ import {
   getTetrominoName,
   TetrominoType,
   TETROMINO_COLORS,
+  GARBAGE_CELL,
 } from "../tetromino";
 
 describe("tetromino", () => {
   describe("TETROMINO_COLORS", () => {
-    test("8色（空セル含む）が定義されていること", () => {
-      expect(TETROMINO_COLORS).toHaveLength(8);
+    test("9色（空セル・ガベージ含む）が定義されていること", () => {
+      expect(TETROMINO_COLORS).toHaveLength(9);
     });
 
     test("各色が正しい16進数カラーコードであること", () => {
@@ -24,6 +25,7 @@ describe("tetromino", () => {
       expect(TETROMINO_COLORS[5]).toBe(0xff0000); // Z型（赤）
       expect(TETROMINO_COLORS[6]).toBe(0x0000ff); // J型（青）
       expect(TETROMINO_COLORS[7]).toBe(0xffa500); // L型（オレンジ）
+      expect(TETROMINO_COLORS[GARBAGE_CELL]).toBe(0x808080); // ガベージ（灰色）
     });
 
     test("各色が有効な16進数であること", () => {
@@ -0,0 +1,134 @@
+import { MemoryStorage, saveJSON } from "../storage";
+import {
+  ULTRA_WARNING_TIME,
+  UltraMode,
+  formatTimeLimit,
+} from "../modes/ultraMode";
+import { clearLines, startModeEngine } from "./modeTestHelper";
+
+describe("ultraMode.ts", () => {
+  // テスト用のヘルパー関数
+  const createMode = (
+    storage: MemoryStorage = new MemoryStorage(),
+    timeLimit: number = 120000
+  ) => {
+    const mode = new UltraMode({ timeLimit }, storage);
+    const engine = startModeEngine(mode);
+
+    // 実際にピースを固定してラインを消去し、得点を得る
+    const clear = (lines: number): number => {
+      clearLines(engine, lines);
+      return engine.getState().score;
+    };
+
+    return { engine, mode, clear };
+  };
+
+  test("制限時間の表示名", () => {
+    expect(formatTimeLimit(120000)).toBe("2 MIN");
+    expect(formatTimeLimit(90000)).toBe("90 SEC");
+  });
+
+  test("タイマーは最初の入力で開始し、残り時間を減らす", () => {
+    const { mode } = createMode();
+
+    mode.update(1000);
+    expect(mode.getRemaining()).toBe(120000);
+
+    mode.onInput();
+    mode.update(1500);
+    expect(mode.getRemaining()).toBe(118500);
+    expect(mode.getHud()[0]).toMatchObject({
+      label: "TIME",
+      value: "1:58.500",
+    });
+  });
+
+  test("残り10秒で警告色になる", () => {
+    const { mode } = createMode(new MemoryStorage(), 60000);
+    mode.onInput();
+
+    mode.update(60000 - ULTRA_WARNING_TIME - 1);
+    expect(mode.isWarning()).toBe(false);
+    expect(mode.getHud()[0].color).toBeUndefined();
+
+    mode.update(1);
+    expect(mode.isWarning()).toBe(true);
+    expect(mode.getHud()[0].color).toBeDefined();
+  });
+
+  test("時間切れでゲームを終了し、最終スコアを結果に含める", () => {
+    const { engine, mode, clear } = createMode(new MemoryStorage(), 60000);
+    mode.onInput();
+
+    const score = clear(4);
+    expect(score).toBeGreaterThan(0);
+    mode.update(60500);
+
+    const state = engine.getState();
+    expect(state.isGameOver).toBe(true);
+    expect(state.endReason).toBe("timeUp");
+    expect(mode.getRemaining()).toBe(0);
+
+    const result = mode.getResult()!;
+    expect(result.title).toBe("TIME UP");
+    expect(result.isPersonalBest).toBe(true);
+    expect(result.items[0]).toEqual({ label: "SCORE", value: String(score) });
+  });
+
+  test("自己ベストは制限時間ごとに保存される", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "ultra.best.120000", {
+      version: 1,
+      score: 5000,
+      lines: 20,
+      pieces: 60,
+      date: "2026-01-01T00:00:00.000Z",
+    });
+
+    // 自己ベストより低いスコアは保存しない
+    const low = createMode(storage, 120000);
+    low.mode.onInput();
+    expect(low.clear(1)).toBeLessThan(5000);
+    low.mode.update(120000);
+    expect(low.mode.getResult()!.isPersonalBest).toBe(false);
+    expect(createMode(storage, 120000).mode.getPersonalBest()!.score).toBe(
+      5000
+    );
+
+    // 別の制限時間の記録には影響しない
+    const other = createMode(storage, 60000);
+    expect(other.mode.getPersonalBest()).toBeNull();
+    other.mode.onInput();
+    const score = other.clear(1);
+    other.mode.update(60000);
+    expect(other.mode.getResult()!.isPersonalBest).toBe(true);
+    expect(createMode(storage, 60000).mode.getPersonalBest()!.score).toBe(
+      score
+    );
+  });
+
+  test("バージョンや形式が異なる自己ベストは読み込まない", () => {
+    const storage = new MemoryStorage();
+    saveJSON(storage, "ultra.best.120000", { score: 5000, lines: 20 });
+    expect(createMode(storage, 120000).mode.getPersonalBest()).toBeNull();
+
+    saveJSON(storage, "ultra.best.120000", { version: 1, score: null });
+    expect(createMode(storage, 120000).mode.getPersonalBest()).toBeNull();
+  });
+
+  test("時間切れ前のトップアウトでは自己ベストを保存しない", () => {
+    const storage = new MemoryStorage();
+    const { engine, mode, clear } = createMode(storage);
+    mode.onInput();
+    clear(4);
+
+    engine.end("blockOut");
+
+    expect(mode.getResult()).toMatchObject({
+      title: "GAME OVER",
+      isPersonalBest: false,
+    });
+    expect(createMode(storage).mode.getPersonalBest()).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  GameEngine,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "../gameEngine";
+import { MemoryStorage, loadJSON } from "../storage";
+import { createFumenPage, encodeFumen } from "../fumen";
+import { createEmptyGrid } from "../boardSpec";
+import { ZenMode, ZenSave } from "../modes/zenMode";
+
+describe("zenMode.ts", () => {
+  // テスト用のヘルパー関数
+  const startZen = (storage: MemoryStorage, resume: boolean = true) => {
+    const mode = new ZenMode({ resume, clearRowsOnTopOut: 10 }, storage);
+    const engine = new GameEngine(
+      mode.configureEngine(getDefaultEngineConfig())
+    );
+    mode.attach(engine);
+    engine.start();
+    return { engine, mode };
+  };
+
+  const countBlocks = (grid: number[][]): number =>
+    grid.reduce((sum, row) => sum + row.filter((cell) => cell !== 0).length, 0);
+
+  test("自然落下・自動固定・レベルアップ・トップアウトを無効にする", () => {
+    const mode = new ZenMode({ resume: false, clearRowsOnTopOut: 10 });
+    const config = mode.configureEngine(getDefaultEngineConfig());
+
+    expect(config.gravity).toBe(false);
+    expect(config.lockDelay.resetMode).toBe("infinite");
+    expect(config.score.levelGoal).toBe("none");
+    expect(config.topOutClearRows).toBe(10);
+    expect(mode.showsScorePanel).toBe(false);
+  });
+
+  test("接地してもハードドロップするまで固定されない", () => {
+    const { engine } = startZen(new MemoryStorage());
+
+    for (let i = 0; i < 30; i++) {
+      engine.applyAction(TetrisAction.SoftDrop);
+    }
+    engine.tick(10000);
+
+    expect(countBlocks(engine.getState().grid)).toBe(0);
+  });
+
+  test("HUDには消去ライン数と設置ピース数だけを表示する", () => {
+    const { engine, mode } = startZen(new MemoryStorage());
+
+    engine.applyAction(TetrisAction.HardDrop);
+    engine.applyAction(TetrisAction.HardDrop);
+
+    expect(mode.getHud()).toEqual([
+      { label: "LINES", value: "0" },
+      { label: "PIECES", value: "2" },
+    ]);
+  });
+
+  test("盤面と記録を保存し、次回のプレイで再開する", () => {
+    const storage = new MemoryStorage();
+    const first = startZen(storage);
+    first.engine.applyAction(TetrisAction.HardDrop);
+    const grid = first.engine.getState().grid;
+    first.mode.detach();
+
+    const saved = loadJSON<ZenSave | null>(storage, "zen.board", null);
+    expect(saved!.grid).toEqual(grid);
+
+    const second = startZen(storage);
+    expect(second.engine.getState().grid).toEqual(grid);
+    expect(second.mode.getPieces()).toBe(1);
+
+    // 新しい盤面を選ぶと保存された盤面は使わない
+    const fresh = startZen(storage, false);
+    expect(countBlocks(fresh.engine.getState().grid)).toBe(0);
+    expect(fresh.mode.getPieces()).toBe(0);
+  });
+
+  test("盤面の寸法が保存時と異なる場合は空の盤面から始める", () => {
+    const storage = new MemoryStorage();
+    startZen(storage).engine.applyAction(TetrisAction.HardDrop);
+
+    const mode = new ZenMode({ resume: true, clearRowsOnTopOut: 10 }, storage);
+    const base = getDefaultEngineConfig();
+    const config = mode.configureEngine({
+      ...base,
+      board: { ...base.board, width: 8 },
+    });
+
+    expect(config.initialGrid).toBeNull();
+  });
+
+  test("フュミンを指定すると、保存された盤面より優先してその盤面から始める", () => {
+    const storage = new MemoryStorage();
+    startZen(storage).engine.applyAction(TetrisAction.HardDrop);
+
+    const base = getDefaultEngineConfig();
+    const board = createEmptyGrid(base.board);
+    board[board.length - 1] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+    const fumen = encodeFumen([createFumenPage(board)]);
+
+    const mode = new ZenMode(
+      { resume: true, clearRowsOnTopOut: 10, fumen },
+      storage
+    );
+    expect(mode.configureEngine(base).initialGrid).toEqual(board);
+
+    // 盤面に収まらない、または読み込めないフュミンは空の盤面から始める
+    const invalid = new ZenMode(
+      { resume: true, clearRowsOnTopOut: 10, fumen: "v115@broken" },
+      storage
+    );
+    expect(invalid.configureEngine(base).initialGrid).toBeNull();
+  });
+
+  test("フュミンから始めた盤面は、保存されているセッションを上書きしない", () => {
+    const storage = new MemoryStorage();
+    const session = startZen(storage);
+    session.engine.applyAction(TetrisAction.HardDrop);
+    session.mode.detach();
+    const saved = loadJSON<ZenSave | null>(storage, "zen.board", null);
+
+    const base = getDefaultEngineConfig();
+    const board = createEmptyGrid(base.board);
+    board[board.length - 1] = [8, 8, 8, 8, 8, 8, 8, 8, 8, 0];
+    const mode = new ZenMode(
+      {
+        resume: false,
+        clearRowsOnTopOut: 10,
+        fumen: encodeFumen([createFumenPage(board)]),
+      },
+      storage
+    );
+    const engine = new GameEngine(mode.configureEngine(base));
+    mode.attach(engine);
+    engine.start();
+    engine.applyAction(TetrisAction.HardDrop);
+    mode.detach();
+
+    expect(mode.getPieces()).toBe(1);
+    expect(loadJSON<ZenSave | null>(storage, "zen.board", null)).toEqual(saved);
+  });
+});
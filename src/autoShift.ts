@@ -0,0 +1,238 @@
+/**
+ * 横移動の方向（-1: 左、1: 右）
+ */
+export type ShiftDirection = -1 | 1;
+
+/**
+ * 操作感（ハンドリング）の設定インターフェース
+ */
+export interface HandlingConfig {
+  /** DAS（Delayed Auto Shift）：押し続けてから連続移動が始まるまでの時間（ms） */
+  das: number;
+  /** ARR（Auto Repeat Rate）：連続移動の間隔（ms、0なら壁まで瞬時に移動） */
+  arr: number;
+  /** SDF（Soft Drop Factor）：ソフトドロップ時の落下速度の倍率（Infinityなら瞬時に接地） */
+  sdf: number;
+}
+
+/**
+ * 連続入力によって実行する操作
+ * shift・softDropは成功した場合にtrueを返す
+ */
+export interface AutoShiftActions {
+  /** 1マス横に移動する */
+  shift(direction: ShiftDirection): boolean;
+  /** 1マス下に移動する */
+  softDrop(): boolean;
+  /** 現在の自然落下の間隔（ms）を返す */
+  getDropInterval(): number;
+}
+
+/**
+ * 瞬時移動（ARR 0・SDF無限大）で1回に繰り返す最大回数
+ * 盤面の最大サイズより大きければよい
+ */
+const MAX_INSTANT_STEPS = 64;
+
+/**
+ * DAS・ARR・SDFを処理する状態機械
+ * 押下・解放とフレームごとの経過時間から、横移動とソフトドロップの実行タイミングを決める
+ * DASのチャージはピースが変わっても維持される
+ */
+export class AutoShiftController {
+  /** 押されている横方向キー（後に押したものが末尾） */
+  private heldDirections: ShiftDirection[] = [];
+  /** 現在の方向を押し始めてからの経過時間（ms） */
+  private dasElapsed: number = 0;
+  /** DASのチャージが完了しているかどうか */
+  private charged: boolean = false;
+  /** 連続移動の端数時間（ms） */
+  private arrElapsed: number = 0;
+  /** ソフトドロップ中かどうか */
+  private softDropping: boolean = false;
+  /** ソフトドロップの端数時間（ms） */
+  private softDropElapsed: number = 0;
+
+  /**
+   * AutoShiftControllerのコンストラクタ
+   * @param config - 操作感の設定
+   * @param actions - 実行する操作
+   */
+  constructor(
+    private config: HandlingConfig,
+    private actions: AutoShiftActions
+  ) {}
+
+  /**
+   * 横方向キーが押された時に呼び出す
+   * 即座に1マス移動し、DASのチャージを開始する（後から押した方向が優先）
+   * @param direction - 押された方向
+   */
+  public pressShift(direction: ShiftDirection): void {
+    this.heldDirections = this.heldDirections.filter((d) => d !== direction);
+    this.heldDirections.push(direction);
+    this.resetCharge();
+    this.actions.shift(direction);
+  }
+
+  /**
+   * 横方向キーが離された時に呼び出す
+   * 反対方向がまだ押されていれば、その方向のDASを最初からチャージし直す
+   * @param direction - 離された方向
+   */
+  public releaseShift(direction: ShiftDirection): void {
+    const wasActive = this.getActiveDirection() === direction;
+    this.heldDirections = this.heldDirections.filter((d) => d !== direction);
+    if (wasActive) {
+      this.resetCharge();
+    }
+  }
+
+  /**
+   * ソフトドロップキーが押された時に呼び出す
+   */
+  public pressSoftDrop(): void {
+    this.softDropping = true;
+    this.softDropElapsed = 0;
+
+    if (this.isInstantSoftDrop()) {
+      this.repeat(() => this.actions.softDrop());
+    } else {
+      this.actions.softDrop();
+    }
+  }
+
+  /**
+   * ソフトドロップキーが離された時に呼び出す
+   */
+  public releaseSoftDrop(): void {
+    this.softDropping = false;
+    this.softDropElapsed = 0;
+  }
+
+  /**
+   * 全ての入力を解除する（一時停止やゲーム終了時）
+   */
+  public releaseAll(): void {
+    this.heldDirections = [];
+    this.resetCharge();
+    this.releaseSoftDrop();
+  }
+
+  /**
+   * 時間を進め、連続移動とソフトドロップを実行する
+   * @param delta - 前回からの経過時間（ms）
+   */
+  public update(delta: number): void {
+    this.updateShift(delta);
+    this.updateSoftDrop(delta);
+  }
+
+  /**
+   * 現在有効な横方向（押されていなければnull）
+   * @returns 有効な方向
+   */
+  public getActiveDirection(): ShiftDirection | null {
+    return this.heldDirections.length > 0
+      ? this.heldDirections[this.heldDirections.length - 1]
+      : null;
+  }
+
+  /**
+   * DASのチャージが完了しているかどうか
+   * @returns チャージ済みの場合true
+   */
+  public isCharged(): boolean {
+    return this.charged;
+  }
+
+  /**
+   * 横移動の連続入力を処理する
+   * @param delta - 経過時間（ms）
+   */
+  private updateShift(delta: number): void {
+    const direction = this.getActiveDirection();
+    if (direction === null) {
+      return;
+    }
+
+    if (!this.charged) {
+      this.dasElapsed += delta;
+      if (this.dasElapsed < this.config.das) {
+        return;
+      }
+
+      // チャージ完了時に1マス移動し、超過分の時間はARRに持ち越す
+      this.charged = true;
+      this.arrElapsed = this.dasElapsed - this.config.das;
+      if (this.config.arr > 0) {
+        this.actions.shift(direction);
+      }
+    } else {
+      this.arrElapsed += delta;
+    }
+
+    if (this.config.arr <= 0) {
+      // ARR 0：チャージ中は毎フレーム壁まで移動する（新しいピースにも即座に適用）
+      this.repeat(() => this.actions.shift(direction));
+      return;
+    }
+
+    while (this.arrElapsed >= this.config.arr) {
+      this.arrElapsed -= this.config.arr;
+      this.actions.shift(direction);
+    }
+  }
+
+  /**
+   * ソフトドロップの連続入力を処理する
+   * @param delta - 経過時間（ms）
+   */
+  private updateSoftDrop(delta: number): void {
+    if (!this.softDropping) {
+      return;
+    }
+
+    if (this.isInstantSoftDrop()) {
+      this.repeat(() => this.actions.softDrop());
+      return;
+    }
+
+    const interval = this.actions.getDropInterval() / this.config.sdf;
+    this.softDropElapsed += delta;
+    while (this.softDropElapsed >= interval) {
+      this.softDropElapsed -= interval;
+      if (!this.actions.softDrop()) {
+        // 接地したら端数を捨てる（次のピースで一気に落下しないように）
+        this.softDropElapsed = 0;
+        break;
+      }
+    }
+  }
+
+  /**
+   * ソフトドロップが瞬時落下かどうか
+   */
+  private isInstantSoftDrop(): boolean {
+    return !Number.isFinite(this.config.sdf);
+  }
+
+  /**
+   * 操作を失敗するまで繰り返す
+   * @param action - 繰り返す操作
+   */
+  private repeat(action: () => boolean): void {
+    for (let i = 0; i < MAX_INSTANT_STEPS && action(); i++) {
+      // 壁・床に当たるまで繰り返す
+    }
+  }
+
+  /**
+   * DASのチャージをリセットする
+   */
+  private resetCharge(): void {
+    this.dasElapsed = 0;
+    this.arrElapsed = 0;
+    this.charged = false;
+  }
+}
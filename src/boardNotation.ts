@@ -0,0 +1,410 @@
+import { BoardSpec, DEFAULT_BOARD_SPEC, createEmptyGrid } from "./boardSpec";
+import { isPositionValid } from "./collision";
+import { ActivePiece, GameEngineState } from "./gameEngine";
+import { ROTATION_STATE_NAMES, RotationState } from "./rotation";
+import { RotationSystemType, createRotationSystem } from "./rotationSystem";
+import { GARBAGE_CELL, TetrominoType } from "./tetromino";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * テトロミノの種類ごとの文字（インデックスが TetrominoType の値）
+ * 操作中のピースは小文字で表す
+ */
+const PIECE_CHARS = "IOTSZJL";
+
+/**
+ * 空のセルの文字
+ */
+const EMPTY_CHAR = ".";
+
+/**
+ * ガベージのセルの文字
+ */
+const GARBAGE_CHAR = "G";
+
+/**
+ * ゴースト（ハードドロップした時の位置）のセルの文字
+ */
+const GHOST_CHAR = "*";
+
+/**
+ * ホールドが空であることを表す文字
+ */
+const NO_HOLD_CHAR = "-";
+
+/**
+ * テキストで表した盤面（テストや不具合報告に貼り付けて使う）
+ *
+ *   hold:T next:IOZ
+ *   ....t.....
+ *   ...ttt....
+ *   ....*.....
+ *   ...***....
+ *   GGGG.GGGGG
+ *
+ * - 盤面は上の行から順に書き、最後の行を盤面の最下段に揃える（書かなかった行は空）
+ * - "." は空、"IOTSZJL" は固定済みのブロック、"G" はガベージ
+ * - 小文字の "iotszjl" は操作中のピース、"*" はゴースト
+ * - 先頭の行には "hold:" "next:" "rotation:" を書ける（いずれも省略可）
+ *   - "hold:-" はホールドが空であることを表す
+ *   - "rotation:" は操作中のピースの向き（0/R/2/L）
+ *     同じ形になる向きが複数ある場合（Iの0と2など）に区別するためのもので、
+ *     省略した場合はセルの形が一致する最初の向きになる
+ * - 行の前後の空白と空行は無視する（インデントしたテンプレート文字列に書ける）
+ */
+export interface BoardNotation {
+  /** 盤面グリッド（バッファ行を含む） */
+  grid: Grid;
+  /** 操作中のピース（ない場合はnull） */
+  activePiece: ActivePiece | null;
+  /** ホールド中のピース（空の場合はnull、書かない場合はundefined） */
+  hold?: TetrominoType | null;
+  /** ネクストキュー（書かない場合はundefined） */
+  next?: TetrominoType[];
+}
+
+/**
+ * 読み込みのオプション
+ */
+export interface BoardParseOptions {
+  /** 操作中のピースの形を求める回転システム */
+  rotationSystem?: RotationSystemType;
+}
+
+/**
+ * 書き出しのオプション
+ */
+export interface BoardFormatOptions {
+  /** 書き出す行数（省略時はブロックのある最も上の行から最下段まで） */
+  rows?: number;
+  /** ゴーストを書き出すかどうか */
+  ghost?: boolean;
+  /** 向きを区別する必要がある場合に "rotation:" を書き出すかどうか（省略時はtrue） */
+  rotation?: boolean;
+  /** 操作中のピースの形を求める回転システム */
+  rotationSystem?: RotationSystemType;
+}
+
+/**
+ * 形式の誤りを、誤りのある場所を含めたエラーにする
+ * @param path - 誤りのある場所（例: "rows[3]"）
+ * @param message - 誤りの内容
+ */
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid board notation: ${path} ${message}`);
+}
+
+/**
+ * 1文字のテトロミノの種類を読み込む
+ */
+function parsePieceChar(char: string, path: string): TetrominoType {
+  const index = PIECE_CHARS.indexOf(char);
+  if (char.length !== 1 || index < 0) {
+    invalid(path, `must be one of ${PIECE_CHARS} (got "${char}")`);
+  }
+  return index as TetrominoType;
+}
+
+/**
+ * セルの位置を比較用の文字列にする
+ */
+function cellKey(row: number, col: number): string {
+  return `${row},${col}`;
+}
+
+/**
+ * ピースが占めるセルの位置（比較用の文字列、並べ替え済み）
+ */
+function getPieceCells(piece: ActivePiece): string[] {
+  const cells: string[] = [];
+  piece.shape.forEach((shapeRow, rowIndex) =>
+    shapeRow.forEach((cell, colIndex) => {
+      if (cell !== 0) {
+        cells.push(cellKey(piece.y + rowIndex, piece.x + colIndex));
+      }
+    })
+  );
+  return cells.sort();
+}
+
+/**
+ * 指定したセルをちょうど占めるピースを探す
+ * @param type - テトロミノの種類
+ * @param cells - ピースのセルの位置（行・列）
+ * @param rotations - 試す向き（先に一致したものを返す）
+ * @param rotationSystem - ピースの形を求める回転システム
+ * @returns 一致するピース（どの向きでも一致しない場合はnull）
+ */
+function findPiece(
+  type: TetrominoType,
+  cells: ReadonlyArray<[number, number]>,
+  rotations: ReadonlyArray<RotationState>,
+  rotationSystem: RotationSystemType
+): ActivePiece | null {
+  const system = createRotationSystem(rotationSystem);
+  const top = Math.min(...cells.map(([row]) => row));
+  const left = Math.min(...cells.map(([, col]) => col));
+  const expected = cells.map(([row, col]) => cellKey(row, col)).sort();
+
+  for (const rotation of rotations) {
+    const shape = system.getShape(type, rotation).map((row) => [...row]);
+    // 形の中で最も上・左のブロックを、セルの最も上・左に合わせる
+    const shapeTop = shape.findIndex((row) => row.some((cell) => cell !== 0));
+    const shapeLeft = Math.min(
+      ...shape.map((row) => {
+        const index = row.findIndex((cell) => cell !== 0);
+        return index < 0 ? Infinity : index;
+      })
+    );
+    const piece: ActivePiece = {
+      type,
+      shape,
+      x: left - shapeLeft,
+      y: top - shapeTop,
+      rotation,
+    };
+    const actual = getPieceCells(piece);
+    if (actual.join(" ") === expected.join(" ")) {
+      return piece;
+    }
+  }
+  return null;
+}
+
+/**
+ * ピースをハードドロップした時の位置（ゴースト）
+ */
+function getGhostPiece(grid: Grid, piece: ActivePiece): ActivePiece {
+  let y = piece.y;
+  while (isPositionValid(grid, piece.shape, piece.x, y + 1)) {
+    y++;
+  }
+  return { ...piece, y };
+}
+
+/**
+ * テキストの盤面を読み込む
+ * @param text - 盤面のテキスト（形式は BoardNotation を参照）
+ * @param spec - 盤面の寸法
+ * @param options - 読み込みのオプション
+ * @returns 盤面・操作中のピース・ホールド・ネクスト
+ * @throws 形式が正しくない場合、盤面に収まらない場合
+ */
+export function parseBoardNotation(
+  text: string,
+  spec: BoardSpec = DEFAULT_BOARD_SPEC,
+  options: BoardParseOptions = {}
+): BoardNotation {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const notation: BoardNotation = {
+    grid: createEmptyGrid(spec),
+    activePiece: null,
+  };
+
+  let rotation: RotationState | null = null;
+  if (lines.length > 0 && lines[0].includes(":")) {
+    for (const field of lines.shift()!.split(/\s+/)) {
+      const [key, value = ""] = field.split(":");
+      if (key === "hold") {
+        notation.hold =
+          value === NO_HOLD_CHAR ? null : parsePieceChar(value, "hold");
+      } else if (key === "next") {
+        notation.next = [...value].map((char, index) =>
+          parsePieceChar(char, `next[${index}]`)
+        );
+      } else if (key === "rotation") {
+        const names: ReadonlyArray<string> = ROTATION_STATE_NAMES;
+        const index = names.indexOf(value);
+        if (index < 0) {
+          invalid("rotation", `must be one of 0, R, 2, L (got "${value}")`);
+        }
+        rotation = index as RotationState;
+      } else {
+        invalid("header", `has an unknown field "${key}"`);
+      }
+    }
+  }
+
+  const { grid } = notation;
+  if (lines.length > grid.length) {
+    invalid("rows", `must be at most ${grid.length} lines`);
+  }
+  const top = grid.length - lines.length;
+  let pieceType: TetrominoType | null = null;
+  const pieceCells: Array<[number, number]> = [];
+  const ghostCells: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const path = `rows[${index}]`;
+    const line = lines[index];
+    if (line.length !== spec.width) {
+      invalid(path, `must be ${spec.width} cells wide`);
+    }
+    const row = top + index;
+    for (let col = 0; col < line.length; col++) {
+      const char = line[col];
+      if (char === EMPTY_CHAR) {
+        continue;
+      }
+      if (char === GARBAGE_CHAR) {
+        grid[row][col] = GARBAGE_CELL;
+        continue;
+      }
+      if (char === GHOST_CHAR) {
+        ghostCells.push(cellKey(row, col));
+        continue;
+      }
+      const type = PIECE_CHARS.indexOf(char.toUpperCase());
+      if (type < 0) {
+        invalid(path, `has an unknown cell "${char}"`);
+      }
+      if (char === PIECE_CHARS[type]) {
+        grid[row][col] = type + 1;
+        continue;
+      }
+      if (pieceType !== null && pieceType !== type) {
+        invalid(path, "has cells of more than one active piece");
+      }
+      pieceType = type as TetrominoType;
+      pieceCells.push([row, col]);
+    }
+  }
+
+  if (pieceType !== null) {
+    const rotations: RotationState[] =
+      rotation === null ? [0, 1, 2, 3] : [rotation];
+    notation.activePiece = findPiece(
+      pieceType,
+      pieceCells,
+      rotations,
+      options.rotationSystem ?? "srs"
+    );
+    if (!notation.activePiece) {
+      invalid(
+        "activePiece",
+        `cells do not form ${PIECE_CHARS[pieceType]}` +
+          (rotation === null
+            ? ""
+            : ` in rotation ${ROTATION_STATE_NAMES[rotation]}`)
+      );
+    }
+  } else if (rotation !== null) {
+    invalid("rotation", "needs an active piece");
+  }
+
+  if (ghostCells.length > 0) {
+    if (!notation.activePiece) {
+      invalid("ghost", "needs an active piece");
+    }
+    const expected = getPieceCells(getGhostPiece(grid, notation.activePiece));
+    const pieceKeys = getPieceCells(notation.activePiece);
+    // ピースと重なるゴーストのセルはピースの文字で書かれる
+    const visible = expected.filter((key) => !pieceKeys.includes(key));
+    if (ghostCells.sort().join(" ") !== visible.join(" ")) {
+      invalid("ghost", "does not match where the active piece lands");
+    }
+  }
+
+  return notation;
+}
+
+/**
+ * 盤面をテキストにする（parseBoardNotation で同じ盤面に戻せる）
+ * @param notation - 盤面・操作中のピース・ホールド・ネクスト
+ * @param options - 書き出しのオプション
+ * @returns 盤面のテキスト
+ * @throws テキストで表せないセルの値がある場合
+ */
+export function formatBoardNotation(
+  notation: BoardNotation,
+  options: BoardFormatOptions = {}
+): string {
+  const { grid, activePiece, hold, next } = notation;
+  const cells = grid.map((row, rowIndex) =>
+    row.map((cell, colIndex) => {
+      if (cell === 0) {
+        return EMPTY_CHAR;
+      }
+      if (cell === GARBAGE_CELL) {
+        return GARBAGE_CHAR;
+      }
+      if (!Number.isInteger(cell) || cell < 1 || cell > PIECE_CHARS.length) {
+        invalid(
+          `grid[${rowIndex}][${colIndex}]`,
+          `has no character for ${cell}`
+        );
+      }
+      return PIECE_CHARS[cell - 1];
+    })
+  );
+
+  const mark = (piece: ActivePiece, char: string): void => {
+    for (const key of getPieceCells(piece)) {
+      const [row, col] = key.split(",").map(Number);
+      if (cells[row]?.[col] !== undefined) {
+        cells[row][col] = char;
+      }
+    }
+  };
+  if (activePiece) {
+    if (options.ghost) {
+      mark(getGhostPiece(grid, activePiece), GHOST_CHAR);
+    }
+    mark(activePiece, PIECE_CHARS[activePiece.type].toLowerCase());
+  }
+
+  let top = cells.findIndex((row) => row.some((char) => char !== EMPTY_CHAR));
+  if (options.rows !== undefined) {
+    top = grid.length - options.rows;
+  } else if (top < 0) {
+    top = grid.length - 1;
+  }
+  const rows = cells.slice(Math.max(0, top)).map((row) => row.join(""));
+
+  const header: string[] = [];
+  if (hold !== undefined) {
+    header.push(`hold:${hold === null ? NO_HOLD_CHAR : PIECE_CHARS[hold]}`);
+  }
+  if (next !== undefined) {
+    header.push(`next:${next.map((type) => PIECE_CHARS[type]).join("")}`);
+  }
+  if (activePiece && options.rotation !== false) {
+    // セルの形から求まる向きと違う場合だけ向きを書く
+    const cellsOfPiece = getPieceCells(activePiece).map(
+      (key) => key.split(",").map(Number) as [number, number]
+    );
+    const inferred = findPiece(
+      activePiece.type,
+      cellsOfPiece,
+      [0, 1, 2, 3],
+      options.rotationSystem ?? "srs"
+    );
+    if (inferred?.rotation !== activePiece.rotation) {
+      header.push(`rotation:${ROTATION_STATE_NAMES[activePiece.rotation]}`);
+    }
+  }
+
+  return [...(header.length > 0 ? [header.join(" ")] : []), ...rows].join("\n");
+}
+
+/**
+ * エンジンの状態を盤面のテキストにできる形にする
+ * @param state - エンジンの状態
+ * @returns 盤面・操作中のピース・ホールド・ネクスト
+ */
+export function getBoardNotation(state: GameEngineState): BoardNotation {
+  return {
+    grid: state.grid,
+    activePiece: state.activePiece,
+    hold: state.heldPiece,
+    next: [...state.nextQueue],
+  };
+}
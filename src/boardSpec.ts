@@ -0,0 +1,150 @@
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * 盤面の寸法を表すインターフェース
+ * グリッドの行数は bufferRows + height で、先頭の bufferRows 行は見えないバッファ
+ */
+export interface BoardSpec {
+  /** 列数 */
+  width: number;
+  /** 可視領域の行数 */
+  height: number;
+  /** 可視領域の上にある見えないバッファ行の数 */
+  bufferRows: number;
+}
+
+/**
+ * 盤面サイズの上限と下限
+ */
+export const BOARD_SIZE_LIMITS = {
+  minWidth: 4,
+  maxWidth: 20,
+  minHeight: 10,
+  maxHeight: 40,
+} as const;
+
+/**
+ * 標準の盤面（10列×20行、バッファ20行）
+ */
+export const DEFAULT_BOARD_SPEC: Readonly<BoardSpec> = {
+  width: 10,
+  height: 20,
+  bufferRows: 20,
+};
+
+/**
+ * 盤面の寸法が有効かどうかを検証する
+ * @param spec - 検証する盤面の寸法
+ * @throws 幅・高さが範囲外、またはバッファ行数が負の場合
+ */
+export function validateBoardSpec(spec: BoardSpec): void {
+  const { minWidth, maxWidth, minHeight, maxHeight } = BOARD_SIZE_LIMITS;
+
+  if (
+    !Number.isInteger(spec.width) ||
+    spec.width < minWidth ||
+    spec.width > maxWidth
+  ) {
+    throw new Error(
+      `Board width must be an integer between ${minWidth} and ${maxWidth}: ${spec.width}`
+    );
+  }
+  if (
+    !Number.isInteger(spec.height) ||
+    spec.height < minHeight ||
+    spec.height > maxHeight
+  ) {
+    throw new Error(
+      `Board height must be an integer between ${minHeight} and ${maxHeight}: ${spec.height}`
+    );
+  }
+  if (!Number.isInteger(spec.bufferRows) || spec.bufferRows < 0) {
+    throw new Error(
+      `Buffer rows must be a non-negative integer: ${spec.bufferRows}`
+    );
+  }
+}
+
+/**
+ * 盤面の寸法を作成する
+ * @param width - 列数（4〜20）
+ * @param height - 可視領域の行数（10〜40）
+ * @param bufferRows - バッファ行の数
+ * @returns 検証済みの盤面の寸法
+ */
+export function createBoardSpec(
+  width: number,
+  height: number,
+  bufferRows: number = DEFAULT_BOARD_SPEC.bufferRows
+): BoardSpec {
+  const spec = { width, height, bufferRows };
+  validateBoardSpec(spec);
+  return spec;
+}
+
+/**
+ * グリッドの全行数（バッファ行を含む）を取得する
+ * @param spec - 盤面の寸法
+ * @returns 全行数
+ */
+export function getTotalRows(spec: BoardSpec): number {
+  return spec.bufferRows + spec.height;
+}
+
+/**
+ * 既存のグリッドから盤面の寸法を求める
+ * バッファ行の情報はグリッドに含まれないため、全ての行を可視領域として扱う
+ * @param grid - 盤面グリッド
+ * @returns グリッドの大きさに一致する盤面の寸法
+ */
+export function getBoardSpecFromGrid(grid: Grid): BoardSpec {
+  return {
+    width: grid.length > 0 ? grid[0].length : DEFAULT_BOARD_SPEC.width,
+    height: grid.length,
+    bufferRows: 0,
+  };
+}
+
+/**
+ * グリッドの大きさが盤面の寸法（バッファ行を含む）と一致するかどうか
+ * @param grid - 盤面グリッド
+ * @param spec - 盤面の寸法
+ * @returns 行数と全ての行の列数が一致する場合true
+ */
+export function isGridMatchingSpec(grid: Grid, spec: BoardSpec): boolean {
+  return (
+    grid.length === getTotalRows(spec) &&
+    grid.every((row) => row.length === spec.width)
+  );
+}
+
+/**
+ * 空のグリッドを作成する（バッファ行を含む）
+ * @param spec - 盤面の寸法
+ * @returns 空のグリッド
+ */
+export function createEmptyGrid(spec: BoardSpec): Grid {
+  return Array(getTotalRows(spec))
+    .fill(null)
+    .map(() => Array(spec.width).fill(0));
+}
+
+/**
+ * 描画領域に収まる最大のセルサイズを計算する
+ * @param spec - 盤面の寸法
+ * @param areaWidth - 描画領域の幅（ピクセル）
+ * @param areaHeight - 描画領域の高さ（ピクセル）
+ * @returns セルの一辺の長さ（ピクセル、最小1）
+ */
+export function computeCellSize(
+  spec: BoardSpec,
+  areaWidth: number,
+  areaHeight: number
+): number {
+  const size = Math.min(areaWidth / spec.width, areaHeight / spec.height);
+  return Math.max(1, Math.floor(size));
+}
@@ -1,3 +1,10 @@
+import {
+  BoardSpec,
+  DEFAULT_BOARD_SPEC,
+  getBoardSpecFromGrid,
+  getTotalRows,
+} from "./boardSpec";
+
 /**
  * テトロミノ（テトリスブロック）の形状を表す型
  * 2次元配列で表現され、0は空、1以上はブロックの存在を示す
@@ -6,34 +13,40 @@ export type BlockShape = number[][];
 
 /**
  * ゲームの盤面グリッドを表す型
- * 10列×20行の2次元配列で、0は空、1以上は配置済みブロックを示す
+ * 行×列の2次元配列で、0は空、1以上は配置済みブロックを示す
+ * 盤面の寸法は BoardSpec で表し、省略した場合は配列の大きさから求める
  */
 export type Grid = number[][];
 
 /**
- * グリッドの幅（列数）
+ * 標準の盤面の幅（列数）
  */
-export const GRID_WIDTH = 10;
+export const GRID_WIDTH = DEFAULT_BOARD_SPEC.width;
 
 /**
- * グリッドの高さ（行数）
+ * 標準の盤面の高さ（可視領域の行数）
  */
-export const GRID_HEIGHT = 20;
+export const GRID_HEIGHT = DEFAULT_BOARD_SPEC.height;
 
 /**
  * 指定した位置にテトロミノを配置できるかを判定する関数
- * @param grid ゲームの盤面グリッド（10×20）
+ * @param grid ゲームの盤面グリッド（バッファ行を含む）
  * @param shape 配置しようとするテトロミノの形状
  * @param offsetX グリッド上のX座標オフセット（左端からの列数）
  * @param offsetY グリッド上のY座標オフセット（上端からの行数）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 配置可能な場合はtrue、衝突または範囲外の場合はfalse
  */
 export function isPositionValid(
   grid: Grid,
   shape: BlockShape,
   offsetX: number,
-  offsetY: number
+  offsetY: number,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
 ): boolean {
+  const width = spec.width;
+  const height = getTotalRows(spec);
+
   // shapeの各セルをチェック
   for (let shapeY = 0; shapeY < shape.length; shapeY++) {
     for (let shapeX = 0; shapeX < shape[shapeY].length; shapeX++) {
@@ -50,12 +63,12 @@ export function isPositionValid(
       const gridY = offsetY + shapeY;
 
       // 左右の境界チェック
-      if (gridX < 0 || gridX >= GRID_WIDTH) {
+      if (gridX < 0 || gridX >= width) {
         return false;
       }
 
       // 上下の境界チェック
-      if (gridY < 0 || gridY >= GRID_HEIGHT) {
+      if (gridY < 0 || gridY >= height) {
         return false;
       }
 
@@ -76,16 +89,18 @@ export function isPositionValid(
  * @param shape 配置するテトロミノの形状
  * @param offsetX グリッド上のX座標オフセット
  * @param offsetY グリッド上のY座標オフセット
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 配置に成功した場合はtrue、失敗した場合はfalse
  */
 export function placeTetromino(
   grid: Grid,
   shape: BlockShape,
   offsetX: number,
-  offsetY: number
+  offsetY: number,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
 ): boolean {
   // まず配置可能かチェック
-  if (!isPositionValid(grid, shape, offsetX, offsetY)) {
+  if (!isPositionValid(grid, shape, offsetX, offsetY, spec)) {
     return false;
   }
 
@@ -108,12 +123,16 @@ export function placeTetromino(
 /**
  * 完全に埋まった行を検出する関数
  * @param grid ゲームの盤面グリッド
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 完全に埋まった行のインデックスの配列（上から順）
  */
-export function findCompletedRows(grid: Grid): number[] {
+export function findCompletedRows(
+  grid: Grid,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
+): number[] {
   const completedRows: number[] = [];
 
-  for (let row = 0; row < GRID_HEIGHT; row++) {
+  for (let row = 0; row < getTotalRows(spec); row++) {
     // 行の全てのセルが埋まっているかチェック
     const isRowComplete = grid[row].every((cell) => cell !== 0);
 
@@ -129,9 +148,16 @@ export function findCompletedRows(grid: Grid): number[] {
  * 指定した行を削除し、上の行を下にシフトする関数
  * @param grid ゲームの盤面グリッド（変更される）
  * @param rowIndices 削除する行のインデックスの配列（降順でソートされている必要がある）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 削除した行数
  */
-export function removeRows(grid: Grid, rowIndices: number[]): number {
+export function removeRows(
+  grid: Grid,
+  rowIndices: number[],
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
+): number {
+  const width = spec.width;
+
   // 降順にソート（下の行から削除するため）
   const sortedIndices = [...rowIndices].sort((a, b) => b - a);
 
@@ -142,12 +168,27 @@ export function removeRows(grid: Grid, rowIndices: number[]): number {
     }
 
     // 最上行を空にする
-    grid[0] = new Array(GRID_WIDTH).fill(0);
+    grid[0] = new Array(width).fill(0);
   }
 
   return rowIndices.length;
 }
 
+/**
+ * 盤面の下に行を追加し、既存の行を押し上げる関数
+ * 上端から押し出された行は削除される
+ * @param grid ゲームの盤面グリッド（変更される）
+ * @param rows 追加する行（上から順、各行の列数は盤面の幅と同じ）
+ * @returns 押し出された行にブロックがあった場合true（トップアウト）
+ */
+export function pushRowsUp(grid: Grid, rows: number[][]): boolean {
+  const overflow = grid
+    .splice(0, rows.length)
+    .some((row) => row.some((cell) => cell !== 0));
+  grid.push(...rows.map((row) => [...row]));
+  return overflow;
+}
+
 /**
  * テトロミノが下に移動できるかチェックする関数
  * @param grid ゲームの盤面グリッド
@@ -237,7 +278,7 @@ export function isRangeEmpty(
   startRow: number,
   endRow: number
 ): boolean {
-  for (let row = startRow; row <= endRow && row < GRID_HEIGHT; row++) {
+  for (let row = startRow; row <= endRow && row < grid.length; row++) {
     if (!grid[row].every((cell) => cell === 0)) {
       return false;
     }
@@ -0,0 +1,468 @@
+import { GarbageStyle } from "./garbage";
+import { DIG_OPTIONS } from "./modes/digMode";
+import { SPRINT_LINE_TARGETS } from "./modes/sprintMode";
+import { ULTRA_TIME_LIMITS, formatTimeLimit } from "./modes/ultraMode";
+import { formatTime } from "./modes/gameMode";
+import { PuzzlePack } from "./puzzle";
+import { SeededRandom } from "./randomizer";
+import { StackVisibilityMode } from "./stackVisibility";
+import { KeyValueStorage, loadJSON, saveJSON } from "./storage";
+
+/**
+ * デイリーチャレンジのルール（日付ごとにいずれか1つが選ばれる）
+ */
+export type DailyRuleset =
+  | { type: "sprint"; lineTarget: number }
+  | { type: "ultra"; timeLimit: number }
+  | { type: "dig"; lineTarget: number; style: GarbageStyle }
+  | { type: "puzzle"; pack: PuzzlePack; index: number };
+
+/**
+ * ルールに加える修飾
+ */
+export interface DailyModifiers {
+  /** 固定したブロックの見え方 */
+  stackVisibility: StackVisibilityMode;
+  /** ホールドを使えるかどうか */
+  hold: boolean;
+}
+
+/**
+ * 日付から決まるデイリーチャレンジ
+ * 同じ日付なら誰が作成しても同じシード・ルール・修飾になる
+ */
+export interface DailyChallenge {
+  /** 日付（"YYYY-MM-DD"） */
+  date: string;
+  /** ピース順とガベージの乱数シード */
+  seed: number;
+  /** ルール */
+  ruleset: DailyRuleset;
+  /** 修飾 */
+  modifiers: DailyModifiers;
+}
+
+/**
+ * 記録を比べる指標
+ * time: 目標達成までの時間（短いほど良い）
+ * score: スコア（高いほど良い）
+ * pieces: 目標達成までに使ったピースの数（少ないほど良い）
+ */
+export type DailyMetric = "time" | "score" | "pieces";
+
+/**
+ * 1回のプレイの記録
+ */
+export interface DailyScore {
+  /** 目標を達成したかどうか */
+  completed: boolean;
+  /**
+   * 指標の値
+   * timeで未達成の場合は消去したライン数、piecesで未達成の場合は0
+   */
+  value: number;
+}
+
+/**
+ * 1日分の記録（保存される）
+ */
+export interface DailyEntry {
+  /** 日付（"YYYY-MM-DD"） */
+  date: string;
+  /** ルールの略号（例: "S40"） */
+  tag: string;
+  /** その日の最高記録 */
+  best: DailyScore;
+  /** プレイした回数 */
+  attempts: number;
+}
+
+/**
+ * 日付ごとの記録
+ */
+export type DailyHistory = Record<string, DailyEntry>;
+
+/**
+ * 結果コードを解析した内容
+ */
+export interface DailyResultCode {
+  /** 日付（"YYYY-MM-DD"） */
+  date: string;
+  /** ルールの略号 */
+  tag: string;
+  /** 記録 */
+  score: DailyScore;
+}
+
+/**
+ * 固定したブロックの見え方の修飾の出やすさ（重み）
+ */
+const STACK_MODIFIER_WEIGHTS: ReadonlyArray<[StackVisibilityMode, number]> = [
+  ["normal", 6],
+  ["fading", 3],
+  ["invisible", 1],
+];
+
+/**
+ * ホールドなしの修飾が付く確率
+ */
+const NO_HOLD_CHANCE = 0.2;
+
+/**
+ * 記録の保存キー
+ */
+const HISTORY_KEY = "daily.history";
+
+/**
+ * 結果コードの接頭辞
+ */
+const CODE_PREFIX = "DAILY";
+
+/**
+ * 1日の長さ（ミリ秒）
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 文字列から32bitのハッシュ値を計算する（FNV-1a）
+ * @param text - 文字列
+ * @returns 32bit整数のハッシュ値
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 日時を端末のタイムゾーンでの日付に変換する
+ * @param date - 日時
+ * @returns 日付（"YYYY-MM-DD"）
+ */
+export function getDailyDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 日付を指定の日数だけずらす
+ * @param dateKey - 日付（"YYYY-MM-DD"）
+ * @param days - ずらす日数（負なら過去）
+ * @returns ずらした日付
+ */
+function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * 日付から乱数シードを計算する
+ * @param dateKey - 日付（"YYYY-MM-DD"）
+ * @returns 32bit整数のシード
+ */
+export function getDailySeed(dateKey: string): number {
+  return hashString(`daily:${dateKey}`);
+}
+
+/**
+ * 配列から1つを選ぶ
+ */
+function pick<T>(random: SeededRandom, values: ReadonlyArray<T>): T {
+  return values[random.nextInt(values.length)];
+}
+
+/**
+ * 重みに応じて1つを選ぶ
+ */
+function pickWeighted<T>(
+  random: SeededRandom,
+  weights: ReadonlyArray<[T, number]>
+): T {
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random.next() * total;
+  for (const [value, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) return value;
+  }
+  return weights[weights.length - 1][0];
+}
+
+/**
+ * 日付からデイリーチャレンジを作成する
+ * パズルは読み込んだパックがある場合のみ選ばれ、修飾は付かない
+ * @param date - 日時（端末のタイムゾーンでの日付を使う）
+ * @param puzzlePacks - 選べるパズルパック（全員が同じパックを持っている前提）
+ * @returns デイリーチャレンジ
+ */
+export function createDailyChallenge(
+  date: Date,
+  puzzlePacks: ReadonlyArray<PuzzlePack> = []
+): DailyChallenge {
+  const dateKey = getDailyDateKey(date);
+  const seed = getDailySeed(dateKey);
+  // ピース順に使うシードとは別の系列でルールを選ぶ
+  const random = new SeededRandom(hashString(`ruleset:${dateKey}`));
+
+  const types: DailyRuleset["type"][] = ["sprint", "ultra", "dig"];
+  if (puzzlePacks.length > 0) {
+    types.push("puzzle");
+  }
+
+  let ruleset: DailyRuleset;
+  switch (pick(random, types)) {
+    case "sprint":
+      ruleset = {
+        type: "sprint",
+        lineTarget: pick(random, SPRINT_LINE_TARGETS),
+      };
+      break;
+    case "ultra":
+      ruleset = { type: "ultra", timeLimit: pick(random, ULTRA_TIME_LIMITS) };
+      break;
+    case "dig":
+      ruleset = { type: "dig", ...pick(random, DIG_OPTIONS) };
+      break;
+    case "puzzle": {
+      const pack = pick(random, puzzlePacks);
+      ruleset = {
+        type: "puzzle",
+        pack,
+        index: random.nextInt(pack.puzzles.length),
+      };
+      break;
+    }
+  }
+
+  const modifiers: DailyModifiers =
+    ruleset.type === "puzzle"
+      ? { stackVisibility: "normal", hold: true }
+      : {
+          stackVisibility: pickWeighted(random, STACK_MODIFIER_WEIGHTS),
+          hold: random.next() >= NO_HOLD_CHANCE,
+        };
+
+  return { date: dateKey, seed, ruleset, modifiers };
+}
+
+/**
+ * ルールの略号を作成する（例: "S40"、"U120"、"D18M"、"P3"）
+ * @param ruleset - ルール
+ * @returns 略号
+ */
+export function getDailyTag(ruleset: DailyRuleset): string {
+  switch (ruleset.type) {
+    case "sprint":
+      return `S${ruleset.lineTarget}`;
+    case "ultra":
+      return `U${Math.round(ruleset.timeLimit / 1000)}`;
+    case "dig":
+      return `D${ruleset.lineTarget}${ruleset.style === "messy" ? "M" : ""}`;
+    case "puzzle":
+      return `P${ruleset.index + 1}`;
+  }
+}
+
+/**
+ * ルールの略号から記録を比べる指標を取得する
+ * @param tag - ルールの略号
+ * @returns 指標
+ */
+export function getDailyMetric(tag: string): DailyMetric {
+  switch (tag.charAt(0)) {
+    case "U":
+      return "score";
+    case "P":
+      return "pieces";
+    default:
+      return "time";
+  }
+}
+
+/**
+ * デイリーチャレンジの説明文を作成する（例: "SPRINT 40L / FADING"）
+ * @param challenge - デイリーチャレンジ
+ * @returns 説明文
+ */
+export function describeDailyChallenge(challenge: DailyChallenge): string {
+  const { ruleset, modifiers } = challenge;
+  const parts: string[] = [];
+  switch (ruleset.type) {
+    case "sprint":
+      parts.push(`SPRINT ${ruleset.lineTarget}L`);
+      break;
+    case "ultra":
+      parts.push(`ULTRA ${formatTimeLimit(ruleset.timeLimit)}`);
+      break;
+    case "dig":
+      parts.push(
+        `DIG ${ruleset.lineTarget}L${ruleset.style === "messy" ? " MESSY" : ""}`
+      );
+      break;
+    case "puzzle":
+      parts.push(ruleset.pack.puzzles[ruleset.index].name);
+      break;
+  }
+  if (modifiers.stackVisibility !== "normal") {
+    parts.push(modifiers.stackVisibility.toUpperCase());
+  }
+  if (!modifiers.hold) {
+    parts.push("NO HOLD");
+  }
+  return parts.join(" / ");
+}
+
+/**
+ * 記録を比べる
+ * 目標を達成した記録を優先し、同じ場合は指標の値で比べる
+ * @param metric - 指標
+ * @param a - 記録
+ * @param b - 記録
+ * @returns aの方が良ければ負、bの方が良ければ正、同じなら0
+ */
+export function compareDailyScores(
+  metric: DailyMetric,
+  a: DailyScore,
+  b: DailyScore
+): number {
+  if (a.completed !== b.completed) {
+    return a.completed ? -1 : 1;
+  }
+  const lowerIsBetter = a.completed && metric !== "score";
+  return lowerIsBetter ? a.value - b.value : b.value - a.value;
+}
+
+/**
+ * 記録の表示用の文字列を作成する（例: "1:05.432"、"12 LINES"）
+ * @param metric - 指標
+ * @param score - 記録
+ * @returns 表示用の文字列
+ */
+export function formatDailyScore(
+  metric: DailyMetric,
+  score: DailyScore
+): string {
+  switch (metric) {
+    case "time":
+      return score.completed ? formatTime(score.value) : `${score.value} LINES`;
+    case "score":
+      return String(score.value);
+    case "pieces":
+      return score.completed ? `${score.value} PIECES` : "FAILED";
+  }
+}
+
+/**
+ * 結果コードを作成する
+ * サーバーを使わずに記録を比べられるよう、日付・ルール・記録と検査用の文字を含める
+ * @param date - 日付（"YYYY-MM-DD"）
+ * @param tag - ルールの略号
+ * @param score - 記録
+ * @returns 結果コード（例: "DAILY-20261019-S40-C1DJK-7Q"）
+ */
+export function encodeDailyResultCode(
+  date: string,
+  tag: string,
+  score: DailyScore
+): string {
+  const value = Math.max(0, Math.round(score.value)).toString(36).toUpperCase();
+  const body = `${CODE_PREFIX}-${date.replace(/-/g, "")}-${tag}-${score.completed ? "C" : "F"}${value}`;
+  return `${body}-${getChecksum(body)}`;
+}
+
+/**
+ * 結果コードを解析する
+ * @param code - 結果コード（大文字・小文字と前後の空白は区別しない）
+ * @returns 解析した内容
+ * @throws 形式が正しくない、または検査用の文字が合わない場合
+ */
+export function parseDailyResultCode(code: string): DailyResultCode {
+  const normalized = code.trim().toUpperCase();
+  const match =
+    /^(DAILY-(\d{4})(\d{2})(\d{2})-([SUDP]\d+M?)-([CF])([0-9A-Z]+))-([0-9A-Z]{2})$/.exec(
+      normalized
+    );
+  if (!match) {
+    throw new Error(`Invalid daily result code: ${code}`);
+  }
+
+  const [, body, year, month, day, tag, flag, value, checksum] = match;
+  if (getChecksum(body) !== checksum) {
+    throw new Error(`Invalid daily result code: checksum mismatch`);
+  }
+  return {
+    date: `${year}-${month}-${day}`,
+    tag,
+    score: { completed: flag === "C", value: parseInt(value, 36) },
+  };
+}
+
+/**
+ * 結果コードの検査用の文字（2文字）を計算する
+ */
+function getChecksum(body: string): string {
+  return (hashString(body) % (36 * 36))
+    .toString(36)
+    .toUpperCase()
+    .padStart(2, "0");
+}
+
+/**
+ * 保存されている記録を読み込む
+ * @param storage - 保存先
+ * @returns 日付ごとの記録
+ */
+export function loadDailyHistory(storage: KeyValueStorage): DailyHistory {
+  return loadJSON<DailyHistory>(storage, HISTORY_KEY, {});
+}
+
+/**
+ * プレイの記録を保存する（その日の最高記録を更新した場合のみ記録を置き換える）
+ * @param storage - 保存先
+ * @param challenge - プレイしたデイリーチャレンジ
+ * @param score - 記録
+ * @returns 保存後のその日の記録と、最高記録を更新したかどうか
+ */
+export function recordDailyResult(
+  storage: KeyValueStorage,
+  challenge: DailyChallenge,
+  score: DailyScore
+): { entry: DailyEntry; isBest: boolean } {
+  const history = loadDailyHistory(storage);
+  const tag = getDailyTag(challenge.ruleset);
+  const previous = history[challenge.date];
+  const isBest =
+    !previous ||
+    compareDailyScores(getDailyMetric(tag), score, previous.best) < 0;
+
+  const entry: DailyEntry = {
+    date: challenge.date,
+    tag,
+    best: isBest ? score : previous.best,
+    attempts: (previous?.attempts ?? 0) + 1,
+  };
+  history[challenge.date] = entry;
+  saveJSON(storage, HISTORY_KEY, history);
+  return { entry, isBest };
+}
+
+/**
+ * 連続してプレイした日数を数える
+ * 今日まだプレイしていない場合は、昨日までの連続日数を返す（今日プレイすれば続く）
+ * @param history - 日付ごとの記録
+ * @param today - 今日の日付（"YYYY-MM-DD"）
+ * @returns 連続日数
+ */
+export function getDailyStreak(history: DailyHistory, today: string): number {
+  let date = history[today] ? today : shiftDateKey(today, -1);
+  let streak = 0;
+  while (history[date]) {
+    streak++;
+    date = shiftDateKey(date, -1);
+  }
+  return streak;
+}
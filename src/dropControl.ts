@@ -1,5 +1,6 @@
 import * as Phaser from "phaser";
 import { isPositionValid, placeTetromino } from "./collision";
+import { LockDelay, LockDelayConfig } from "./lockDelay";
 
 /**
  * テトロミノ（テトリスブロック）の形状を表す型
@@ -39,49 +40,76 @@ export interface ExtendedDropConfig extends DropConfig {
   onLock?: () => void;
   /** 落下位置が更新された時に呼ばれるコールバック */
   onPositionUpdate?: (x: number, y: number) => void;
+  /** 接地してから固定されるまでの猶予の設定（省略時は接地した瞬間に固定） */
+  lockDelay?: LockDelayConfig;
 }
 
 /**
  * テトロミノの自動落下を開始する関数
+ * 固定猶予が設定されている場合は、接地してから猶予を使い切るまで固定しない
+ * 接地中は次の判定を猶予が尽きる時刻に合わせるため、固定までの時間は落下間隔に依存しない
  * @param config 落下制御の設定
  * @returns Phaser.Time.TimerEvent - 落下制御用のタイマーイベント
  */
-export function startDrop(config: DropConfig): Phaser.Time.TimerEvent {
+export function startDrop(config: ExtendedDropConfig): Phaser.Time.TimerEvent {
+  const lockDelay = config.lockDelay ? new LockDelay(config.lockDelay) : null;
+  lockDelay?.reset(config.offsetY);
+
+  // 1つ下の位置が有効かチェック
+  const canMoveDown = () =>
+    isPositionValid(
+      config.grid,
+      config.shape,
+      config.offsetX,
+      config.offsetY + 1
+    );
+
+  // 次の判定までの時間（接地中は残りの固定猶予、それ以外は落下間隔）
+  // Phaserのループタイマーは0msを受け付けないため、最短1msとする
+  const getNextDelay = () =>
+    lockDelay && !canMoveDown()
+      ? Math.max(lockDelay.getRemaining(), 1)
+      : config.dropInterval;
+
+  // 次の判定までの時間を設定し直す
+  const scheduleNext = () => {
+    timerEvent.reset({
+      delay: getNextDelay(),
+      callback: dropFunction,
+      loop: true,
+    });
+  };
+
   // 落下処理を実行する関数
   const dropFunction = () => {
-    // Y座標を1増やして落下させる
-    config.offsetY++;
-
-    // 新しい位置が有効かチェック
-    if (
-      isPositionValid(config.grid, config.shape, config.offsetX, config.offsetY)
-    ) {
+    if (canMoveDown()) {
       // 有効な位置の場合、落下を継続
-      // ※ここで位置更新のコールバックを呼ぶことも可能
-      // if ((config as ExtendedDropConfig).onPositionUpdate) {
-      //     (config as ExtendedDropConfig).onPositionUpdate!(config.offsetX, config.offsetY);
-      // }
-    } else {
-      // 衝突した場合、前の位置に戻す
-      config.offsetY--;
-
-      // タイマーを停止
-      timerEvent.remove();
-
-      // テトロミノをグリッドに固定
-      placeTetromino(config.grid, config.shape, config.offsetX, config.offsetY);
-
-      // ※ここで固定化後のコールバック（onLock）を呼ぶ
-      // 例：行の完成チェック、新しいテトロミノの生成、ゲームオーバー判定など
-      // if ((config as ExtendedDropConfig).onLock) {
-      //     (config as ExtendedDropConfig).onLock!();
-      // }
+      config.offsetY++;
+      lockDelay?.onStepDown(config.offsetY);
+      config.onPositionUpdate?.(config.offsetX, config.offsetY);
+      scheduleNext();
+      return;
+    }
+
+    // 接地中：前回の判定から経過した時間だけ猶予を進め、残っている間は固定しない
+    if (lockDelay && !lockDelay.update(timerEvent.delay, true)) {
+      scheduleNext();
+      return;
     }
+
+    // タイマーを停止
+    timerEvent.remove();
+
+    // テトロミノをグリッドに固定
+    placeTetromino(config.grid, config.shape, config.offsetX, config.offsetY);
+
+    // 固定化後のコールバック（行の完成チェック、新しいテトロミノの生成など）
+    config.onLock?.();
   };
 
   // Phaserのタイマーイベントを作成して落下処理を定期実行
   const timerEvent = config.scene.time.addEvent({
-    delay: config.dropInterval,
+    delay: getNextDelay(),
     callback: dropFunction,
     loop: true,
   });
@@ -140,10 +168,11 @@ export function changeDropSpeed(
 
 /**
  * ハードドロップ（即座に最下部まで落下）を実行する関数
+ * 固定猶予は適用されず、落下後すぐに固定される
  * @param config 落下制御の設定
  * @returns 落下した行数
  */
-export function hardDrop(config: DropConfig): number {
+export function hardDrop(config: ExtendedDropConfig): number {
   let dropDistance = 0;
 
   // 衝突するまで落下を続ける
@@ -162,8 +191,8 @@ export function hardDrop(config: DropConfig): number {
   // テトロミノを固定
   placeTetromino(config.grid, config.shape, config.offsetX, config.offsetY);
 
-  // ※ここで固定化後のコールバック（onLock）を呼ぶ
-  // ハードドロップ後は即座に固定されるため、通常の落下とは別の処理が必要な場合がある
+  // 固定化後のコールバック
+  config.onLock?.();
 
   return dropDistance;
 }
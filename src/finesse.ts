@@ -0,0 +1,129 @@
+import { BoardSpec, createEmptyGrid } from "./boardSpec";
+import { Grid, isPositionValid } from "./collision";
+import { ActivePiece, TetrisAction } from "./gameEngine";
+import {
+  RotationDirection,
+  RotationSystem,
+  RotationSystemType,
+  createRotationSystem,
+} from "./rotationSystem";
+
+/**
+ * フィネス（最少の入力回数）の判定で数える操作
+ * 横移動と回転のみを数え、ドロップとホールドは含めない
+ */
+export const FINESSE_ACTIONS: ReadonlyArray<TetrisAction> = [
+  TetrisAction.MoveLeft,
+  TetrisAction.MoveRight,
+  TetrisAction.RotateClockwise,
+  TetrisAction.RotateCounterClockwise,
+  TetrisAction.Rotate180,
+];
+
+/**
+ * 1回の入力として試す回転の方向
+ */
+const ROTATION_DIRECTIONS: ReadonlyArray<RotationDirection> = [
+  "clockwise",
+  "counterClockwise",
+  "180",
+];
+
+/**
+ * ピースが占めるセルを高さによらない形にする（列と、最も上のブロックからの行）
+ * ハードドロップすると同じ場所に置かれるピースは同じ値になる
+ */
+function getFootprint(piece: ActivePiece): string {
+  const cells: Array<[number, number]> = [];
+  piece.shape.forEach((shapeRow, rowIndex) =>
+    shapeRow.forEach((cell, colIndex) => {
+      if (cell !== 0) {
+        cells.push([piece.y + rowIndex, piece.x + colIndex]);
+      }
+    })
+  );
+  const top = Math.min(...cells.map(([row]) => row));
+  return cells
+    .map(([row, col]) => `${col},${row - top}`)
+    .sort()
+    .join(" ");
+}
+
+/**
+ * 1回の入力で移れる位置（1マスの横移動、壁までの横移動、各方向の回転）
+ */
+function getMoves(
+  grid: Grid,
+  system: RotationSystem,
+  piece: ActivePiece
+): ActivePiece[] {
+  const moves: ActivePiece[] = [];
+
+  for (const direction of [-1, 1]) {
+    let x = piece.x + direction;
+    if (!isPositionValid(grid, piece.shape, x, piece.y)) {
+      continue;
+    }
+    moves.push({ ...piece, x });
+    while (isPositionValid(grid, piece.shape, x + direction, piece.y)) {
+      x += direction;
+    }
+    moves.push({ ...piece, x });
+  }
+
+  for (const direction of ROTATION_DIRECTIONS) {
+    const result = system.rotate(grid, piece, direction);
+    if (result.valid) {
+      moves.push({
+        ...piece,
+        shape: result.rotated,
+        x: result.x,
+        y: result.y,
+        rotation: result.newRotation,
+      });
+    }
+  }
+  return moves;
+}
+
+/**
+ * 出現したピースを、ハードドロップで目標と同じ場所に置くための最少の入力回数を求める
+ * 1マスの横移動、壁までの横移動（DAS）、右・左・180度の回転をそれぞれ1回と数える
+ * 空の盤面で探すため、ソフトドロップを使う入れ込みやスピンの位置は求められない
+ * @param spawn - 出現した時のピース
+ * @param target - 固定した時のピース
+ * @param rotationSystem - 回転システム
+ * @param spec - 盤面の寸法
+ * @returns 最少の入力回数（ハードドロップだけでは置けない場所の場合はnull）
+ */
+export function getMinimumInputs(
+  spawn: ActivePiece,
+  target: ActivePiece,
+  rotationSystem: RotationSystemType,
+  spec: BoardSpec
+): number | null {
+  const grid = createEmptyGrid(spec);
+  const system = createRotationSystem(rotationSystem);
+  const goal = getFootprint(target);
+  const key = (piece: ActivePiece) => `${piece.x},${piece.y},${piece.rotation}`;
+
+  // 入力回数ごとに幅優先で探す
+  const visited = new Set([key(spawn)]);
+  let frontier = [spawn];
+  for (let inputs = 0; frontier.length > 0; inputs++) {
+    const next: ActivePiece[] = [];
+    for (const piece of frontier) {
+      if (getFootprint(piece) === goal) {
+        return inputs;
+      }
+      for (const moved of getMoves(grid, system, piece)) {
+        if (!visited.has(key(moved))) {
+          visited.add(key(moved));
+          next.push(moved);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
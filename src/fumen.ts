@@ -0,0 +1,830 @@
+import { BoardSpec, DEFAULT_BOARD_SPEC, getTotalRows } from "./boardSpec";
+import { ActivePiece } from "./gameEngine";
+import { RotationState } from "./rotation";
+import { createRotationSystem } from "./rotationSystem";
+import { GARBAGE_CELL, TetrominoType } from "./tetromino";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * 書き出すフュミン（テト譜）の形式の接頭辞
+ */
+export const FUMEN_PREFIX = "v115@";
+
+/**
+ * フュミンのフィールドの列数（盤面の幅はこれと一致する必要がある）
+ */
+export const FUMEN_FIELD_WIDTH = 10;
+
+/**
+ * フュミンのフィールドの行数（せり上がり用の行を除く）
+ */
+export const FUMEN_FIELD_HEIGHT = 23;
+
+/**
+ * せり上がり用の行を含むフィールドのセル数
+ */
+const FIELD_BLOCKS = (FUMEN_FIELD_HEIGHT + 1) * FUMEN_FIELD_WIDTH;
+
+/**
+ * データの1文字が表す値（64進数）
+ */
+const ENCODE_TABLE =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * コメントの文字（escape後の文字）と値の対応
+ */
+const COMMENT_TABLE =
+  " !\"#$%&'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~";
+
+/**
+ * コメントの1文字が取りうる値の数
+ */
+const COMMENT_CHAR_VALUES = COMMENT_TABLE.length + 1;
+
+/**
+ * コメントの最大の長さ（escape後の文字数、2文字で表せる範囲）
+ */
+const MAX_COMMENT_LENGTH = 64 * 64 - 1;
+
+/**
+ * フィールドを変更しない場合の差分（差分は -8〜8 に 8 を足して保存する）
+ */
+const NO_CHANGE = 8;
+
+/**
+ * 読み込むフュミンのデータ部分（URLに含まれていても取り出せるようにする）
+ */
+const FUMEN_PATTERN = /[vmd]115@([A-Za-z0-9+/?]*)/;
+
+/**
+ * 盤面のセルの値とフュミンのブロックの値の対応
+ * フュミンは 1:I 2:L 3:O 4:Z 5:T 6:J 7:S 8:グレー
+ */
+const CELL_TO_BLOCK: ReadonlyArray<number> = [0, 1, 3, 5, 7, 4, 6, 2, 8];
+
+/**
+ * フュミンのブロックの値と盤面のセルの値の対応
+ */
+const BLOCK_TO_CELL: ReadonlyArray<number> = [
+  0,
+  TetrominoType.I + 1,
+  TetrominoType.L + 1,
+  TetrominoType.O + 1,
+  TetrominoType.Z + 1,
+  TetrominoType.T + 1,
+  TetrominoType.J + 1,
+  TetrominoType.S + 1,
+  GARBAGE_CELL,
+];
+
+/**
+ * 回転状態（0/R/2/L）とフュミンの向きの値の対応
+ * フュミンは 0:180度 1:右 2:出現時 3:左（この対応は逆向きの変換にも使える）
+ */
+const ROTATION_TO_FUMEN: ReadonlyArray<number> = [2, 1, 0, 3];
+
+/**
+ * 出現時の向きでの、回転中心から見た各ブロックの位置（x は右、y は上が正）
+ */
+const PIECE_OFFSETS: Record<TetrominoType, ReadonlyArray<[number, number]>> = {
+  [TetrominoType.I]: [
+    [0, 0],
+    [-1, 0],
+    [1, 0],
+    [2, 0],
+  ],
+  [TetrominoType.O]: [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [1, 1],
+  ],
+  [TetrominoType.T]: [
+    [0, 0],
+    [-1, 0],
+    [1, 0],
+    [0, 1],
+  ],
+  [TetrominoType.S]: [
+    [0, 0],
+    [-1, 0],
+    [0, 1],
+    [1, 1],
+  ],
+  [TetrominoType.Z]: [
+    [0, 0],
+    [1, 0],
+    [0, 1],
+    [-1, 1],
+  ],
+  [TetrominoType.J]: [
+    [0, 0],
+    [-1, 0],
+    [1, 0],
+    [-1, 1],
+  ],
+  [TetrominoType.L]: [
+    [0, 0],
+    [-1, 0],
+    [1, 0],
+    [1, 1],
+  ],
+};
+
+/**
+ * フュミンに保存される位置とSRSの回転中心のずれ
+ * O・I・S・Z は180度対称の向きを同じ位置で保存するため、向きによって中心がずれる
+ */
+const CENTER_SHIFTS: Partial<
+  Record<TetrominoType, Partial<Record<RotationState, [number, number]>>>
+> = {
+  [TetrominoType.O]: { 0: [0, -1], 2: [1, 0], 3: [1, -1] },
+  [TetrominoType.I]: { 2: [1, 0], 3: [0, -1] },
+  [TetrominoType.S]: { 0: [0, -1], 1: [-1, 0] },
+  [TetrominoType.Z]: { 0: [0, -1], 3: [1, 0] },
+};
+
+/**
+ * ページの操作フラグ
+ */
+export interface FumenPageFlags {
+  /** ピースを固定し、ライン消去をしてから次のページに進むかどうか */
+  lock: boolean;
+  /** 固定後にせり上がり用の行を押し上げるかどうか */
+  rise: boolean;
+  /** 固定後に盤面を左右反転するかどうか */
+  mirror: boolean;
+  /** ブロックを色付きで表示するかどうか（先頭のページのみ保存される） */
+  colorize: boolean;
+}
+
+/**
+ * フュミンの1ページ
+ */
+export interface FumenPage {
+  /** 盤面グリッド（操作中のピースを含まない、バッファ行を含む） */
+  grid: Grid;
+  /** フィールドの下にある、せり上がりで押し上げられる行 */
+  garbageRow: number[];
+  /** 操作中のピース（ない場合はnull） */
+  piece: ActivePiece | null;
+  /** コメント（"#Q=" で始まる場合はクイズ） */
+  comment: string;
+  /** 操作フラグ */
+  flags: FumenPageFlags;
+}
+
+/**
+ * クイズのコメントの内容（例: "#Q=[S](T)IZO"）
+ */
+export interface FumenQuiz {
+  /** ホールドしているピース */
+  hold: TetrominoType | null;
+  /** 現在のピース */
+  current: TetrominoType | null;
+  /** 次のピースの順 */
+  next: TetrominoType[];
+}
+
+/**
+ * フュミンの内部で使うフィールド（上から23行と、せり上がり用の行）
+ */
+type Field = number[][];
+
+/**
+ * フュミンの内部で使うピース（位置はフュミンの座標、y は下から数える）
+ */
+interface FieldPiece {
+  type: TetrominoType;
+  rotation: RotationState;
+  x: number;
+  y: number;
+}
+
+/**
+ * ページの操作
+ */
+interface FumenAction extends FumenPageFlags {
+  piece: FieldPiece | null;
+  hasComment: boolean;
+}
+
+/**
+ * 形式の誤りを、誤りのある場所を含めたエラーにする
+ * @param path - 誤りのある場所（例: "pages[1].piece"）
+ * @param message - 誤りの内容
+ */
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid fumen: ${path} ${message}`);
+}
+
+/**
+ * ページを作成する
+ * @param grid - 盤面グリッド
+ * @param piece - 操作中のピース
+ * @param comment - コメント
+ * @returns 固定する設定のページ（せり上がり用の行は空）
+ */
+export function createFumenPage(
+  grid: Grid,
+  piece: ActivePiece | null = null,
+  comment: string = ""
+): FumenPage {
+  return {
+    grid: grid.map((row) => [...row]),
+    garbageRow: Array<number>(grid[0]?.length ?? FUMEN_FIELD_WIDTH).fill(0),
+    piece,
+    comment,
+    flags: { lock: true, rise: false, mirror: false, colorize: true },
+  };
+}
+
+/**
+ * クイズのコメントを読み取る
+ * @param comment - ページのコメント
+ * @returns クイズの内容（クイズでない場合はnull）
+ */
+export function parseFumenQuiz(comment: string): FumenQuiz | null {
+  const match = /^#Q=\[([IOTSZJL]?)\]\(([IOTSZJL]?)\)([IOTSZJL]*)/.exec(
+    comment
+  );
+  if (!match) {
+    return null;
+  }
+
+  const toType = (char: string) =>
+    TetrominoType[char as keyof typeof TetrominoType];
+  return {
+    hold: match[1] ? toType(match[1]) : null,
+    current: match[2] ? toType(match[2]) : null,
+    next: [...match[3]].map(toType),
+  };
+}
+
+/**
+ * 64進数の文字列を先頭から読み取るクラス
+ */
+class FumenReader {
+  private position: number = 0;
+
+  constructor(private data: string) {}
+
+  public isEnd(): boolean {
+    return this.position >= this.data.length;
+  }
+
+  /**
+   * 値を読み取る（下の桁から順に保存されている）
+   * @param length - 文字数
+   */
+  public poll(length: number): number {
+    if (this.position + length > this.data.length) {
+      invalid("data", "ends unexpectedly");
+    }
+
+    let value = 0;
+    for (let index = length - 1; index >= 0; index--) {
+      const digit = ENCODE_TABLE.indexOf(this.data[this.position + index]);
+      value = value * 64 + digit;
+    }
+    this.position += length;
+    return value;
+  }
+}
+
+/**
+ * 値を64進数の文字列にする（下の桁から順に書く）
+ * @param value - 値
+ * @param length - 文字数
+ */
+function encodeValue(value: number, length: number): string {
+  let result = "";
+  let rest = value;
+  for (let index = 0; index < length; index++) {
+    result += ENCODE_TABLE[rest % 64];
+    rest = Math.floor(rest / 64);
+  }
+  return result;
+}
+
+/**
+ * 空のフィールドを作成する
+ */
+function createEmptyField(): Field {
+  return Array.from({ length: FUMEN_FIELD_HEIGHT + 1 }, () =>
+    Array<number>(FUMEN_FIELD_WIDTH).fill(0)
+  );
+}
+
+/**
+ * ピースの各ブロックの位置を求める
+ * @param piece - フュミンのピース（位置はSRSの回転中心）
+ * @returns ブロックのフュミンの座標
+ */
+function getPieceBlocks(piece: FieldPiece): Array<[number, number]> {
+  return PIECE_OFFSETS[piece.type].map(([dx, dy]) => {
+    switch (piece.rotation) {
+      case 1:
+        return [piece.x + dy, piece.y - dx];
+      case 2:
+        return [piece.x - dx, piece.y - dy];
+      case 3:
+        return [piece.x - dy, piece.y + dx];
+      default:
+        return [piece.x + dx, piece.y + dy];
+    }
+  });
+}
+
+/**
+ * フィールドにピースを固定し、ライン消去・せり上がり・左右反転を行う
+ * 次のページのフィールドは、この結果との差分で保存される
+ * @param field - 固定前のフィールド
+ * @param action - ページの操作
+ * @returns 次のページの元になるフィールド
+ */
+function applyLock(field: Field, action: FumenAction): Field {
+  const playfield = field.slice(0, FUMEN_FIELD_HEIGHT).map((row) => [...row]);
+  const garbageRow = [...field[FUMEN_FIELD_HEIGHT]];
+
+  if (action.piece) {
+    const block = CELL_TO_BLOCK[action.piece.type + 1];
+    for (const [x, y] of getPieceBlocks(action.piece)) {
+      playfield[FUMEN_FIELD_HEIGHT - 1 - y][x] = block;
+    }
+  }
+
+  const remaining = playfield.filter((row) => row.some((cell) => cell === 0));
+  while (remaining.length < FUMEN_FIELD_HEIGHT) {
+    remaining.unshift(Array<number>(FUMEN_FIELD_WIDTH).fill(0));
+  }
+
+  let result: Field = [...remaining, garbageRow];
+  if (action.rise) {
+    result = [
+      ...remaining.slice(1),
+      garbageRow,
+      Array<number>(FUMEN_FIELD_WIDTH).fill(0),
+    ];
+  }
+  if (action.mirror) {
+    result = result.map((row, index) =>
+      index < FUMEN_FIELD_HEIGHT ? [...row].reverse() : row
+    );
+  }
+  return result;
+}
+
+/**
+ * 盤面グリッドのピースを、フュミンのピースに変換する
+ * @param piece - 操作中のピース
+ * @param totalRows - 盤面の全行数
+ * @param path - エラーに含める場所
+ */
+function toFieldPiece(
+  piece: ActivePiece,
+  totalRows: number,
+  path: string
+): FieldPiece {
+  const cells: Array<[number, number]> = [];
+  piece.shape.forEach((row, rowIndex) =>
+    row.forEach((cell, colIndex) => {
+      if (cell !== 0) {
+        cells.push([piece.x + colIndex, totalRows - 1 - (piece.y + rowIndex)]);
+      }
+    })
+  );
+
+  // 中心を原点とした場合のブロックと比べ、左下のブロックの位置の差を中心の位置とする
+  const offsets = getPieceBlocks({ ...piece, x: 0, y: 0 });
+  const lowest = (blocks: Array<[number, number]>) =>
+    blocks.reduce((a, b) =>
+      b[1] < a[1] || (b[1] === a[1] && b[0] < a[0]) ? b : a
+    );
+  const [cellX, cellY] = lowest(cells);
+  const [offsetX, offsetY] = lowest(offsets);
+  const center = { ...piece, x: cellX - offsetX, y: cellY - offsetY };
+
+  const blocks = getPieceBlocks(center);
+  if (
+    blocks.some(
+      ([x, y]) =>
+        x < 0 || x >= FUMEN_FIELD_WIDTH || y < 0 || y >= FUMEN_FIELD_HEIGHT
+    )
+  ) {
+    invalid(path, "is outside the fumen field");
+  }
+  return {
+    type: piece.type,
+    rotation: piece.rotation,
+    x: center.x,
+    y: center.y,
+  };
+}
+
+/**
+ * フュミンのピースを、盤面グリッドのピースに変換する
+ * 形状はSRSの回転状態のものを使う
+ * @param piece - フュミンのピース
+ * @param totalRows - 盤面の全行数
+ */
+function toActivePiece(piece: FieldPiece, totalRows: number): ActivePiece {
+  const shape = createRotationSystem("srs").getShape(
+    piece.type,
+    piece.rotation
+  );
+  let minRow = shape.length;
+  let minCol = shape.length;
+  shape.forEach((row, rowIndex) =>
+    row.forEach((cell, colIndex) => {
+      if (cell !== 0) {
+        minRow = Math.min(minRow, rowIndex);
+        minCol = Math.min(minCol, colIndex);
+      }
+    })
+  );
+
+  // 形状の左上のブロックと、フュミンのブロックの左上の位置を合わせる
+  const blocks = getPieceBlocks(piece);
+  const left = Math.min(...blocks.map(([x]) => x));
+  const top = totalRows - 1 - Math.max(...blocks.map(([, y]) => y));
+  return {
+    type: piece.type,
+    shape,
+    x: left - minCol,
+    y: top - minRow,
+    rotation: piece.rotation,
+  };
+}
+
+/**
+ * 盤面グリッドをフィールドに変換する（盤面の下から23行を使う）
+ * @param page - ページ
+ * @param path - エラーに含める場所
+ */
+function toField(page: FumenPage, path: string): Field {
+  const { grid } = page;
+  if (grid.some((row) => row.length !== FUMEN_FIELD_WIDTH)) {
+    invalid(`${path}.grid`, `must be ${FUMEN_FIELD_WIDTH} columns wide`);
+  }
+
+  const field = createEmptyField();
+  const offset = grid.length - FUMEN_FIELD_HEIGHT;
+  grid.forEach((row, rowIndex) => {
+    row.forEach((cell, col) => {
+      if (cell === 0) return;
+      if (rowIndex < offset) {
+        invalid(`${path}.grid`, `has blocks above row ${FUMEN_FIELD_HEIGHT}`);
+      }
+      field[rowIndex - offset][col] = CELL_TO_BLOCK[cell] ?? 8;
+    });
+  });
+  page.garbageRow.forEach((cell, col) => {
+    field[FUMEN_FIELD_HEIGHT][col] = CELL_TO_BLOCK[cell] ?? 8;
+  });
+  return field;
+}
+
+/**
+ * フィールドを盤面グリッドに変換する
+ * @param field - フィールド
+ * @param board - 盤面の寸法
+ * @param path - エラーに含める場所
+ */
+function toGrid(field: Field, board: BoardSpec, path: string): Grid {
+  const totalRows = getTotalRows(board);
+  const offset = totalRows - FUMEN_FIELD_HEIGHT;
+  const grid: Grid = Array.from({ length: totalRows }, () =>
+    Array<number>(board.width).fill(0)
+  );
+
+  field.slice(0, FUMEN_FIELD_HEIGHT).forEach((row, rowIndex) => {
+    row.forEach((block, col) => {
+      if (block === 0) return;
+      if (rowIndex + offset < 0) {
+        invalid(path, "has blocks above the board");
+      }
+      grid[rowIndex + offset][col] = BLOCK_TO_CELL[block];
+    });
+  });
+  return grid;
+}
+
+/**
+ * フィールドの差分を書き出す
+ * 同じ差分が続くセルをまとめ、差分と個数を2文字で表す
+ * @returns 書き出した文字列と、フィールドが変化したかどうか
+ */
+function encodeField(
+  previous: Field,
+  current: Field
+): { data: string; changed: boolean } {
+  const previousBlocks = previous.flat();
+  const diffs = current
+    .flat()
+    .map((block, index) => block - previousBlocks[index] + NO_CHANGE);
+
+  let data = "";
+  let runStart = 0;
+  for (let index = 1; index <= FIELD_BLOCKS; index++) {
+    if (index === FIELD_BLOCKS || diffs[index] !== diffs[runStart]) {
+      const count = index - runStart;
+      data += encodeValue(diffs[runStart] * FIELD_BLOCKS + count - 1, 2);
+      runStart = index;
+    }
+  }
+  return {
+    data,
+    changed: diffs.some((diff) => diff !== NO_CHANGE),
+  };
+}
+
+/**
+ * フィールドの差分を読み取る
+ * @returns 差分を適用したフィールドと、フィールドが変化したかどうか
+ */
+function decodeField(
+  reader: FumenReader,
+  previous: Field
+): { field: Field; changed: boolean } {
+  const field = previous.map((row) => [...row]);
+  let changed = true;
+  let index = 0;
+  while (index < FIELD_BLOCKS) {
+    const value = reader.poll(2);
+    const diff = Math.floor(value / FIELD_BLOCKS) - NO_CHANGE;
+    const count = (value % FIELD_BLOCKS) + 1;
+    if (diff === 0 && count === FIELD_BLOCKS) {
+      changed = false;
+    }
+    if (index + count > FIELD_BLOCKS) {
+      invalid("data", "has a field larger than the fumen field");
+    }
+    for (let end = index + count; index < end; index++) {
+      const row = Math.floor(index / FUMEN_FIELD_WIDTH);
+      const col = index % FUMEN_FIELD_WIDTH;
+      field[row][col] += diff;
+      if (field[row][col] < 0 || field[row][col] > 8) {
+        invalid("data", "has an unknown block");
+      }
+    }
+  }
+  return { field, changed };
+}
+
+/**
+ * ページの操作を値にする（ピースの種類・向き・位置とフラグを1つの値に詰める）
+ */
+function encodeAction(action: FumenAction): number {
+  let type = 0;
+  let rotation = 0;
+  let coordinate = 0;
+  if (action.piece) {
+    const { piece } = action;
+    const [shiftX, shiftY] = CENTER_SHIFTS[piece.type]?.[piece.rotation] ?? [
+      0, 0,
+    ];
+    const x = piece.x - shiftX;
+    const y = piece.y - shiftY;
+    type = CELL_TO_BLOCK[piece.type + 1];
+    rotation = ROTATION_TO_FUMEN[piece.rotation];
+    coordinate = (FUMEN_FIELD_HEIGHT - y - 1) * FUMEN_FIELD_WIDTH + x;
+  }
+
+  let value = action.lock ? 0 : 1;
+  value = value * 2 + (action.hasComment ? 1 : 0);
+  value = value * 2 + (action.colorize ? 1 : 0);
+  value = value * 2 + (action.mirror ? 1 : 0);
+  value = value * 2 + (action.rise ? 1 : 0);
+  value = value * FIELD_BLOCKS + coordinate;
+  value = value * 4 + rotation;
+  return value * 8 + type;
+}
+
+/**
+ * 値からページの操作を読み取る
+ */
+function decodeAction(value: number): FumenAction {
+  let rest = value;
+  const next = (size: number) => {
+    const result = rest % size;
+    rest = Math.floor(rest / size);
+    return result;
+  };
+
+  const block = next(8);
+  const rotation = ROTATION_TO_FUMEN[next(4)] as RotationState;
+  const coordinate = next(FIELD_BLOCKS);
+  const rise = next(2) === 1;
+  const mirror = next(2) === 1;
+  const colorize = next(2) === 1;
+  const hasComment = next(2) === 1;
+  const lock = next(2) === 0;
+
+  let piece: FieldPiece | null = null;
+  if (block >= 1 && block <= 7) {
+    const type = BLOCK_TO_CELL[block] - 1;
+    const [shiftX, shiftY] = CENTER_SHIFTS[type as TetrominoType]?.[
+      rotation
+    ] ?? [0, 0];
+    piece = {
+      type,
+      rotation,
+      x: (coordinate % FUMEN_FIELD_WIDTH) + shiftX,
+      y:
+        FUMEN_FIELD_HEIGHT -
+        Math.floor(coordinate / FUMEN_FIELD_WIDTH) -
+        1 +
+        shiftY,
+    };
+  }
+  return { piece, rise, mirror, colorize, hasComment, lock };
+}
+
+/**
+ * コメントを書き出す（escapeした文字を4文字ずつ5文字の値に詰める）
+ */
+function encodeComment(comment: string): string {
+  const escaped = escape(comment).slice(0, MAX_COMMENT_LENGTH);
+  let data = encodeValue(escaped.length, 2);
+  for (let index = 0; index < escaped.length; index += 4) {
+    let value = 0;
+    for (let offset = 3; offset >= 0; offset--) {
+      const char = escaped[index + offset];
+      const code = char === undefined ? 0 : COMMENT_TABLE.indexOf(char);
+      value = value * COMMENT_CHAR_VALUES + code;
+    }
+    data += encodeValue(value, 5);
+  }
+  return data;
+}
+
+/**
+ * コメントを読み取る
+ */
+function decodeComment(reader: FumenReader): string {
+  const length = reader.poll(2);
+  let escaped = "";
+  for (let index = 0; index < length; index += 4) {
+    let value = reader.poll(5);
+    for (let offset = 0; offset < 4; offset++) {
+      escaped += COMMENT_TABLE[value % COMMENT_CHAR_VALUES] ?? "";
+      value = Math.floor(value / COMMENT_CHAR_VALUES);
+    }
+  }
+  return unescape(escaped.slice(0, length));
+}
+
+/**
+ * ページの一覧をフュミンの文字列に書き出す
+ * フィールドは前のページ（固定後）との差分で、コメントは変わった場合だけ保存する
+ * @param pages - ページの一覧（盤面の幅は10列）
+ * @returns "v115@" で始まるフュミンの文字列
+ * @throws ページがない、盤面の幅が異なる、またはフィールドに収まらない場合
+ */
+export function encodeFumen(pages: FumenPage[]): string {
+  if (pages.length === 0) {
+    invalid("pages", "must not be empty");
+  }
+
+  const parts: string[] = [];
+  let previousField = createEmptyField();
+  let previousComment = "";
+  // 変化のないフィールドが続く数を書き込んだ位置（63まで数えられる）
+  let repeatIndex = -1;
+
+  pages.forEach((page, index) => {
+    const path = `pages[${index}]`;
+    const field = toField(page, path);
+    const totalRows = page.grid.length;
+
+    const { data, changed } = encodeField(previousField, field);
+    if (changed) {
+      parts.push(data);
+      repeatIndex = -1;
+    } else if (repeatIndex < 0 || parts[repeatIndex] === ENCODE_TABLE[63]) {
+      parts.push(data, ENCODE_TABLE[0]);
+      repeatIndex = parts.length - 1;
+    } else {
+      parts[repeatIndex] =
+        ENCODE_TABLE[ENCODE_TABLE.indexOf(parts[repeatIndex]) + 1];
+    }
+
+    const action: FumenAction = {
+      ...page.flags,
+      colorize: index === 0 && page.flags.colorize,
+      piece: page.piece
+        ? toFieldPiece(page.piece, totalRows, `${path}.piece`)
+        : null,
+      hasComment: page.comment !== previousComment,
+    };
+    parts.push(encodeValue(encodeAction(action), 3));
+    if (action.hasComment) {
+      parts.push(encodeComment(page.comment));
+      previousComment = page.comment;
+    }
+
+    previousField = action.lock ? applyLock(field, action) : field;
+  });
+
+  // 長いデータは "?" で区切る（先頭42文字、以降47文字ごと）
+  const data = parts.join("");
+  const chunks = [data.slice(0, 42)];
+  for (let index = 42; index < data.length; index += 47) {
+    chunks.push(data.slice(index, index + 47));
+  }
+  return FUMEN_PREFIX + chunks.join("?");
+}
+
+/**
+ * フュミンの文字列を読み込む
+ * URL（"...?v115@..." や "...#?d=v115@..."）を貼り付けた場合もデータ部分を取り出す
+ * @param fumen - フュミンの文字列
+ * @param board - 盤面の寸法（幅は10列）
+ * @returns ページの一覧
+ * @throws 形式が正しくない、または盤面に収まらない場合（誤りのある場所をメッセージに含める）
+ */
+export function decodeFumen(
+  fumen: string,
+  board: BoardSpec = DEFAULT_BOARD_SPEC
+): FumenPage[] {
+  const match = FUMEN_PATTERN.exec(fumen);
+  if (!match) {
+    invalid("version", "must be v115");
+  }
+  if (board.width !== FUMEN_FIELD_WIDTH) {
+    invalid("board", `must be ${FUMEN_FIELD_WIDTH} columns wide`);
+  }
+
+  const reader = new FumenReader(match[1].replace(/\?/g, ""));
+  const totalRows = getTotalRows(board);
+  const pages: FumenPage[] = [];
+  let previousField = createEmptyField();
+  let comment = "";
+  let repeat = 0;
+
+  while (!reader.isEnd()) {
+    const path = `pages[${pages.length}]`;
+    let field: Field;
+    if (repeat > 0) {
+      field = previousField.map((row) => [...row]);
+      repeat--;
+    } else {
+      const decoded = decodeField(reader, previousField);
+      field = decoded.field;
+      if (!decoded.changed) {
+        repeat = reader.poll(1);
+      }
+    }
+
+    const action = decodeAction(reader.poll(3));
+    if (action.hasComment) {
+      comment = decodeComment(reader);
+    }
+
+    const grid = toGrid(field, board, `${path}.grid`);
+    let piece: ActivePiece | null = null;
+    if (action.piece) {
+      const blocks = getPieceBlocks(action.piece);
+      if (
+        blocks.some(
+          ([x, y]) =>
+            x < 0 ||
+            x >= FUMEN_FIELD_WIDTH ||
+            y < 0 ||
+            y >= Math.min(totalRows, FUMEN_FIELD_HEIGHT)
+        )
+      ) {
+        invalid(`${path}.piece`, "is outside the board");
+      }
+      piece = toActivePiece(action.piece, totalRows);
+    }
+
+    pages.push({
+      grid,
+      garbageRow: field[FUMEN_FIELD_HEIGHT].map(
+        (block) => BLOCK_TO_CELL[block]
+      ),
+      piece,
+      comment,
+      flags: {
+        lock: action.lock,
+        rise: action.rise,
+        mirror: action.mirror,
+        colorize: action.colorize,
+      },
+    });
+    previousField = action.lock ? applyLock(field, action) : field;
+  }
+
+  if (pages.length === 0) {
+    invalid("data", "has no pages");
+  }
+  return pages;
+}
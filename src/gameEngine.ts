@@ -0,0 +1,1167 @@
+import { TetrominoType, BlockShape } from "./tetromino";
+import { Grid, isPositionValid, isGridEmpty, pushRowsUp } from "./collision";
+import {
+  BoardSpec,
+  DEFAULT_BOARD_SPEC,
+  createEmptyGrid,
+  getTotalRows,
+  isGridMatchingSpec,
+  validateBoardSpec,
+} from "./boardSpec";
+import { lockPiece, LockResult } from "./lockAndClear";
+import { RotationState } from "./rotation";
+import {
+  RotationSystem,
+  RotationSystemType,
+  RotationDirection,
+  createRotationSystem,
+} from "./rotationSystem";
+import { isTstKick } from "./spinDetection";
+import { NextHoldManager, NextHoldConfig, NextHoldState } from "./nextAndHold";
+import {
+  LockDelay,
+  LockDelayConfig,
+  LockDelayState,
+  getDefaultLockDelayConfig,
+} from "./lockDelay";
+import {
+  ScoreManager,
+  ScoreConfig,
+  ScoreAward,
+  ScoreState,
+  getDefaultScoreConfig,
+} from "./scoreAndLevel";
+
+/**
+ * テトリスの操作アクションを表す列挙型
+ */
+export enum TetrisAction {
+  MoveLeft = "MOVE_LEFT",
+  MoveRight = "MOVE_RIGHT",
+  RotateClockwise = "ROTATE_CW",
+  RotateCounterClockwise = "ROTATE_CCW",
+  Rotate180 = "ROTATE_180",
+  SoftDrop = "SOFT_DROP",
+  HardDrop = "HARD_DROP",
+  Hold = "HOLD",
+  Pause = "PAUSE",
+}
+
+/**
+ * 操作中のピースを表すインターフェース
+ */
+export interface ActivePiece {
+  /** テトロミノの種類 */
+  type: TetrominoType;
+  /** 現在の形状 */
+  shape: BlockShape;
+  /** グリッド上のX座標オフセット（左端からの列数） */
+  x: number;
+  /** グリッド上のY座標オフセット（上端からの行数） */
+  y: number;
+  /** 回転状態（0/R/2/L） */
+  rotation: RotationState;
+}
+
+/**
+ * トップアウト（ゲームオーバー）の条件
+ * blockOut: 出現位置が既存のブロックと重なった
+ * lockOut: ピースが全て可視領域より上（バッファ内）で固定された
+ * partialLockOut: ピースの一部が可視領域より上で固定された（設定で有効な場合のみ）
+ * topOut: せり上がったガベージにブロックがバッファの上端より上に押し出された
+ */
+export type TopOutReason = "blockOut" | "lockOut" | "partialLockOut" | "topOut";
+
+/**
+ * ゲーム終了の条件
+ * トップアウトに加え、ゲームモードの目標達成（goalReached）や時間切れ（timeUp）、
+ * 使えるピースの使い切り（outOfPieces）で終了する場合がある
+ */
+export type GameEndReason =
+  TopOutReason | "goalReached" | "timeUp" | "outOfPieces";
+
+/**
+ * ゲームオーバー（ゲーム終了）イベントのペイロード
+ */
+export interface GameOverInfo {
+  /** ゲームを終了させた条件 */
+  reason: GameEndReason;
+}
+
+/**
+ * ゲームエンジンの設定インターフェース
+ */
+export interface GameEngineConfig {
+  /** ネクストピースとホールド機能の設定 */
+  nextHold: NextHoldConfig;
+  /** スコアとレベル管理の設定 */
+  score: ScoreConfig;
+  /** 回転システムの種類 */
+  rotationSystem: RotationSystemType;
+  /** T型以外のスピン（オールスピン）を判定するかどうか */
+  allSpin: boolean;
+  /** 接地してから固定されるまでの猶予の設定 */
+  lockDelay: LockDelayConfig;
+  /** 盤面の寸法（幅・可視領域の高さ・バッファ行数） */
+  board: BoardSpec;
+  /** ピースの一部でも可視領域より上で固定されたらゲームオーバーにするかどうか */
+  partialLockOut: boolean;
+  /** 自然落下を行うかどうか（falseでもソフトドロップの速度は落下間隔を基準にする） */
+  gravity: boolean;
+  /**
+   * トップアウトした時に最下段から消去する行数
+   * 0ならゲームオーバー、1以上なら行を消去してゲームを続行する
+   */
+  topOutClearRows: number;
+  /** 開始時の盤面（バッファ行を含む、nullなら空の盤面） */
+  initialGrid: Grid | null;
+  /** 次のピースが出現するまでの待ち時間の設定 */
+  entryDelay: EntryDelayConfig;
+}
+
+/**
+ * ピースの固定から次のピースが出現するまでの待ち時間の設定
+ */
+export interface EntryDelayConfig {
+  /** 出現待ち（ARE、ミリ秒、0なら固定した直後に出現） */
+  are: number;
+  /** ライン消去した場合に追加される待ち時間（ミリ秒） */
+  lineClearDelay: number;
+}
+
+/**
+ * 外部から参照するためのゲーム状態（コピー）
+ */
+export interface GameEngineState {
+  /** 盤面グリッド（先頭の board.bufferRows 行は見えないバッファ） */
+  grid: Grid;
+  /** 盤面の寸法 */
+  board: BoardSpec;
+  /** 操作中のピース（存在しない場合はnull） */
+  activePiece: ActivePiece | null;
+  /** ネクストキュー */
+  nextQueue: TetrominoType[];
+  /** ホールド中のピース */
+  heldPiece: TetrominoType | null;
+  /** 現在ホールド可能かどうか */
+  canHold: boolean;
+  /** スコア */
+  score: number;
+  /** レベル */
+  level: number;
+  /** 累計消去ライン数 */
+  lines: number;
+  /** プレイ中かどうか */
+  isPlaying: boolean;
+  /** 一時停止中かどうか */
+  isPaused: boolean;
+  /** ゲームオーバーかどうか */
+  isGameOver: boolean;
+  /** ゲーム終了の条件（終了していない場合はnull） */
+  endReason: GameEndReason | null;
+  /** 開始からの経過フレーム数 */
+  frame: number;
+  /** ピース生成に使用している乱数シード */
+  seed: number;
+}
+
+/**
+ * 中断したゲームを再開するためのエンジンの内部状態（JSONにできる値のみ）
+ * 乱数やタイマーの端数まで含めるため、再開後も中断しなかった場合と同じ展開になる
+ */
+export interface GameEngineSaveState {
+  /** 盤面グリッド（バッファ行を含む） */
+  grid: Grid;
+  /** 操作中のピース（出現待ちの場合はnull） */
+  activePiece: ActivePiece | null;
+  /** ネクストとホールド（ピース生成器の状態を含む） */
+  nextHold: NextHoldState;
+  /** スコアとレベル */
+  score: ScoreState;
+  /** 固定猶予 */
+  lockDelay: LockDelayState;
+  /** 出現待ちの設定（ゲームモードが変更している場合がある） */
+  entryDelay: EntryDelayConfig;
+  /** ゲームモードが指定した落下速度（G、nullならレベルに応じた速度） */
+  gravityOverride: number | null;
+  /** 固定フレームに満たない端数時間 */
+  frameAccumulator: number;
+  /** 自然落下の進み具合 */
+  gravityProgress: number;
+  /** 次のピースが出現するまでの残り時間（待ち時間中でなければnull） */
+  spawnDelayRemaining: number | null;
+  /** 開始からの経過フレーム数 */
+  frame: number;
+  /** 最後に成功した操作が回転だったかどうか */
+  lastMoveWasRotation: boolean;
+  /** 最後の回転がTSTキック・フィンキックだったかどうか */
+  lastTstKick: boolean;
+}
+
+/**
+ * スコア情報のペイロード
+ */
+export interface ScoreSnapshot {
+  score: number;
+  level: number;
+  lines: number;
+}
+
+/**
+ * ピースを固定した時のペイロード
+ */
+export interface PieceLockInfo extends LockResult {
+  /** 固定したピース（最終位置と向き） */
+  piece: ActivePiece;
+}
+
+/**
+ * トップアウトから続行した時のペイロード
+ */
+export interface TopOutClearInfo {
+  /** 発生したトップアウトの条件 */
+  reason: TopOutReason;
+  /** 最下段から消去した行数 */
+  rows: number;
+}
+
+/**
+ * エンジンが発行するイベントとペイロードの対応表
+ */
+export interface GameEngineEventMap {
+  /** 新しいピースが出現した */
+  spawn: ActivePiece;
+  /** ピースが固定された */
+  lock: PieceLockInfo;
+  /** ホールドが実行された（ホールド中のピースを通知） */
+  hold: TetrominoType | null;
+  /** スコア・レベル・ライン数が更新された */
+  score: ScoreSnapshot;
+  /** 得点が加算された（内訳を含む） */
+  award: ScoreAward;
+  /** ゲームオーバーになった（終了条件を通知） */
+  gameOver: GameOverInfo;
+  /** トップアウトの代わりに最下段の行を消去して続行した */
+  topOutCleared: TopOutClearInfo;
+  /** 固定フレームが1つ進んだ（開始からの経過フレーム数を通知） */
+  frame: number;
+}
+
+/**
+ * イベントリスナーの型
+ */
+type EngineListener<K extends keyof GameEngineEventMap> = (
+  payload: GameEngineEventMap[K]
+) => void;
+
+/**
+ * 1秒あたりのフレーム数
+ * エンジンは固定フレームで進行するため、同じ入力列からは常に同じ結果になる
+ */
+export const FRAMES_PER_SECOND = 60;
+
+/**
+ * 1フレームの長さ（ミリ秒）
+ */
+export const FRAME_MS = 1000 / FRAMES_PER_SECOND;
+
+/**
+ * 落下速度・待ち時間の積算で生じる浮動小数点誤差の許容値
+ */
+const GRAVITY_EPSILON = 1e-6;
+
+/**
+ * Phaserに依存しないテトリスのルールエンジン
+ * 入力は applyAction、時間経過は tick で与え、状態は getState で読み出す
+ */
+export class GameEngine {
+  private grid: Grid = [];
+  private activePiece: ActivePiece | null = null;
+  private nextHold: NextHoldManager;
+  private scoreManager: ScoreManager;
+  private rotationSystem: RotationSystem;
+  private lockDelay: LockDelay;
+
+  private isPlaying: boolean = false;
+  private isPaused: boolean = false;
+  private isGameOver: boolean = false;
+  private endReason: GameEndReason | null = null;
+
+  /** 固定フレームに満たない端数時間（ミリ秒×FRAMES_PER_SECOND） */
+  private frameAccumulator: number = 0;
+  /** 自然落下の進み具合（行、1以上になった分だけ落下する） */
+  private gravityProgress: number = 0;
+  /** ゲームモードが指定した落下速度（G、nullならレベルに応じた速度） */
+  private gravityOverride: number | null = null;
+  /** 現在の出現待ちの設定 */
+  private entryDelay: EntryDelayConfig;
+  /** 次のピースが出現するまでの残り時間（ミリ秒、待ち時間中でなければnull） */
+  private spawnDelayRemaining: number | null = null;
+  /** 開始からの経過フレーム数 */
+  private frame: number = 0;
+
+  /** 最後に成功した操作が回転だったかどうか（スピン判定用） */
+  private lastMoveWasRotation: boolean = false;
+  /** 最後の回転がTSTキック・フィンキックだったかどうか（スピン判定用） */
+  private lastTstKick: boolean = false;
+
+  private listeners: Map<
+    keyof GameEngineEventMap,
+    Set<EngineListener<keyof GameEngineEventMap>>
+  > = new Map();
+
+  /**
+   * GameEngineのコンストラクタ
+   * @param config - エンジンの設定
+   */
+  constructor(private config: GameEngineConfig) {
+    validateBoardSpec(config.board);
+    if (
+      config.initialGrid &&
+      !isGridMatchingSpec(config.initialGrid, config.board)
+    ) {
+      throw new Error("Initial grid does not match the board size");
+    }
+    this.nextHold = new NextHoldManager(config.nextHold);
+    this.scoreManager = new ScoreManager(config.score);
+    this.rotationSystem = createRotationSystem(config.rotationSystem);
+    this.lockDelay = new LockDelay(config.lockDelay);
+    this.entryDelay = { ...config.entryDelay };
+    this.grid = this.createEmptyGrid();
+  }
+
+  /**
+   * ===================================
+   * ライフサイクル
+   * ===================================
+   */
+
+  /**
+   * 盤面とスコアを初期化してゲームを開始する
+   */
+  public start(): void {
+    this.reset();
+    this.isPlaying = true;
+    this.emitScore();
+    this.spawnNextPiece();
+  }
+
+  /**
+   * ゲームを開始前の状態に戻す
+   */
+  public reset(): void {
+    this.grid = this.config.initialGrid
+      ? this.config.initialGrid.map((row) => [...row])
+      : this.createEmptyGrid();
+    this.activePiece = null;
+    this.nextHold.reset();
+    this.scoreManager = new ScoreManager(this.config.score);
+    this.lockDelay = new LockDelay(this.config.lockDelay);
+    this.entryDelay = { ...this.config.entryDelay };
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.isGameOver = false;
+    this.endReason = null;
+    this.frameAccumulator = 0;
+    this.gravityProgress = 0;
+    this.gravityOverride = null;
+    this.spawnDelayRemaining = null;
+    this.frame = 0;
+  }
+
+  /**
+   * 一時停止状態を設定する
+   * @param paused - 一時停止する場合true
+   */
+  public setPaused(paused: boolean): void {
+    if (!this.isPlaying) {
+      return;
+    }
+    this.isPaused = paused;
+  }
+
+  /**
+   * プレイ中のゲームを外部から終了させる（ゲームモードの目標達成など）
+   * @param reason - ゲーム終了の条件
+   */
+  public end(reason: GameEndReason): void {
+    if (!this.isPlaying) {
+      return;
+    }
+    this.activePiece = null;
+    this.endGame(reason);
+  }
+
+  /**
+   * 中断のために内部状態を取得する
+   * @returns 内部状態（プレイ中でない場合はnull）
+   */
+  public getSaveState(): GameEngineSaveState | null {
+    if (!this.isPlaying) {
+      return null;
+    }
+    const { grid, activePiece } = this.getState();
+    return {
+      grid,
+      activePiece,
+      nextHold: this.nextHold.getState(),
+      score: this.scoreManager.getState(),
+      lockDelay: this.lockDelay.getState(),
+      entryDelay: { ...this.entryDelay },
+      gravityOverride: this.gravityOverride,
+      frameAccumulator: this.frameAccumulator,
+      gravityProgress: this.gravityProgress,
+      spawnDelayRemaining: this.spawnDelayRemaining,
+      frame: this.frame,
+      lastMoveWasRotation: this.lastMoveWasRotation,
+      lastTstKick: this.lastTstKick,
+    };
+  }
+
+  /**
+   * getSaveStateで取得した内部状態から、中断したゲームをプレイ中の状態で再開する
+   * startの代わりに呼び出す（イベントは発行しないため、表示は呼び出し側で更新する）
+   * @param state - 内部状態
+   * @throws 盤面の寸法が設定と異なる場合、操作中のピースが盤面と重なる場合
+   */
+  public restoreSaveState(state: GameEngineSaveState): void {
+    if (!isGridMatchingSpec(state.grid, this.config.board)) {
+      throw new Error("Saved grid does not match the board size");
+    }
+    this.reset();
+    this.grid = state.grid.map((row) => [...row]);
+    if (state.activePiece && !this.isPieceValid(state.activePiece)) {
+      throw new Error("Saved active piece overlaps the board");
+    }
+    this.activePiece = state.activePiece
+      ? {
+          ...state.activePiece,
+          shape: state.activePiece.shape.map((row) => [...row]),
+        }
+      : null;
+    this.nextHold.setState(state.nextHold);
+    this.scoreManager.setState(state.score);
+    this.lockDelay.setState(state.lockDelay);
+    this.entryDelay = { ...state.entryDelay };
+    this.gravityOverride = state.gravityOverride;
+    this.frameAccumulator = state.frameAccumulator;
+    this.gravityProgress = state.gravityProgress;
+    this.spawnDelayRemaining = state.spawnDelayRemaining;
+    this.frame = state.frame;
+    this.lastMoveWasRotation = state.lastMoveWasRotation;
+    this.lastTstKick = state.lastTstKick;
+    this.isPlaying = true;
+  }
+
+  /**
+   * 盤面の下からガベージの行を追加し、既存のブロックを押し上げる
+   * 操作中のピースがブロックと重なる場合は、重ならない位置まで押し上げる
+   * @param rows - 追加する行（上から順、各行の列数は盤面の幅と同じ）
+   */
+  public addGarbageRows(rows: number[][]): void {
+    if (!this.isPlaying || rows.length === 0) {
+      return;
+    }
+
+    // 上端からはみ出す行にブロックがあればトップアウト
+    const overflow = pushRowsUp(this.grid, rows);
+
+    const piece = this.activePiece;
+    if (piece) {
+      for (let i = 0; i < rows.length && !this.isPieceValid(piece); i++) {
+        piece.y--;
+      }
+      if (!this.isPieceValid(piece)) {
+        this.activePiece = null;
+        if (this.recoverFromTopOut("topOut")) {
+          this.spawnNextPiece();
+        }
+        return;
+      }
+    }
+
+    if (overflow && !this.recoverFromTopOut("topOut")) {
+      this.activePiece = null;
+    }
+  }
+
+  /**
+   * ===================================
+   * 入力と時間経過
+   * ===================================
+   */
+
+  /**
+   * 操作アクションを適用する
+   * @param action - 適用するアクション
+   * @returns 状態が変化した場合true
+   */
+  public applyAction(action: TetrisAction): boolean {
+    if (action === TetrisAction.Pause) {
+      this.setPaused(!this.isPaused);
+      return this.isPlaying;
+    }
+
+    if (!this.canAcceptInput()) {
+      return false;
+    }
+
+    switch (action) {
+      case TetrisAction.MoveLeft:
+        return this.tryMove(-1, 0);
+      case TetrisAction.MoveRight:
+        return this.tryMove(1, 0);
+      case TetrisAction.SoftDrop:
+        return this.softDrop();
+      case TetrisAction.HardDrop:
+        this.hardDrop();
+        return true;
+      case TetrisAction.RotateClockwise:
+        return this.tryRotate("clockwise");
+      case TetrisAction.RotateCounterClockwise:
+        return this.tryRotate("counterClockwise");
+      case TetrisAction.Rotate180:
+        return this.tryRotate("180");
+      case TetrisAction.Hold:
+        return this.hold();
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 時間を進める
+   * 経過時間は固定フレーム単位で処理され、端数は次回に持ち越される
+   * @param ms - 経過時間（ミリ秒）
+   */
+  public tick(ms: number): void {
+    if (!this.isPlaying || this.isPaused) {
+      return;
+    }
+
+    // 浮動小数点の誤差を避けるため、1000 = 1フレームの単位で積算する
+    this.frameAccumulator += ms * FRAMES_PER_SECOND;
+    while (this.frameAccumulator >= 1000 && this.isPlaying) {
+      this.frameAccumulator -= 1000;
+      this.stepFrame();
+    }
+  }
+
+  /**
+   * 固定フレームを1つだけ進める（リプレイのコマ送りなど、時間と関係なく進める場合に使う）
+   */
+  public advanceFrame(): void {
+    if (!this.isPlaying || this.isPaused) {
+      return;
+    }
+    this.stepFrame();
+  }
+
+  /**
+   * 1フレーム分の処理を行う
+   * ゲームモードのタイマーはframeイベントで進むため、モードがゲームを終了させた場合はそこで止める
+   */
+  private stepFrame(): void {
+    this.frame++;
+    this.emit("frame", this.frame);
+    if (!this.isPlaying) {
+      return;
+    }
+
+    if (!this.activePiece) {
+      this.updateEntryDelay();
+      return;
+    }
+
+    if (this.config.gravity) {
+      this.applyGravity();
+    }
+
+    // 接地中は固定猶予を進め、使い切ったら固定する
+    if (this.lockDelay.update(FRAME_MS, this.isGrounded())) {
+      this.lockActivePiece();
+    }
+  }
+
+  /**
+   * 自然落下を1フレーム分進める
+   * 落下速度（G）を積算し、1行分たまるごとにピースを落下させる
+   * 20Gのように1フレームで複数行たまった場合は、その行数だけ一度に落下する
+   */
+  private applyGravity(): void {
+    this.gravityProgress += this.getGravity();
+    const rows = Math.min(
+      Math.floor(this.gravityProgress + GRAVITY_EPSILON),
+      getTotalRows(this.config.board)
+    );
+    if (rows <= 0) {
+      return;
+    }
+
+    let moved = 0;
+    while (moved < rows && this.tryMove(0, 1)) {
+      moved++;
+    }
+    // 接地した場合は端数を捨てる（次のピースで一気に落下しないように）
+    this.gravityProgress = moved < rows ? 0 : this.gravityProgress - rows;
+  }
+
+  /**
+   * 出現待ちの時間を進め、待ち時間が終わったら次のピースを出現させる
+   */
+  private updateEntryDelay(): void {
+    if (this.spawnDelayRemaining === null) {
+      return;
+    }
+
+    this.spawnDelayRemaining -= FRAME_MS;
+    if (this.spawnDelayRemaining <= GRAVITY_EPSILON) {
+      this.spawnDelayRemaining = null;
+      this.spawnNextPiece();
+    }
+  }
+
+  /**
+   * ===================================
+   * 状態の参照とイベント
+   * ===================================
+   */
+
+  /**
+   * 現在のゲーム状態のコピーを取得する
+   * @returns ゲーム状態
+   */
+  public getState(): GameEngineState {
+    return {
+      grid: this.grid.map((row) => [...row]),
+      board: { ...this.config.board },
+      activePiece: this.activePiece
+        ? {
+            ...this.activePiece,
+            shape: this.activePiece.shape.map((row) => [...row]),
+          }
+        : null,
+      nextQueue: [...this.nextHold.getNextQueue()],
+      heldPiece: this.nextHold.getHeldPiece(),
+      canHold: this.nextHold.canHold(),
+      score: this.scoreManager.score,
+      level: this.scoreManager.level,
+      lines: this.scoreManager.totalLinesCleared,
+      isPlaying: this.isPlaying,
+      isPaused: this.isPaused,
+      isGameOver: this.isGameOver,
+      endReason: this.endReason,
+      frame: this.frame,
+      seed: this.nextHold.getSeed(),
+    };
+  }
+
+  /**
+   * 現在のレベルでの自然落下の間隔を取得する
+   * @returns 落下間隔（ミリ秒）
+   */
+  public getDropInterval(): number {
+    if (this.gravityOverride !== null) {
+      return this.gravityOverride > 0
+        ? FRAME_MS / this.gravityOverride
+        : Infinity;
+    }
+    return this.scoreManager.getDropInterval();
+  }
+
+  /**
+   * 現在の落下速度を取得する
+   * @returns 1フレームあたりの落下行数（G、20Gなら出現した瞬間に床まで落下する）
+   */
+  public getGravity(): number {
+    if (this.gravityOverride !== null) {
+      return this.gravityOverride;
+    }
+    const interval = this.scoreManager.getDropInterval();
+    return interval > 0 ? FRAME_MS / interval : Infinity;
+  }
+
+  /**
+   * ゲームモード独自の速度表で落下速度を指定する
+   * @param gravity - 1フレームあたりの落下行数（G、nullならレベルに応じた速度に戻す）
+   */
+  public setGravity(gravity: number | null): void {
+    this.gravityOverride = gravity;
+  }
+
+  /**
+   * 出現待ちの設定を変更する（次の固定から適用される）
+   * @param entryDelay - 出現待ちの設定
+   */
+  public setEntryDelay(entryDelay: EntryDelayConfig): void {
+    this.entryDelay = { ...entryDelay };
+  }
+
+  /**
+   * 固定猶予の長さを変更する
+   * @param delay - 固定猶予（ミリ秒）
+   */
+  public setLockDelay(delay: number): void {
+    this.lockDelay.setDelay(delay);
+  }
+
+  /**
+   * 次のレベルまでに必要な残りのゴール行数を取得する
+   * @returns 残りのゴール行数
+   */
+  public getLinesToNextLevel(): number {
+    return this.scoreManager.getLinesToNextLevel();
+  }
+
+  /**
+   * イベントリスナーを登録する
+   * @param event - イベント名
+   * @param listener - リスナー関数
+   */
+  public on<K extends keyof GameEngineEventMap>(
+    event: K,
+    listener: EngineListener<K>
+  ): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as EngineListener<keyof GameEngineEventMap>);
+  }
+
+  /**
+   * イベントリスナーを削除する
+   * @param event - イベント名
+   * @param listener - 削除するリスナー関数
+   */
+  public off<K extends keyof GameEngineEventMap>(
+    event: K,
+    listener: EngineListener<K>
+  ): void {
+    this.listeners
+      .get(event)
+      ?.delete(listener as EngineListener<keyof GameEngineEventMap>);
+  }
+
+  /**
+   * イベントを発行する
+   * @param event - イベント名
+   * @param payload - ペイロード
+   */
+  private emit<K extends keyof GameEngineEventMap>(
+    event: K,
+    payload: GameEngineEventMap[K]
+  ): void {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  /**
+   * ===================================
+   * ピース操作
+   * ===================================
+   */
+
+  /**
+   * 入力を受け付けられる状態かどうか
+   */
+  private canAcceptInput(): boolean {
+    return this.isPlaying && !this.isPaused && this.activePiece !== null;
+  }
+
+  /**
+   * ピースを移動する
+   * @param dx - X方向の移動量
+   * @param dy - Y方向の移動量
+   * @returns 移動できた場合true
+   */
+  private tryMove(dx: number, dy: number): boolean {
+    const piece = this.activePiece;
+    if (!piece) return false;
+
+    if (
+      !isPositionValid(
+        this.grid,
+        piece.shape,
+        piece.x + dx,
+        piece.y + dy,
+        this.config.board
+      )
+    ) {
+      return false;
+    }
+
+    const wasGrounded = this.isGrounded();
+    piece.x += dx;
+    piece.y += dy;
+    this.lastMoveWasRotation = false;
+
+    if (dy > 0) {
+      this.lockDelay.onStepDown(piece.y);
+    } else {
+      this.lockDelay.onMove(piece.y, wasGrounded);
+    }
+    return true;
+  }
+
+  /**
+   * ピースが現在の位置に置ける（壁・床・ブロックと重ならない）かどうか
+   * @param piece - 判定するピース
+   * @returns 置ける場合true
+   */
+  private isPieceValid(piece: ActivePiece): boolean {
+    return isPositionValid(
+      this.grid,
+      piece.shape,
+      piece.x,
+      piece.y,
+      this.config.board
+    );
+  }
+
+  /**
+   * ピースが接地している（これ以上下に移動できない）かどうか
+   * @returns 接地している場合true
+   */
+  private isGrounded(): boolean {
+    const piece = this.activePiece;
+    if (!piece) return false;
+
+    return !isPositionValid(
+      this.grid,
+      piece.shape,
+      piece.x,
+      piece.y + 1,
+      this.config.board
+    );
+  }
+
+  /**
+   * ピースを最下部まで落下させて固定する
+   */
+  private hardDrop(): void {
+    let cells = 0;
+    while (this.tryMove(0, 1)) {
+      // 衝突するまで落下
+      cells++;
+    }
+    this.applyAward(this.scoreManager.awardDrop("hard", cells));
+    this.lockActivePiece();
+  }
+
+  /**
+   * ピースを1行下げ、ソフトドロップの得点を加算する
+   * 接地していても即座には固定せず、固定猶予に任せる
+   * @returns 移動できた場合true
+   */
+  private softDrop(): boolean {
+    if (!this.tryMove(0, 1)) {
+      return false;
+    }
+
+    this.applyAward(this.scoreManager.awardDrop("soft", 1));
+    return true;
+  }
+
+  /**
+   * ピースを設定された回転システムに従って回転する（必要に応じてキックを試行）
+   * @param direction - 回転方向
+   * @returns 回転できた場合true
+   */
+  private tryRotate(direction: RotationDirection): boolean {
+    const piece = this.activePiece;
+    if (!piece) return false;
+
+    const result = this.rotationSystem.rotate(this.grid, piece, direction);
+
+    if (!result.valid) {
+      return false;
+    }
+
+    const wasGrounded = this.isGrounded();
+    piece.shape = result.rotated;
+    piece.x = result.x;
+    piece.y = result.y;
+    piece.rotation = result.newRotation;
+    this.lastMoveWasRotation = true;
+    this.lastTstKick = isTstKick(result.kickIndex, direction);
+    this.lockDelay.onMove(piece.y, wasGrounded);
+    return true;
+  }
+
+  /**
+   * 現在のピースをホールドする
+   * @returns ホールドできた場合true
+   */
+  private hold(): boolean {
+    const piece = this.activePiece;
+    if (!piece || !this.nextHold.canHold()) {
+      return false;
+    }
+
+    const nextType = this.nextHold.holdPiece(piece.type);
+    this.emit("hold", this.nextHold.getHeldPiece());
+    this.spawnPiece(nextType);
+    return true;
+  }
+
+  /**
+   * ===================================
+   * 固定・出現・終了
+   * ===================================
+   */
+
+  /**
+   * 現在のピースをグリッドに固定し、ライン消去とスコア計算を行う
+   */
+  private lockActivePiece(): void {
+    const piece = this.activePiece;
+    if (!piece) return;
+
+    const result = lockPiece(
+      this.grid,
+      piece.shape,
+      piece.x,
+      piece.y,
+      {
+        pieceType: piece.type,
+        lastMoveWasRotation: this.lastMoveWasRotation,
+        tstKick: this.lastTstKick,
+        allSpin: this.config.allSpin,
+      },
+      this.config.board
+    );
+    this.activePiece = null;
+
+    const topOut = this.checkLockOut(piece, result.clearedRows);
+
+    this.applyAward(
+      this.scoreManager.awardLock(
+        result.linesCleared,
+        result.spin,
+        result.linesCleared > 0 && isGridEmpty(this.grid)
+      )
+    );
+
+    this.emit("lock", {
+      ...result,
+      piece: { ...piece, shape: piece.shape.map((row) => [...row]) },
+    });
+
+    // lockイベントのリスナー（ゲームモード）がゲームを終了させた場合
+    if (!this.isPlaying) {
+      return;
+    }
+
+    if (topOut && !this.recoverFromTopOut(topOut)) {
+      return;
+    }
+
+    const delay =
+      this.entryDelay.are +
+      (result.linesCleared > 0 ? this.entryDelay.lineClearDelay : 0);
+    if (delay > 0) {
+      this.spawnDelayRemaining = delay;
+    } else {
+      this.spawnNextPiece();
+    }
+  }
+
+  /**
+   * 固定したピースがロックアウトの条件を満たすか判定する
+   * ライン消去で下に移動したブロックは、移動後の位置で判定する
+   * @param piece - 固定したピース
+   * @param clearedRows - 消去された行のインデックス
+   * @returns 満たした条件（満たさない場合はnull）
+   */
+  private checkLockOut(
+    piece: ActivePiece,
+    clearedRows: number[]
+  ): TopOutReason | null {
+    const { bufferRows } = this.config.board;
+    let cellCount = 0;
+    let hiddenCount = 0;
+
+    piece.shape.forEach((row, rowIndex) => {
+      row.forEach((cell) => {
+        const gridY = piece.y + rowIndex;
+        if (cell === 0 || clearedRows.includes(gridY)) {
+          return;
+        }
+
+        // 下で消去された行の数だけ下に移動する
+        const shift = clearedRows.filter((cleared) => cleared > gridY).length;
+        cellCount++;
+        if (gridY + shift < bufferRows) {
+          hiddenCount++;
+        }
+      });
+    });
+
+    if (hiddenCount === 0) {
+      return null;
+    }
+    if (hiddenCount === cellCount) {
+      return "lockOut";
+    }
+    return this.config.partialLockOut ? "partialLockOut" : null;
+  }
+
+  /**
+   * ネクストキューの先頭から新しいピースを出現させる
+   */
+  private spawnNextPiece(): void {
+    this.spawnPiece(this.nextHold.getNextPiece());
+  }
+
+  /**
+   * 指定した種類のピースを出現させる
+   * ピースは可視領域のすぐ上の2行に出現し、下が空いていれば即座に1行落下する
+   * 出現位置が埋まっている場合はブロックアウトでゲームオーバー
+   * @param type - 出現させるテトロミノの種類
+   */
+  private spawnPiece(type: TetrominoType): void {
+    const shape = this.rotationSystem.getShape(type, 0);
+    const piece: ActivePiece = {
+      type,
+      shape,
+      x: Math.floor(this.config.board.width / 2) - 2,
+      // 形状の2行目・3行目がバッファの最下部2行に来る位置
+      y: Math.max(0, this.config.board.bufferRows - 3),
+      rotation: 0,
+    };
+
+    this.gravityProgress = 0;
+    this.lastMoveWasRotation = false;
+    this.lastTstKick = false;
+    this.lockDelay.reset(piece.y);
+
+    while (
+      !isPositionValid(
+        this.grid,
+        piece.shape,
+        piece.x,
+        piece.y,
+        this.config.board
+      )
+    ) {
+      if (!this.recoverFromTopOut("blockOut")) {
+        this.activePiece = null;
+        return;
+      }
+    }
+
+    if (
+      isPositionValid(
+        this.grid,
+        piece.shape,
+        piece.x,
+        piece.y + 1,
+        this.config.board
+      )
+    ) {
+      piece.y++;
+      this.lockDelay.reset(piece.y);
+    }
+
+    this.activePiece = piece;
+    this.emit("spawn", { ...piece, shape: shape.map((row) => [...row]) });
+  }
+
+  /**
+   * トップアウトした時の処理
+   * topOutClearRows が設定されていれば最下段から行を消去して続行し、そうでなければゲームオーバーにする
+   * @param reason - トップアウトの条件
+   * @returns 続行できる場合true
+   */
+  private recoverFromTopOut(reason: TopOutReason): boolean {
+    const rows = Math.min(
+      this.config.topOutClearRows,
+      this.config.board.height
+    );
+    // 盤面が既に空の場合は行を消去しても解消しない
+    if (rows <= 0 || isGridEmpty(this.grid)) {
+      this.endGame(reason);
+      return false;
+    }
+
+    this.grid.splice(this.grid.length - rows, rows);
+    for (let i = 0; i < rows; i++) {
+      this.grid.unshift(Array(this.config.board.width).fill(0));
+    }
+    this.emit("topOutCleared", { reason, rows });
+    return true;
+  }
+
+  /**
+   * ゲームを終了する
+   * @param reason - ゲーム終了の条件
+   */
+  private endGame(reason: GameEndReason): void {
+    this.isPlaying = false;
+    this.isGameOver = true;
+    this.endReason = reason;
+    this.emit("gameOver", { reason });
+  }
+
+  /**
+   * 得点の加算結果を通知する
+   * 加算がなく、ライン消去やスピンもない場合は通知しない
+   * @param award - 得点の内訳
+   */
+  private applyAward(award: ScoreAward): void {
+    if (
+      award.items.length === 0 &&
+      award.linesCleared === 0 &&
+      award.spin === "none"
+    ) {
+      return;
+    }
+
+    this.emit("award", award);
+    this.emitScore();
+  }
+
+  /**
+   * スコア更新イベントを発行する
+   */
+  private emitScore(): void {
+    this.emit("score", {
+      score: this.scoreManager.score,
+      level: this.scoreManager.level,
+      lines: this.scoreManager.totalLinesCleared,
+    });
+  }
+
+  /**
+   * 空のグリッドを作成する（可視領域の上にバッファ行を含む）
+   * @returns 空のグリッド
+   */
+  private createEmptyGrid(): Grid {
+    return createEmptyGrid(this.config.board);
+  }
+}
+
+/**
+ * デフォルトのエンジン設定を取得する
+ * @returns デフォルトのエンジン設定
+ */
+export function getDefaultEngineConfig(): GameEngineConfig {
+  return {
+    nextHold: {
+      nextQueueSize: 3,
+      enableHold: true,
+      randomizer: "sevenBag",
+    },
+    score: getDefaultScoreConfig(),
+    rotationSystem: "srs",
+    allSpin: false,
+    lockDelay: getDefaultLockDelayConfig(),
+    board: { ...DEFAULT_BOARD_SPEC },
+    partialLockOut: false,
+    gravity: true,
+    topOutClearRows: 0,
+    initialGrid: null,
+    entryDelay: { are: 0, lineClearDelay: 0 },
+  };
+}
@@ -0,0 +1,432 @@
+import { getBoardSpecFromGrid } from "./boardSpec";
+import { getMinimumInputs, FINESSE_ACTIONS } from "./finesse";
+import {
+  ActivePiece,
+  FRAME_MS,
+  GameEngine,
+  PieceLockInfo,
+  TetrisAction,
+} from "./gameEngine";
+import { ROTATION_STATE_NAMES } from "./rotation";
+import { RotationSystemType } from "./rotationSystem";
+import { ScoreAward } from "./scoreAndLevel";
+import { SpinKind } from "./spinDetection";
+import { getTetrominoName } from "./tetromino";
+
+/**
+ * ライン消去の種類
+ * スピンの種類（なし・スピン・ミニ）と消去行数の組み合わせ
+ */
+export type ClearType =
+  | "none"
+  | "single"
+  | "double"
+  | "triple"
+  | "tetris"
+  | "spin"
+  | "spinSingle"
+  | "spinDouble"
+  | "spinTriple"
+  | "spinTetris"
+  | "miniSpin"
+  | "miniSpinSingle"
+  | "miniSpinDouble"
+  | "miniSpinTriple"
+  | "miniSpinTetris";
+
+/**
+ * ライン消去の種類の一覧（ヒストグラムとCSVの並び順）
+ */
+export const CLEAR_TYPES: ReadonlyArray<ClearType> = [
+  "none",
+  "single",
+  "double",
+  "triple",
+  "tetris",
+  "spin",
+  "spinSingle",
+  "spinDouble",
+  "spinTriple",
+  "spinTetris",
+  "miniSpin",
+  "miniSpinSingle",
+  "miniSpinDouble",
+  "miniSpinTriple",
+  "miniSpinTetris",
+];
+
+/**
+ * ライン消去の種類ごとの攻撃力（ガイドラインの送るライン数）
+ */
+const CLEAR_ATTACK: Readonly<Record<ClearType, number>> = {
+  none: 0,
+  single: 0,
+  double: 1,
+  triple: 2,
+  tetris: 4,
+  spin: 0,
+  spinSingle: 2,
+  spinDouble: 4,
+  spinTriple: 6,
+  spinTetris: 8,
+  miniSpin: 0,
+  miniSpinSingle: 0,
+  miniSpinDouble: 1,
+  miniSpinTriple: 2,
+  miniSpinTetris: 4,
+};
+
+/**
+ * コンボ数ごとの追加の攻撃力（表より大きいコンボは最後の値）
+ */
+const COMBO_ATTACK: ReadonlyArray<number> = [0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5];
+
+/**
+ * バックトゥバックの追加の攻撃力
+ */
+const BACK_TO_BACK_ATTACK = 1;
+
+/**
+ * パーフェクトクリアの追加の攻撃力
+ */
+const PERFECT_CLEAR_ATTACK = 10;
+
+/**
+ * 消去行数ごとの名前（ClearType の後半）
+ */
+const LINE_CLEAR_NAMES = ["", "Single", "Double", "Triple", "Tetris"];
+
+/**
+ * 固定した1つのピースの記録
+ */
+export interface PieceRecord {
+  /** 何個目のピースか（1から） */
+  piece: number;
+  /** テトロミノの種類（"T" など） */
+  type: string;
+  /** 固定した位置のX座標（形状の左端の列） */
+  x: number;
+  /** 固定した位置のY座標（形状の上端の行、バッファ行を含む） */
+  y: number;
+  /** 固定した時の向き（0/R/2/L） */
+  rotation: string;
+  /** 固定した時刻（開始からのms） */
+  time: number;
+  /** このピースの間に押したキーの数（ホールドしたピースの分を含む） */
+  keys: number;
+  /** 消去した行数 */
+  linesCleared: number;
+  /** ライン消去の種類 */
+  clearType: ClearType;
+  /** バックトゥバックかどうか */
+  backToBack: boolean;
+  /** コンボ数（コンボでない場合は0） */
+  combo: number;
+  /** パーフェクトクリアかどうか */
+  perfectClear: boolean;
+  /** 送ったライン数（ガイドラインの攻撃力） */
+  attack: number;
+  /** 最少の入力回数より多く押した回数（判定できない置き方は0） */
+  finesseFaults: number;
+}
+
+/**
+ * ゲーム全体の集計
+ */
+export interface GameStatsTotals {
+  /** 固定したピースの数 */
+  pieces: number;
+  /** 経過時間（ms） */
+  time: number;
+  /** 押したキーの数 */
+  keys: number;
+  /** 消去した行数 */
+  lines: number;
+  /** 送ったライン数 */
+  attack: number;
+  /** 1秒あたりのピース数（PPS） */
+  pps: number;
+  /** 1ピースあたりのキー数（KPP） */
+  kpp: number;
+  /** 1分あたりの攻撃力（APM） */
+  apm: number;
+  /** フィネスの誤りの合計 */
+  finesseFaults: number;
+  /** ライン消去の種類ごとの回数 */
+  clearTypes: Record<ClearType, number>;
+}
+
+/**
+ * 書き出す統計
+ */
+export interface GameStats {
+  /** モード名 */
+  mode: string;
+  /** 記録を終えた日時（ISO 8601） */
+  date: string;
+  /** ピースごとの記録 */
+  pieces: PieceRecord[];
+  /** 集計 */
+  totals: GameStatsTotals;
+}
+
+/**
+ * 統計の記録の設定
+ */
+export interface GameStatsConfig {
+  /** モード名 */
+  mode: string;
+  /** エンジンが使っている回転システム（フィネスの判定に使う） */
+  rotationSystem: RotationSystemType;
+}
+
+/**
+ * 消去行数とスピンの種類からライン消去の種類を求める
+ * @param linesCleared - 消去した行数
+ * @param spin - スピンの種類
+ * @returns ライン消去の種類
+ */
+export function getClearType(linesCleared: number, spin: SpinKind): ClearType {
+  const lines = LINE_CLEAR_NAMES[Math.min(linesCleared, 4)];
+  if (spin === "none") {
+    return lines ? (lines.toLowerCase() as ClearType) : "none";
+  }
+  return `${spin === "mini" ? "miniSpin" : "spin"}${lines}` as ClearType;
+}
+
+/**
+ * 1回の固定で送るライン数を求める（ガイドラインの攻撃力）
+ * @param clearType - ライン消去の種類
+ * @param award - 固定時の得点の内訳（ライン消去もスピンもない場合はnull）
+ * @returns 送るライン数
+ */
+export function getAttack(
+  clearType: ClearType,
+  award: ScoreAward | null
+): number {
+  const base = CLEAR_ATTACK[clearType];
+  if (!award || award.linesCleared === 0) {
+    return base;
+  }
+  return (
+    base +
+    (award.backToBack ? BACK_TO_BACK_ATTACK : 0) +
+    COMBO_ATTACK[Math.min(award.combo, COMBO_ATTACK.length - 1)] +
+    (award.perfectClear ? PERFECT_CLEAR_ATTACK : 0)
+  );
+}
+
+/**
+ * 小数点以下2桁に丸める
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * ピースごとの記録から集計を求める
+ * @param pieces - ピースごとの記録
+ * @param time - 経過時間（ms）
+ * @returns 集計
+ */
+export function summarizeGameStats(
+  pieces: ReadonlyArray<PieceRecord>,
+  time: number
+): GameStatsTotals {
+  const clearTypes = Object.fromEntries(
+    CLEAR_TYPES.map((type) => [type, 0])
+  ) as Record<ClearType, number>;
+  let keys = 0;
+  let lines = 0;
+  let attack = 0;
+  let finesseFaults = 0;
+  for (const record of pieces) {
+    clearTypes[record.clearType]++;
+    keys += record.keys;
+    lines += record.linesCleared;
+    attack += record.attack;
+    finesseFaults += record.finesseFaults;
+  }
+
+  const minutes = time / 60000;
+  return {
+    pieces: pieces.length,
+    time,
+    keys,
+    lines,
+    attack,
+    pps: time > 0 ? round((pieces.length * 1000) / time) : 0,
+    kpp: pieces.length > 0 ? round(keys / pieces.length) : 0,
+    apm: minutes > 0 ? round(attack / minutes) : 0,
+    finesseFaults,
+    clearTypes,
+  };
+}
+
+/**
+ * プレイ中のピースの固定とキー入力を記録し、統計を作るクラス
+ * エンジンのイベント（spawn・hold・award・lock）から記録するため、
+ * 中断したゲームを再開した場合は再開後のピースのみを記録する
+ */
+export class GameStatsRecorder {
+  private pieces: PieceRecord[] = [];
+  /** 操作中のピースが出現した時の状態（フィネスの判定に使う） */
+  private spawnedPiece: ActivePiece | null = null;
+  /** 前のピースを固定してから押したキーの数 */
+  private keys: number = 0;
+  /** 操作中のピースが出現してから押した横移動・回転のキーの数 */
+  private finesseInputs: number = 0;
+  /** 操作中のピースでソフトドロップを押したかどうか */
+  private softDropped: boolean = false;
+  /** 固定の直前に通知されたライン消去・スピンの得点 */
+  private pendingAward: ScoreAward | null = null;
+
+  /**
+   * GameStatsRecorderのコンストラクタ
+   * @param engine - 記録するエンジン
+   * @param config - 統計の記録の設定
+   */
+  constructor(
+    private engine: GameEngine,
+    private config: GameStatsConfig
+  ) {
+    this.spawnedPiece = engine.getState().activePiece;
+    engine.on("spawn", (piece) => {
+      this.spawnedPiece = piece;
+      this.finesseInputs = 0;
+      this.softDropped = false;
+    });
+    engine.on("award", (award) => {
+      if (award.linesCleared > 0 || award.spin !== "none") {
+        this.pendingAward = award;
+      }
+    });
+    engine.on("lock", (info) => this.recordLock(info));
+  }
+
+  /**
+   * キーが押されたことを記録する（DAS・ARRによる繰り返しは含めない）
+   * @param action - 押されたキーの操作
+   */
+  public recordKey(action: TetrisAction): void {
+    if (action === TetrisAction.Pause) return;
+
+    this.keys++;
+    if (FINESSE_ACTIONS.includes(action)) {
+      this.finesseInputs++;
+    } else if (action === TetrisAction.SoftDrop) {
+      this.softDropped = true;
+    }
+  }
+
+  /**
+   * 記録を終えて統計を作成する
+   * @returns 統計
+   */
+  public finish(): GameStats {
+    const time = this.engine.getState().frame * FRAME_MS;
+    return {
+      mode: this.config.mode,
+      date: new Date().toISOString(),
+      pieces: [...this.pieces],
+      totals: summarizeGameStats(this.pieces, Math.round(time)),
+    };
+  }
+
+  private recordLock(info: PieceLockInfo): void {
+    const { piece, linesCleared, spin } = info;
+    const award = this.pendingAward;
+    const clearType = getClearType(linesCleared, spin.kind);
+    const state = this.engine.getState();
+
+    this.pieces.push({
+      piece: this.pieces.length + 1,
+      type: getTetrominoName(piece.type),
+      x: piece.x,
+      y: piece.y,
+      rotation: ROTATION_STATE_NAMES[piece.rotation],
+      time: Math.round(state.frame * FRAME_MS),
+      keys: this.keys,
+      linesCleared,
+      clearType,
+      backToBack: award?.backToBack ?? false,
+      combo: award?.combo ?? 0,
+      perfectClear: award?.perfectClear ?? false,
+      attack: getAttack(clearType, award),
+      finesseFaults: this.getFinesseFaults(piece),
+    });
+    this.keys = 0;
+    this.pendingAward = null;
+  }
+
+  /**
+   * 固定したピースのフィネスの誤りの数
+   * ソフトドロップを押したピースと、ハードドロップだけでは置けない場所は判定しない
+   */
+  private getFinesseFaults(piece: ActivePiece): number {
+    if (!this.spawnedPiece || this.softDropped) {
+      return 0;
+    }
+    const minimum = getMinimumInputs(
+      this.spawnedPiece,
+      piece,
+      this.config.rotationSystem,
+      getBoardSpecFromGrid(this.engine.getState().grid)
+    );
+    return minimum === null ? 0 : Math.max(0, this.finesseInputs - minimum);
+  }
+}
+
+/**
+ * CSVの1つの値を書き出す（区切り文字や引用符を含む場合は引用符で囲む）
+ */
+function csvValue(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 統計をJSONにする
+ * @param stats - 統計
+ * @returns 整形したJSON
+ */
+export function formatGameStatsJSON(stats: GameStats): string {
+  return JSON.stringify(stats, null, 2);
+}
+
+/**
+ * 統計をCSVにする（表計算ソフトでの分析用）
+ * ピースごとの記録の表の後に空行を挟み、集計を「項目,値」の表で続ける
+ * @param stats - 統計
+ * @returns CSV
+ */
+export function formatGameStatsCSV(stats: GameStats): string {
+  const columns: ReadonlyArray<keyof PieceRecord> = [
+    "piece",
+    "type",
+    "x",
+    "y",
+    "rotation",
+    "time",
+    "keys",
+    "linesCleared",
+    "clearType",
+    "backToBack",
+    "combo",
+    "perfectClear",
+    "attack",
+    "finesseFaults",
+  ];
+  const { clearTypes, ...totals } = stats.totals;
+  const rows: Array<ReadonlyArray<string | number | boolean>> = [
+    columns,
+    ...stats.pieces.map((record) => columns.map((column) => record[column])),
+    [],
+    ["stat", "value"],
+    ["mode", stats.mode],
+    ["date", stats.date],
+    ...Object.entries(totals),
+    ...CLEAR_TYPES.map((type) => [`clearType.${type}`, clearTypes[type]]),
+  ];
+  return rows.map((row) => row.map(csvValue).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,169 @@
+import { GARBAGE_CELL } from "./tetromino";
+import { SeededRandom } from "./randomizer";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * ガベージの穴の開け方
+ * clean: 1行に穴が1つ（前の行とは別の列）、messy: 1行に穴が複数ある場合がある
+ */
+export type GarbageStyle = "clean" | "messy";
+
+/**
+ * ガベージ生成の設定インターフェース
+ */
+export interface GarbageConfig {
+  /** 穴の開け方 */
+  style: GarbageStyle;
+  /** messy で各セルが追加の穴になる確率（0〜1） */
+  messiness: number;
+}
+
+/**
+ * ガベージ生成器の状態（中断したゲームを再開するために保存する）
+ */
+export interface GarbageGeneratorState {
+  /** 乱数生成器の内部状態 */
+  random: number;
+  /** 直前の行の穴の列 */
+  lastHole: number;
+}
+
+/**
+ * ガベージの行を生成するクラス
+ * シードが同じなら同じ順序で同じ行を生成する
+ */
+export class GarbageGenerator {
+  private random: SeededRandom;
+  /** 直前の行の穴の列（cleanで同じ列が続かないように） */
+  private lastHole: number = -1;
+
+  /**
+   * GarbageGeneratorのコンストラクタ
+   * @param width - 盤面の列数
+   * @param config - ガベージ生成の設定
+   * @param seed - 乱数シード
+   */
+  constructor(
+    private width: number,
+    private config: GarbageConfig,
+    seed: number
+  ) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * ガベージの行を1行生成する
+   * 全ての行に穴が1つ以上あり、ブロックも1つ以上ある
+   * @returns ガベージの行
+   */
+  public nextRow(): number[] {
+    const row: number[] = Array(this.width).fill(GARBAGE_CELL);
+    const hole = this.nextHoleColumn();
+    row[hole] = 0;
+
+    if (this.config.style === "messy") {
+      for (let col = 0; col < this.width; col++) {
+        if (col !== hole && this.random.next() < this.config.messiness) {
+          row[col] = 0;
+        }
+      }
+      // 全て穴になった場合は消去できない行にならないよう1つ埋める
+      if (!row.includes(GARBAGE_CELL)) {
+        row[(hole + 1) % this.width] = GARBAGE_CELL;
+      }
+    }
+
+    return row;
+  }
+
+  /**
+   * ガベージの行を複数生成する
+   * @param count - 生成する行数
+   * @returns ガベージの行（上から順）
+   */
+  public nextRows(count: number): number[][] {
+    return Array.from({ length: count }, () => this.nextRow());
+  }
+
+  /**
+   * 中断のために状態を取得する
+   * @returns ガベージ生成器の状態
+   */
+  public getState(): GarbageGeneratorState {
+    return { random: this.random.getState(), lastHole: this.lastHole };
+  }
+
+  /**
+   * getStateで取得した状態を復元する（以降は中断時と同じ行を生成する）
+   * @param state - ガベージ生成器の状態
+   */
+  public setState(state: GarbageGeneratorState): void {
+    this.random.setState(state.random);
+    this.lastHole = state.lastHole;
+  }
+
+  /**
+   * 穴を開ける列を選ぶ（前の行と同じ列は選ばない）
+   * @returns 列のインデックス
+   */
+  private nextHoleColumn(): number {
+    if (this.width <= 1) return 0;
+
+    let hole = this.random.nextInt(this.width - 1);
+    if (hole >= this.lastHole && this.lastHole >= 0) {
+      hole++;
+    }
+    this.lastHole = hole;
+    return hole;
+  }
+}
+
+/**
+ * 保存されたガベージ生成器の状態の形式が正しいかどうか
+ * @param value - 保存されていた値
+ * @returns 乱数の状態と直前の穴の列が整数の場合true
+ */
+export function isGarbageGeneratorState(
+  value: unknown
+): value is GarbageGeneratorState {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const state = value as Record<string, unknown>;
+  return Number.isInteger(state.random) && Number.isInteger(state.lastHole);
+}
+
+/**
+ * 行にガベージのセルが含まれているかどうか
+ * 穴をテトロミノで埋めて消去した行もガベージの行として扱う
+ * @param row - 盤面の1行
+ * @returns ガベージのセルを含む場合true
+ */
+export function isGarbageRow(row: number[]): boolean {
+  return row.some((cell) => cell === GARBAGE_CELL);
+}
+
+/**
+ * 盤面に残っているガベージの行数を数える
+ * @param grid - 盤面グリッド
+ * @returns ガベージのセルを含む行の数
+ */
+export function countGarbageRows(grid: Grid): number {
+  return grid.filter(isGarbageRow).length;
+}
+
+/**
+ * デフォルトのガベージ生成設定を取得する
+ * @returns デフォルトのガベージ生成設定（穴1つ）
+ */
+export function getDefaultGarbageConfig(): GarbageConfig {
+  return {
+    style: "clean",
+    messiness: 0.2,
+  };
+}
@@ -1,5 +1,6 @@
 import * as Phaser from "phaser";
 import { GameScene } from "./GameScene";
+import { ReplayScene } from "./ReplayScene";
 
 // TypeScriptでwindow.gameを使用するための型定義
 declare global {
@@ -23,7 +24,7 @@ const config: Phaser.Types.Core.GameConfig = {
     width: 360,
     height: 640,
   },
-  scene: [GameScene],
+  scene: [GameScene, ReplayScene],
   physics: {
     default: "arcade",
     arcade: {
@@ -54,9 +55,22 @@ window.addEventListener("resize", () => {
 });
 
 
+// プレイ中のゲームを中断したゲームとして保存する（次回の起動時に再開できる）
+const suspendGame = (): void => {
+  game.scene.getScene("GameScene")?.events.emit("gameSuspend");
+};
+
+// モバイルではページを隠したまま終了される場合があるため、隠した時点で保存する
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState === "hidden") {
+    suspendGame();
+  }
+});
+
 // ページ離脱時のクリーンアップ
 window.addEventListener("beforeunload", () => {
   if (game) {
+    suspendGame();
     game.destroy(true);
   }
 });
@@ -1,18 +1,9 @@
 import * as Phaser from "phaser";
+import { TetrisAction } from "./gameEngine";
+import { AutoShiftController } from "./autoShift";
 
-/**
- * テトリスの操作アクションを表す列挙型
- */
-export enum TetrisAction {
-  MoveLeft = "MOVE_LEFT",
-  MoveRight = "MOVE_RIGHT",
-  RotateClockwise = "ROTATE_CW",
-  RotateCounterClockwise = "ROTATE_CCW",
-  SoftDrop = "SOFT_DROP",
-  HardDrop = "HARD_DROP",
-  Hold = "HOLD",
-  Pause = "PAUSE",
-}
+// 操作アクションはPhaserに依存しないエンジン側で定義し、ここから再エクスポートする
+export { TetrisAction };
 
 /**
  * タッチジェスチャーの種類
@@ -35,8 +26,10 @@ export interface InputConfig {
   gestureBindings: Record<GestureType, TetrisAction>;
   /** DAS（Delayed Auto Shift）の初期遅延（ms） */
   dasDelay: number;
-  /** DAS（Delayed Auto Shift）の繰り返し間隔（ms） */
+  /** DAS（Delayed Auto Shift）の繰り返し間隔（ARR、ms、0なら壁まで瞬時に移動） */
   dasInterval: number;
+  /** ソフトドロップ時の落下速度の倍率（SDF、Infinityなら瞬時に接地） */
+  softDropFactor: number;
   /** スワイプを検出する最小距離（ピクセル） */
   swipeThreshold: number;
   /** スワイプを検出する最大時間（ms） */
@@ -45,8 +38,9 @@ export interface InputConfig {
 
 /**
  * アクションのコールバック関数の型
+ * 操作が成功した場合にtrueを返すと、ARR 0やSDF無限大の瞬時移動で繰り返し実行される
  */
-type ActionCallback = () => void;
+type ActionCallback = () => boolean | void;
 
 /**
  * タッチ情報を保持するインターフェース
@@ -64,9 +58,15 @@ interface TouchInfo {
 export class InputHandler {
   private scene: Phaser.Scene;
   private actionCallbacks: Map<TetrisAction, ActionCallback> = new Map();
-  private dasTimers: Map<TetrisAction, number> = new Map();
+  private releaseCallbacks: Map<TetrisAction, ActionCallback> = new Map();
+  private pressCallbacks: Map<TetrisAction, ActionCallback> = new Map();
+  private autoShift: AutoShiftController;
   private activeTouch: TouchInfo | null = null;
   private keys: Record<string, Phaser.Input.Keyboard.Key> = {};
+  /** 押されているキー（OSのキーリピートを無視するため） */
+  private pressedKeys: Set<string> = new Set();
+  /** ソフトドロップの速度の基準となる自然落下の間隔を返す関数 */
+  private dropIntervalProvider: () => number = () => 1000;
 
   /**
    * InputHandlerのコンストラクタ
@@ -78,20 +78,96 @@ export class InputHandler {
     private config: InputConfig
   ) {
     this.scene = scene;
+    this.autoShift = new AutoShiftController(
+      {
+        das: config.dasDelay,
+        arr: config.dasInterval,
+        sdf: config.softDropFactor,
+      },
+      {
+        shift: (direction) =>
+          this.triggerAction(
+            direction < 0 ? TetrisAction.MoveLeft : TetrisAction.MoveRight
+          ),
+        softDrop: () => this.triggerAction(TetrisAction.SoftDrop),
+        getDropInterval: () => this.dropIntervalProvider(),
+      }
+    );
     this.setupKeyboard();
     this.setupTouch();
   }
 
   /**
    * キーボード入力の設定
+   * OSのキーリピートには依存せず、押下・解放のイベントのみを使う
    */
   private setupKeyboard(): void {
     // キーバインディングに基づいてキーを登録
-    Object.keys(this.config.keyBindings).forEach((key) => {
-      this.keys[key] = this.scene.input.keyboard!.addKey(key);
+    Object.entries(this.config.keyBindings).forEach(([key, action]) => {
+      const keyObj = this.scene.input.keyboard!.addKey(key);
+      keyObj.on(Phaser.Input.Keyboard.Events.DOWN, () =>
+        this.handleKeyDown(key, action)
+      );
+      keyObj.on(Phaser.Input.Keyboard.Events.UP, () =>
+        this.handleKeyUp(key, action)
+      );
+      this.keys[key] = keyObj;
     });
   }
 
+  /**
+   * キーが押された時の処理
+   * 横移動とソフトドロップはDAS・ARR・SDFの処理に渡し、それ以外は1回だけ実行する
+   * @param key - キー名
+   * @param action - 割り当てられたアクション
+   */
+  private handleKeyDown(key: string, action: TetrisAction): void {
+    if (this.pressedKeys.has(key)) {
+      return;
+    }
+    this.pressedKeys.add(key);
+    this.pressCallbacks.get(action)?.();
+
+    switch (action) {
+      case TetrisAction.MoveLeft:
+        this.autoShift.pressShift(-1);
+        break;
+      case TetrisAction.MoveRight:
+        this.autoShift.pressShift(1);
+        break;
+      case TetrisAction.SoftDrop:
+        this.autoShift.pressSoftDrop();
+        break;
+      default:
+        this.triggerAction(action);
+    }
+  }
+
+  /**
+   * キーが離された時の処理
+   * @param key - キー名
+   * @param action - 割り当てられたアクション
+   */
+  private handleKeyUp(key: string, action: TetrisAction): void {
+    if (!this.pressedKeys.delete(key)) {
+      return;
+    }
+
+    switch (action) {
+      case TetrisAction.MoveLeft:
+        this.autoShift.releaseShift(-1);
+        break;
+      case TetrisAction.MoveRight:
+        this.autoShift.releaseShift(1);
+        break;
+      case TetrisAction.SoftDrop:
+        this.autoShift.releaseSoftDrop();
+        break;
+    }
+
+    this.releaseCallbacks.get(action)?.();
+  }
+
   /**
    * タッチ入力の設定
    */
@@ -131,6 +207,7 @@ export class InputHandler {
     if (gesture !== null) {
       const action = this.config.gestureBindings[gesture];
       if (action) {
+        this.pressCallbacks.get(action)?.();
         this.triggerAction(action);
       }
     }
@@ -205,54 +282,63 @@ export class InputHandler {
    */
   public off(action: TetrisAction): void {
     this.actionCallbacks.delete(action);
+    this.releaseCallbacks.delete(action);
+    this.pressCallbacks.delete(action);
+  }
+
+  /**
+   * アクションに割り当てられたキーが押された時のコールバックを登録する
+   * DAS・ARR・SDFによる繰り返しでは呼び出されないため、押下の回数を数えられる
+   * @param action - テトリスアクション
+   * @param callback - 実行するコールバック関数
+   */
+  public onPress(action: TetrisAction, callback: ActionCallback): void {
+    this.pressCallbacks.set(action, callback);
+  }
+
+  /**
+   * アクションに割り当てられたキーが離された時のコールバックを登録する
+   * @param action - テトリスアクション
+   * @param callback - 実行するコールバック関数
+   */
+  public onRelease(action: TetrisAction, callback: ActionCallback): void {
+    this.releaseCallbacks.set(action, callback);
+  }
+
+  /**
+   * ソフトドロップの速度の基準となる自然落下の間隔を返す関数を設定する
+   * @param provider - 現在の落下間隔（ms）を返す関数
+   */
+  public setDropIntervalProvider(provider: () => number): void {
+    this.dropIntervalProvider = provider;
+  }
+
+  /**
+   * 押されている全てのキーを離した状態にする（DASのチャージも破棄する）
+   */
+  public releaseAll(): void {
+    this.pressedKeys.clear();
+    this.autoShift.releaseAll();
   }
 
   /**
    * アクションを実行する
    * @param action - テトリスアクション
+   * @returns コールバックが操作の成功を返した場合true
    */
-  private triggerAction(action: TetrisAction): void {
+  private triggerAction(action: TetrisAction): boolean {
     const callback = this.actionCallbacks.get(action);
-    if (callback) {
-      callback();
-    }
+    return callback ? callback() === true : false;
   }
 
   /**
    * フレームごとの更新処理
+   * 押し続けている横移動・ソフトドロップを経過時間に応じて実行する
    * @param time - 現在の時間
    * @param delta - 前フレームからの経過時間
    */
   public update(time: number, delta: number): void {
-    // キーボード入力の処理
-    Object.entries(this.config.keyBindings).forEach(([key, action]) => {
-      const keyObj = this.keys[key];
-      if (!keyObj) return;
-
-      // ハードドロップは繰り返し実行しない
-      if (action === TetrisAction.HardDrop) {
-        if (Phaser.Input.Keyboard.JustDown(keyObj)) {
-          this.triggerAction(action);
-        }
-        return; // DAS処理をスキップ
-      }
-
-      if (Phaser.Input.Keyboard.JustDown(keyObj)) {
-        // キーが押された瞬間
-        this.triggerAction(action);
-        this.dasTimers.set(action, time + this.config.dasDelay);
-      } else if (keyObj.isDown) {
-        // キーが押し続けられている
-        const dasTimer = this.dasTimers.get(action);
-        if (dasTimer && time >= dasTimer) {
-          this.triggerAction(action);
-          this.dasTimers.set(action, time + this.config.dasInterval);
-        }
-      } else {
-        // キーが離された
-        this.dasTimers.delete(action);
-      }
-    });
+    this.autoShift.update(delta);
   }
 
   /**
@@ -262,8 +348,15 @@ export class InputHandler {
     this.scene.input.off("pointerdown", this.handleTouchStart, this);
     this.scene.input.off("pointerup", this.handleTouchEnd, this);
     this.scene.input.off("pointermove", this.handleTouchMove, this);
+    Object.values(this.keys).forEach((keyObj) => {
+      keyObj.removeAllListeners();
+      this.scene.input.keyboard?.removeKey(keyObj);
+    });
+    this.keys = {};
+    this.releaseAll();
     this.actionCallbacks.clear();
-    this.dasTimers.clear();
+    this.releaseCallbacks.clear();
+    this.pressCallbacks.clear();
   }
 }
 
@@ -279,6 +372,7 @@ export function getDefaultInputConfig(): InputConfig {
       DOWN: TetrisAction.SoftDrop,
       UP: TetrisAction.RotateClockwise,
       Z: TetrisAction.RotateCounterClockwise,
+      A: TetrisAction.Rotate180,
       SPACE: TetrisAction.HardDrop,
       C: TetrisAction.Hold,
       ESC: TetrisAction.Pause,
@@ -292,6 +386,7 @@ export function getDefaultInputConfig(): InputConfig {
     },
     dasDelay: 200,
     dasInterval: 50,
+    softDropFactor: 20,
     swipeThreshold: 30,
     swipeTimeout: 300,
   };
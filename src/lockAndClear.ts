@@ -1,3 +1,7 @@
+import { SpinContext, SpinResult, NO_SPIN, detectSpin } from "./spinDetection";
+import { BoardSpec, getBoardSpecFromGrid, getTotalRows } from "./boardSpec";
+import { isGarbageRow } from "./garbage";
+
 /**
  * テトロミノ（テトリスブロック）の形状を表す型
  * 2次元配列で表現され、0は空、1以上はブロックの存在を示す
@@ -6,7 +10,8 @@ export type BlockShape = number[][];
 
 /**
  * ゲームの盤面グリッドを表す型
- * 10列×20行の2次元配列で、0は空、1以上は配置済みブロックを示す
+ * 行×列の2次元配列で、0は空、1以上は配置済みブロックを示す
+ * 盤面の寸法は BoardSpec で表し、省略した場合は配列の大きさから求める
  */
 export type Grid = number[][];
 
@@ -16,17 +21,23 @@ export type Grid = number[][];
 export interface LockResult {
   /** 消去された行数 */
   linesCleared: number;
+  /** 消去された行のうち、ガベージを含む行の数 */
+  garbageLinesCleared: number;
+  /** スピンの判定結果（判定情報が渡されなかった場合はスピンなし） */
+  spin: SpinResult;
+  /** 消去された行のインデックス（固定直後の盤面での位置、上から順） */
+  clearedRows: number[];
 }
 
 /**
- * グリッドの幅（列数）
+ * ライン消去の結果を表すインターフェース
  */
-const GRID_WIDTH = 10;
-
-/**
- * グリッドの高さ（行数）
- */
-const GRID_HEIGHT = 20;
+export interface LineClearSummary {
+  /** 消去した行数 */
+  total: number;
+  /** 消去した行のうち、ガベージを含む行の数 */
+  garbage: number;
+}
 
 /**
  * テトロミノをグリッドに固定し、完成した行を消去する関数
@@ -34,14 +45,26 @@ const GRID_HEIGHT = 20;
  * @param shape 固定するテトロミノの形状
  * @param offsetX グリッド上のX座標オフセット
  * @param offsetY グリッド上のY座標オフセット
- * @returns 固定化の結果（消去された行数）
+ * @param spinContext スピン判定に使うピースの操作履歴（省略時は判定しない）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
+ * @returns 固定化の結果（消去された行数・行の位置とスピンの判定結果）
  */
 export function lockPiece(
   grid: Grid,
   shape: BlockShape,
   offsetX: number,
-  offsetY: number
+  offsetY: number,
+  spinContext?: SpinContext,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
 ): LockResult {
+  // 0. 固定前の盤面でスピンを判定（固定・消去後は周囲の状態が変わるため）
+  const spin = spinContext
+    ? detectSpin(grid, shape, offsetX, offsetY, spinContext)
+    : NO_SPIN;
+
+  const width = spec.width;
+  const height = getTotalRows(spec);
+
   // 1. テトロミノをグリッドに固定化（マージ）
   for (let shapeY = 0; shapeY < shape.length; shapeY++) {
     for (let shapeX = 0; shapeX < shape[shapeY].length; shapeX++) {
@@ -53,12 +76,7 @@ export function lockPiece(
         const gridY = offsetY + shapeY;
 
         // グリッドの範囲内かチェック
-        if (
-          gridY >= 0 &&
-          gridY < GRID_HEIGHT &&
-          gridX >= 0 &&
-          gridX < GRID_WIDTH
-        ) {
+        if (gridY >= 0 && gridY < height && gridX >= 0 && gridX < width) {
           grid[gridY][gridX] = cellValue;
         }
       }
@@ -66,32 +84,60 @@ export function lockPiece(
   }
 
   // 2. 完成した行を消去
-  const linesCleared = clearLines(grid);
+  const clearedRows = getCompletedRows(grid);
+  const { total, garbage } = clearLinesWithSummary(grid, spec);
 
   return {
-    linesCleared: linesCleared,
+    linesCleared: total,
+    garbageLinesCleared: garbage,
+    spin: spin,
+    clearedRows: clearedRows,
   };
 }
 
 /**
  * グリッド内の完成した行を全て消去する関数
  * @param grid ゲームの盤面グリッド（直接変更される）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 消去した行数
  */
-export function clearLines(grid: Grid): number {
+export function clearLines(
+  grid: Grid,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
+): number {
+  return clearLinesWithSummary(grid, spec).total;
+}
+
+/**
+ * グリッド内の完成した行を全て消去し、ガベージの行とそれ以外の行を区別して数える関数
+ * ガベージのセルを1つでも含む行（穴を埋めて消去した行）をガベージの行とする
+ * @param grid ゲームの盤面グリッド（直接変更される）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
+ * @returns 消去した行数とそのうちのガベージの行数
+ */
+export function clearLinesWithSummary(
+  grid: Grid,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
+): LineClearSummary {
+  const width = spec.width;
   let clearedCount = 0;
+  let garbageCount = 0;
 
   // 下から上に向かって行をチェック（削除時のインデックスずれを防ぐため）
-  for (let row = GRID_HEIGHT - 1; row >= 0; row--) {
+  for (let row = getTotalRows(spec) - 1; row >= 0; row--) {
     // 現在の行が完全に埋まっているかチェック
     const isRowComplete = grid[row].every((cell) => cell !== 0);
 
     if (isRowComplete) {
+      if (isGarbageRow(grid[row])) {
+        garbageCount++;
+      }
+
       // 行を削除
       grid.splice(row, 1);
 
       // 最上部に空の行を追加
-      const emptyRow = new Array(GRID_WIDTH).fill(0);
+      const emptyRow = new Array(width).fill(0);
       grid.unshift(emptyRow);
 
       // 削除したので同じインデックスを再チェックするためにインクリメント
@@ -102,19 +148,25 @@ export function clearLines(grid: Grid): number {
     }
   }
 
-  return clearedCount;
+  return { total: clearedCount, garbage: garbageCount };
 }
 
 /**
  * 複数の行を一度に消去する高速版関数
  * @param grid ゲームの盤面グリッド（直接変更される）
+ * @param spec 盤面の寸法（省略時はグリッドの大きさから求める）
  * @returns 消去した行数
  */
-export function clearLinesOptimized(grid: Grid): number {
+export function clearLinesOptimized(
+  grid: Grid,
+  spec: BoardSpec = getBoardSpecFromGrid(grid)
+): number {
+  const width = spec.width;
+  const height = getTotalRows(spec);
   const completedRows: number[] = [];
 
   // 完成した行を全て検出
-  for (let row = 0; row < GRID_HEIGHT; row++) {
+  for (let row = 0; row < height; row++) {
     if (grid[row].every((cell) => cell !== 0)) {
       completedRows.push(row);
     }
@@ -127,7 +179,7 @@ export function clearLinesOptimized(grid: Grid): number {
 
   // 完成していない行のみを抽出
   const remainingRows: number[][] = [];
-  for (let row = 0; row < GRID_HEIGHT; row++) {
+  for (let row = 0; row < height; row++) {
     if (!completedRows.includes(row)) {
       remainingRows.push([...grid[row]]);
     }
@@ -138,7 +190,7 @@ export function clearLinesOptimized(grid: Grid): number {
 
   // 消去した行数分の空行を上部に追加
   for (let i = 0; i < completedRows.length; i++) {
-    grid.push(new Array(GRID_WIDTH).fill(0));
+    grid.push(new Array(width).fill(0));
   }
 
   // 残った行を追加
@@ -154,7 +206,7 @@ export function clearLinesOptimized(grid: Grid): number {
  * @returns 行が完成している場合はtrue
  */
 export function isRowComplete(grid: Grid, rowIndex: number): boolean {
-  if (rowIndex < 0 || rowIndex >= GRID_HEIGHT) {
+  if (rowIndex < 0 || rowIndex >= grid.length) {
     return false;
   }
 
@@ -194,7 +246,7 @@ export function hasCompletedRowsInRange(
   endRow: number
 ): boolean {
   const start = Math.max(0, startRow);
-  const end = Math.min(GRID_HEIGHT - 1, endRow);
+  const end = Math.min(grid.length - 1, endRow);
 
   for (let row = start; row <= end; row++) {
     if (isRowComplete(grid, row)) {
@@ -213,7 +265,7 @@ export function hasCompletedRowsInRange(
 export function getCompletedRows(grid: Grid): number[] {
   const completedRows: number[] = [];
 
-  for (let row = 0; row < GRID_HEIGHT; row++) {
+  for (let row = 0; row < grid.length; row++) {
     if (isRowComplete(grid, row)) {
       completedRows.push(row);
     }
@@ -0,0 +1,215 @@
+/**
+ * 固定猶予のリセット方式
+ * move: 移動・回転で猶予をリセット（回数制限あり、ガイドライン準拠）
+ * step: 1段下に落ちた時のみ猶予をリセット（クラシック）
+ * infinite: 時間切れで固定しない（ハードドロップでのみ固定）
+ */
+export type LockResetMode = "move" | "step" | "infinite";
+
+/**
+ * 固定猶予の設定インターフェース
+ */
+export interface LockDelayConfig {
+  /** 接地してから固定されるまでの猶予（ミリ秒、0なら接地した瞬間に固定） */
+  delay: number;
+  /** 猶予のリセット方式 */
+  resetMode: LockResetMode;
+  /** moveモードで猶予をリセットできる最大回数 */
+  maxResets: number;
+}
+
+/**
+ * 固定猶予の状態（中断したゲームを再開するために保存する）
+ */
+export interface LockDelayState {
+  /** 固定猶予（ミリ秒、ゲームモードが変更している場合があるため保存する） */
+  delay: number;
+  /** 接地中に経過した時間（ミリ秒） */
+  elapsed: number;
+  /** 残りのリセット回数 */
+  resetsLeft: number;
+  /** ピースが到達した最も低い行（まだピースが出現していない場合はnull） */
+  lowestY: number | null;
+  /** 直近の状態で接地しているかどうか */
+  grounded: boolean;
+}
+
+/**
+ * 経過時間の積算で生じる浮動小数点誤差の許容値（ミリ秒）
+ */
+const TIME_EPSILON = 1e-6;
+
+/**
+ * 固定猶予（ロックディレイ）の状態機械
+ * 接地中のみ時間が進み、猶予を使い切るとピースを固定する
+ * 最も低い到達行を更新すると、リセット回数が回復する（最下段ルール）
+ */
+export class LockDelay {
+  /** 接地中に経過した時間（ミリ秒） */
+  private elapsed: number = 0;
+  /** 残りのリセット回数 */
+  private resetsLeft: number;
+  /** このピースが到達した最も低い行 */
+  private lowestY: number = -Infinity;
+  /** 直近の状態で接地しているかどうか */
+  private grounded: boolean = false;
+
+  /**
+   * LockDelayのコンストラクタ
+   * @param config - 固定猶予の設定
+   */
+  constructor(private config: LockDelayConfig) {
+    this.resetsLeft = config.maxResets;
+  }
+
+  /**
+   * 新しいピースの出現時に状態を初期化する
+   * @param y - 出現位置のY座標
+   */
+  public reset(y: number): void {
+    this.elapsed = 0;
+    this.resetsLeft = this.config.maxResets;
+    this.lowestY = y;
+    this.grounded = false;
+  }
+
+  /**
+   * 時間を進め、固定すべきかどうかを判定する
+   * @param ms - 経過時間（ミリ秒）
+   * @param grounded - ピースが接地しているかどうか
+   * @returns 固定すべき場合true
+   */
+  public update(ms: number, grounded: boolean): boolean {
+    this.grounded = grounded;
+
+    if (!grounded || this.config.resetMode === "infinite") {
+      return false;
+    }
+
+    this.elapsed += ms;
+    return this.elapsed >= this.config.delay - TIME_EPSILON;
+  }
+
+  /**
+   * 移動・回転に成功した時に呼び出す（moveモードでは猶予をリセットする）
+   * リセット回数を使い切った後は猶予がリセットされず、残り時間で固定される
+   * @param y - 移動後のY座標
+   * @param grounded - 移動前に接地していたかどうか（接地中の操作のみリセット回数を消費する）
+   */
+  public onMove(y: number, grounded: boolean = this.grounded): void {
+    if (this.updateLowestRow(y)) {
+      return;
+    }
+
+    if (this.config.resetMode !== "move" || !grounded) {
+      return;
+    }
+
+    if (this.resetsLeft > 0) {
+      this.resetsLeft--;
+      this.elapsed = 0;
+    }
+  }
+
+  /**
+   * ピースが1段以上下に落ちた時に呼び出す
+   * @param y - 落下後のY座標
+   */
+  public onStepDown(y: number): void {
+    if (this.updateLowestRow(y)) {
+      return;
+    }
+
+    if (this.config.resetMode === "step") {
+      this.elapsed = 0;
+    }
+  }
+
+  /**
+   * 固定猶予の長さを変更する（経過時間はそのまま）
+   * @param delay - 固定猶予（ミリ秒）
+   */
+  public setDelay(delay: number): void {
+    this.config = { ...this.config, delay };
+  }
+
+  /**
+   * 接地中かつ猶予が進行中かどうか
+   * @returns 猶予が進行中の場合true
+   */
+  public isActive(): boolean {
+    return this.grounded && this.config.resetMode !== "infinite";
+  }
+
+  /**
+   * 固定までの残り時間を取得する
+   * @returns 残り時間（ミリ秒）
+   */
+  public getRemaining(): number {
+    return Math.max(0, this.config.delay - this.elapsed);
+  }
+
+  /**
+   * 残りのリセット回数を取得する
+   * @returns 残りのリセット回数
+   */
+  public getResetsLeft(): number {
+    return this.resetsLeft;
+  }
+
+  /**
+   * 中断のために状態を取得する
+   * @returns 固定猶予の状態
+   */
+  public getState(): LockDelayState {
+    return {
+      delay: this.config.delay,
+      elapsed: this.elapsed,
+      resetsLeft: this.resetsLeft,
+      // -InfinityはJSONにできないためnullで表す
+      lowestY: Number.isFinite(this.lowestY) ? this.lowestY : null,
+      grounded: this.grounded,
+    };
+  }
+
+  /**
+   * getStateで取得した状態を復元する
+   * @param state - 固定猶予の状態
+   */
+  public setState(state: LockDelayState): void {
+    this.setDelay(state.delay);
+    this.elapsed = state.elapsed;
+    this.resetsLeft = state.resetsLeft;
+    this.lowestY = state.lowestY ?? -Infinity;
+    this.grounded = state.grounded;
+  }
+
+  /**
+   * 最も低い到達行を更新する（最下段ルール）
+   * 更新した場合は猶予とリセット回数を回復する
+   * @param y - 現在のY座標
+   * @returns 最も低い到達行を更新した場合true
+   */
+  private updateLowestRow(y: number): boolean {
+    if (y <= this.lowestY) {
+      return false;
+    }
+
+    this.lowestY = y;
+    this.elapsed = 0;
+    this.resetsLeft = this.config.maxResets;
+    return true;
+  }
+}
+
+/**
+ * デフォルトの固定猶予設定を取得する
+ * @returns デフォルトの固定猶予設定（500ミリ秒、15回までの移動リセット）
+ */
+export function getDefaultLockDelayConfig(): LockDelayConfig {
+  return {
+    delay: 500,
+    resetMode: "move",
+    maxResets: 15,
+  };
+}
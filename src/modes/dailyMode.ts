@@ -0,0 +1,281 @@
+import {
+  DailyChallenge,
+  DailyScore,
+  encodeDailyResultCode,
+  getDailyStreak,
+  getDailyTag,
+  loadDailyHistory,
+  recordDailyResult,
+} from "../dailyChallenge";
+import {
+  GameEndReason,
+  GameEngine,
+  GameEngineConfig,
+  GameOverInfo,
+} from "../gameEngine";
+import { StackVisibilityMode } from "../stackVisibility";
+import { KeyValueStorage, MemoryStorage, getDefaultStorage } from "../storage";
+import { DigMode, getDefaultDigConfig } from "./digMode";
+import {
+  BaseGameMode,
+  GameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  readModeSaveState,
+} from "./gameMode";
+import { PuzzleMode } from "./puzzleMode";
+import { SprintMode, getDefaultSprintConfig } from "./sprintMode";
+import { UltraMode, getDefaultUltraConfig } from "./ultraMode";
+
+/**
+ * 記録の計測に使うプレイの状態
+ */
+interface DailyRunState {
+  /** 終了条件 */
+  reason: GameEndReason;
+  /** スコア */
+  score: number;
+  /** 消去したライン数 */
+  lines: number;
+}
+
+/**
+ * ルールに対応するモードと、そのモードの記録の計測方法を作成する
+ * 元のモードの自己ベストを書き換えないよう、元のモードにはメモリ上のストレージを渡す
+ * @param challenge - デイリーチャレンジ
+ */
+function createRulesetMode(challenge: DailyChallenge): {
+  mode: GameMode;
+  measure: (state: DailyRunState) => DailyScore;
+} {
+  const { ruleset, seed } = challenge;
+  const storage = new MemoryStorage();
+  switch (ruleset.type) {
+    case "sprint": {
+      const mode = new SprintMode(
+        { ...getDefaultSprintConfig(), lineTarget: ruleset.lineTarget },
+        storage
+      );
+      return {
+        mode,
+        measure: ({ reason, lines }) =>
+          reason === "goalReached"
+            ? { completed: true, value: Math.round(mode.getElapsed()) }
+            : { completed: false, value: lines },
+      };
+    }
+    case "ultra":
+      return {
+        mode: new UltraMode(
+          { ...getDefaultUltraConfig(), timeLimit: ruleset.timeLimit },
+          storage
+        ),
+        measure: ({ reason, score }) => ({
+          completed: reason === "timeUp",
+          value: score,
+        }),
+      };
+    case "dig": {
+      const config = getDefaultDigConfig();
+      const mode = new DigMode(
+        {
+          ...config,
+          lineTarget: ruleset.lineTarget,
+          garbage: { ...config.garbage, style: ruleset.style },
+          seed,
+        },
+        storage
+      );
+      return {
+        mode,
+        measure: ({ reason, lines }) =>
+          reason === "goalReached"
+            ? { completed: true, value: Math.round(mode.getElapsed()) }
+            : { completed: false, value: lines },
+      };
+    }
+    case "puzzle": {
+      const mode = new PuzzleMode(
+        { pack: ruleset.pack, index: ruleset.index },
+        storage
+      );
+      const { pieceLimit } = ruleset.pack.puzzles[ruleset.index];
+      return {
+        mode,
+        measure: () =>
+          mode.isCleared()
+            ? { completed: true, value: pieceLimit - mode.getPiecesLeft() }
+            : { completed: false, value: 0 },
+      };
+    }
+  }
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface DailySaveState {
+  /** ルールのモードの進行状況 */
+  inner: ModeSaveState | null;
+  /** スコア */
+  score: number;
+  /** 消去ライン数 */
+  lines: number;
+}
+
+/**
+ * デイリーチャレンジのモード
+ * 日付で決まったルールのモードに処理を委譲し、シードと修飾を適用して、終了時に記録を保存する
+ */
+export class DailyMode extends BaseGameMode {
+  public readonly type = "daily";
+  public readonly name = "DAILY";
+  public readonly showsScorePanel: boolean;
+  public readonly stackVisibility: StackVisibilityMode;
+
+  private inner: GameMode;
+  private measure: (state: DailyRunState) => DailyScore;
+  private score: number = 0;
+  private lines: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * DailyModeのコンストラクタ
+   * @param challenge - デイリーチャレンジ
+   * @param storage - 記録の保存先
+   */
+  constructor(
+    private challenge: DailyChallenge,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+    const { mode, measure } = createRulesetMode(challenge);
+    this.inner = mode;
+    this.measure = measure;
+    this.showsScorePanel = mode.showsScorePanel;
+    this.stackVisibility = challenge.modifiers.stackVisibility;
+  }
+
+  /**
+   * ルールのモードの設定に、日付のシードとホールドの修飾を加える
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    const configured = this.inner.configureEngine(config);
+    return {
+      ...configured,
+      nextHold: {
+        ...configured.nextHold,
+        seed: this.challenge.seed,
+        enableHold:
+          configured.nextHold.enableHold && this.challenge.modifiers.hold,
+      },
+    };
+  }
+
+  /**
+   * ルールのモードを先に接続し、その結果ができてから記録を保存する
+   */
+  protected onAttach(engine: GameEngine): void {
+    this.inner.attach(engine);
+    this.score = 0;
+    this.lines = 0;
+    this.result = null;
+    this.listen("score", ({ score, lines }) => {
+      this.score = score;
+      this.lines = lines;
+    });
+    this.listen("gameOver", (info) => this.onGameOver(info));
+  }
+
+  public detach(): void {
+    super.detach();
+    this.inner.detach();
+  }
+
+  public onInput(): void {
+    this.inner.onInput();
+  }
+
+  public update(delta: number): void {
+    this.inner.update(delta);
+  }
+
+  public getHud(): ModeHudItem[] {
+    return this.inner.getHud();
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): DailySaveState {
+    return {
+      inner: this.inner.getSaveState(),
+      score: this.score,
+      lines: this.lines,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<DailySaveState>(state, {
+      inner: "state",
+      score: "number",
+      lines: "number",
+    });
+    if (saved.inner) {
+      this.inner.restoreSaveState(saved.inner);
+    }
+    this.score = saved.score;
+    this.lines = saved.lines;
+  }
+
+  /**
+   * プレイしているデイリーチャレンジを取得する
+   */
+  public getChallenge(): DailyChallenge {
+    return this.challenge;
+  }
+
+  /**
+   * 終了時に記録を保存し、結果コードと連続日数を含めた結果を作成する
+   * @param info - 終了条件
+   */
+  private onGameOver(info: GameOverInfo): void {
+    if (this.result) return;
+
+    const score = this.measure({
+      reason: info.reason,
+      score: this.score,
+      lines: this.lines,
+    });
+    const { entry, isBest } = recordDailyResult(
+      this.storage,
+      this.challenge,
+      score
+    );
+    const tag = getDailyTag(this.challenge.ruleset);
+    const streak = getDailyStreak(
+      loadDailyHistory(this.storage),
+      this.challenge.date
+    );
+
+    const inner = this.inner.getResult();
+    const items: ModeResultItem[] = [
+      { label: "DAILY", value: this.challenge.date },
+      ...(inner?.items ?? []),
+      { label: "ATTEMPTS", value: String(entry.attempts) },
+      { label: "STREAK", value: String(streak) },
+      {
+        label: "CODE",
+        value: encodeDailyResultCode(this.challenge.date, tag, score),
+      },
+    ];
+    this.result = {
+      title: inner?.title ?? "GAME OVER",
+      items,
+      isPersonalBest: isBest && score.completed,
+    };
+  }
+}
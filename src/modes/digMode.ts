@@ -0,0 +1,354 @@
+import { createEmptyGrid } from "../boardSpec";
+import { GameEngineConfig } from "../gameEngine";
+import {
+  GarbageConfig,
+  GarbageGenerator,
+  GarbageGeneratorState,
+  GarbageStyle,
+  getDefaultGarbageConfig,
+  isGarbageGeneratorState,
+} from "../garbage";
+import { LockResult } from "../lockAndClear";
+import { generateSeed } from "../randomizer";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatDelta,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * 自己ベストの保存形式のバージョン
+ */
+const RECORD_VERSION = 1;
+
+/**
+ * メニューで選択できる目標ライン数と穴の開け方の組み合わせ
+ */
+export const DIG_OPTIONS: ReadonlyArray<{
+  lineTarget: number;
+  style: GarbageStyle;
+}> = [
+  { lineTarget: 10, style: "clean" },
+  { lineTarget: 18, style: "clean" },
+  { lineTarget: 100, style: "clean" },
+  { lineTarget: 18, style: "messy" },
+  { lineTarget: 100, style: "messy" },
+];
+
+/**
+ * ディグモードの設定インターフェース
+ */
+export interface DigConfig {
+  /** 消去するガベージの行数 */
+  lineTarget: number;
+  /** 盤面に置いておくガベージの行数（消去した分だけ下から補充する） */
+  garbageRows: number;
+  /** ガベージ生成の設定 */
+  garbage: GarbageConfig;
+  /** ガベージの乱数シード（nullならゲームごとに生成する） */
+  seed: number | null;
+}
+
+/**
+ * ディグの記録（自己ベストとして保存される）
+ */
+export interface DigRecord {
+  /** 保存形式のバージョン */
+  version: number;
+  /** クリアタイム（ミリ秒） */
+  time: number;
+  /** 使用したピース数 */
+  pieces: number;
+  /** 記録した日時（ISO 8601） */
+  date: string;
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface DigSaveState {
+  /** タイマーを開始したかどうか */
+  started: boolean;
+  /** 経過時間（ミリ秒） */
+  elapsed: number;
+  /** 設置ピース数 */
+  pieces: number;
+  /** 盤面に出したガベージの行数（初期配置を含む） */
+  spawned: number;
+  /** 消去したガベージの行数 */
+  cleared: number;
+  /** ガベージ生成器の状態 */
+  generator: GarbageGeneratorState | null;
+}
+
+/**
+ * ディグ（チーズレース）モード
+ * ガベージで埋まった盤面から始め、目標の行数のガベージを消去するまでのタイムを計る
+ * タイマーは最初の操作で開始する
+ */
+export class DigMode extends BaseGameMode {
+  public readonly type = "dig";
+  public readonly name: string;
+
+  private generator: GarbageGenerator | null = null;
+  /** 保存されている自己ベスト（プレイ開始時点のもの） */
+  private personalBest: DigRecord | null = null;
+
+  private started: boolean = false;
+  private finished: boolean = false;
+  private elapsed: number = 0;
+  private pieces: number = 0;
+  /** 盤面に出したガベージの行数（初期配置を含む） */
+  private spawned: number = 0;
+  /** 消去したガベージの行数 */
+  private cleared: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * DigModeのコンストラクタ
+   * @param config - ディグの設定
+   * @param storage - 自己ベストの保存先
+   */
+  constructor(
+    private config: DigConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+    const messy = config.garbage.style === "messy" ? " MESSY" : "";
+    this.name = `DIG ${config.lineTarget}L${messy}`;
+  }
+
+  /**
+   * 盤面の下部をガベージで埋めた状態から始める
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    this.generator = new GarbageGenerator(
+      config.board.width,
+      this.config.garbage,
+      this.config.seed ?? generateSeed()
+    );
+
+    const grid = createEmptyGrid(config.board);
+    const rows = this.generator.nextRows(this.getInitialRows());
+    grid.splice(grid.length - rows.length, rows.length, ...rows);
+
+    return { ...config, initialGrid: grid };
+  }
+
+  /**
+   * プレイ開始時に状態を初期化し、最新の自己ベストを読み込む
+   */
+  protected onAttach(): void {
+    this.started = false;
+    this.finished = false;
+    this.elapsed = 0;
+    this.pieces = 0;
+    this.spawned = this.getInitialRows();
+    this.cleared = 0;
+    this.result = null;
+    this.personalBest = this.loadPersonalBest();
+    this.listen("lock", (result) => this.onLock(result));
+  }
+
+  public onInput(): void {
+    if (!this.finished) {
+      this.started = true;
+    }
+  }
+
+  public update(delta: number): void {
+    if (this.started && !this.finished) {
+      this.elapsed += delta;
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    const items: ModeHudItem[] = [
+      { label: "TIME", value: formatTime(this.elapsed) },
+      { label: "LEFT", value: String(this.getRemaining()) },
+    ];
+    if (this.personalBest) {
+      items.push({ label: "BEST", value: formatTime(this.personalBest.time) });
+    }
+    return items;
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): DigSaveState {
+    return {
+      started: this.started,
+      elapsed: this.elapsed,
+      pieces: this.pieces,
+      spawned: this.spawned,
+      cleared: this.cleared,
+      generator: this.generator?.getState() ?? null,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<DigSaveState>(state, {
+      started: "boolean",
+      elapsed: "number",
+      pieces: "number",
+      spawned: "number",
+      cleared: "number",
+      generator: (value) => value === null || isGarbageGeneratorState(value),
+    });
+    this.started = saved.started;
+    this.elapsed = saved.elapsed;
+    this.pieces = saved.pieces;
+    this.spawned = saved.spawned;
+    this.cleared = saved.cleared;
+    if (saved.generator) {
+      this.generator?.setState(saved.generator);
+    }
+  }
+
+  /**
+   * 経過時間を取得する（ミリ秒）
+   */
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * 残りのガベージの行数を取得する
+   */
+  public getRemaining(): number {
+    return Math.max(0, this.config.lineTarget - this.cleared);
+  }
+
+  /**
+   * 保存されている自己ベストを取得する
+   */
+  public getPersonalBest(): DigRecord | null {
+    return this.personalBest;
+  }
+
+  /**
+   * ピースの固定時に消去したガベージを数え、同じ行数を下から補充する
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    if (this.finished) return;
+
+    this.pieces++;
+    if (result.garbageLinesCleared === 0) return;
+
+    this.cleared += result.garbageLinesCleared;
+    if (this.cleared >= this.config.lineTarget) {
+      this.complete();
+      return;
+    }
+
+    const refill = Math.min(
+      result.garbageLinesCleared,
+      this.config.lineTarget - this.spawned
+    );
+    if (refill > 0 && this.generator) {
+      this.engine?.addGarbageRows(this.generator.nextRows(refill));
+      this.spawned += refill;
+    }
+  }
+
+  /**
+   * 目標の行数のガベージを消去した時の処理
+   * 自己ベストと比較して保存し、エンジンを終了させる
+   */
+  private complete(): void {
+    this.finished = true;
+
+    const record: DigRecord = {
+      version: RECORD_VERSION,
+      time: this.elapsed,
+      pieces: this.pieces,
+      date: new Date().toISOString(),
+    };
+    const previous = this.personalBest;
+    const isPersonalBest = previous === null || record.time < previous.time;
+    if (isPersonalBest) {
+      saveJSON(this.storage, this.getStorageKey(), record);
+    }
+
+    const seconds = record.time / 1000;
+    const items: ModeResultItem[] = [
+      { label: "TIME", value: formatTime(record.time) },
+      { label: "PIECES", value: String(record.pieces) },
+      {
+        label: "PPS",
+        value: seconds > 0 ? (record.pieces / seconds).toFixed(2) : "-",
+      },
+    ];
+    if (previous) {
+      items.push({
+        label: "PB",
+        value: `${formatTime(previous.time)} (${formatDelta(record.time - previous.time)})`,
+      });
+    }
+    this.result = { title: `${this.name} CLEAR`, items, isPersonalBest };
+
+    this.engine?.end("goalReached");
+  }
+
+  /**
+   * 最初に盤面に置くガベージの行数
+   */
+  private getInitialRows(): number {
+    return Math.min(this.config.garbageRows, this.config.lineTarget);
+  }
+
+  /**
+   * 保存されている自己ベストを読み込む
+   * @returns 自己ベスト（ない場合、バージョンや形式が異なる場合はnull）
+   */
+  private loadPersonalBest(): DigRecord | null {
+    const data = loadJSON<DigRecord | null>(
+      this.storage,
+      this.getStorageKey(),
+      null
+    );
+    if (
+      !data ||
+      data.version !== RECORD_VERSION ||
+      typeof data.time !== "number" ||
+      typeof data.pieces !== "number"
+    ) {
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * 自己ベストの保存キー（穴の開け方と目標の行数ごと）
+   */
+  private getStorageKey(): string {
+    return `dig.best.${this.config.garbage.style}.${this.config.lineTarget}`;
+  }
+}
+
+/**
+ * デフォルトのディグ設定を取得する
+ * @returns デフォルトのディグ設定（18行、盤面には10行まで、穴1つ）
+ */
+export function getDefaultDigConfig(): DigConfig {
+  return {
+    lineTarget: 18,
+    garbageRows: 10,
+    garbage: getDefaultGarbageConfig(),
+    seed: null,
+  };
+}
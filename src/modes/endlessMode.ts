@@ -0,0 +1,15 @@
+import { GameEngine } from "../gameEngine";
+import { BaseGameMode } from "./gameMode";
+
+/**
+ * エンドレスモード
+ * 目標や制限時間はなく、トップアウトするまでプレイを続ける
+ */
+export class EndlessMode extends BaseGameMode {
+  public readonly type = "endless";
+  public readonly name = "ENDLESS";
+
+  protected onAttach(_engine: GameEngine): void {
+    // 購読するイベントはない
+  }
+}
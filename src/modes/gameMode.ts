@@ -0,0 +1,296 @@
+import { DailyChallenge } from "../dailyChallenge";
+import {
+  GameEngine,
+  GameEngineConfig,
+  GameEngineEventMap,
+} from "../gameEngine";
+import { GarbageStyle } from "../garbage";
+import { PuzzlePack } from "../puzzle";
+import { LevelGoalType } from "../scoreAndLevel";
+import { StackVisibilityMode } from "../stackVisibility";
+
+/**
+ * ゲームモードの種類
+ */
+export type GameModeType =
+  | "endless"
+  | "sprint"
+  | "ultra"
+  | "marathon"
+  | "zen"
+  | "dig"
+  | "master"
+  | "puzzle"
+  | "survival"
+  | "daily";
+
+/**
+ * メニューで選択されたゲームモードとその設定
+ */
+export type ModeSelection =
+  | { type: "endless" }
+  | { type: "sprint"; lineTarget: number }
+  | { type: "ultra"; timeLimit: number }
+  | { type: "marathon"; levelGoal: LevelGoalType; endless: boolean }
+  | { type: "zen"; resume: boolean; fumen?: string }
+  | { type: "dig"; lineTarget: number; style: GarbageStyle }
+  | { type: "master" }
+  | { type: "puzzle"; pack: PuzzlePack; index: number }
+  | { type: "survival" }
+  | { type: "daily"; challenge: DailyChallenge };
+
+/**
+ * HUDに表示するモード固有の項目
+ */
+export interface ModeHudItem {
+  /** 項目名（例: "TIME"） */
+  label: string;
+  /** 表示する値（例: "0:42.195"） */
+  value: string;
+  /** 文字色（省略時はUIの標準色） */
+  color?: string;
+}
+
+/**
+ * リザルト画面に表示する1行
+ */
+export interface ModeResultItem {
+  /** 項目名 */
+  label: string;
+  /** 表示する値 */
+  value: string;
+}
+
+/**
+ * モードを終えた時の結果
+ */
+export interface ModeResult {
+  /** リザルト画面のタイトル（例: "SPRINT 40L CLEAR"） */
+  title: string;
+  /** 結果の内訳 */
+  items: ModeResultItem[];
+  /** 自己ベストを更新したかどうか */
+  isPersonalBest: boolean;
+}
+
+/**
+ * 中断したゲームを再開するためのモードの進行状況
+ * JSONにできる値で、形式はモードごとに決める
+ */
+export type ModeSaveState = object;
+
+/**
+ * 保存された進行状況の項目の形式
+ * boolean: 真偽値、number: 有限の数、numbers: 有限の数の配列、state: オブジェクトかnull
+ * 関数の場合は、値が正しい形式ならtrueを返すもの
+ */
+export type SaveStateField =
+  "boolean" | "number" | "numbers" | "state" | ((value: unknown) => boolean);
+
+/**
+ * 項目の形式ごとの確認方法と、誤っている場合のメッセージ
+ */
+const SAVE_STATE_FIELDS: Record<
+  Exclude<SaveStateField, (value: unknown) => boolean>,
+  { check: (value: unknown) => boolean; message: string }
+> = {
+  boolean: {
+    check: (value) => typeof value === "boolean",
+    message: "must be a boolean",
+  },
+  number: {
+    check: (value) => typeof value === "number" && Number.isFinite(value),
+    message: "must be a finite number",
+  },
+  numbers: {
+    check: (value) =>
+      Array.isArray(value) &&
+      value.every((item) => typeof item === "number" && Number.isFinite(item)),
+    message: "must be an array of finite numbers",
+  },
+  state: {
+    check: (value) =>
+      value === null || (typeof value === "object" && !Array.isArray(value)),
+    message: "must be an object or null",
+  },
+};
+
+/**
+ * 保存された進行状況の各項目の形式を確認する（restoreSaveStateで復元する前に呼び出す）
+ * @param state - 保存された進行状況
+ * @param fields - 項目ごとの形式
+ * @returns 形式を確認した進行状況
+ * @throws 項目がない、または形式が正しくない場合
+ */
+export function readModeSaveState<T extends ModeSaveState>(
+  state: ModeSaveState,
+  fields: { [K in keyof T]-?: SaveStateField }
+): T {
+  const record = state as Record<string, unknown>;
+  for (const [key, field] of Object.entries<SaveStateField>(fields)) {
+    const { check, message } =
+      typeof field === "function"
+        ? { check: field, message: "is not valid" }
+        : SAVE_STATE_FIELDS[field];
+    if (!check(record[key])) {
+      throw new Error(`Invalid mode save state: ${key} ${message}`);
+    }
+  }
+  return state as T;
+}
+
+/**
+ * ゲームモードのインターフェース
+ * エンジンの設定を調整し、エンジンのイベントを購読して終了条件・HUD・結果を管理する
+ */
+export interface GameMode {
+  /** モードの種類 */
+  readonly type: GameModeType;
+  /** 表示名 */
+  readonly name: string;
+  /** 標準のスコア・レベル・ライン数の表示を使うかどうか */
+  readonly showsScorePanel: boolean;
+  /** 固定したブロックの見え方（省略時は設定画面で選んだ見え方を使う） */
+  readonly stackVisibility?: StackVisibilityMode;
+  /**
+   * モードに合わせてエンジンの設定を調整する
+   * @param config - シーンの標準設定
+   * @returns モード用の設定
+   */
+  configureEngine(config: GameEngineConfig): GameEngineConfig;
+  /**
+   * エンジンのイベントの購読を開始する（エンジンの開始前に呼び出す）
+   * @param engine - 対象のエンジン
+   */
+  attach(engine: GameEngine): void;
+  /**
+   * エンジンのイベントの購読を解除する
+   */
+  detach(): void;
+  /**
+   * プレイヤーの操作があった時に呼び出す
+   */
+  onInput(): void;
+  /**
+   * 時間を進める（一時停止中は呼び出さない）
+   * @param delta - 経過時間（ミリ秒）
+   */
+  update(delta: number): void;
+  /**
+   * HUDに表示する項目を取得する
+   */
+  getHud(): ModeHudItem[];
+  /**
+   * モードを終えた時の結果を取得する（終えていない場合はnull）
+   */
+  getResult(): ModeResult | null;
+  /**
+   * 中断のために進行状況（タイマー・ライン数など）を取得する
+   * @returns 進行状況（保存するものがない場合はnull）
+   */
+  getSaveState(): ModeSaveState | null;
+  /**
+   * getSaveStateで取得した進行状況を復元する（attachの後に呼び出す）
+   * @param state - 進行状況
+   */
+  restoreSaveState(state: ModeSaveState): void;
+}
+
+/**
+ * エンジンのイベントリスナーの登録・解除を管理するゲームモードの基底クラス
+ */
+export abstract class BaseGameMode implements GameMode {
+  abstract readonly type: GameModeType;
+  abstract readonly name: string;
+  public readonly showsScorePanel: boolean = true;
+
+  /** 購読中のエンジン */
+  protected engine: GameEngine | null = null;
+  /** 登録したリスナーの解除処理 */
+  private unsubscribers: Array<() => void> = [];
+
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    return config;
+  }
+
+  public attach(engine: GameEngine): void {
+    this.detach();
+    this.engine = engine;
+    this.onAttach(engine);
+  }
+
+  public detach(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.engine = null;
+  }
+
+  public onInput(): void {
+    // 操作に反応しないモードでは何もしない
+  }
+
+  public update(_delta: number): void {
+    // 時間に依存しないモードでは何もしない
+  }
+
+  public getHud(): ModeHudItem[] {
+    return [];
+  }
+
+  public getResult(): ModeResult | null {
+    return null;
+  }
+
+  public getSaveState(): ModeSaveState | null {
+    return null;
+  }
+
+  public restoreSaveState(_state: ModeSaveState): void {
+    // 進行状況を持たないモードでは何もしない
+  }
+
+  /**
+   * エンジンに接続された時の処理（イベントの購読など）
+   * @param engine - 対象のエンジン
+   */
+  protected abstract onAttach(engine: GameEngine): void;
+
+  /**
+   * エンジンのイベントを購読する（detachで自動的に解除される）
+   * @param event - イベント名
+   * @param listener - リスナー関数
+   */
+  protected listen<K extends keyof GameEngineEventMap>(
+    event: K,
+    listener: (payload: GameEngineEventMap[K]) => void
+  ): void {
+    const engine = this.engine;
+    if (!engine) return;
+
+    engine.on(event, listener);
+    this.unsubscribers.push(() => engine.off(event, listener));
+  }
+}
+
+/**
+ * 時間を "分:秒.ミリ秒" の形式に変換する（例: 65432 → "1:05.432"）
+ * @param ms - 時間（ミリ秒）
+ * @returns 表示用の文字列
+ */
+export function formatTime(ms: number): string {
+  const total = Math.max(0, Math.floor(ms));
+  const minutes = Math.floor(total / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  return `${minutes}:${String(seconds).padStart(2, "0")}.${String(millis).padStart(3, "0")}`;
+}
+
+/**
+ * 自己ベストとの差を符号付きの秒で表す（例: -1234 → "-1.234"）
+ * @param ms - 差（ミリ秒、負なら自己ベストより速い）
+ * @returns 表示用の文字列
+ */
+export function formatDelta(ms: number): string {
+  const sign = ms < 0 ? "-" : "+";
+  return `${sign}${(Math.abs(Math.round(ms)) / 1000).toFixed(3)}`;
+}
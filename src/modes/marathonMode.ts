@@ -0,0 +1,277 @@
+import { GameEngineConfig, GameOverInfo, ScoreSnapshot } from "../gameEngine";
+import { LevelGoalType } from "../scoreAndLevel";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * ゴール達成後に続けてプレイしている時のHUDの文字色
+ */
+const GOAL_CLEARED_COLOR = "#ffd700";
+
+/**
+ * マラソンモードの設定インターフェース
+ */
+export interface MarathonConfig {
+  /** このレベルをクリアするとゴール */
+  goalLevel: number;
+  /** この行数を消去するとゴール（レベルより先に達した場合） */
+  goalLines: number;
+  /** レベルアップの条件（固定ゴールまたは可変ゴール） */
+  levelGoal: LevelGoalType;
+  /** 固定ゴールでのレベルアップに必要な消去行数 */
+  linesPerLevel: number;
+  /** ゴール達成後もトップアウトまで続けるかどうか */
+  endless: boolean;
+}
+
+/**
+ * マラソンモードの表示名を作成する（例: "MARATHON VARIABLE ENDLESS"）
+ * @param levelGoal - レベルアップの条件
+ * @param endless - ゴール達成後も続けるかどうか
+ * @returns 表示名
+ */
+export function getMarathonName(
+  levelGoal: LevelGoalType,
+  endless: boolean
+): string {
+  const parts = ["MARATHON"];
+  if (levelGoal === "variable") parts.push("VARIABLE");
+  if (endless) parts.push("ENDLESS");
+  return parts.join(" ");
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface MarathonSaveState {
+  /** タイマーを開始したかどうか */
+  started: boolean;
+  /** 目標レベルに到達したかどうか */
+  goalCleared: boolean;
+  /** 経過時間（ミリ秒） */
+  elapsed: number;
+  /** スコア */
+  score: number;
+  /** レベル */
+  level: number;
+  /** 消去ライン数 */
+  lines: number;
+}
+
+/**
+ * マラソン（規定レベルまでの耐久）モード
+ * ガイドラインの落下速度でプレイし、ゴールのレベル（またはライン数）に達するとゲームを終了する
+ * エンドレス設定ではゴール達成後もトップアウトまで続ける
+ */
+export class MarathonMode extends BaseGameMode {
+  public readonly type = "marathon";
+  public readonly name: string;
+
+  private started: boolean = false;
+  private finished: boolean = false;
+  private goalCleared: boolean = false;
+  private elapsed: number = 0;
+  private score: number = 0;
+  private level: number = 1;
+  private lines: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * MarathonModeのコンストラクタ
+   * @param config - マラソンの設定
+   */
+  constructor(private config: MarathonConfig) {
+    super();
+    this.name = getMarathonName(config.levelGoal, config.endless);
+  }
+
+  /**
+   * ガイドラインの落下速度とレベルアップの条件を設定する
+   * マラソンは常にレベル1から始まる
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    return {
+      ...config,
+      score: {
+        ...config.score,
+        initialLevel: 1,
+        linesPerLevel: this.config.linesPerLevel,
+        gravityCurve: "guideline",
+        levelGoal: this.config.levelGoal,
+      },
+    };
+  }
+
+  /**
+   * プレイ開始時に状態を初期化する
+   */
+  protected onAttach(): void {
+    this.started = false;
+    this.finished = false;
+    this.goalCleared = false;
+    this.elapsed = 0;
+    this.score = 0;
+    this.level = 1;
+    this.lines = 0;
+    this.result = null;
+    this.listen("score", (snapshot) => this.onScore(snapshot));
+    this.listen("lock", () => this.checkGoal());
+    this.listen("gameOver", (info) => this.onGameOver(info));
+  }
+
+  public onInput(): void {
+    if (!this.finished) {
+      this.started = true;
+    }
+  }
+
+  public update(delta: number): void {
+    if (this.started && !this.finished) {
+      this.elapsed += delta;
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    if (this.goalCleared) {
+      return [
+        { label: "GOAL", value: "CLEAR", color: GOAL_CLEARED_COLOR },
+        { label: "TIME", value: formatTime(this.elapsed) },
+      ];
+    }
+
+    return [
+      {
+        label: "LEVEL",
+        value: `${Math.min(this.level, this.config.goalLevel)}/${this.config.goalLevel}`,
+      },
+      {
+        label: "NEXT",
+        value: String(this.engine?.getLinesToNextLevel() ?? 0),
+      },
+      { label: "TIME", value: formatTime(this.elapsed) },
+    ];
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): MarathonSaveState {
+    return {
+      started: this.started,
+      goalCleared: this.goalCleared,
+      elapsed: this.elapsed,
+      score: this.score,
+      level: this.level,
+      lines: this.lines,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<MarathonSaveState>(state, {
+      started: "boolean",
+      goalCleared: "boolean",
+      elapsed: "number",
+      score: "number",
+      level: "number",
+      lines: "number",
+    });
+    this.started = saved.started;
+    this.goalCleared = saved.goalCleared;
+    this.elapsed = saved.elapsed;
+    this.score = saved.score;
+    this.level = saved.level;
+    this.lines = saved.lines;
+  }
+
+  /**
+   * ゴールを達成したかどうか
+   */
+  public isGoalCleared(): boolean {
+    return this.goalCleared;
+  }
+
+  /**
+   * 経過時間を取得する（ミリ秒）
+   */
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * スコア・レベル・ライン数の更新を記録する
+   * @param snapshot - 最新のスコア情報
+   */
+  private onScore(snapshot: ScoreSnapshot): void {
+    if (this.finished) return;
+
+    this.score = snapshot.score;
+    this.level = snapshot.level;
+    this.lines = snapshot.lines;
+  }
+
+  /**
+   * ピースの固定後にゴールの達成を判定する
+   * エンドレス設定でなければエンジンを終了させる
+   */
+  private checkGoal(): void {
+    if (this.finished || this.goalCleared) return;
+
+    const reached =
+      this.level > this.config.goalLevel || this.lines >= this.config.goalLines;
+    if (!reached) return;
+
+    this.goalCleared = true;
+    if (!this.config.endless) {
+      this.finish(`${this.name} CLEAR`);
+      this.engine?.end("goalReached");
+    }
+  }
+
+  /**
+   * トップアウトした時に結果を作成する
+   * @param info - 終了条件
+   */
+  private onGameOver(info: GameOverInfo): void {
+    if (this.finished || info.reason === "goalReached") return;
+
+    this.finish(this.goalCleared ? `${this.name} CLEAR` : "GAME OVER");
+  }
+
+  /**
+   * ゲームの終了時に結果を作成する
+   * @param title - リザルト画面のタイトル
+   */
+  private finish(title: string): void {
+    this.finished = true;
+
+    const items: ModeResultItem[] = [
+      { label: "SCORE", value: String(this.score) },
+      { label: "LEVEL", value: String(this.level) },
+      { label: "LINES", value: String(this.lines) },
+      { label: "TIME", value: formatTime(this.elapsed) },
+    ];
+    this.result = { title, items, isPersonalBest: false };
+  }
+}
+
+/**
+ * デフォルトのマラソン設定を取得する
+ * @returns デフォルトのマラソン設定（レベル15または150ラインでゴール、固定ゴール）
+ */
+export function getDefaultMarathonConfig(): MarathonConfig {
+  return {
+    goalLevel: 15,
+    goalLines: 150,
+    levelGoal: "fixed",
+    linesPerLevel: 10,
+    endless: false,
+  };
+}
@@ -0,0 +1,578 @@
+import { isGridEmpty } from "../collision";
+import { FRAME_MS, GameEngineConfig, GameOverInfo } from "../gameEngine";
+import { LockResult } from "../lockAndClear";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * マスターモードの最高レベル（到達するとゲームクリア）
+ */
+export const MASTER_MAX_LEVEL = 999;
+
+/**
+ * 1セクションのレベル数（セクションの最後のレベルでレベルストップする）
+ */
+export const MASTER_SECTION_LEVELS = 100;
+
+/**
+ * 段位と必要なスコア（低い順）
+ */
+export const MASTER_GRADES: ReadonlyArray<{ name: string; score: number }> = [
+  { name: "9", score: 0 },
+  { name: "8", score: 400 },
+  { name: "7", score: 800 },
+  { name: "6", score: 1400 },
+  { name: "5", score: 2000 },
+  { name: "4", score: 3500 },
+  { name: "3", score: 5500 },
+  { name: "2", score: 8000 },
+  { name: "1", score: 12000 },
+  { name: "S1", score: 16000 },
+  { name: "S2", score: 22000 },
+  { name: "S3", score: 30000 },
+  { name: "S4", score: 40000 },
+  { name: "S5", score: 52000 },
+  { name: "S6", score: 66000 },
+  { name: "S7", score: 82000 },
+  { name: "S8", score: 100000 },
+  { name: "S9", score: 120000 },
+];
+
+/**
+ * 最高段位（GM）の名前
+ */
+export const MASTER_GRAND_MASTER = "GM";
+
+/**
+ * GMの条件（各レベルに、指定の段位・スコア以上かつ制限時間内に到達する）
+ */
+const GM_CHECKPOINTS: ReadonlyArray<{
+  level: number;
+  score: number;
+  time: number;
+}> = [
+  { level: 300, score: 12000, time: (4 * 60 + 15) * 1000 },
+  { level: 500, score: 40000, time: (7 * 60 + 30) * 1000 },
+  { level: 999, score: 126000, time: (13 * 60 + 30) * 1000 },
+];
+
+/**
+ * GMの条件となる1セクションの制限時間（ミリ秒、これより遅いセクションがあるとGMにならない）
+ */
+export const MASTER_GM_SECTION_TIME = 90 * 1000;
+
+/**
+ * 落下速度の表（このレベル以上で適用、1/256G単位）
+ */
+const GRAVITY_TABLE: ReadonlyArray<readonly [number, number]> = [
+  [0, 4],
+  [30, 6],
+  [35, 8],
+  [40, 10],
+  [50, 12],
+  [60, 16],
+  [70, 32],
+  [80, 48],
+  [90, 64],
+  [100, 80],
+  [120, 96],
+  [140, 112],
+  [160, 128],
+  [170, 144],
+  [200, 4],
+  [220, 32],
+  [230, 64],
+  [233, 96],
+  [236, 128],
+  [239, 160],
+  [243, 192],
+  [247, 224],
+  [251, 256],
+  [300, 512],
+  [330, 768],
+  [360, 1024],
+  [400, 1280],
+  [420, 1024],
+  [450, 768],
+  [500, 5120],
+];
+
+/**
+ * セクションごとの待ち時間の表（このレベル以上で適用、フレーム単位）
+ */
+const TIMING_TABLE: ReadonlyArray<{
+  level: number;
+  are: number;
+  lineClear: number;
+  lock: number;
+}> = [
+  { level: 0, are: 25, lineClear: 40, lock: 30 },
+  { level: 500, are: 25, lineClear: 25, lock: 30 },
+  { level: 600, are: 25, lineClear: 16, lock: 30 },
+  { level: 700, are: 16, lineClear: 12, lock: 30 },
+  { level: 800, are: 12, lineClear: 6, lock: 30 },
+  { level: 900, are: 12, lineClear: 6, lock: 17 },
+];
+
+/**
+ * マスターモードの待ち時間（ミリ秒）
+ */
+export interface MasterTimings {
+  /** 出現待ち（ARE） */
+  are: number;
+  /** ライン消去の待ち時間 */
+  lineClearDelay: number;
+  /** 固定猶予 */
+  lockDelay: number;
+}
+
+/**
+ * レベルに応じた落下速度を取得する
+ * @param level - レベル（0〜999）
+ * @returns 1フレームあたりの落下行数（G、レベル500以降は20G）
+ */
+export function getMasterGravity(level: number): number {
+  let gravity = GRAVITY_TABLE[0][1];
+  for (const [from, value] of GRAVITY_TABLE) {
+    if (level >= from) gravity = value;
+  }
+  return gravity / 256;
+}
+
+/**
+ * レベルに応じた待ち時間を取得する（セクションが進むごとに短くなる）
+ * @param level - レベル（0〜999）
+ * @returns 待ち時間（ミリ秒）
+ */
+export function getMasterTimings(level: number): MasterTimings {
+  let timing = TIMING_TABLE[0];
+  for (const row of TIMING_TABLE) {
+    if (level >= row.level) timing = row;
+  }
+  return {
+    are: timing.are * FRAME_MS,
+    lineClearDelay: timing.lineClear * FRAME_MS,
+    lockDelay: timing.lock * FRAME_MS,
+  };
+}
+
+/**
+ * スコアに応じた段位を取得する
+ * @param score - スコア
+ * @returns 段位の名前（"9"〜"S9"）
+ */
+export function getMasterGrade(score: number): string {
+  let grade = MASTER_GRADES[0].name;
+  for (const { name, score: required } of MASTER_GRADES) {
+    if (score >= required) grade = name;
+  }
+  return grade;
+}
+
+/**
+ * ライン消去の得点を計算する
+ * @param level - 消去前のレベル
+ * @param lines - 消去した行数
+ * @param combo - 連続消去の倍率（今回の消去を含む）
+ * @param bravo - 盤面を全て消去したかどうか（得点4倍）
+ * @returns 得点
+ */
+export function calculateMasterScore(
+  level: number,
+  lines: number,
+  combo: number,
+  bravo: boolean
+): number {
+  if (lines <= 0) return 0;
+  return Math.ceil((level + lines) / 4) * lines * combo * (bravo ? 4 : 1);
+}
+
+/**
+ * マスターモードの設定インターフェース
+ */
+export interface MasterConfig {
+  /** 開始レベル */
+  startLevel: number;
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface MasterSaveState {
+  /** 経過時間（ミリ秒） */
+  elapsed: number;
+  /** レベル */
+  level: number;
+  /** スコア */
+  score: number;
+  /** 消去ライン数 */
+  lines: number;
+  /** 連続消去の倍率 */
+  combo: number;
+  /** 最初のピースがまだ出現していないかどうか（出現ではレベルを上げない） */
+  firstSpawn: boolean;
+  /** 完了したセクションのタイム（ミリ秒） */
+  sectionTimes: number[];
+  /** 現在のセクションの開始時刻（経過時間） */
+  sectionStart: number;
+  /** 通過したGMの条件の数 */
+  checkpointsPassed: number;
+  /** GMの条件を満たせなかったかどうか */
+  gmFailed: boolean;
+}
+
+/**
+ * マスター（アーケード）モード
+ * ピースの出現とライン消去でレベルが上がり、最大20Gまで落下速度が上がる
+ * 各セクションの最後のレベル（x99）ではライン消去しないとレベルが上がらない
+ * スコアから段位を決め、途中の条件と各セクションの制限時間を満たしてレベル999に到達するとGMになる
+ */
+export class MasterMode extends BaseGameMode {
+  public readonly type = "master";
+  public readonly name = "MASTER";
+  public readonly showsScorePanel = false;
+
+  private finished: boolean = false;
+  private elapsed: number = 0;
+  private level: number = 0;
+  private score: number = 0;
+  private lines: number = 0;
+  /** 連続消去の倍率（消去しなかった場合は1に戻る） */
+  private combo: number = 1;
+  /** 最初のピースの出現ではレベルを上げない */
+  private firstSpawn: boolean = true;
+  /** 完了したセクションのタイム（ミリ秒） */
+  private sectionTimes: number[] = [];
+  /** 現在のセクションの開始時刻（経過時間） */
+  private sectionStart: number = 0;
+  /** 通過したGMの条件の数 */
+  private checkpointsPassed: number = 0;
+  /** GMの条件を満たせなかったかどうか */
+  private gmFailed: boolean = false;
+  private result: ModeResult | null = null;
+
+  /**
+   * MasterModeのコンストラクタ
+   * @param config - マスターの設定
+   */
+  constructor(private config: MasterConfig = getDefaultMasterConfig()) {
+    super();
+  }
+
+  /**
+   * アーケードの操作感に合わせてエンジンを設定する
+   * ARSの回転・段差でのみ固定猶予がリセット・ホールドなし・開始レベルの待ち時間
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    const timings = getMasterTimings(this.config.startLevel);
+    return {
+      ...config,
+      rotationSystem: "ars",
+      nextHold: { ...config.nextHold, enableHold: false },
+      lockDelay: {
+        ...config.lockDelay,
+        delay: timings.lockDelay,
+        resetMode: "step",
+      },
+      entryDelay: {
+        are: timings.are,
+        lineClearDelay: timings.lineClearDelay,
+      },
+    };
+  }
+
+  /**
+   * プレイ開始時に状態を初期化する
+   */
+  protected onAttach(): void {
+    this.finished = false;
+    this.elapsed = 0;
+    this.level = this.config.startLevel;
+    this.score = 0;
+    this.lines = 0;
+    this.combo = 1;
+    this.firstSpawn = true;
+    this.sectionTimes = [];
+    this.sectionStart = 0;
+    this.checkpointsPassed = 0;
+    this.gmFailed = false;
+    this.result = null;
+    this.listen("spawn", () => this.onSpawn());
+    this.listen("lock", (result) => this.onLock(result));
+    this.listen("gameOver", (info) => this.onGameOver(info));
+  }
+
+  /**
+   * アーケードと同様に、タイマーはプレイ開始と同時に進める
+   */
+  public update(delta: number): void {
+    if (!this.finished) {
+      this.elapsed += delta;
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    return [
+      { label: "GRADE", value: this.getGrade() },
+      { label: "SCORE", value: String(this.score) },
+      { label: "LEVEL", value: `${this.level}/${this.getLevelStop()}` },
+      { label: "TIME", value: formatTime(this.elapsed) },
+    ];
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): MasterSaveState {
+    return {
+      elapsed: this.elapsed,
+      level: this.level,
+      score: this.score,
+      lines: this.lines,
+      combo: this.combo,
+      firstSpawn: this.firstSpawn,
+      sectionTimes: [...this.sectionTimes],
+      sectionStart: this.sectionStart,
+      checkpointsPassed: this.checkpointsPassed,
+      gmFailed: this.gmFailed,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<MasterSaveState>(state, {
+      elapsed: "number",
+      level: "number",
+      score: "number",
+      lines: "number",
+      combo: "number",
+      firstSpawn: "boolean",
+      sectionTimes: "numbers",
+      sectionStart: "number",
+      checkpointsPassed: "number",
+      gmFailed: "boolean",
+    });
+    this.elapsed = saved.elapsed;
+    this.level = saved.level;
+    this.score = saved.score;
+    this.lines = saved.lines;
+    this.combo = saved.combo;
+    this.firstSpawn = saved.firstSpawn;
+    this.sectionTimes = [...saved.sectionTimes];
+    this.sectionStart = saved.sectionStart;
+    this.checkpointsPassed = saved.checkpointsPassed;
+    this.gmFailed = saved.gmFailed;
+  }
+
+  /**
+   * 現在のレベルを取得する
+   */
+  public getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * 現在のスコアを取得する
+   */
+  public getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * 現在の段位を取得する（GMの条件を全て満たした場合は"GM"）
+   */
+  public getGrade(): string {
+    if (this.checkpointsPassed >= GM_CHECKPOINTS.length) {
+      return MASTER_GRAND_MASTER;
+    }
+    return getMasterGrade(this.score);
+  }
+
+  /**
+   * 完了したセクションのタイムを取得する（ミリ秒）
+   */
+  public getSectionTimes(): number[] {
+    return [...this.sectionTimes];
+  }
+
+  /**
+   * 現在のセクションでレベルが止まるレベル（x99、最後のセクションは999）
+   */
+  private getLevelStop(): number {
+    const section = Math.floor(this.level / MASTER_SECTION_LEVELS);
+    return Math.min(
+      (section + 1) * MASTER_SECTION_LEVELS - 1,
+      MASTER_MAX_LEVEL
+    );
+  }
+
+  /**
+   * ピースの出現でレベルを1上げる（レベルストップ中と最初のピースを除く）
+   * 最初のピースでは、開始レベルの落下速度をエンジンに設定する
+   */
+  private onSpawn(): void {
+    if (this.finished) return;
+
+    if (this.firstSpawn) {
+      this.firstSpawn = false;
+      this.applySpeed();
+      return;
+    }
+    // 999の手前（998）もライン消去でしか上がらない
+    const stop = Math.min(this.getLevelStop(), MASTER_MAX_LEVEL - 1);
+    if (this.level < stop) {
+      this.setLevel(this.level + 1);
+    }
+  }
+
+  /**
+   * ピースの固定時に得点を加算し、消去した行数だけレベルを上げる
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    if (this.finished) return;
+
+    const lines = result.linesCleared;
+    if (lines === 0) {
+      this.combo = 1;
+      return;
+    }
+
+    this.combo += 2 * lines - 2;
+    const bravo = this.engine
+      ? isGridEmpty(this.engine.getState().grid)
+      : false;
+    this.score += calculateMasterScore(this.level, lines, this.combo, bravo);
+    this.lines += lines;
+    this.setLevel(Math.min(this.level + lines, MASTER_MAX_LEVEL));
+
+    if (this.level >= MASTER_MAX_LEVEL) {
+      this.finish();
+      this.engine?.end("goalReached");
+    }
+  }
+
+  /**
+   * レベルを更新し、セクションのタイム・GMの条件・速度を更新する
+   * @param level - 新しいレベル
+   */
+  private setLevel(level: number): void {
+    const previousSection = Math.floor(this.level / MASTER_SECTION_LEVELS);
+    this.level = level;
+
+    const section = Math.floor(level / MASTER_SECTION_LEVELS);
+    for (let i = previousSection; i < section; i++) {
+      this.recordSectionTime();
+    }
+    // 最後のセクションはレベル999への到達で完了する
+    if (level >= MASTER_MAX_LEVEL) {
+      this.recordSectionTime();
+    }
+
+    this.checkGrandMaster();
+    this.applySpeed();
+  }
+
+  /**
+   * 現在のセクションのタイムを記録し、制限時間を超えていればGMの条件を満たせなかったことにする
+   */
+  private recordSectionTime(): void {
+    const time = this.elapsed - this.sectionStart;
+    this.sectionTimes.push(time);
+    this.sectionStart = this.elapsed;
+    if (time > MASTER_GM_SECTION_TIME) {
+      this.gmFailed = true;
+    }
+  }
+
+  /**
+   * レベルが条件のレベルに達した時点で、GMの条件を判定する
+   */
+  private checkGrandMaster(): void {
+    while (
+      !this.gmFailed &&
+      this.checkpointsPassed < GM_CHECKPOINTS.length &&
+      this.level >= GM_CHECKPOINTS[this.checkpointsPassed].level
+    ) {
+      const checkpoint = GM_CHECKPOINTS[this.checkpointsPassed];
+      if (this.score >= checkpoint.score && this.elapsed <= checkpoint.time) {
+        this.checkpointsPassed++;
+      } else {
+        this.gmFailed = true;
+      }
+    }
+  }
+
+  /**
+   * 現在のレベルの落下速度と待ち時間をエンジンに設定する
+   */
+  private applySpeed(): void {
+    if (!this.engine) return;
+
+    const timings = getMasterTimings(this.level);
+    this.engine.setGravity(getMasterGravity(this.level));
+    this.engine.setEntryDelay({
+      are: timings.are,
+      lineClearDelay: timings.lineClearDelay,
+    });
+    this.engine.setLockDelay(timings.lockDelay);
+  }
+
+  /**
+   * トップアウトした時に結果を作成する
+   * @param info - 終了条件
+   */
+  private onGameOver(info: GameOverInfo): void {
+    if (this.finished || info.reason === "goalReached") return;
+
+    this.finish();
+  }
+
+  /**
+   * ゲームの終了時に段位とセクションのタイムを結果にまとめる
+   */
+  private finish(): void {
+    this.finished = true;
+
+    const cleared = this.level >= MASTER_MAX_LEVEL;
+    const items: ModeResultItem[] = [
+      { label: "GRADE", value: this.getGrade() },
+      { label: "SCORE", value: String(this.score) },
+      { label: "LEVEL", value: String(this.level) },
+      { label: "TIME", value: formatTime(this.elapsed) },
+    ];
+    // 開始レベルのセクションから順に記録されている
+    const firstSection = Math.floor(
+      this.config.startLevel / MASTER_SECTION_LEVELS
+    );
+    this.sectionTimes.forEach((time, index) => {
+      const from = (firstSection + index) * MASTER_SECTION_LEVELS;
+      items.push({
+        label: `${from}-${Math.min(from + MASTER_SECTION_LEVELS - 1, MASTER_MAX_LEVEL)}`,
+        value: formatTime(time),
+      });
+    });
+    this.result = {
+      title: cleared ? "MASTER CLEAR" : "GAME OVER",
+      items,
+      isPersonalBest: false,
+    };
+  }
+}
+
+/**
+ * デフォルトのマスター設定を取得する
+ * @returns デフォルトのマスター設定（レベル0から開始）
+ */
+export function getDefaultMasterConfig(): MasterConfig {
+  return {
+    startLevel: 0,
+  };
+}
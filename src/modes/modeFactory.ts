@@ -0,0 +1,85 @@
+import { KeyValueStorage, getDefaultStorage } from "../storage";
+import { GameMode, ModeSelection } from "./gameMode";
+import { EndlessMode } from "./endlessMode";
+import { SprintMode, getDefaultSprintConfig } from "./sprintMode";
+import { UltraMode, getDefaultUltraConfig } from "./ultraMode";
+import { MarathonMode, getDefaultMarathonConfig } from "./marathonMode";
+import { ZenMode, getDefaultZenConfig } from "./zenMode";
+import { DigMode, getDefaultDigConfig } from "./digMode";
+import { MasterMode, getDefaultMasterConfig } from "./masterMode";
+import { PuzzleMode } from "./puzzleMode";
+import { SurvivalMode, getDefaultSurvivalConfig } from "./survivalMode";
+import { DailyMode } from "./dailyMode";
+
+/**
+ * メニューで選択されたゲームモードを作成する
+ * @param selection - 選択されたモードと設定
+ * @param storage - 自己ベストなどの保存先
+ * @param seed - ガベージなどモードが使う乱数のシード（省略時はゲームごとに生成する）
+ * @returns ゲームモード
+ */
+export function createGameMode(
+  selection: ModeSelection,
+  storage: KeyValueStorage = getDefaultStorage(),
+  seed: number | null = null
+): GameMode {
+  switch (selection.type) {
+    case "endless":
+      return new EndlessMode();
+    case "sprint":
+      return new SprintMode(
+        { ...getDefaultSprintConfig(), lineTarget: selection.lineTarget },
+        storage
+      );
+    case "ultra":
+      return new UltraMode(
+        { ...getDefaultUltraConfig(), timeLimit: selection.timeLimit },
+        storage
+      );
+    case "marathon":
+      return new MarathonMode({
+        ...getDefaultMarathonConfig(),
+        levelGoal: selection.levelGoal,
+        endless: selection.endless,
+      });
+    case "zen":
+      return new ZenMode(
+        {
+          ...getDefaultZenConfig(),
+          resume: selection.resume,
+          fumen: selection.fumen,
+        },
+        storage
+      );
+    case "dig": {
+      const config = getDefaultDigConfig();
+      return new DigMode(
+        {
+          ...config,
+          lineTarget: selection.lineTarget,
+          garbage: { ...config.garbage, style: selection.style },
+          seed,
+        },
+        storage
+      );
+    }
+    case "master":
+      return new MasterMode(getDefaultMasterConfig());
+    case "puzzle":
+      return new PuzzleMode(
+        { pack: selection.pack, index: selection.index },
+        storage
+      );
+    case "survival":
+      return new SurvivalMode(
+        { ...getDefaultSurvivalConfig(), seed },
+        storage
+      );
+    case "daily":
+      return new DailyMode(selection.challenge, storage);
+    default:
+      throw new Error(
+        `Unknown game mode: ${(selection as ModeSelection).type}`
+      );
+  }
+}
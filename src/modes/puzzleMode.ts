@@ -0,0 +1,275 @@
+import { isGridEmpty } from "../collision";
+import { GameEngineConfig, GameOverInfo } from "../gameEngine";
+import { LockResult } from "../lockAndClear";
+import {
+  PuzzleDefinition,
+  PuzzlePack,
+  createPuzzleGrid,
+  describePuzzleGoal,
+  parsePieceSequence,
+} from "../puzzle";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import { TetrominoType } from "../tetromino";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeSaveState,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * パズルモードの設定インターフェース
+ */
+export interface PuzzleConfig {
+  /** 遊ぶパズルのパック */
+  pack: PuzzlePack;
+  /** パック内のパズルの番号 */
+  index: number;
+}
+
+/**
+ * パックごとの進捗（保存される）
+ */
+export interface PuzzleProgress {
+  /** クリアしたパズルのID */
+  cleared: string[];
+}
+
+/**
+ * パックの進捗の保存キー
+ * @param packId - パックのID
+ */
+function getProgressKey(packId: string): string {
+  return `puzzle.progress.${packId}`;
+}
+
+/**
+ * 保存されているパックの進捗を読み込む
+ * @param storage - 保存先
+ * @param packId - パックのID
+ * @returns 進捗（保存されていなければ何もクリアしていない状態）
+ */
+export function loadPuzzleProgress(
+  storage: KeyValueStorage,
+  packId: string
+): PuzzleProgress {
+  return loadJSON<PuzzleProgress>(storage, getProgressKey(packId), {
+    cleared: [],
+  });
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface PuzzleSaveState {
+  /** 使ったピース数 */
+  pieces: number;
+  /** 消去ライン数 */
+  lines: number;
+}
+
+/**
+ * パズル（ミッション）モード
+ * 決められた盤面とピース順から始め、使えるピースの数以内に目標を達成するとクリア
+ * 考える時間を取れるよう自然落下はなく、ピースはハードドロップでのみ固定される
+ */
+export class PuzzleMode extends BaseGameMode {
+  public readonly type = "puzzle";
+  public readonly name: string;
+  public readonly showsScorePanel = false;
+
+  private puzzle: PuzzleDefinition;
+  private finished: boolean = false;
+  private cleared: boolean = false;
+  private pieces: number = 0;
+  private lines: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * PuzzleModeのコンストラクタ
+   * @param config - パズルの設定
+   * @param storage - 進捗の保存先
+   * @throws パック内に指定の番号のパズルがない場合
+   */
+  constructor(
+    private config: PuzzleConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+    const puzzle = config.pack.puzzles[config.index];
+    if (!puzzle) {
+      throw new Error(`Unknown puzzle: ${config.pack.id}[${config.index}]`);
+    }
+    this.puzzle = puzzle;
+    this.name = puzzle.name;
+  }
+
+  /**
+   * パズルの盤面・ピース順・ホールドの可否を設定する
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    return {
+      ...config,
+      nextHold: {
+        ...config.nextHold,
+        enableHold: this.puzzle.hold,
+        sequence: parsePieceSequence(this.puzzle.pieces),
+      },
+      gravity: false,
+      lockDelay: { ...config.lockDelay, resetMode: "infinite" },
+      initialGrid: createPuzzleGrid(this.puzzle.board, config.board),
+    };
+  }
+
+  /**
+   * プレイ開始時に状態を初期化する
+   */
+  protected onAttach(): void {
+    this.finished = false;
+    this.cleared = false;
+    this.pieces = 0;
+    this.lines = 0;
+    this.result = null;
+    this.listen("lock", (result) => this.onLock(result));
+    this.listen("gameOver", (info) => this.onGameOver(info));
+  }
+
+  public getHud(): ModeHudItem[] {
+    return [
+      { label: "GOAL", value: describePuzzleGoal(this.puzzle.goal) },
+      { label: "PIECES", value: String(this.getPiecesLeft()) },
+    ];
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): PuzzleSaveState {
+    return {
+      pieces: this.pieces,
+      lines: this.lines,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<PuzzleSaveState>(state, {
+      pieces: "number",
+      lines: "number",
+    });
+    this.pieces = saved.pieces;
+    this.lines = saved.lines;
+  }
+
+  /**
+   * 残りのピースの数を取得する
+   */
+  public getPiecesLeft(): number {
+    return Math.max(0, this.puzzle.pieceLimit - this.pieces);
+  }
+
+  /**
+   * パズルをクリアしたかどうか
+   */
+  public isCleared(): boolean {
+    return this.cleared;
+  }
+
+  /**
+   * ピースの固定時に目標の達成を判定する
+   * 目標を達成せずにピースを使い切った場合は失敗で終了する
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    if (this.finished) return;
+
+    this.pieces++;
+    this.lines += result.linesCleared;
+
+    if (this.isGoalAchieved(result)) {
+      this.finish(true);
+      this.engine?.end("goalReached");
+    } else if (this.pieces >= this.puzzle.pieceLimit) {
+      this.finish(false);
+      this.engine?.end("outOfPieces");
+    }
+  }
+
+  /**
+   * 直前の固定で目標を達成したかどうか
+   * @param result - 固定化の結果
+   */
+  private isGoalAchieved(result: LockResult): boolean {
+    const goal = this.puzzle.goal;
+    switch (goal.type) {
+      case "lines":
+        return this.lines >= goal.lines;
+      case "tSpin":
+        return (
+          result.spin.kind === "full" &&
+          result.spin.pieceType === TetrominoType.T &&
+          result.linesCleared === goal.lines
+        );
+      case "perfectClear":
+        return (
+          result.linesCleared > 0 &&
+          this.engine !== null &&
+          isGridEmpty(this.engine.getState().grid)
+        );
+      case "survive":
+        return this.pieces >= goal.pieces;
+    }
+  }
+
+  /**
+   * トップアウトした時に失敗の結果を作成する
+   * @param info - 終了条件
+   */
+  private onGameOver(info: GameOverInfo): void {
+    if (this.finished || info.reason === "goalReached") return;
+
+    this.finish(false);
+  }
+
+  /**
+   * パズルの終了時に結果を作成し、クリアした場合は進捗を保存する
+   * @param cleared - 目標を達成したかどうか
+   */
+  private finish(cleared: boolean): void {
+    this.finished = true;
+    this.cleared = cleared;
+
+    const { pack } = this.config;
+    const progress = loadPuzzleProgress(this.storage, pack.id);
+    if (cleared && !progress.cleared.includes(this.puzzle.id)) {
+      progress.cleared.push(this.puzzle.id);
+      saveJSON(this.storage, getProgressKey(pack.id), progress);
+    }
+    const clearedInPack = pack.puzzles.filter((puzzle) =>
+      progress.cleared.includes(puzzle.id)
+    ).length;
+
+    this.result = {
+      title: cleared ? "PUZZLE CLEAR" : "PUZZLE FAILED",
+      items: [
+        { label: "PUZZLE", value: this.puzzle.name },
+        { label: "GOAL", value: describePuzzleGoal(this.puzzle.goal) },
+        {
+          label: "PIECES",
+          value: `${this.pieces}/${this.puzzle.pieceLimit}`,
+        },
+        {
+          label: pack.name,
+          value: `${clearedInPack}/${pack.puzzles.length}`,
+        },
+      ],
+      isPersonalBest: false,
+    };
+  }
+}
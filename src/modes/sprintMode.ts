@@ -0,0 +1,383 @@
+import { LockResult } from "../lockAndClear";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatDelta,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * メニューで選択できる目標ライン数
+ */
+export const SPRINT_LINE_TARGETS = [20, 40, 100] as const;
+
+/**
+ * 自己ベストより速い・遅い時のHUDの文字色
+ */
+const AHEAD_COLOR = "#00ff00";
+const BEHIND_COLOR = "#ff4444";
+
+/**
+ * 自己ベストの保存形式のバージョン（形式を変えたら増やし、古い記録は読み込まない）
+ */
+const RECORD_VERSION = 1;
+
+/**
+ * スプリントモードの設定インターフェース
+ */
+export interface SprintConfig {
+  /** 目標ライン数 */
+  lineTarget: number;
+  /** スプリットを記録する間隔（ライン数） */
+  splitInterval: number;
+}
+
+/**
+ * スプリントの記録（自己ベストとして保存される）
+ */
+export interface SprintRecord {
+  /** 保存形式のバージョン */
+  version: number;
+  /** クリアタイム（ミリ秒） */
+  time: number;
+  /** 各スプリット地点に到達した時間（ミリ秒、最後の要素はクリアタイム） */
+  splits: number[];
+  /** 使用したピース数 */
+  pieces: number;
+  /** 記録した日時（ISO 8601） */
+  date: string;
+}
+
+/**
+ * スプリットを記録するライン数の一覧を作成する
+ * 間隔ごとの地点に加え、目標ライン数を必ず最後に含む
+ * @param lineTarget - 目標ライン数
+ * @param splitInterval - スプリットの間隔
+ * @returns スプリット地点のライン数（昇順）
+ */
+export function getSplitPoints(
+  lineTarget: number,
+  splitInterval: number
+): number[] {
+  const points: number[] = [];
+  for (let lines = splitInterval; lines < lineTarget; lines += splitInterval) {
+    points.push(lines);
+  }
+  points.push(lineTarget);
+  return points;
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface SprintSaveState {
+  /** タイマーを開始したかどうか */
+  started: boolean;
+  /** 経過時間（ミリ秒） */
+  elapsed: number;
+  /** 消去ライン数 */
+  lines: number;
+  /** 設置ピース数 */
+  pieces: number;
+  /** 到達したスプリット地点の時間 */
+  splits: number[];
+}
+
+/**
+ * スプリント（規定ライン数のタイムアタック）モード
+ * タイマーは最初の操作で開始し、目標ライン数に到達するとゲームを終了する
+ */
+export class SprintMode extends BaseGameMode {
+  public readonly type = "sprint";
+  public readonly name: string;
+
+  /** スプリットを記録するライン数 */
+  private splitPoints: number[];
+  /** 保存されている自己ベスト（プレイ開始時点のもの） */
+  private personalBest: SprintRecord | null;
+
+  private started: boolean = false;
+  private finished: boolean = false;
+  private elapsed: number = 0;
+  private lines: number = 0;
+  private pieces: number = 0;
+  /** 到達したスプリット地点の時間 */
+  private splits: number[] = [];
+  private result: ModeResult | null = null;
+
+  /**
+   * SprintModeのコンストラクタ
+   * @param config - スプリントの設定
+   * @param storage - 自己ベストの保存先
+   */
+  constructor(
+    private config: SprintConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+    this.name = `SPRINT ${config.lineTarget}L`;
+    this.splitPoints = getSplitPoints(config.lineTarget, config.splitInterval);
+    this.personalBest = this.loadPersonalBest();
+  }
+
+  /**
+   * プレイ開始時に状態を初期化し、最新の自己ベストを読み込む
+   */
+  protected onAttach(): void {
+    this.started = false;
+    this.finished = false;
+    this.elapsed = 0;
+    this.lines = 0;
+    this.pieces = 0;
+    this.splits = [];
+    this.result = null;
+    this.personalBest = this.loadPersonalBest();
+    this.listen("lock", (result) => this.onLock(result));
+  }
+
+  public onInput(): void {
+    if (!this.finished) {
+      this.started = true;
+    }
+  }
+
+  public update(delta: number): void {
+    if (this.started && !this.finished) {
+      this.elapsed += delta;
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    const items: ModeHudItem[] = [
+      { label: "TIME", value: formatTime(this.elapsed) },
+      {
+        label: "LINES",
+        value: `${Math.min(this.lines, this.config.lineTarget)}/${this.config.lineTarget}`,
+      },
+    ];
+
+    const delta = this.getDelta();
+    if (delta !== null) {
+      items.push({
+        label: "PB",
+        value: formatDelta(delta),
+        color: delta <= 0 ? AHEAD_COLOR : BEHIND_COLOR,
+      });
+    }
+    return items;
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): SprintSaveState {
+    return {
+      started: this.started,
+      elapsed: this.elapsed,
+      lines: this.lines,
+      pieces: this.pieces,
+      splits: [...this.splits],
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<SprintSaveState>(state, {
+      started: "boolean",
+      elapsed: "number",
+      lines: "number",
+      pieces: "number",
+      splits: "numbers",
+    });
+    this.started = saved.started;
+    this.elapsed = saved.elapsed;
+    this.lines = saved.lines;
+    this.pieces = saved.pieces;
+    this.splits = [...saved.splits];
+  }
+
+  /**
+   * 経過時間を取得する（ミリ秒）
+   */
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * 到達したスプリット地点の時間を取得する
+   */
+  public getSplits(): number[] {
+    return [...this.splits];
+  }
+
+  /**
+   * 自己ベストとの差を取得する（ミリ秒、負なら自己ベストより速い）
+   * 直前のスプリット地点での差を返すが、次の地点の自己ベストを既に超えている場合はその超過分を返す
+   * @returns 差（自己ベストがない、または比較できる地点がない場合はnull）
+   */
+  public getDelta(): number | null {
+    const best = this.personalBest;
+    if (!best) return null;
+
+    const index = this.splits.length;
+    if (!this.finished && index < best.splits.length) {
+      const nextBest = best.splits[index];
+      if (this.elapsed > nextBest) {
+        return this.elapsed - nextBest;
+      }
+    }
+
+    if (index === 0 || index > best.splits.length) {
+      return null;
+    }
+    return this.splits[index - 1] - best.splits[index - 1];
+  }
+
+  /**
+   * 保存されている自己ベストを取得する
+   */
+  public getPersonalBest(): SprintRecord | null {
+    return this.personalBest;
+  }
+
+  /**
+   * ピースの固定時にライン数とスプリットを更新する
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    if (this.finished) return;
+
+    this.pieces++;
+    this.lines += result.linesCleared;
+
+    while (
+      this.splits.length < this.splitPoints.length &&
+      this.lines >= this.splitPoints[this.splits.length]
+    ) {
+      this.splits.push(this.elapsed);
+    }
+
+    if (this.lines >= this.config.lineTarget) {
+      this.complete();
+    }
+  }
+
+  /**
+   * 目標ライン数に到達した時の処理
+   * 自己ベストと比較して保存し、エンジンを終了させる
+   */
+  private complete(): void {
+    this.finished = true;
+
+    const record: SprintRecord = {
+      version: RECORD_VERSION,
+      time: this.elapsed,
+      splits: [...this.splits],
+      pieces: this.pieces,
+      date: new Date().toISOString(),
+    };
+    const previous = this.personalBest;
+    const isPersonalBest = previous === null || record.time < previous.time;
+    if (isPersonalBest) {
+      saveJSON(this.storage, this.getStorageKey(), record);
+    }
+
+    this.result = {
+      title: `${this.name} CLEAR`,
+      items: this.createResultItems(record, previous),
+      isPersonalBest,
+    };
+
+    this.engine?.end("goalReached");
+  }
+
+  /**
+   * リザルト画面の内訳を作成する
+   * @param record - 今回の記録
+   * @param previous - プレイ開始時点の自己ベスト
+   * @returns 結果の内訳
+   */
+  private createResultItems(
+    record: SprintRecord,
+    previous: SprintRecord | null
+  ): ModeResultItem[] {
+    const seconds = record.time / 1000;
+    const items: ModeResultItem[] = [
+      { label: "TIME", value: formatTime(record.time) },
+      { label: "PIECES", value: String(record.pieces) },
+      {
+        label: "PPS",
+        value: seconds > 0 ? (record.pieces / seconds).toFixed(2) : "-",
+      },
+    ];
+
+    if (previous) {
+      items.push({
+        label: "PB",
+        value: `${formatTime(previous.time)} (${formatDelta(record.time - previous.time)})`,
+      });
+    }
+
+    // 区間ごとのタイム
+    record.splits.forEach((time, index) => {
+      const segment = time - (index > 0 ? record.splits[index - 1] : 0);
+      items.push({
+        label: `${this.splitPoints[index]}L`,
+        value: `${formatTime(time)} (${formatTime(segment)})`,
+      });
+    });
+
+    return items;
+  }
+
+  /**
+   * 保存されている自己ベストを読み込む
+   * @returns 自己ベスト（ない場合、バージョンや形式が異なる場合はnull）
+   */
+  private loadPersonalBest(): SprintRecord | null {
+    const data = loadJSON<SprintRecord | null>(
+      this.storage,
+      this.getStorageKey(),
+      null
+    );
+    if (
+      !data ||
+      data.version !== RECORD_VERSION ||
+      typeof data.time !== "number" ||
+      !Array.isArray(data.splits) ||
+      !data.splits.every((split) => typeof split === "number") ||
+      typeof data.pieces !== "number"
+    ) {
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * 自己ベストの保存キー（目標ライン数ごと）
+   */
+  private getStorageKey(): string {
+    return `sprint.best.${this.config.lineTarget}`;
+  }
+}
+
+/**
+ * デフォルトのスプリント設定を取得する
+ * @returns デフォルトのスプリント設定（40ライン、10ラインごとのスプリット）
+ */
+export function getDefaultSprintConfig(): SprintConfig {
+  return {
+    lineTarget: 40,
+    splitInterval: 10,
+  };
+}
@@ -0,0 +1,387 @@
+import { GameEngine, ScoreSnapshot } from "../gameEngine";
+import {
+  GarbageConfig,
+  GarbageGenerator,
+  GarbageGeneratorState,
+  getDefaultGarbageConfig,
+  isGarbageGeneratorState,
+} from "../garbage";
+import { LockResult } from "../lockAndClear";
+import { generateSeed } from "../randomizer";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatDelta,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * せり上がりが近い時のHUDの文字色
+ */
+const WARNING_COLOR = "#ff4444";
+
+/**
+ * 警告メーターの目盛りの数
+ */
+const METER_LENGTH = 8;
+
+/**
+ * サバイバルモードの設定インターフェース
+ */
+export interface SurvivalConfig {
+  /** レベル1でのせり上がりの間隔（ミリ秒） */
+  startInterval: number;
+  /** レベルが1上がるごとに短くなる間隔（ミリ秒） */
+  intervalStep: number;
+  /** せり上がりの間隔の下限（ミリ秒） */
+  minInterval: number;
+  /** 1回のせり上がりで追加される行数 */
+  riseRows: number;
+  /** 1行消去するごとに次のせり上がりを遅らせる時間（ミリ秒） */
+  clearDelay: number;
+  /** せり上がりの警告を始める時間（ミリ秒） */
+  warningTime: number;
+  /** ガベージ生成の設定 */
+  garbage: GarbageConfig;
+  /** ガベージの乱数シード（nullならゲームごとに生成する） */
+  seed: number | null;
+}
+
+/**
+ * サバイバルの記録（自己ベストとして保存される）
+ */
+export interface SurvivalRecord {
+  /** 生き残った時間（ミリ秒） */
+  time: number;
+  /** 消去したライン数 */
+  lines: number;
+  /** 到達したレベル */
+  level: number;
+  /** 記録した日時（ISO 8601） */
+  date: string;
+}
+
+/**
+ * 自己ベストの保存キー
+ */
+const STORAGE_KEY = "survival.best";
+
+/**
+ * レベルに応じたせり上がりの間隔を計算する
+ * @param config - サバイバルの設定
+ * @param level - 現在のレベル
+ * @returns せり上がりの間隔（ミリ秒）
+ */
+export function getSurvivalRiseInterval(
+  config: SurvivalConfig,
+  level: number
+): number {
+  return Math.max(
+    config.minInterval,
+    config.startInterval - (level - 1) * config.intervalStep
+  );
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface SurvivalSaveState {
+  /** タイマーを開始したかどうか */
+  started: boolean;
+  /** 経過時間（ミリ秒） */
+  elapsed: number;
+  /** 前回のせり上がりからの経過時間（ミリ秒） */
+  riseTimer: number;
+  /** レベル */
+  level: number;
+  /** 消去ライン数 */
+  lines: number;
+  /** せり上がった行数の合計 */
+  risenRows: number;
+  /** ガベージ生成器の状態 */
+  generator: GarbageGeneratorState | null;
+}
+
+/**
+ * サバイバル（せり上がり耐久）モード
+ * 一定の間隔で盤面の下からガベージがせり上がり、トップアウトするまでの時間を競う
+ * 間隔はレベルが上がるほど短くなり、ラインを消去すると次のせり上がりが遅れる
+ * タイマーは最初の操作で開始する
+ */
+export class SurvivalMode extends BaseGameMode {
+  public readonly type = "survival";
+  public readonly name = "SURVIVAL";
+
+  private generator: GarbageGenerator | null = null;
+  /** 保存されている自己ベスト（プレイ開始時点のもの） */
+  private personalBest: SurvivalRecord | null = null;
+
+  private started: boolean = false;
+  private finished: boolean = false;
+  private elapsed: number = 0;
+  /** 前回のせり上がりからの経過時間（ミリ秒） */
+  private riseTimer: number = 0;
+  private level: number = 1;
+  private lines: number = 0;
+  /** せり上がった行数の合計 */
+  private risenRows: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * SurvivalModeのコンストラクタ
+   * @param config - サバイバルの設定
+   * @param storage - 自己ベストの保存先
+   */
+  constructor(
+    private config: SurvivalConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+  }
+
+  /**
+   * プレイ開始時に状態を初期化し、最新の自己ベストを読み込む
+   */
+  protected onAttach(engine: GameEngine): void {
+    this.generator = new GarbageGenerator(
+      engine.getState().board.width,
+      this.config.garbage,
+      this.config.seed ?? generateSeed()
+    );
+    this.started = false;
+    this.finished = false;
+    this.elapsed = 0;
+    this.riseTimer = 0;
+    this.level = 1;
+    this.lines = 0;
+    this.risenRows = 0;
+    this.result = null;
+    this.personalBest = loadJSON<SurvivalRecord | null>(
+      this.storage,
+      STORAGE_KEY,
+      null
+    );
+    this.listen("score", (snapshot) => this.onScore(snapshot));
+    this.listen("lock", (result) => this.onLock(result));
+    this.listen("gameOver", () => this.onGameOver());
+  }
+
+  public onInput(): void {
+    if (!this.finished) {
+      this.started = true;
+    }
+  }
+
+  /**
+   * 経過時間を進め、せり上がりの間隔が経過したらガベージを追加する
+   */
+  public update(delta: number): void {
+    if (!this.started || this.finished) return;
+
+    this.elapsed += delta;
+    this.riseTimer += delta;
+    const interval = this.getRiseInterval();
+    while (this.riseTimer >= interval && !this.finished) {
+      this.riseTimer -= interval;
+      this.rise();
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    const items: ModeHudItem[] = [
+      { label: "TIME", value: formatTime(this.elapsed) },
+      {
+        label: "RISE",
+        value: `${this.config.riseRows} ${this.getMeter()}`,
+        color: this.isWarning() ? WARNING_COLOR : undefined,
+      },
+    ];
+    if (this.personalBest) {
+      items.push({ label: "BEST", value: formatTime(this.personalBest.time) });
+    }
+    return items;
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): SurvivalSaveState {
+    return {
+      started: this.started,
+      elapsed: this.elapsed,
+      riseTimer: this.riseTimer,
+      level: this.level,
+      lines: this.lines,
+      risenRows: this.risenRows,
+      generator: this.generator?.getState() ?? null,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<SurvivalSaveState>(state, {
+      started: "boolean",
+      elapsed: "number",
+      riseTimer: "number",
+      level: "number",
+      lines: "number",
+      risenRows: "number",
+      generator: (value) => value === null || isGarbageGeneratorState(value),
+    });
+    this.started = saved.started;
+    this.elapsed = saved.elapsed;
+    this.riseTimer = saved.riseTimer;
+    this.level = saved.level;
+    this.lines = saved.lines;
+    this.risenRows = saved.risenRows;
+    if (saved.generator) {
+      this.generator?.setState(saved.generator);
+    }
+  }
+
+  /**
+   * 経過時間を取得する（ミリ秒）
+   */
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * 現在のレベルでのせり上がりの間隔を取得する（ミリ秒）
+   */
+  public getRiseInterval(): number {
+    return getSurvivalRiseInterval(this.config, this.level);
+  }
+
+  /**
+   * 次のせり上がりまでの時間を取得する（ミリ秒）
+   */
+  public getTimeToRise(): number {
+    return Math.max(0, this.getRiseInterval() - this.riseTimer);
+  }
+
+  /**
+   * 保存されている自己ベストを取得する
+   */
+  public getPersonalBest(): SurvivalRecord | null {
+    return this.personalBest;
+  }
+
+  /**
+   * せり上がりが近いかどうか（警告表示用）
+   */
+  private isWarning(): boolean {
+    return (
+      this.started &&
+      !this.finished &&
+      this.getTimeToRise() <= this.config.warningTime
+    );
+  }
+
+  /**
+   * 次のせり上がりまでの進み具合を表すメーター（例: "[#####---]"）
+   */
+  private getMeter(): string {
+    const filled = Math.min(
+      METER_LENGTH,
+      Math.floor((this.riseTimer / this.getRiseInterval()) * METER_LENGTH)
+    );
+    return `[${"#".repeat(filled)}${"-".repeat(METER_LENGTH - filled)}]`;
+  }
+
+  /**
+   * 盤面の下からガベージをせり上げる（操作中のピースも押し上げられる）
+   */
+  private rise(): void {
+    if (!this.generator) return;
+
+    this.risenRows += this.config.riseRows;
+    this.engine?.addGarbageRows(this.generator.nextRows(this.config.riseRows));
+  }
+
+  /**
+   * レベル・ライン数の更新を記録する
+   * @param snapshot - 最新のスコア情報
+   */
+  private onScore(snapshot: ScoreSnapshot): void {
+    if (this.finished) return;
+
+    this.level = snapshot.level;
+    this.lines = snapshot.lines;
+  }
+
+  /**
+   * ラインを消去した場合は、消去した行数に応じて次のせり上がりを遅らせる
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    if (this.finished || result.linesCleared === 0) return;
+
+    this.riseTimer = Math.max(
+      0,
+      this.riseTimer - result.linesCleared * this.config.clearDelay
+    );
+  }
+
+  /**
+   * トップアウトした時に生き残った時間を記録する
+   */
+  private onGameOver(): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    const record: SurvivalRecord = {
+      time: this.elapsed,
+      lines: this.lines,
+      level: this.level,
+      date: new Date().toISOString(),
+    };
+    const previous = this.personalBest;
+    const isPersonalBest =
+      this.started && (previous === null || record.time > previous.time);
+    if (isPersonalBest) {
+      saveJSON(this.storage, STORAGE_KEY, record);
+    }
+
+    const items: ModeResultItem[] = [
+      { label: "TIME", value: formatTime(record.time) },
+      { label: "LEVEL", value: String(record.level) },
+      { label: "LINES", value: String(record.lines) },
+      { label: "RISEN", value: String(this.risenRows) },
+    ];
+    if (previous) {
+      items.push({
+        label: "PB",
+        value: `${formatTime(previous.time)} (${formatDelta(record.time - previous.time)})`,
+      });
+    }
+    this.result = { title: this.name, items, isPersonalBest };
+  }
+}
+
+/**
+ * デフォルトのサバイバル設定を取得する
+ * @returns デフォルトのサバイバル設定（10秒間隔から始まり、レベルごとに0.75秒短くなる）
+ */
+export function getDefaultSurvivalConfig(): SurvivalConfig {
+  return {
+    startInterval: 10000,
+    intervalStep: 750,
+    minInterval: 2000,
+    riseRows: 1,
+    clearDelay: 1000,
+    warningTime: 2000,
+    garbage: getDefaultGarbageConfig(),
+    seed: null,
+  };
+}
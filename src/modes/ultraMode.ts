@@ -0,0 +1,357 @@
+import { GameOverInfo, ScoreSnapshot } from "../gameEngine";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeResult,
+  ModeResultItem,
+  ModeSaveState,
+  formatTime,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * メニューで選択できる制限時間（ミリ秒）
+ */
+export const ULTRA_TIME_LIMITS = [60000, 120000, 180000] as const;
+
+/**
+ * 残り時間の警告を始める時間（ミリ秒）
+ */
+export const ULTRA_WARNING_TIME = 10000;
+
+/**
+ * 残り時間が少ない時のHUDの文字色
+ */
+const WARNING_COLOR = "#ff4444";
+
+/**
+ * 自己ベストの保存形式のバージョン
+ */
+const RECORD_VERSION = 1;
+
+/**
+ * ウルトラモードの設定インターフェース
+ */
+export interface UltraConfig {
+  /** 制限時間（ミリ秒） */
+  timeLimit: number;
+}
+
+/**
+ * ウルトラの記録（自己ベストとして保存される）
+ */
+export interface UltraRecord {
+  /** 保存形式のバージョン */
+  version: number;
+  /** 最終スコア */
+  score: number;
+  /** 消去したライン数 */
+  lines: number;
+  /** 使用したピース数 */
+  pieces: number;
+  /** 記録した日時（ISO 8601） */
+  date: string;
+}
+
+/**
+ * 制限時間の表示名を作成する（例: 120000 → "2 MIN"、90000 → "90 SEC"）
+ * @param timeLimit - 制限時間（ミリ秒）
+ * @returns 表示用の文字列
+ */
+export function formatTimeLimit(timeLimit: number): string {
+  const seconds = Math.round(timeLimit / 1000);
+  return seconds % 60 === 0 ? `${seconds / 60} MIN` : `${seconds} SEC`;
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface UltraSaveState {
+  /** タイマーを開始したかどうか */
+  started: boolean;
+  /** 残り時間（ミリ秒） */
+  remaining: number;
+  /** スコア */
+  score: number;
+  /** 消去ライン数 */
+  lines: number;
+  /** 設置ピース数 */
+  pieces: number;
+}
+
+/**
+ * ウルトラ（制限時間内のスコアアタック）モード
+ * タイマーは最初の操作で開始し、残り時間が0になるとゲームを終了する
+ */
+export class UltraMode extends BaseGameMode {
+  public readonly type = "ultra";
+  public readonly name: string;
+
+  /** 保存されている自己ベスト（プレイ開始時点のもの） */
+  private personalBest: UltraRecord | null;
+
+  private started: boolean = false;
+  private finished: boolean = false;
+  private remaining: number;
+  private score: number = 0;
+  private lines: number = 0;
+  private pieces: number = 0;
+  private result: ModeResult | null = null;
+
+  /**
+   * UltraModeのコンストラクタ
+   * @param config - ウルトラの設定
+   * @param storage - 自己ベストの保存先
+   */
+  constructor(
+    private config: UltraConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+    if (!(config.timeLimit > 0)) {
+      throw new Error(`Time limit must be positive: ${config.timeLimit}`);
+    }
+    this.name = `ULTRA ${formatTimeLimit(config.timeLimit)}`;
+    this.remaining = config.timeLimit;
+    this.personalBest = this.loadPersonalBest();
+  }
+
+  /**
+   * プレイ開始時に状態を初期化し、最新の自己ベストを読み込む
+   */
+  protected onAttach(): void {
+    this.started = false;
+    this.finished = false;
+    this.remaining = this.config.timeLimit;
+    this.score = 0;
+    this.lines = 0;
+    this.pieces = 0;
+    this.result = null;
+    this.personalBest = this.loadPersonalBest();
+    this.listen("score", (snapshot) => this.onScore(snapshot));
+    this.listen("lock", () => {
+      if (!this.finished) this.pieces++;
+    });
+    this.listen("gameOver", (info) => this.onGameOver(info));
+  }
+
+  public onInput(): void {
+    if (!this.finished) {
+      this.started = true;
+    }
+  }
+
+  public update(delta: number): void {
+    if (!this.started || this.finished) return;
+
+    this.remaining = Math.max(0, this.remaining - delta);
+    if (this.remaining === 0) {
+      this.timeUp();
+    }
+  }
+
+  public getHud(): ModeHudItem[] {
+    const items: ModeHudItem[] = [
+      {
+        label: "TIME",
+        value: formatTime(this.remaining),
+        color: this.isWarning() ? WARNING_COLOR : undefined,
+      },
+    ];
+
+    if (this.personalBest) {
+      items.push({ label: "BEST", value: this.personalBest.score.toString() });
+    }
+    return items;
+  }
+
+  public getResult(): ModeResult | null {
+    return this.result;
+  }
+
+  public getSaveState(): UltraSaveState {
+    return {
+      started: this.started,
+      remaining: this.remaining,
+      score: this.score,
+      lines: this.lines,
+      pieces: this.pieces,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<UltraSaveState>(state, {
+      started: "boolean",
+      remaining: "number",
+      score: "number",
+      lines: "number",
+      pieces: "number",
+    });
+    this.started = saved.started;
+    this.remaining = saved.remaining;
+    this.score = saved.score;
+    this.lines = saved.lines;
+    this.pieces = saved.pieces;
+  }
+
+  /**
+   * 残り時間を取得する（ミリ秒）
+   */
+  public getRemaining(): number {
+    return this.remaining;
+  }
+
+  /**
+   * 残り時間が警告を出す範囲（最後の10秒）に入っているかどうか
+   */
+  public isWarning(): boolean {
+    return (
+      this.started && !this.finished && this.remaining <= ULTRA_WARNING_TIME
+    );
+  }
+
+  /**
+   * 保存されている自己ベストを取得する
+   */
+  public getPersonalBest(): UltraRecord | null {
+    return this.personalBest;
+  }
+
+  /**
+   * スコアの更新を記録する
+   * @param snapshot - 最新のスコア・ライン数
+   */
+  private onScore(snapshot: ScoreSnapshot): void {
+    if (this.finished) return;
+
+    this.score = snapshot.score;
+    this.lines = snapshot.lines;
+  }
+
+  /**
+   * 時間切れ前にトップアウトした場合は記録を残さずに結果だけを作成する
+   * @param info - 終了条件
+   */
+  private onGameOver(info: GameOverInfo): void {
+    if (this.finished || info.reason === "timeUp") return;
+
+    this.finished = true;
+    this.result = {
+      title: "GAME OVER",
+      items: this.createResultItems(this.createRecord(), this.personalBest),
+      isPersonalBest: false,
+    };
+  }
+
+  /**
+   * 残り時間が0になった時の処理
+   * 自己ベストと比較して保存し、エンジンを終了させる
+   */
+  private timeUp(): void {
+    this.finished = true;
+
+    const record = this.createRecord();
+    const previous = this.personalBest;
+    const isPersonalBest = previous === null || record.score > previous.score;
+    if (isPersonalBest) {
+      saveJSON(this.storage, this.getStorageKey(), record);
+    }
+
+    this.result = {
+      title: "TIME UP",
+      items: this.createResultItems(record, previous),
+      isPersonalBest,
+    };
+
+    this.engine?.end("timeUp");
+  }
+
+  /**
+   * 現在の状態から記録を作成する
+   */
+  private createRecord(): UltraRecord {
+    return {
+      version: RECORD_VERSION,
+      score: this.score,
+      lines: this.lines,
+      pieces: this.pieces,
+      date: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * リザルト画面の内訳を作成する
+   * @param record - 今回の記録
+   * @param previous - プレイ開始時点の自己ベスト
+   * @returns 結果の内訳
+   */
+  private createResultItems(
+    record: UltraRecord,
+    previous: UltraRecord | null
+  ): ModeResultItem[] {
+    const seconds = (this.config.timeLimit - this.remaining) / 1000;
+    const items: ModeResultItem[] = [
+      { label: "SCORE", value: record.score.toString() },
+      { label: "LINES", value: String(record.lines) },
+      { label: "PIECES", value: String(record.pieces) },
+      {
+        label: "PPS",
+        value: seconds > 0 ? (record.pieces / seconds).toFixed(2) : "-",
+      },
+    ];
+
+    if (previous) {
+      const diff = record.score - previous.score;
+      items.push({
+        label: "PB",
+        value: `${previous.score} (${diff >= 0 ? "+" : ""}${diff})`,
+      });
+    }
+    return items;
+  }
+
+  /**
+   * 保存されている自己ベストを読み込む
+   * @returns 自己ベスト（ない場合、バージョンや形式が異なる場合はnull）
+   */
+  private loadPersonalBest(): UltraRecord | null {
+    const data = loadJSON<UltraRecord | null>(
+      this.storage,
+      this.getStorageKey(),
+      null
+    );
+    if (
+      !data ||
+      data.version !== RECORD_VERSION ||
+      typeof data.score !== "number" ||
+      typeof data.lines !== "number" ||
+      typeof data.pieces !== "number"
+    ) {
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * 自己ベストの保存キー（制限時間ごと）
+   */
+  private getStorageKey(): string {
+    return `ultra.best.${this.config.timeLimit}`;
+  }
+}
+
+/**
+ * デフォルトのウルトラ設定を取得する
+ * @returns デフォルトのウルトラ設定（制限時間2分）
+ */
+export function getDefaultUltraConfig(): UltraConfig {
+  return {
+    timeLimit: 120000,
+  };
+}
@@ -0,0 +1,241 @@
+import { isGridMatchingSpec } from "../boardSpec";
+import { Grid } from "../collision";
+import { decodeFumen } from "../fumen";
+import { GameEngineConfig } from "../gameEngine";
+import { LockResult } from "../lockAndClear";
+import {
+  KeyValueStorage,
+  getDefaultStorage,
+  loadJSON,
+  saveJSON,
+} from "../storage";
+import {
+  BaseGameMode,
+  ModeHudItem,
+  ModeSaveState,
+  readModeSaveState,
+} from "./gameMode";
+
+/**
+ * 盤面の保存キー
+ */
+const SAVE_KEY = "zen.board";
+
+/**
+ * 保存データの形式のバージョン（形式を変えた場合は増やす）
+ */
+const SAVE_VERSION = 1;
+
+/**
+ * ゼンモードの設定インターフェース
+ */
+export interface ZenConfig {
+  /** 保存されている盤面から再開するかどうか（falseなら空の盤面から始める） */
+  resume: boolean;
+  /** トップアウトした時に最下段から消去する行数 */
+  clearRowsOnTopOut: number;
+  /** 開始時の盤面にするフュミン（指定した場合はresumeより優先し、先頭のページの盤面を使う） */
+  fumen?: string;
+}
+
+/**
+ * セッションをまたいで保存するゼンモードの状態
+ */
+export interface ZenSave {
+  /** 保存データの形式のバージョン */
+  version: number;
+  /** 盤面グリッド（バッファ行を含む） */
+  grid: Grid;
+  /** 累計消去ライン数 */
+  lines: number;
+  /** 累計設置ピース数 */
+  pieces: number;
+}
+
+/**
+ * 中断したゲームを再開するための進行状況
+ */
+interface ZenSaveState {
+  /** 累計消去ライン数 */
+  lines: number;
+  /** 累計設置ピース数 */
+  pieces: number;
+}
+
+/**
+ * ゼン（プレッシャーのない積み込み練習）モード
+ * 自然落下とレベルアップがなく、ピースは固定操作をするまで固定されない
+ * トップアウトしても最下段の行を消去して続行し、盤面は次回のプレイに引き継がれる
+ * （フュミンから始めた盤面は引き継がない）
+ */
+export class ZenMode extends BaseGameMode {
+  public readonly type = "zen";
+  public readonly name = "ZEN";
+  public readonly showsScorePanel = false;
+
+  /** 再開時に読み込んだ状態（読み込んでいない場合はnull） */
+  private restored: ZenSave | null = null;
+
+  private lines: number = 0;
+  private pieces: number = 0;
+
+  /**
+   * ZenModeのコンストラクタ
+   * @param config - ゼンモードの設定
+   * @param storage - 盤面の保存先
+   */
+  constructor(
+    private config: ZenConfig,
+    private storage: KeyValueStorage = getDefaultStorage()
+  ) {
+    super();
+  }
+
+  /**
+   * 自然落下・固定猶予・レベルアップ・トップアウトを無効にし、保存された盤面を設定する
+   * 盤面の寸法が保存時と異なる場合やフュミンが盤面に収まらない場合は空の盤面から始める
+   */
+  public configureEngine(config: GameEngineConfig): GameEngineConfig {
+    if (this.config.fumen) {
+      this.restored = this.loadFumen(this.config.fumen, config);
+    } else {
+      this.restored = this.config.resume ? this.loadSave(config) : null;
+    }
+
+    return {
+      ...config,
+      gravity: false,
+      lockDelay: { ...config.lockDelay, resetMode: "infinite" },
+      score: { ...config.score, levelGoal: "none" },
+      topOutClearRows: this.config.clearRowsOnTopOut,
+      initialGrid: this.restored?.grid ?? null,
+    };
+  }
+
+  /**
+   * プレイ開始時に保存されていた消去ライン数・設置ピース数を引き継ぐ
+   */
+  protected onAttach(): void {
+    this.lines = this.restored?.lines ?? 0;
+    this.pieces = this.restored?.pieces ?? 0;
+    this.listen("lock", (result) => this.onLock(result));
+    this.listen("topOutCleared", () => this.save());
+  }
+
+  /**
+   * プレイを終える時に最新の盤面を保存する
+   */
+  public detach(): void {
+    if (this.engine?.getState().isPlaying) {
+      this.save();
+    }
+    super.detach();
+  }
+
+  public getHud(): ModeHudItem[] {
+    return [
+      { label: "LINES", value: String(this.lines) },
+      { label: "PIECES", value: String(this.pieces) },
+    ];
+  }
+
+  public getSaveState(): ZenSaveState {
+    return {
+      lines: this.lines,
+      pieces: this.pieces,
+    };
+  }
+
+  public restoreSaveState(state: ModeSaveState): void {
+    const saved = readModeSaveState<ZenSaveState>(state, {
+      lines: "number",
+      pieces: "number",
+    });
+    this.lines = saved.lines;
+    this.pieces = saved.pieces;
+  }
+
+  /**
+   * 累計消去ライン数を取得する
+   */
+  public getLines(): number {
+    return this.lines;
+  }
+
+  /**
+   * 累計設置ピース数を取得する
+   */
+  public getPieces(): number {
+    return this.pieces;
+  }
+
+  /**
+   * ピースの固定時に記録を更新し、盤面を保存する
+   * @param result - 固定化の結果
+   */
+  private onLock(result: LockResult): void {
+    this.pieces++;
+    this.lines += result.linesCleared;
+    this.save();
+  }
+
+  /**
+   * 現在の盤面と記録を保存する
+   * フュミンから始めた練習の盤面は、保存されているセッションを上書きしないよう保存しない
+   */
+  private save(): void {
+    if (!this.engine || this.config.fumen) return;
+
+    const data: ZenSave = {
+      version: SAVE_VERSION,
+      grid: this.engine.getState().grid,
+      lines: this.lines,
+      pieces: this.pieces,
+    };
+    saveJSON(this.storage, SAVE_KEY, data);
+  }
+
+  /**
+   * 保存された状態を読み込む
+   * @param config - エンジンの設定（盤面の寸法の確認に使う）
+   * @returns 保存された状態（ない、または使えない場合はnull）
+   */
+  private loadSave(config: GameEngineConfig): ZenSave | null {
+    const data = loadJSON<ZenSave | null>(this.storage, SAVE_KEY, null);
+    if (
+      !data ||
+      data.version !== SAVE_VERSION ||
+      !Array.isArray(data.grid) ||
+      !isGridMatchingSpec(data.grid, config.board)
+    ) {
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * フュミンの先頭のページの盤面を読み込む
+   * @param fumen - フュミンの文字列
+   * @param config - エンジンの設定（盤面の寸法に使う）
+   * @returns 読み込んだ盤面から始める状態（読み込めない場合はnull）
+   */
+  private loadFumen(fumen: string, config: GameEngineConfig): ZenSave | null {
+    try {
+      const [page] = decodeFumen(fumen, config.board);
+      return { version: SAVE_VERSION, grid: page.grid, lines: 0, pieces: 0 };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * デフォルトのゼンモード設定を取得する
+ * @returns デフォルトのゼンモード設定（保存された盤面から再開、トップアウトで10行消去）
+ */
+export function getDefaultZenConfig(): ZenConfig {
+  return {
+    resume: true,
+    clearRowsOnTopOut: 10,
+  };
+}
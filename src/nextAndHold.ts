@@ -1,15 +1,17 @@
-/**
- * テトリミノの種類を表す列挙型
- */
-export enum TetrominoType {
-  I = 0,
-  O = 1,
-  T = 2,
-  S = 3,
-  Z = 4,
-  J = 5,
-  L = 6,
-}
+import { TetrominoType } from "./tetromino";
+import {
+  BagRandomizer,
+  Randomizer,
+  RandomizerState,
+  RandomizerType,
+  SeededRandom,
+  SequenceRandomizer,
+  createRandomizer,
+  generateSeed,
+} from "./randomizer";
+
+// テトリミノの種類は tetromino.ts の定義を共有する
+export { TetrominoType };
 
 /**
  * ネクストピースとホールド機能の設定インターフェース
@@ -19,36 +21,41 @@ export interface NextHoldConfig {
   nextQueueSize: number;
   /** ホールド機能を有効にするかどうか */
   enableHold: boolean;
-  /** 初期のピース生成に使用するシード（オプション） */
+  /** 初期のピース生成に使用するシード（オプション、省略時はランダム） */
   seed?: number;
+  /** ピース生成アルゴリズム（オプション、省略時は7-bag） */
+  randomizer?: RandomizerType;
+  /** 固定のピース順（オプション、指定するとこの順に出現し、使い切った後はrandomizerで生成） */
+  sequence?: TetrominoType[];
+}
+
+/**
+ * ネクストとホールドの状態（中断したゲームを再開するために保存する）
+ */
+export interface NextHoldState {
+  /** 次のピースのキュー */
+  nextQueue: TetrominoType[];
+  /** ホールドされているピース */
+  heldPiece: TetrominoType | null;
+  /** 現在のピースでホールドが使用されたかどうか */
+  holdUsedThisTurn: boolean;
+  /** ピース生成に使用しているシード */
+  seed: number;
+  /** ピース生成器の内部状態 */
+  randomizer: RandomizerState;
 }
 
 /**
  * 7-bag方式でのピース生成を管理するクラス
  * 7種類のテトリミノを1セットとして、ランダムな順序で生成
  */
-export class PieceBag {
-  private bag: TetrominoType[] = [];
-  private readonly pieces: TetrominoType[] = [
-    TetrominoType.I,
-    TetrominoType.O,
-    TetrominoType.T,
-    TetrominoType.S,
-    TetrominoType.Z,
-    TetrominoType.J,
-    TetrominoType.L,
-  ];
-
+export class PieceBag extends BagRandomizer {
   /**
-   * 新しいバッグを生成し、シャッフルする
+   * PieceBagのコンストラクタ
+   * @param random - 乱数生成器（省略時はランダムなシードで生成）
    */
-  private refillBag(): void {
-    this.bag = [...this.pieces];
-    // Fisher-Yatesアルゴリズムでシャッフル
-    for (let i = this.bag.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
-    }
+  constructor(random: SeededRandom = new SeededRandom(generateSeed())) {
+    super(random, 1);
   }
 
   /**
@@ -56,10 +63,7 @@ export class PieceBag {
    * @returns 次のテトリミノタイプ
    */
   public getNext(): TetrominoType {
-    if (this.bag.length === 0) {
-      this.refillBag();
-    }
-    return this.bag.pop()!;
+    return this.next();
   }
 }
 
@@ -74,23 +78,40 @@ export class NextHoldManager {
   /** 現在のピースでホールドが使用されたかどうか */
   private holdUsedThisTurn: boolean = false;
   /** ピース生成器 */
-  private pieceBag: PieceBag;
+  private randomizer: Randomizer;
+  /** 現在のピース生成に使用しているシード */
+  private seed: number;
 
   /**
    * NextHoldManagerのコンストラクタ
    * @param config - ネクストピースとホールド機能の設定
    */
   constructor(private config: NextHoldConfig) {
-    this.pieceBag = new PieceBag();
+    this.seed = config.seed ?? generateSeed();
+    this.randomizer = this.createRandomizer();
     this.initializeNextQueue();
   }
 
+  /**
+   * 設定とシードに基づいてピース生成器を作成する
+   * @returns ピース生成器
+   */
+  private createRandomizer(): Randomizer {
+    const randomizer = createRandomizer(
+      this.config.randomizer ?? "sevenBag",
+      this.seed
+    );
+    return this.config.sequence
+      ? new SequenceRandomizer(this.config.sequence, randomizer)
+      : randomizer;
+  }
+
   /**
    * ネクストキューを初期化する
    */
   private initializeNextQueue(): void {
     while (this.nextQueue.length < this.config.nextQueueSize) {
-      this.nextQueue.push(this.pieceBag.getNext());
+      this.nextQueue.push(this.randomizer.next());
     }
   }
 
@@ -100,7 +121,7 @@ export class NextHoldManager {
    */
   public getNextPiece(): TetrominoType {
     const next = this.nextQueue.shift()!;
-    this.nextQueue.push(this.pieceBag.getNext());
+    this.nextQueue.push(this.randomizer.next());
     this.holdUsedThisTurn = false; // 新しいピースになったのでホールド可能に
     return next;
   }
@@ -128,16 +149,17 @@ export class NextHoldManager {
       throw new Error("このターンでは既にホールドを使用しています");
     }
 
-    this.holdUsedThisTurn = true;
-
     if (this.heldPiece === null) {
-      // 初めてのホールド
+      // 初めてのホールド（getNextPieceがフラグを戻すため、取得後に設定する）
       this.heldPiece = currentPiece;
-      return this.getNextPiece();
+      const next = this.getNextPiece();
+      this.holdUsedThisTurn = true;
+      return next;
     } else {
       // ホールドピースと交換
       const temp = this.heldPiece;
       this.heldPiece = currentPiece;
+      this.holdUsedThisTurn = true;
       return temp;
     }
   }
@@ -158,14 +180,51 @@ export class NextHoldManager {
     return this.config.enableHold && !this.holdUsedThisTurn;
   }
 
+  /**
+   * 現在のピース生成に使用しているシードを取得する
+   * @returns 乱数シード
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * 中断のために状態を取得する
+   * @returns ネクストとホールドの状態
+   */
+  public getState(): NextHoldState {
+    return {
+      nextQueue: [...this.nextQueue],
+      heldPiece: this.heldPiece,
+      holdUsedThisTurn: this.holdUsedThisTurn,
+      seed: this.seed,
+      randomizer: this.randomizer.getState(),
+    };
+  }
+
+  /**
+   * getStateで取得した状態を復元する（以降は中断時と同じ順でピースを生成する）
+   * @param state - ネクストとホールドの状態
+   */
+  public setState(state: NextHoldState): void {
+    this.seed = state.seed;
+    this.randomizer = this.createRandomizer();
+    this.randomizer.setState(state.randomizer);
+    this.nextQueue = [...state.nextQueue];
+    this.heldPiece = state.heldPiece;
+    this.holdUsedThisTurn = state.holdUsedThisTurn;
+  }
+
   /**
    * ゲームをリセットする
+   * シードが設定されている場合は同じピース順を再現し、未設定の場合は新しいシードを使う
    */
   public reset(): void {
     this.nextQueue = [];
     this.heldPiece = null;
     this.holdUsedThisTurn = false;
-    this.pieceBag = new PieceBag();
+    this.seed = this.config.seed ?? generateSeed();
+    this.randomizer = this.createRandomizer();
     this.initializeNextQueue();
   }
 }
@@ -0,0 +1,313 @@
+import { BoardSpec, createEmptyGrid } from "./boardSpec";
+import { GARBAGE_CELL, TetrominoType } from "./tetromino";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * 対応しているパズルパックの形式のバージョン
+ */
+export const PUZZLE_PACK_VERSION = 1;
+
+/**
+ * パズルの目標
+ * lines: 合計で指定の行数を消去する
+ * tSpin: 指定の行数のT-スピン（ミニを除く）を決める
+ * perfectClear: 盤面のブロックを全て消去する
+ * survive: トップアウトせずに指定の数のピースを置く
+ */
+export type PuzzleGoal =
+  | { type: "lines"; lines: number }
+  | { type: "tSpin"; lines: number }
+  | { type: "perfectClear" }
+  | { type: "survive"; pieces: number };
+
+/**
+ * パズル1問の定義
+ */
+export interface PuzzleDefinition {
+  /** パック内で一意なID（進捗の保存に使う） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /**
+   * 開始時の盤面（可視領域の下から詰めた行、上から順）
+   * "."は空、"G"はガベージ、"IOTSZJL"は各テトロミノのブロック
+   */
+  board: string[];
+  /** 出現するピースの順（例: "TIO"） */
+  pieces: string;
+  /** ホールドを使えるかどうか */
+  hold: boolean;
+  /** 目標 */
+  goal: PuzzleGoal;
+  /** 使えるピースの数 */
+  pieceLimit: number;
+}
+
+/**
+ * パズルパック（JSONで定義し、実行時に読み込む）
+ */
+export interface PuzzlePack {
+  /** 形式のバージョン */
+  version: number;
+  /** パックのID（進捗の保存に使う） */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** パズルの一覧 */
+  puzzles: PuzzleDefinition[];
+}
+
+/**
+ * 盤面の文字とテトロミノの種類の対応
+ */
+const PIECE_CHARS: Record<string, TetrominoType> = {
+  I: TetrominoType.I,
+  O: TetrominoType.O,
+  T: TetrominoType.T,
+  S: TetrominoType.S,
+  Z: TetrominoType.Z,
+  J: TetrominoType.J,
+  L: TetrominoType.L,
+};
+
+/**
+ * 空きセルを表す盤面の文字
+ */
+const EMPTY_CHAR = ".";
+
+/**
+ * ガベージのセルを表す盤面の文字
+ */
+const GARBAGE_CHAR = "G";
+
+/**
+ * 値がオブジェクト（配列以外）かどうか
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 形式の誤りを、誤りのある場所を含めたエラーにする
+ * @param path - 誤りのある場所（例: "puzzles[0].goal"）
+ * @param message - 誤りの内容
+ */
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid puzzle pack: ${path} ${message}`);
+}
+
+/**
+ * 空でない文字列であることを確認する
+ */
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    invalid(path, "must be a non-empty string");
+  }
+  return value;
+}
+
+/**
+ * 1以上の整数であることを確認する
+ */
+function expectPositiveInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    invalid(path, "must be a positive integer");
+  }
+  return value;
+}
+
+/**
+ * 目標の形式を確認する
+ */
+function parseGoal(value: unknown, path: string): PuzzleGoal {
+  if (!isRecord(value)) {
+    invalid(path, "must be an object");
+  }
+
+  switch (value.type) {
+    case "lines":
+    case "tSpin":
+      return {
+        type: value.type,
+        lines: expectPositiveInteger(value.lines, `${path}.lines`),
+      };
+    case "perfectClear":
+      return { type: "perfectClear" };
+    case "survive":
+      return {
+        type: "survive",
+        pieces: expectPositiveInteger(value.pieces, `${path}.pieces`),
+      };
+    default:
+      return invalid(`${path}.type`, `is unknown: ${String(value.type)}`);
+  }
+}
+
+/**
+ * 盤面の形式を確認する（全ての行が同じ長さで、使える文字のみ）
+ */
+function parseBoard(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) {
+    invalid(path, "must be an array of strings");
+  }
+
+  const rows = value.map((row, index) =>
+    expectString(row, `${path}[${index}]`)
+  );
+  rows.forEach((row, index) => {
+    if (row.length !== rows[0].length) {
+      invalid(`${path}[${index}]`, "must have the same width as the first row");
+    }
+    for (const char of row) {
+      if (
+        char !== EMPTY_CHAR &&
+        char !== GARBAGE_CHAR &&
+        !(char in PIECE_CHARS)
+      ) {
+        invalid(`${path}[${index}]`, `contains an unknown cell: ${char}`);
+      }
+    }
+  });
+  return rows;
+}
+
+/**
+ * パズル1問の形式を確認する
+ */
+function parsePuzzle(value: unknown, path: string): PuzzleDefinition {
+  if (!isRecord(value)) {
+    invalid(path, "must be an object");
+  }
+
+  const pieces = expectString(value.pieces, `${path}.pieces`);
+  for (const char of pieces) {
+    if (!(char in PIECE_CHARS)) {
+      invalid(`${path}.pieces`, `contains an unknown piece: ${char}`);
+    }
+  }
+
+  const pieceLimit = expectPositiveInteger(
+    value.pieceLimit,
+    `${path}.pieceLimit`
+  );
+  if (pieceLimit > pieces.length) {
+    invalid(`${path}.pieceLimit`, "must not exceed the number of pieces");
+  }
+
+  const goal = parseGoal(value.goal, `${path}.goal`);
+  if (goal.type === "survive" && goal.pieces > pieceLimit) {
+    invalid(`${path}.goal.pieces`, "must not exceed pieceLimit");
+  }
+
+  if (value.hold !== undefined && typeof value.hold !== "boolean") {
+    invalid(`${path}.hold`, "must be a boolean");
+  }
+
+  return {
+    id: expectString(value.id, `${path}.id`),
+    name: expectString(value.name, `${path}.name`),
+    board: parseBoard(value.board, `${path}.board`),
+    pieces,
+    hold: value.hold ?? true,
+    goal,
+    pieceLimit,
+  };
+}
+
+/**
+ * 読み込んだJSONをパズルパックとして検証する
+ * @param data - JSONを解析した値
+ * @returns 検証済みのパズルパック（省略可能な項目は既定値で埋める）
+ * @throws 形式が正しくない場合（誤りのある場所をメッセージに含める）
+ */
+export function parsePuzzlePack(data: unknown): PuzzlePack {
+  if (!isRecord(data)) {
+    invalid("pack", "must be an object");
+  }
+  if (data.version !== PUZZLE_PACK_VERSION) {
+    invalid("version", `must be ${PUZZLE_PACK_VERSION}`);
+  }
+  if (!Array.isArray(data.puzzles) || data.puzzles.length === 0) {
+    invalid("puzzles", "must be a non-empty array");
+  }
+
+  const puzzles = data.puzzles.map((puzzle, index) =>
+    parsePuzzle(puzzle, `puzzles[${index}]`)
+  );
+  const ids = new Set<string>();
+  puzzles.forEach((puzzle, index) => {
+    if (ids.has(puzzle.id)) {
+      invalid(`puzzles[${index}].id`, `is duplicated: ${puzzle.id}`);
+    }
+    ids.add(puzzle.id);
+  });
+
+  return {
+    version: PUZZLE_PACK_VERSION,
+    id: expectString(data.id, "id"),
+    name: expectString(data.name, "name"),
+    puzzles,
+  };
+}
+
+/**
+ * パズルの盤面を盤面グリッドに変換する
+ * 定義の行は可視領域の最下段に揃えて配置する
+ * @param board - パズルの盤面（上から順）
+ * @param spec - 盤面の寸法
+ * @returns バッファ行を含む盤面グリッド
+ * @throws 盤面の幅が合わない、または行数が可視領域を超える場合
+ */
+export function createPuzzleGrid(board: string[], spec: BoardSpec): Grid {
+  if (board.length > spec.height) {
+    throw new Error("Puzzle board is taller than the board");
+  }
+  if (board.some((row) => row.length !== spec.width)) {
+    throw new Error("Puzzle board does not match the board width");
+  }
+
+  const grid = createEmptyGrid(spec);
+  const top = grid.length - board.length;
+  board.forEach((row, rowIndex) => {
+    grid[top + rowIndex] = [...row].map((char) => {
+      if (char === GARBAGE_CHAR) return GARBAGE_CELL;
+      if (char in PIECE_CHARS) return PIECE_CHARS[char] + 1;
+      return 0;
+    });
+  });
+  return grid;
+}
+
+/**
+ * パズルのピース順をテトロミノの種類の配列に変換する
+ * @param pieces - ピース順（例: "TIO"）
+ * @returns テトロミノの種類の配列
+ */
+export function parsePieceSequence(pieces: string): TetrominoType[] {
+  return [...pieces].map((char) => PIECE_CHARS[char]);
+}
+
+/**
+ * 目標の説明文を作成する（例: "T-SPIN DOUBLE"）
+ * @param goal - パズルの目標
+ * @returns 説明文
+ */
+export function describePuzzleGoal(goal: PuzzleGoal): string {
+  switch (goal.type) {
+    case "lines":
+      return `CLEAR ${goal.lines} LINE${goal.lines === 1 ? "" : "S"}`;
+    case "tSpin": {
+      const names = ["", "SINGLE", "DOUBLE", "TRIPLE"];
+      return `T-SPIN ${names[goal.lines] ?? `${goal.lines} LINES`}`;
+    }
+    case "perfectClear":
+      return "PERFECT CLEAR";
+    case "survive":
+      return `SURVIVE ${goal.pieces} PIECES`;
+  }
+}
@@ -0,0 +1,354 @@
+import { TetrominoType } from "./tetromino";
+
+/**
+ * 全7種類のテトリミノ
+ */
+const ALL_PIECES: readonly TetrominoType[] = [
+  TetrominoType.I,
+  TetrominoType.O,
+  TetrominoType.T,
+  TetrominoType.S,
+  TetrominoType.Z,
+  TetrominoType.J,
+  TetrominoType.L,
+];
+
+/**
+ * シード指定可能な疑似乱数生成器（mulberry32）
+ * 内部状態は32bit整数1つなので、保存・復元が容易
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * SeededRandomのコンストラクタ
+   * @param seed - 乱数シード（32bit整数として扱われる）
+   */
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 0以上1未満の乱数を返す
+   * @returns 乱数
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 0以上max未満の整数乱数を返す
+   * @param max - 上限（含まない）
+   * @returns 整数乱数
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * 内部状態を取得する
+   * @returns 内部状態
+   */
+  public getState(): number {
+    return this.state;
+  }
+
+  /**
+   * 内部状態を復元する
+   * @param state - getStateで取得した内部状態
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * 新しい乱数シードを生成する
+ * @returns 32bit整数のシード
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * ピース生成器の内部状態（中断したゲームを同じピース順で再開するために保存する）
+ */
+export interface RandomizerState {
+  /** 乱数生成器の内部状態 */
+  random: number;
+  /** 払い出していないバッグの中身や直近の履歴など、アルゴリズムが覚えているピース */
+  pieces: TetrominoType[];
+  /** TGM方式で初手をまだ払い出していないかどうか */
+  first?: boolean;
+  /** 決められた順のうち払い出した数 */
+  sequenceIndex?: number;
+}
+
+/**
+ * ピース生成アルゴリズムの共通インターフェース
+ */
+export interface Randomizer {
+  /**
+   * 次のピースを生成する
+   * @returns 次のテトリミノタイプ
+   */
+  next(): TetrominoType;
+  /**
+   * 内部状態を取得する
+   * @returns 内部状態
+   */
+  getState(): RandomizerState;
+  /**
+   * 内部状態を復元する
+   * @param state - getStateで取得した内部状態
+   */
+  setState(state: RandomizerState): void;
+}
+
+/**
+ * 利用可能なピース生成アルゴリズムの種類
+ */
+export type RandomizerType =
+  "sevenBag" | "fourteenBag" | "pure" | "nes" | "tgm";
+
+/**
+ * バッグ方式のピース生成
+ * 7種類×bagCount個を1セットとしてシャッフルし、順に払い出す
+ */
+export class BagRandomizer implements Randomizer {
+  private bag: TetrominoType[] = [];
+
+  /**
+   * BagRandomizerのコンストラクタ
+   * @param random - 乱数生成器
+   * @param bagCount - 1バッグに含める7種セットの数（7-bagなら1、14-bagなら2）
+   */
+  constructor(
+    private random: SeededRandom,
+    private bagCount: number = 1
+  ) {}
+
+  /**
+   * 新しいバッグを生成し、シャッフルする
+   */
+  private refillBag(): void {
+    this.bag = [];
+    for (let i = 0; i < this.bagCount; i++) {
+      this.bag.push(...ALL_PIECES);
+    }
+    // Fisher-Yatesアルゴリズムでシャッフル
+    for (let i = this.bag.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
+    }
+  }
+
+  public next(): TetrominoType {
+    if (this.bag.length === 0) {
+      this.refillBag();
+    }
+    return this.bag.pop()!;
+  }
+
+  public getState(): RandomizerState {
+    return { random: this.random.getState(), pieces: [...this.bag] };
+  }
+
+  public setState(state: RandomizerState): void {
+    this.random.setState(state.random);
+    this.bag = [...state.pieces];
+  }
+}
+
+/**
+ * 完全ランダムのピース生成（旧来のクラシック方式）
+ */
+export class PureRandomizer implements Randomizer {
+  /**
+   * PureRandomizerのコンストラクタ
+   * @param random - 乱数生成器
+   */
+  constructor(private random: SeededRandom) {}
+
+  public next(): TetrominoType {
+    return ALL_PIECES[this.random.nextInt(ALL_PIECES.length)];
+  }
+
+  public getState(): RandomizerState {
+    return { random: this.random.getState(), pieces: [] };
+  }
+
+  public setState(state: RandomizerState): void {
+    this.random.setState(state.random);
+  }
+}
+
+/**
+ * NES版テトリスのピース生成
+ * 8面ダイスを振り、8番目（空き）か直前と同じピースが出たら1回だけ振り直す
+ */
+export class NesRandomizer implements Randomizer {
+  private previous: TetrominoType | null = null;
+
+  /**
+   * NesRandomizerのコンストラクタ
+   * @param random - 乱数生成器
+   */
+  constructor(private random: SeededRandom) {}
+
+  public next(): TetrominoType {
+    const roll = this.random.nextInt(ALL_PIECES.length + 1);
+    let piece: TetrominoType;
+
+    if (roll === ALL_PIECES.length || ALL_PIECES[roll] === this.previous) {
+      // 振り直しは1回のみで、結果はそのまま採用する
+      piece = ALL_PIECES[this.random.nextInt(ALL_PIECES.length)];
+    } else {
+      piece = ALL_PIECES[roll];
+    }
+
+    this.previous = piece;
+    return piece;
+  }
+
+  public getState(): RandomizerState {
+    return {
+      random: this.random.getState(),
+      pieces: this.previous === null ? [] : [this.previous],
+    };
+  }
+
+  public setState(state: RandomizerState): void {
+    this.random.setState(state.random);
+    this.previous = state.pieces[0] ?? null;
+  }
+}
+
+/**
+ * TGM方式（履歴4）のピース生成
+ * 直近4個の履歴に含まれるピースが出た場合、指定回数まで振り直す
+ * 初手はS・Z・Oを出さない
+ */
+export class HistoryRandomizer implements Randomizer {
+  private history: TetrominoType[];
+  private isFirst: boolean = true;
+
+  /**
+   * HistoryRandomizerのコンストラクタ
+   * @param random - 乱数生成器
+   * @param rolls - 1ピースあたりの最大試行回数（TGM1は4、TGM2は6）
+   * @param historySize - 履歴の長さ
+   */
+  constructor(
+    private random: SeededRandom,
+    private rolls: number = 4,
+    historySize: number = 4
+  ) {
+    // TGM1と同様に履歴をZで埋めて開始する
+    this.history = Array(historySize).fill(TetrominoType.Z);
+  }
+
+  public next(): TetrominoType {
+    let piece: TetrominoType;
+
+    if (this.isFirst) {
+      const firstCandidates = [
+        TetrominoType.I,
+        TetrominoType.J,
+        TetrominoType.L,
+        TetrominoType.T,
+      ];
+      piece = firstCandidates[this.random.nextInt(firstCandidates.length)];
+      this.isFirst = false;
+    } else {
+      piece = ALL_PIECES[this.random.nextInt(ALL_PIECES.length)];
+      for (let i = 1; i < this.rolls && this.history.includes(piece); i++) {
+        piece = ALL_PIECES[this.random.nextInt(ALL_PIECES.length)];
+      }
+    }
+
+    this.history.shift();
+    this.history.push(piece);
+    return piece;
+  }
+
+  public getState(): RandomizerState {
+    return {
+      random: this.random.getState(),
+      pieces: [...this.history],
+      first: this.isFirst,
+    };
+  }
+
+  public setState(state: RandomizerState): void {
+    this.random.setState(state.random);
+    this.history = [...state.pieces];
+    this.isFirst = state.first ?? false;
+  }
+}
+
+/**
+ * 決められた順にピースを払い出すピース生成（パズル用）
+ * 指定した順を使い切った後は、予備のピース生成器から払い出す
+ */
+export class SequenceRandomizer implements Randomizer {
+  private index: number = 0;
+
+  /**
+   * SequenceRandomizerのコンストラクタ
+   * @param sequence - 払い出すピースの順
+   * @param fallback - 使い切った後に使うピース生成器
+   */
+  constructor(
+    private sequence: ReadonlyArray<TetrominoType>,
+    private fallback: Randomizer
+  ) {}
+
+  public next(): TetrominoType {
+    if (this.index < this.sequence.length) {
+      return this.sequence[this.index++];
+    }
+    return this.fallback.next();
+  }
+
+  public getState(): RandomizerState {
+    return { ...this.fallback.getState(), sequenceIndex: this.index };
+  }
+
+  public setState(state: RandomizerState): void {
+    this.fallback.setState(state);
+    this.index = state.sequenceIndex ?? 0;
+  }
+}
+
+/**
+ * 指定した種類のピース生成器を作成する
+ * @param type - ピース生成アルゴリズムの種類
+ * @param seed - 乱数シード
+ * @returns ピース生成器
+ */
+export function createRandomizer(
+  type: RandomizerType,
+  seed: number
+): Randomizer {
+  const random = new SeededRandom(seed);
+
+  switch (type) {
+    case "sevenBag":
+      return new BagRandomizer(random, 1);
+    case "fourteenBag":
+      return new BagRandomizer(random, 2);
+    case "pure":
+      return new PureRandomizer(random);
+    case "nes":
+      return new NesRandomizer(random);
+    case "tgm":
+      return new HistoryRandomizer(random, 4);
+    default:
+      throw new Error(`Unknown randomizer type: ${type}`);
+  }
+}
@@ -0,0 +1,771 @@
+import { BoardSpec, getTotalRows, validateBoardSpec } from "./boardSpec";
+import { isGridEmpty } from "./collision";
+import { DailyChallenge } from "./dailyChallenge";
+import {
+  FRAMES_PER_SECOND,
+  FRAME_MS,
+  GameEngine,
+  GameEngineConfig,
+  TetrisAction,
+  getDefaultEngineConfig,
+} from "./gameEngine";
+import { GarbageStyle } from "./garbage";
+import { GameMode, ModeSelection } from "./modes/gameMode";
+import { createGameMode } from "./modes/modeFactory";
+import { PuzzlePack, parsePuzzlePack } from "./puzzle";
+import { RandomizerType } from "./randomizer";
+import { RotationSystemType } from "./rotationSystem";
+import { LevelGoalType, ScoringSystemType } from "./scoreAndLevel";
+import {
+  STACK_VISIBILITY_MODES,
+  StackVisibilitySettings,
+} from "./stackVisibility";
+import { KeyValueStorage, MemoryStorage } from "./storage";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * 対応しているリプレイの形式のバージョン
+ */
+export const REPLAY_VERSION = 1;
+
+/**
+ * 再生画面で選択できる再生速度（倍率）
+ */
+export const REPLAY_SPEEDS: ReadonlyArray<number> = [0.25, 0.5, 1, 2, 4, 8];
+
+/**
+ * ゲームのルール（シーンの設定から作成し、リプレイに保存する）
+ */
+export interface ReplayRules {
+  /** 盤面の寸法 */
+  board: BoardSpec;
+  /** ピース生成のアルゴリズム */
+  randomizer: RandomizerType;
+  /** 回転システム */
+  rotationSystem: RotationSystemType;
+  /** 全ピースのスピンを判定するかどうか */
+  allSpin: boolean;
+  /** 得点表 */
+  scoringSystem: ScoringSystemType;
+  /** 部分ロックアウトを有効にするかどうか */
+  partialLockOut: boolean;
+}
+
+/**
+ * 記録した操作
+ */
+export interface ReplayEvent {
+  /** 操作した時点の経過フレーム数（このフレームを進める前に適用する） */
+  frame: number;
+  /** 操作アクション */
+  action: TetrisAction;
+}
+
+/**
+ * リプレイ
+ * 同じルール・シード・操作列をエンジンに与えると、同じゲームが再現される
+ */
+export interface Replay {
+  /** 形式のバージョン */
+  version: number;
+  /** 遊んだモードと設定 */
+  selection: ModeSelection;
+  /** ピース生成とモードが使う乱数シード */
+  seed: number;
+  /** ゲームのルール */
+  rules: ReplayRules;
+  /** 固定したブロックの見え方の設定 */
+  stackVisibility: StackVisibilitySettings;
+  /** 開始時の盤面（空の盤面から始めた場合はnull） */
+  initialGrid: Grid | null;
+  /** 操作の一覧（フレーム順） */
+  events: ReplayEvent[];
+  /** ゲームが終了した時点の経過フレーム数 */
+  frames: number;
+  /** 記録した日時（ISO 8601） */
+  date: string;
+}
+
+/**
+ * 保存・共有用のリプレイ（盤面と操作列を文字列に詰めたもの）
+ */
+export interface ReplayData extends Omit<Replay, "initialGrid" | "events"> {
+  /** 開始時の盤面（ブロックのある最上段から下の行、各セルを1桁の数字で表す） */
+  initialGrid: string[] | null;
+  /** 操作列（前の操作からのフレーム数を36進数の小文字で表し、操作を大文字1文字で続ける） */
+  inputs: string;
+}
+
+/**
+ * 操作アクションと、操作列で使う文字の対応
+ */
+const ACTION_CODES: Partial<Record<TetrisAction, string>> = {
+  [TetrisAction.MoveLeft]: "L",
+  [TetrisAction.MoveRight]: "R",
+  [TetrisAction.SoftDrop]: "D",
+  [TetrisAction.HardDrop]: "H",
+  [TetrisAction.RotateClockwise]: "X",
+  [TetrisAction.RotateCounterClockwise]: "Z",
+  [TetrisAction.Rotate180]: "A",
+  [TetrisAction.Hold]: "C",
+};
+
+/**
+ * 操作列の文字と操作アクションの対応
+ */
+const CODE_ACTIONS: Record<string, TetrisAction> = Object.fromEntries(
+  Object.entries(ACTION_CODES).map(([action, code]) => [code, action])
+) as Record<string, TetrisAction>;
+
+/**
+ * 操作列の1操作（フレーム差と操作の文字）
+ */
+const INPUT_PATTERN = /([0-9a-z]*)([A-Z])/g;
+
+/**
+ * ルールの各項目で読み込める値
+ */
+const RANDOMIZER_TYPES: ReadonlyArray<RandomizerType> = [
+  "sevenBag",
+  "fourteenBag",
+  "pure",
+  "nes",
+  "tgm",
+];
+const ROTATION_SYSTEM_TYPES: ReadonlyArray<RotationSystemType> = [
+  "srs",
+  "srsPlus",
+  "ars",
+  "nrs",
+  "noKick",
+];
+const SCORING_SYSTEM_TYPES: ReadonlyArray<ScoringSystemType> = [
+  "guideline",
+  "nes",
+  "sega",
+];
+
+/**
+ * モードの設定の項目で読み込める値
+ */
+const LEVEL_GOAL_TYPES: ReadonlyArray<LevelGoalType> = [
+  "fixed",
+  "variable",
+  "none",
+];
+const GARBAGE_STYLES: ReadonlyArray<GarbageStyle> = ["clean", "messy"];
+
+/**
+ * ルールからエンジンの設定を作成する
+ * シーンでのプレイとリプレイの再生で同じ設定になるよう、両方でこの関数を使う
+ * @param rules - ゲームのルール
+ * @param seed - ピース生成の乱数シード
+ * @returns エンジンの設定（ゲームモードによる調整の前）
+ */
+export function createRulesEngineConfig(
+  rules: ReplayRules,
+  seed: number
+): GameEngineConfig {
+  const config = getDefaultEngineConfig();
+  return {
+    ...config,
+    nextHold: { ...config.nextHold, randomizer: rules.randomizer, seed },
+    score: { ...config.score, scoringSystem: rules.scoringSystem },
+    rotationSystem: rules.rotationSystem,
+    allSpin: rules.allSpin,
+    board: rules.board,
+    partialLockOut: rules.partialLockOut,
+  };
+}
+
+/**
+ * 記録できる操作かどうか（一時停止は時間が進まないため記録しない）
+ * @param action - 操作アクション
+ */
+export function isRecordableAction(action: TetrisAction): boolean {
+  return ACTION_CODES[action] !== undefined;
+}
+
+/**
+ * プレイ中の操作を記録するクラス
+ */
+export class ReplayRecorder {
+  private events: ReplayEvent[] = [];
+  private initialGrid: Grid | null;
+
+  /**
+   * ReplayRecorderのコンストラクタ
+   * 開始時の盤面はエンジンの開始後に読み取る（モードが用意した盤面を含めるため）
+   * @param header - リプレイの操作以外の内容
+   * @param engine - 開始済みのエンジン
+   */
+  constructor(
+    private header: Pick<
+      Replay,
+      "selection" | "seed" | "rules" | "stackVisibility"
+    >,
+    private engine: GameEngine
+  ) {
+    const { grid } = engine.getState();
+    this.initialGrid = isGridEmpty(grid) ? null : grid;
+  }
+
+  /**
+   * 中断したゲームの記録を引き継ぐ
+   * @param replay - 中断した時点までのリプレイ
+   * @param engine - 中断した状態に戻したエンジン
+   * @returns 続きを記録するReplayRecorder
+   */
+  public static resume(replay: Replay, engine: GameEngine): ReplayRecorder {
+    const { selection, seed, rules, stackVisibility } = replay;
+    const recorder = new ReplayRecorder(
+      { selection, seed, rules, stackVisibility },
+      engine
+    );
+    recorder.initialGrid = replay.initialGrid;
+    recorder.events = [...replay.events];
+    return recorder;
+  }
+
+  /**
+   * 操作を記録する（エンジンに適用する直前に呼び出す）
+   * @param action - 操作アクション
+   */
+  public record(action: TetrisAction): void {
+    if (!isRecordableAction(action)) return;
+
+    this.events.push({ frame: this.engine.getState().frame, action });
+  }
+
+  /**
+   * 記録を終えてリプレイを作成する
+   * @returns リプレイ
+   */
+  public finish(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      ...this.header,
+      initialGrid: this.initialGrid,
+      events: [...this.events],
+      frames: this.engine.getState().frame,
+      date: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * リプレイを保存・共有用の形式に変換する
+ * @param replay - リプレイ
+ * @returns 保存・共有用のリプレイ
+ */
+export function encodeReplay(replay: Replay): ReplayData {
+  let previousFrame = 0;
+  const inputs = replay.events
+    .map(({ frame, action }) => {
+      const delta = frame - previousFrame;
+      previousFrame = frame;
+      return `${delta > 0 ? delta.toString(36) : ""}${ACTION_CODES[action]}`;
+    })
+    .join("");
+
+  let initialGrid: string[] | null = null;
+  if (replay.initialGrid) {
+    const top = replay.initialGrid.findIndex((row) =>
+      row.some((cell) => cell !== 0)
+    );
+    initialGrid = replay.initialGrid.slice(top).map((row) => row.join(""));
+  }
+
+  const { events: _events, ...header } = replay;
+  return { ...header, initialGrid, inputs };
+}
+
+/**
+ * 形式の誤りを、誤りのある場所を含めたエラーにする
+ * @param path - 誤りのある場所（例: "rules.board"）
+ * @param message - 誤りの内容
+ */
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid replay: ${path} ${message}`);
+}
+
+/**
+ * 値がオブジェクト（配列以外）かどうか
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 保存・共有用の形式のリプレイを検証して読み込む
+ * @param data - JSONを解析した値
+ * @returns リプレイ
+ * @throws 形式が正しくない場合（誤りのある場所をメッセージに含める）
+ */
+export function decodeReplay(data: unknown): Replay {
+  if (!isRecord(data)) {
+    invalid("replay", "must be an object");
+  }
+  if (data.version !== REPLAY_VERSION) {
+    invalid("version", `must be ${REPLAY_VERSION}`);
+  }
+  if (typeof data.seed !== "number" || !Number.isInteger(data.seed)) {
+    invalid("seed", "must be an integer");
+  }
+  if (
+    typeof data.frames !== "number" ||
+    !Number.isInteger(data.frames) ||
+    data.frames < 0
+  ) {
+    invalid("frames", "must be a non-negative integer");
+  }
+  if (typeof data.inputs !== "string") {
+    invalid("inputs", "must be a string");
+  }
+
+  const selection = decodeSelection(data.selection, "selection");
+  const rules = decodeRules(data.rules);
+  const stackVisibility = decodeStackVisibility(
+    data.stackVisibility,
+    "stackVisibility"
+  );
+  const events: ReplayEvent[] = [];
+  let frame = 0;
+  let consumed = 0;
+  for (const match of data.inputs.matchAll(INPUT_PATTERN)) {
+    const action = CODE_ACTIONS[match[2]];
+    if (match.index !== consumed || !action) {
+      invalid("inputs", `has an unknown input at ${consumed}`);
+    }
+    frame += match[1] ? parseInt(match[1], 36) : 0;
+    events.push({ frame, action });
+    consumed += match[0].length;
+  }
+  if (consumed !== data.inputs.length) {
+    invalid("inputs", `has an unknown input at ${consumed}`);
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    selection,
+    seed: data.seed,
+    rules,
+    stackVisibility,
+    initialGrid: decodeGrid(data.initialGrid, rules.board),
+    events,
+    frames: data.frames,
+    date: typeof data.date === "string" ? data.date : "",
+  };
+}
+
+/**
+ * 値が選択肢のいずれかであることを確認する
+ */
+function expectOneOf<T extends string>(
+  value: unknown,
+  options: ReadonlyArray<T>,
+  path: string
+): T {
+  if (!options.includes(value as T)) {
+    invalid(path, `must be one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+/**
+ * 真偽値であることを確認する
+ */
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    invalid(path, "must be a boolean");
+  }
+  return value;
+}
+
+/**
+ * 1以上の整数であることを確認する
+ */
+function expectPositiveInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    invalid(path, "must be a positive integer");
+  }
+  return value;
+}
+
+/**
+ * ゲームのルールの形式を確認する
+ */
+function decodeRules(value: unknown): ReplayRules {
+  if (!isRecord(value) || !isRecord(value.board)) {
+    invalid("rules", "must be an object with a board");
+  }
+  const board = {
+    width: value.board.width,
+    height: value.board.height,
+    bufferRows: value.board.bufferRows,
+  } as BoardSpec;
+  try {
+    validateBoardSpec(board);
+  } catch (error) {
+    invalid("rules.board", `is not a valid board: ${(error as Error).message}`);
+  }
+
+  return {
+    board,
+    randomizer: expectOneOf(
+      value.randomizer,
+      RANDOMIZER_TYPES,
+      "rules.randomizer"
+    ),
+    rotationSystem: expectOneOf(
+      value.rotationSystem,
+      ROTATION_SYSTEM_TYPES,
+      "rules.rotationSystem"
+    ),
+    allSpin: expectBoolean(value.allSpin, "rules.allSpin"),
+    scoringSystem: expectOneOf(
+      value.scoringSystem,
+      SCORING_SYSTEM_TYPES,
+      "rules.scoringSystem"
+    ),
+    partialLockOut: expectBoolean(value.partialLockOut, "rules.partialLockOut"),
+  };
+}
+
+/**
+ * 固定したブロックの見え方の設定の形式を確認する
+ */
+function decodeStackVisibility(
+  value: unknown,
+  path: string
+): StackVisibilitySettings {
+  if (!isRecord(value)) {
+    invalid(path, "must be an object");
+  }
+  const { revealInterval } = value;
+  if (typeof revealInterval !== "number" || !(revealInterval >= 0)) {
+    invalid(`${path}.revealInterval`, "must be a non-negative number");
+  }
+  return {
+    mode: expectOneOf(value.mode, STACK_VISIBILITY_MODES, `${path}.mode`),
+    revealInterval,
+  };
+}
+
+/**
+ * パズルパックの形式を確認する（パックの誤りは誤りのある場所を含める）
+ */
+function decodePuzzlePack(value: unknown, path: string): PuzzlePack {
+  try {
+    return parsePuzzlePack(value);
+  } catch (error) {
+    return invalid(
+      path,
+      `is not a valid puzzle pack: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * デイリーチャレンジの形式を確認する
+ * ルールはモードの選択と同じ形のため、同じ確認を使う
+ */
+function decodeDailyChallenge(value: unknown, path: string): DailyChallenge {
+  if (!isRecord(value)) {
+    invalid(path, "must be an object");
+  }
+  if (typeof value.date !== "string") {
+    invalid(`${path}.date`, "must be a string");
+  }
+  if (typeof value.seed !== "number" || !Number.isInteger(value.seed)) {
+    invalid(`${path}.seed`, "must be an integer");
+  }
+  const ruleset = decodeSelection(value.ruleset, `${path}.ruleset`);
+  if (
+    ruleset.type !== "sprint" &&
+    ruleset.type !== "ultra" &&
+    ruleset.type !== "dig" &&
+    ruleset.type !== "puzzle"
+  ) {
+    invalid(`${path}.ruleset.type`, "must be sprint, ultra, dig or puzzle");
+  }
+  const { modifiers } = value;
+  if (!isRecord(modifiers)) {
+    invalid(`${path}.modifiers`, "must be an object");
+  }
+  return {
+    date: value.date,
+    seed: value.seed,
+    ruleset,
+    modifiers: {
+      stackVisibility: expectOneOf(
+        modifiers.stackVisibility,
+        STACK_VISIBILITY_MODES,
+        `${path}.modifiers.stackVisibility`
+      ),
+      hold: expectBoolean(modifiers.hold, `${path}.modifiers.hold`),
+    },
+  };
+}
+
+/**
+ * 遊んだモードと設定の形式を確認する
+ */
+function decodeSelection(value: unknown, path: string): ModeSelection {
+  if (!isRecord(value)) {
+    invalid(path, "must be a mode selection");
+  }
+  switch (value.type) {
+    case "endless":
+    case "master":
+    case "survival":
+      return { type: value.type };
+    case "sprint":
+      return {
+        type: "sprint",
+        lineTarget: expectPositiveInteger(
+          value.lineTarget,
+          `${path}.lineTarget`
+        ),
+      };
+    case "ultra":
+      return {
+        type: "ultra",
+        timeLimit: expectPositiveInteger(value.timeLimit, `${path}.timeLimit`),
+      };
+    case "marathon":
+      return {
+        type: "marathon",
+        levelGoal: expectOneOf(
+          value.levelGoal,
+          LEVEL_GOAL_TYPES,
+          `${path}.levelGoal`
+        ),
+        endless: expectBoolean(value.endless, `${path}.endless`),
+      };
+    case "zen":
+      if (value.fumen !== undefined && typeof value.fumen !== "string") {
+        invalid(`${path}.fumen`, "must be a string");
+      }
+      return {
+        type: "zen",
+        resume: expectBoolean(value.resume, `${path}.resume`),
+        ...(value.fumen !== undefined && { fumen: value.fumen }),
+      };
+    case "dig":
+      return {
+        type: "dig",
+        lineTarget: expectPositiveInteger(
+          value.lineTarget,
+          `${path}.lineTarget`
+        ),
+        style: expectOneOf(value.style, GARBAGE_STYLES, `${path}.style`),
+      };
+    case "puzzle": {
+      const pack = decodePuzzlePack(value.pack, `${path}.pack`);
+      const { index } = value;
+      if (
+        typeof index !== "number" ||
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= pack.puzzles.length
+      ) {
+        invalid(`${path}.index`, "must be a puzzle in the pack");
+      }
+      return { type: "puzzle", pack, index };
+    }
+    case "daily":
+      return {
+        type: "daily",
+        challenge: decodeDailyChallenge(value.challenge, `${path}.challenge`),
+      };
+    default:
+      return invalid(`${path}.type`, "must be a known game mode");
+  }
+}
+
+/**
+ * 保存・共有用の形式の盤面を盤面グリッドに戻す（上の空の行を補う）
+ * @param value - 盤面の行の文字列
+ * @param spec - 盤面の寸法
+ */
+function decodeGrid(value: unknown, spec: BoardSpec): Grid | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const totalRows = getTotalRows(spec);
+  if (!Array.isArray(value) || value.length > totalRows) {
+    invalid("initialGrid", "must be an array of rows within the board");
+  }
+
+  const rows = value.map((row, index) => {
+    if (typeof row !== "string" || !/^[0-9]+$/.test(row)) {
+      invalid(`initialGrid[${index}]`, "must be a string of digits");
+    }
+    if (row.length !== spec.width) {
+      invalid(`initialGrid[${index}]`, "must match the board width");
+    }
+    return [...row].map(Number);
+  });
+  const empty = Array.from({ length: totalRows - rows.length }, () =>
+    Array<number>(spec.width).fill(0)
+  );
+  return [...empty, ...rows];
+}
+
+/**
+ * リプレイを再生するクラス
+ * 記録時と同じルール・シードでエンジンとモードを作り直し、記録したフレームで操作を適用する
+ * 自己ベストなどを書き換えないよう、モードにはメモリ上のストレージを渡す
+ */
+export class ReplayPlayer {
+  private engine: GameEngine;
+  private mode: GameMode;
+  /** 次に適用する操作の位置 */
+  private nextEvent: number = 0;
+  /** 固定フレームに満たない端数時間（ミリ秒×FRAMES_PER_SECOND） */
+  private frameAccumulator: number = 0;
+  private speed: number = 1;
+  private paused: boolean = false;
+
+  /**
+   * ReplayPlayerのコンストラクタ
+   * @param replay - 再生するリプレイ
+   * @param storage - モードが使う保存先
+   */
+  constructor(
+    private replay: Replay,
+    storage: KeyValueStorage = new MemoryStorage()
+  ) {
+    this.mode = createGameMode(replay.selection, storage, replay.seed);
+    const config = this.mode.configureEngine(
+      createRulesEngineConfig(replay.rules, replay.seed)
+    );
+    this.engine = new GameEngine({
+      ...config,
+      initialGrid: replay.initialGrid ?? config.initialGrid,
+    });
+    this.engine.on("frame", () => this.mode.update(FRAME_MS));
+    this.mode.attach(this.engine);
+    this.engine.start();
+  }
+
+  /**
+   * 再生中のエンジンを取得する（描画・イベントの購読用）
+   */
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  /**
+   * 再生中のモードを取得する（HUDの表示用）
+   */
+  public getMode(): GameMode {
+    return this.mode;
+  }
+
+  /**
+   * 再生しているリプレイを取得する
+   */
+  public getReplay(): Replay {
+    return this.replay;
+  }
+
+  /**
+   * 現在の経過フレーム数を取得する
+   */
+  public getFrame(): number {
+    return this.engine.getState().frame;
+  }
+
+  /**
+   * 再生を終えたかどうか（ゲームが終了したか、記録した最後のフレームまで進んだ場合）
+   */
+  public isFinished(): boolean {
+    const { isPlaying, frame } = this.engine.getState();
+    return (
+      !isPlaying ||
+      (frame >= this.replay.frames &&
+        this.nextEvent >= this.replay.events.length)
+    );
+  }
+
+  /**
+   * 再生速度を取得する
+   */
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * 再生速度を1段階変更する
+   * @param direction - 速くする場合は1、遅くする場合は-1
+   */
+  public changeSpeed(direction: 1 | -1): void {
+    const index = REPLAY_SPEEDS.indexOf(this.speed) + direction;
+    this.speed =
+      REPLAY_SPEEDS[Math.max(0, Math.min(REPLAY_SPEEDS.length - 1, index))];
+  }
+
+  /**
+   * 一時停止中かどうか
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * 一時停止・再開を切り替える
+   */
+  public togglePaused(): void {
+    this.paused = !this.paused;
+  }
+
+  /**
+   * 経過時間に再生速度を掛けた分だけ再生を進める（一時停止中は進めない）
+   * @param ms - 経過時間（ミリ秒）
+   */
+  public update(ms: number): void {
+    if (this.paused) return;
+
+    this.frameAccumulator += ms * this.speed * FRAMES_PER_SECOND;
+    while (this.frameAccumulator >= 1000 && !this.isFinished()) {
+      this.frameAccumulator -= 1000;
+      this.stepFrame();
+    }
+  }
+
+  /**
+   * 1フレームだけ再生を進める（コマ送り）
+   * そのフレームで記録した操作を適用してから、フレームを進める
+   */
+  public stepFrame(): void {
+    if (this.isFinished()) return;
+
+    const frame = this.getFrame();
+    const { events } = this.replay;
+    while (
+      this.nextEvent < events.length &&
+      events[this.nextEvent].frame <= frame
+    ) {
+      this.mode.onInput();
+      this.engine.applyAction(events[this.nextEvent].action);
+      this.nextEvent++;
+    }
+    if (frame < this.replay.frames) {
+      this.engine.advanceFrame();
+    }
+  }
+
+  /**
+   * 再生を終えてモードの購読を解除する
+   */
+  public destroy(): void {
+    this.mode.detach();
+  }
+}
@@ -1,4 +1,5 @@
 import { isPositionValid } from "./collision";
+import { TetrominoType } from "./tetromino";
 
 /**
  * テトロミノ（テトリスブロック）の形状を表す型
@@ -101,11 +102,22 @@ export function attemptRotation(
   };
 }
 
+/**
+ * 回転状態（0: 出現時、1: R（右回転）、2: 180度、3: L（左回転））
+ */
+export type RotationState = 0 | 1 | 2 | 3;
+
+/**
+ * 回転状態の文字列表現（キックデータのキーに使用）
+ */
+export const ROTATION_STATE_NAMES = ["0", "R", "2", "L"] as const;
+
 /**
  * スーパーローテーションシステム（SRS）のウォールキックデータ
  * テトロミノの種類と回転状態に応じた詳細なキックパターン
+ * オフセットは [x, y] で、yは上方向を正とする（グリッドに適用する際は符号を反転する）
  */
-const SRS_WALL_KICK_DATA = {
+export const SRS_WALL_KICK_DATA = {
   // I型以外のテトロミノ用
   standard: {
     "0->R": [
@@ -224,8 +236,85 @@ const SRS_WALL_KICK_DATA = {
       [2, -1],
     ],
   },
+  // O型テトロミノ用（回転しても位置が変わらないためキックしない）
+  O: {
+    "0->R": [[0, 0]],
+    "R->0": [[0, 0]],
+    "R->2": [[0, 0]],
+    "2->R": [[0, 0]],
+    "2->L": [[0, 0]],
+    "L->2": [[0, 0]],
+    "L->0": [[0, 0]],
+    "0->L": [[0, 0]],
+  },
 };
 
+/**
+ * テトロミノの回転に使う正方形領域（4x4の形状内での位置とサイズ）
+ * I型とO型は4x4全体、それ以外は3x3（形状の1〜3行目、0〜2列目）で回転する
+ * @param type テトロミノの種類
+ * @returns 回転領域の上端の行・左端の列・一辺のサイズ
+ */
+export function getRotationBox(type: TetrominoType): {
+  top: number;
+  left: number;
+  size: number;
+} {
+  if (type === TetrominoType.I || type === TetrominoType.O) {
+    return { top: 0, left: 0, size: 4 };
+  }
+  return { top: 1, left: 0, size: 3 };
+}
+
+/**
+ * SRSの回転中心に従ってテトロミノを回転させる関数
+ * 形状の回転領域だけを回転し、領域外の余白はそのまま保つ
+ * @param shape 回転させるテトロミノの形状（4x4）
+ * @param type テトロミノの種類
+ * @param direction 回転方向
+ * @returns 回転後のテトロミノの形状
+ */
+export function rotateShapeSRS(
+  shape: BlockShape,
+  type: TetrominoType,
+  direction: "clockwise" | "counterClockwise"
+): BlockShape {
+  const { top, left, size } = getRotationBox(type);
+
+  // 回転領域を切り出して回転する
+  const box: BlockShape = [];
+  for (let row = 0; row < size; row++) {
+    box.push(shape[top + row].slice(left, left + size));
+  }
+  const rotatedBox = rotateShape(box, direction);
+
+  // 回転領域を書き戻す
+  const result = shape.map((row) => row.map(() => 0));
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      result[top + row][left + col] = rotatedBox[row][col];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * テトロミノの種類に応じたSRSのキックデータを取得する
+ * @param type テトロミノの種類
+ * @returns キックデータ
+ */
+function getSRSKickTable(type: TetrominoType): Record<string, number[][]> {
+  switch (type) {
+    case TetrominoType.I:
+      return SRS_WALL_KICK_DATA.I;
+    case TetrominoType.O:
+      return SRS_WALL_KICK_DATA.O;
+    default:
+      return SRS_WALL_KICK_DATA.standard;
+  }
+}
+
 /**
  * SRSルールに基づいた高度な回転試行関数
  * @param grid ゲームの盤面グリッド
@@ -234,8 +323,8 @@ const SRS_WALL_KICK_DATA = {
  * @param offsetY 現在のY座標オフセット
  * @param direction 回転方向
  * @param currentRotation 現在の回転状態（0: 初期状態、1: 右回転、2: 180度、3: 左回転）
- * @param isIPiece I型テトロミノかどうか
- * @returns 回転結果
+ * @param pieceType テトロミノの種類（I型・O型は専用のキックデータを使用）
+ * @returns 回転結果（kickIndexは成功したキックの番号、0はキックなし、失敗時は-1）
  */
 export function attemptRotationSRS(
   grid: Grid,
@@ -243,42 +332,40 @@ export function attemptRotationSRS(
   offsetX: number,
   offsetY: number,
   direction: "clockwise" | "counterClockwise",
-  currentRotation: number,
-  isIPiece: boolean = false
+  currentRotation: RotationState,
+  pieceType: TetrominoType
 ): {
   rotated: BlockShape;
   x: number;
   y: number;
   valid: boolean;
-  newRotation: number;
+  newRotation: RotationState;
+  kickIndex: number;
 } {
   // テトロミノを回転
-  const rotated = rotateShape(shape, direction);
+  const rotated = rotateShapeSRS(shape, pieceType, direction);
 
   // 新しい回転状態を計算
-  const newRotation =
+  const newRotation = (
     direction === "clockwise"
       ? (currentRotation + 1) % 4
-      : (currentRotation + 3) % 4;
+      : (currentRotation + 3) % 4
+  ) as RotationState;
 
   // 回転状態の文字列表現
-  const rotationStates = ["0", "R", "2", "L"];
-  const fromState = rotationStates[currentRotation];
-  const toState = rotationStates[newRotation];
+  const fromState = ROTATION_STATE_NAMES[currentRotation];
+  const toState = ROTATION_STATE_NAMES[newRotation];
   const transitionKey = `${fromState}->${toState}`;
 
   // 適切なウォールキックデータを選択
-  const kickData = isIPiece
-    ? SRS_WALL_KICK_DATA.I
-    : SRS_WALL_KICK_DATA.standard;
-  const kickOffsets = kickData[transitionKey as keyof typeof kickData] || [
-    [0, 0],
-  ];
+  const kickOffsets = getSRSKickTable(pieceType)[transitionKey] || [[0, 0]];
 
   // 各キックパターンを試行
-  for (const [kickX, kickY] of kickOffsets) {
+  for (let kickIndex = 0; kickIndex < kickOffsets.length; kickIndex++) {
+    const [kickX, kickY] = kickOffsets[kickIndex];
     const testX = offsetX + kickX;
-    const testY = offsetY + kickY;
+    // キックデータは上方向が正、グリッドは下方向が正のため符号を反転する
+    const testY = offsetY - kickY;
 
     if (isPositionValid(grid, rotated, testX, testY)) {
       return {
@@ -287,6 +374,7 @@ export function attemptRotationSRS(
         y: testY,
         valid: true,
         newRotation: newRotation,
+        kickIndex: kickIndex,
       };
     }
   }
@@ -298,6 +386,7 @@ export function attemptRotationSRS(
     y: offsetY,
     valid: false,
     newRotation: currentRotation,
+    kickIndex: -1,
   };
 }
 
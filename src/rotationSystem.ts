@@ -0,0 +1,660 @@
+import { isPositionValid } from "./collision";
+import { TetrominoType, getTetrominoByIndex } from "./tetromino";
+import {
+  BlockShape,
+  Grid,
+  RotationState,
+  ROTATION_STATE_NAMES,
+  SRS_WALL_KICK_DATA,
+  attemptRotationSRS,
+  getRotationBox,
+  rotateShapeSRS,
+} from "./rotation";
+
+/**
+ * 回転方向（180は半回転）
+ */
+export type RotationDirection = "clockwise" | "counterClockwise" | "180";
+
+/**
+ * キックのオフセット [x, y]（yは上方向が正）
+ */
+export type KickOffset = readonly [number, number];
+
+/**
+ * 選択可能な回転システムの種類
+ */
+export type RotationSystemType = "srs" | "srsPlus" | "ars" | "nrs" | "noKick";
+
+/**
+ * 回転対象のピース情報
+ */
+export interface RotatablePiece {
+  type: TetrominoType;
+  shape: BlockShape;
+  x: number;
+  y: number;
+  rotation: RotationState;
+}
+
+/**
+ * 回転の試行結果
+ */
+export interface RotationResult {
+  /** 回転後の形状（失敗時は元の形状） */
+  rotated: BlockShape;
+  /** 回転後のX座標 */
+  x: number;
+  /** 回転後のY座標 */
+  y: number;
+  /** 回転に成功したかどうか */
+  valid: boolean;
+  /** 回転後の回転状態 */
+  newRotation: RotationState;
+  /** 成功したキックの番号（0はキックなし、失敗時は-1） */
+  kickIndex: number;
+}
+
+/**
+ * 回転システムのインターフェース
+ * 出現時の向き、回転中心、キックテーブルを定義する
+ */
+export interface RotationSystem {
+  /** 回転システムの種類 */
+  readonly type: RotationSystemType;
+  /** 表示名 */
+  readonly name: string;
+  /** 180度回転に対応しているかどうか */
+  readonly supports180: boolean;
+
+  /**
+   * 指定した回転状態の形状を取得する（4x4、深いコピー）
+   * @param type - テトロミノの種類
+   * @param rotation - 回転状態（0は出現時の向き）
+   */
+  getShape(type: TetrominoType, rotation: RotationState): BlockShape;
+
+  /**
+   * 回転中心となる正方形領域を取得する
+   * @param type - テトロミノの種類
+   */
+  getRotationBox(type: TetrominoType): {
+    top: number;
+    left: number;
+    size: number;
+  };
+
+  /**
+   * 回転状態の遷移に対するキックオフセットを取得する
+   * @param type - テトロミノの種類
+   * @param from - 回転前の状態
+   * @param to - 回転後の状態
+   */
+  getKicks(
+    type: TetrominoType,
+    from: RotationState,
+    to: RotationState
+  ): ReadonlyArray<KickOffset>;
+
+  /**
+   * 回転を試行する
+   * @param grid - ゲームの盤面グリッド
+   * @param piece - 回転するピース
+   * @param direction - 回転方向
+   */
+  rotate(
+    grid: Grid,
+    piece: RotatablePiece,
+    direction: RotationDirection
+  ): RotationResult;
+}
+
+/**
+ * 回転方向から回転後の状態を計算する
+ * @param rotation - 現在の回転状態
+ * @param direction - 回転方向
+ * @returns 回転後の状態
+ */
+export function getNextRotation(
+  rotation: RotationState,
+  direction: RotationDirection
+): RotationState {
+  const step = direction === "clockwise" ? 1 : direction === "180" ? 2 : 3;
+  return ((rotation + step) % 4) as RotationState;
+}
+
+/**
+ * 文字列の行から4x4の形状を作成する
+ * 3x3の定義は形状の1〜3行目・0〜2列目（getRotationBoxと同じ領域）に配置する
+ * @param type - テトロミノの種類（セルの値は type + 1）
+ * @param rows - "." を空、それ以外をブロックとした行の配列
+ * @returns 4x4の形状
+ */
+function shapeFromRows(type: TetrominoType, rows: string[]): BlockShape {
+  const shape: BlockShape = Array(4)
+    .fill(null)
+    .map(() => Array(4).fill(0));
+  const top = rows.length === 3 ? 1 : 0;
+
+  rows.forEach((row, rowIndex) => {
+    [...row].forEach((char, colIndex) => {
+      if (char !== ".") {
+        shape[top + rowIndex][colIndex] = type + 1;
+      }
+    });
+  });
+
+  return shape;
+}
+
+/**
+ * 回転システムの共通実装
+ * 回転後の形状を取得し、キックテーブルを順に試行する
+ */
+abstract class BaseRotationSystem implements RotationSystem {
+  abstract readonly type: RotationSystemType;
+  abstract readonly name: string;
+  readonly supports180: boolean = false;
+
+  abstract getShape(type: TetrominoType, rotation: RotationState): BlockShape;
+
+  abstract getKicks(
+    type: TetrominoType,
+    from: RotationState,
+    to: RotationState
+  ): ReadonlyArray<KickOffset>;
+
+  public getRotationBox(type: TetrominoType): {
+    top: number;
+    left: number;
+    size: number;
+  } {
+    return getRotationBox(type);
+  }
+
+  public rotate(
+    grid: Grid,
+    piece: RotatablePiece,
+    direction: RotationDirection
+  ): RotationResult {
+    if (direction === "180" && !this.supports180) {
+      return this.failure(piece);
+    }
+
+    const newRotation = getNextRotation(piece.rotation, direction);
+    const rotated = this.getShape(piece.type, newRotation);
+    const kicks = this.getKicks(piece.type, piece.rotation, newRotation);
+
+    for (let kickIndex = 0; kickIndex < kicks.length; kickIndex++) {
+      const [kickX, kickY] = kicks[kickIndex];
+      const testX = piece.x + kickX;
+      // キックデータは上方向が正、グリッドは下方向が正のため符号を反転する
+      const testY = piece.y - kickY;
+
+      if (isPositionValid(grid, rotated, testX, testY)) {
+        return {
+          rotated,
+          x: testX,
+          y: testY,
+          valid: true,
+          newRotation,
+          kickIndex,
+        };
+      }
+    }
+
+    return this.failure(piece);
+  }
+
+  /**
+   * 回転失敗時の結果を作成する
+   * @param piece - 回転しようとしたピース
+   */
+  protected failure(piece: RotatablePiece): RotationResult {
+    return {
+      rotated: piece.shape,
+      x: piece.x,
+      y: piece.y,
+      valid: false,
+      newRotation: piece.rotation,
+      kickIndex: -1,
+    };
+  }
+}
+
+/**
+ * スーパーローテーションシステム（SRS）
+ * ガイドライン準拠のテトリスで使われる標準の回転システム
+ */
+export class SRSRotationSystem extends BaseRotationSystem {
+  readonly type: RotationSystemType = "srs";
+  readonly name: string = "SRS";
+
+  public getShape(type: TetrominoType, rotation: RotationState): BlockShape {
+    let shape = getTetrominoByIndex(type);
+    for (let i = 0; i < rotation; i++) {
+      shape = rotateShapeSRS(shape, type, "clockwise");
+    }
+    return shape;
+  }
+
+  public getKicks(
+    type: TetrominoType,
+    from: RotationState,
+    to: RotationState
+  ): ReadonlyArray<KickOffset> {
+    const table =
+      type === TetrominoType.I
+        ? SRS_WALL_KICK_DATA.I
+        : type === TetrominoType.O
+          ? SRS_WALL_KICK_DATA.O
+          : SRS_WALL_KICK_DATA.standard;
+    const key = `${ROTATION_STATE_NAMES[from]}->${ROTATION_STATE_NAMES[to]}`;
+    return (
+      (table as Record<string, number[][]>)[key]?.map(
+        ([x, y]) => [x, y] as const
+      ) ?? [[0, 0]]
+    );
+  }
+
+  public rotate(
+    grid: Grid,
+    piece: RotatablePiece,
+    direction: RotationDirection
+  ): RotationResult {
+    if (direction === "180") {
+      return this.failure(piece);
+    }
+
+    return attemptRotationSRS(
+      grid,
+      piece.shape,
+      piece.x,
+      piece.y,
+      direction,
+      piece.rotation,
+      piece.type
+    );
+  }
+}
+
+/**
+ * SRS+のI型キックデータ（左右対称化したもの）
+ */
+const SRS_PLUS_I_KICKS: Record<string, KickOffset[]> = {
+  "0->R": [
+    [0, 0],
+    [1, 0],
+    [-2, 0],
+    [-2, -1],
+    [1, 2],
+  ],
+  "R->0": [
+    [0, 0],
+    [-1, 0],
+    [2, 0],
+    [-1, -2],
+    [2, 1],
+  ],
+  "R->2": [
+    [0, 0],
+    [-1, 0],
+    [2, 0],
+    [-1, 2],
+    [2, -1],
+  ],
+  "2->R": [
+    [0, 0],
+    [-2, 0],
+    [1, 0],
+    [-2, 1],
+    [1, -2],
+  ],
+  "2->L": [
+    [0, 0],
+    [2, 0],
+    [-1, 0],
+    [2, 1],
+    [-1, -2],
+  ],
+  "L->2": [
+    [0, 0],
+    [1, 0],
+    [-2, 0],
+    [1, -2],
+    [-2, 1],
+  ],
+  "L->0": [
+    [0, 0],
+    [1, 0],
+    [-2, 0],
+    [1, 2],
+    [-2, -1],
+  ],
+  "0->L": [
+    [0, 0],
+    [-1, 0],
+    [2, 0],
+    [2, -1],
+    [-1, 2],
+  ],
+};
+
+/**
+ * SRS+の180度回転キックデータ（I型以外）
+ */
+const SRS_PLUS_180_KICKS: Record<string, KickOffset[]> = {
+  "0->2": [
+    [0, 0],
+    [0, 1],
+    [1, 1],
+    [-1, 1],
+    [1, 0],
+    [-1, 0],
+  ],
+  "2->0": [
+    [0, 0],
+    [0, -1],
+    [-1, -1],
+    [1, -1],
+    [-1, 0],
+    [1, 0],
+  ],
+  "R->L": [
+    [0, 0],
+    [1, 0],
+    [1, 2],
+    [1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+  "L->R": [
+    [0, 0],
+    [-1, 0],
+    [-1, 2],
+    [-1, 1],
+    [0, 2],
+    [0, 1],
+  ],
+};
+
+/**
+ * SRS+
+ * I型のキックを左右対称にし、180度回転とそのキックを追加したSRSの拡張
+ */
+export class SRSPlusRotationSystem extends BaseRotationSystem {
+  readonly type: RotationSystemType = "srsPlus";
+  readonly name: string = "SRS+";
+  readonly supports180: boolean = true;
+
+  private readonly srs = new SRSRotationSystem();
+
+  public getShape(type: TetrominoType, rotation: RotationState): BlockShape {
+    return this.srs.getShape(type, rotation);
+  }
+
+  public getKicks(
+    type: TetrominoType,
+    from: RotationState,
+    to: RotationState
+  ): ReadonlyArray<KickOffset> {
+    const key = `${ROTATION_STATE_NAMES[from]}->${ROTATION_STATE_NAMES[to]}`;
+
+    if ((from + 2) % 4 === to) {
+      // 180度回転（I型とO型はキックしない）
+      if (type === TetrominoType.I || type === TetrominoType.O) {
+        return [[0, 0]];
+      }
+      return SRS_PLUS_180_KICKS[key];
+    }
+
+    if (type === TetrominoType.I) {
+      return SRS_PLUS_I_KICKS[key];
+    }
+
+    return this.srs.getKicks(type, from, to);
+  }
+}
+
+/**
+ * ARS（アリカ・ローテーションシステム）の各回転状態の形状
+ * TGMシリーズ準拠で、ピースは平らな面を下にして出現し、回転時は下端を揃える
+ */
+const ARS_SHAPES: Record<TetrominoType, string[][]> = {
+  [TetrominoType.I]: [
+    ["....", "####", "....", "...."],
+    ["..#.", "..#.", "..#.", "..#."],
+    ["....", "####", "....", "...."],
+    ["..#.", "..#.", "..#.", "..#."],
+  ],
+  [TetrominoType.O]: [
+    ["....", ".##.", ".##.", "...."],
+    ["....", ".##.", ".##.", "...."],
+    ["....", ".##.", ".##.", "...."],
+    ["....", ".##.", ".##.", "...."],
+  ],
+  [TetrominoType.T]: [
+    ["...", "###", ".#."],
+    [".#.", "##.", ".#."],
+    ["...", ".#.", "###"],
+    [".#.", ".##", ".#."],
+  ],
+  [TetrominoType.S]: [
+    ["...", ".##", "##."],
+    ["#..", "##.", ".#."],
+    ["...", ".##", "##."],
+    ["#..", "##.", ".#."],
+  ],
+  [TetrominoType.Z]: [
+    ["...", "##.", ".##"],
+    ["..#", ".##", ".#."],
+    ["...", "##.", ".##"],
+    ["..#", ".##", ".#."],
+  ],
+  [TetrominoType.J]: [
+    ["...", "###", "..#"],
+    [".#.", ".#.", "##."],
+    ["...", "#..", "###"],
+    [".##", ".#.", ".#."],
+  ],
+  [TetrominoType.L]: [
+    ["...", "###", "#.."],
+    ["##.", ".#.", ".#."],
+    ["...", "..#", "###"],
+    [".#.", ".#.", ".##"],
+  ],
+};
+
+/**
+ * ARS（アリカ・ローテーションシステム、TGM方式）
+ * 回転できない場合は右に1マス、左に1マスの順でキックする
+ * I型はキックせず、L・J・T型は中央列がふさがっている場合にキックしない
+ */
+export class ARSRotationSystem extends BaseRotationSystem {
+  readonly type: RotationSystemType = "ars";
+  readonly name: string = "ARS";
+
+  public getShape(type: TetrominoType, rotation: RotationState): BlockShape {
+    return shapeFromRows(type, ARS_SHAPES[type][rotation]);
+  }
+
+  public getKicks(
+    type: TetrominoType,
+    from: RotationState,
+    to: RotationState
+  ): ReadonlyArray<KickOffset> {
+    if (type === TetrominoType.I || type === TetrominoType.O) {
+      return [[0, 0]];
+    }
+    return [
+      [0, 0],
+      [1, 0],
+      [-1, 0],
+    ];
+  }
+
+  public rotate(
+    grid: Grid,
+    piece: RotatablePiece,
+    direction: RotationDirection
+  ): RotationResult {
+    const result = super.rotate(grid, piece, direction);
+
+    // 中央列ルール：基本回転が中央列のブロックで妨げられた場合はキックを取り消す
+    if (
+      result.valid &&
+      result.kickIndex > 0 &&
+      this.isBlockedAtCenterColumn(grid, piece, result.newRotation)
+    ) {
+      return this.failure(piece);
+    }
+
+    return result;
+  }
+
+  /**
+   * L・J・T型の基本回転位置で、最初に衝突するセル（読み順）が中央列かどうか
+   * @param grid - ゲームの盤面グリッド
+   * @param piece - 回転前のピース
+   * @param newRotation - 回転後の状態
+   */
+  private isBlockedAtCenterColumn(
+    grid: Grid,
+    piece: RotatablePiece,
+    newRotation: RotationState
+  ): boolean {
+    if (
+      piece.type !== TetrominoType.L &&
+      piece.type !== TetrominoType.J &&
+      piece.type !== TetrominoType.T
+    ) {
+      return false;
+    }
+
+    const rotated = this.getShape(piece.type, newRotation);
+    const { top, left, size } = this.getRotationBox(piece.type);
+
+    for (let row = top; row < top + size; row++) {
+      for (let col = left; col < left + size; col++) {
+        if (rotated[row][col] === 0) continue;
+
+        const gridY = piece.y + row;
+        const gridX = piece.x + col;
+        const blocked =
+          gridY < 0 ||
+          gridY >= grid.length ||
+          gridX < 0 ||
+          gridX >= grid[0].length ||
+          grid[gridY][gridX] !== 0;
+
+        if (blocked) {
+          return col - left === 1;
+        }
+      }
+    }
+
+    return false;
+  }
+}
+
+/**
+ * NRS（ニンテンドー・ローテーションシステム、NES版）の各回転状態の形状
+ * S・Z・I型は2状態のみで、縦向きは右寄り
+ */
+const NRS_SHAPES: Record<TetrominoType, string[][]> = {
+  [TetrominoType.I]: [
+    ["....", "....", "####", "...."],
+    ["..#.", "..#.", "..#.", "..#."],
+    ["....", "....", "####", "...."],
+    ["..#.", "..#.", "..#.", "..#."],
+  ],
+  [TetrominoType.O]: ARS_SHAPES[TetrominoType.O],
+  [TetrominoType.T]: [
+    ["...", "###", ".#."],
+    [".#.", "##.", ".#."],
+    [".#.", "###", "..."],
+    [".#.", ".##", ".#."],
+  ],
+  [TetrominoType.S]: [
+    ["...", ".##", "##."],
+    [".#.", ".##", "..#"],
+    ["...", ".##", "##."],
+    [".#.", ".##", "..#"],
+  ],
+  [TetrominoType.Z]: [
+    ["...", "##.", ".##"],
+    ["..#", ".##", ".#."],
+    ["...", "##.", ".##"],
+    ["..#", ".##", ".#."],
+  ],
+  [TetrominoType.J]: [
+    ["...", "###", "..#"],
+    [".#.", ".#.", "##."],
+    ["#..", "###", "..."],
+    [".##", ".#.", ".#."],
+  ],
+  [TetrominoType.L]: [
+    ["...", "###", "#.."],
+    ["##.", ".#.", ".#."],
+    ["..#", "###", "..."],
+    [".#.", ".#.", ".##"],
+  ],
+};
+
+/**
+ * NRS（ニンテンドー・ローテーションシステム、NES方式）
+ * キックは一切行わず、回転後の位置が空いている場合のみ回転する
+ */
+export class NRSRotationSystem extends BaseRotationSystem {
+  readonly type: RotationSystemType = "nrs";
+  readonly name: string = "NRS";
+
+  public getShape(type: TetrominoType, rotation: RotationState): BlockShape {
+    return shapeFromRows(type, NRS_SHAPES[type][rotation]);
+  }
+
+  public getKicks(): ReadonlyArray<KickOffset> {
+    return [[0, 0]];
+  }
+}
+
+/**
+ * キックなしのクラシック回転
+ * SRSと同じ回転中心で回転するが、壁や床によるキックは行わない
+ */
+export class NoKickRotationSystem extends BaseRotationSystem {
+  readonly type: RotationSystemType = "noKick";
+  readonly name: string = "Classic (no kick)";
+
+  private readonly srs = new SRSRotationSystem();
+
+  public getShape(type: TetrominoType, rotation: RotationState): BlockShape {
+    return this.srs.getShape(type, rotation);
+  }
+
+  public getKicks(): ReadonlyArray<KickOffset> {
+    return [[0, 0]];
+  }
+}
+
+/**
+ * 指定した種類の回転システムを作成する
+ * @param type - 回転システムの種類
+ * @returns 回転システム
+ */
+export function createRotationSystem(type: RotationSystemType): RotationSystem {
+  switch (type) {
+    case "srs":
+      return new SRSRotationSystem();
+    case "srsPlus":
+      return new SRSPlusRotationSystem();
+    case "ars":
+      return new ARSRotationSystem();
+    case "nrs":
+      return new NRSRotationSystem();
+    case "noKick":
+      return new NoKickRotationSystem();
+    default:
+      throw new Error(`Unknown rotation system: ${type}`);
+  }
+}
@@ -1,23 +1,217 @@
+import { SpinResult, SpinKind, NO_SPIN } from "./spinDetection";
+import { getTetrominoName } from "./tetromino";
+
 /**
  * テトリスのグリッドを表す2次元配列型
  * 0は空、1以上はブロックが存在することを示す
  */
 type Grid = number[][];
 
+/**
+ * 選択可能な得点表の種類
+ * guideline: ガイドライン準拠、nes: NES版、sega: セガ版（アーケード）
+ */
+export type ScoringSystemType = "guideline" | "nes" | "sega";
+
+/**
+ * 自然落下の速度曲線の種類
+ * classic: レベルごとに10%ずつ速くなる、guideline: ガイドライン準拠
+ */
+export type GravityCurveType = "classic" | "guideline";
+
+/**
+ * レベルアップの条件の種類
+ * fixed: 一定の消去行数ごと、variable: 消去の種類に応じた行数を加算する可変ゴール、none: レベルアップしない
+ */
+export type LevelGoalType = "fixed" | "variable" | "none";
+
+/**
+ * 得点表の定義
+ * ライン消去・スピン・パーフェクトクリアの点数はレベル倍率を掛ける前の値
+ */
+export interface ScoreTable {
+  /** 表示名 */
+  name: string;
+  /** 消去行数ごとの点数 */
+  lineClear: Record<number, number>;
+  /** スピン（通常）の消去行数ごとの点数 */
+  spin: Record<number, number>;
+  /** スピンミニの消去行数ごとの点数 */
+  spinMini: Record<number, number>;
+  /** パーフェクトクリアの消去行数ごとのボーナス */
+  perfectClear: Record<number, number>;
+  /** バックトゥバック中のテトリスでのパーフェクトクリアのボーナス */
+  backToBackPerfectClear: number;
+  /** コンボ1回あたりの点数 */
+  combo: number;
+  /** バックトゥバックの倍率（1なら無効） */
+  backToBackMultiplier: number;
+  /** ソフトドロップ1マスあたりの点数 */
+  softDrop: number;
+  /** ハードドロップ1マスあたりの点数 */
+  hardDrop: number;
+  /**
+   * レベル倍率を計算する
+   * @param level - 現在のレベル（1始まり）
+   */
+  levelMultiplier(level: number): number;
+}
+
+/**
+ * 得点表の一覧
+ */
+export const SCORE_TABLES: Record<ScoringSystemType, ScoreTable> = {
+  guideline: {
+    name: "Guideline",
+    lineClear: { 1: 100, 2: 300, 3: 500, 4: 800 },
+    spin: { 0: 400, 1: 800, 2: 1200, 3: 1600 },
+    spinMini: { 0: 100, 1: 200, 2: 400 },
+    perfectClear: { 1: 800, 2: 1200, 3: 1800, 4: 2000 },
+    backToBackPerfectClear: 3200,
+    combo: 50,
+    backToBackMultiplier: 1.5,
+    softDrop: 1,
+    hardDrop: 2,
+    levelMultiplier: (level) => level,
+  },
+  nes: {
+    name: "NES",
+    lineClear: { 1: 40, 2: 100, 3: 300, 4: 1200 },
+    spin: {},
+    spinMini: {},
+    perfectClear: {},
+    backToBackPerfectClear: 0,
+    combo: 0,
+    backToBackMultiplier: 1,
+    softDrop: 1,
+    hardDrop: 0,
+    // NES版のレベルは0始まりで (レベル + 1) 倍
+    levelMultiplier: (level) => level,
+  },
+  sega: {
+    name: "Sega",
+    lineClear: { 1: 100, 2: 400, 3: 900, 4: 2000 },
+    spin: {},
+    spinMini: {},
+    perfectClear: {},
+    backToBackPerfectClear: 0,
+    combo: 0,
+    backToBackMultiplier: 1,
+    softDrop: 0,
+    hardDrop: 0,
+    // セガ版はレベル0〜1で1倍、以降2レベルごとに1倍ずつ増え、最大5倍
+    levelMultiplier: (level) => Math.min(5, Math.floor((level - 1) / 2) + 1),
+  },
+};
+
+/**
+ * 得点の内訳の種類
+ */
+export type ScoreItemKind =
+  | "lineClear"
+  | "spin"
+  | "backToBack"
+  | "combo"
+  | "perfectClear"
+  | "softDrop"
+  | "hardDrop";
+
+/**
+ * 得点の内訳の1項目
+ */
+export interface ScoreItem {
+  /** 内訳の種類 */
+  kind: ScoreItemKind;
+  /** 表示用のラベル */
+  label: string;
+  /** 加算された点数 */
+  points: number;
+}
+
+/**
+ * 1回の得点加算の結果（HUD表示用の内訳を含む）
+ */
+export interface ScoreAward {
+  /** 表示用のラベル（例: "B2B TETRIS"） */
+  label: string;
+  /** 加算された合計点数 */
+  points: number;
+  /** 得点の内訳 */
+  items: ScoreItem[];
+  /** 消去行数 */
+  linesCleared: number;
+  /** スピンの種類 */
+  spin: SpinKind;
+  /** バックトゥバックのボーナスが適用されたかどうか */
+  backToBack: boolean;
+  /** コンボ数（コンボでない場合は0） */
+  combo: number;
+  /** パーフェクトクリアかどうか */
+  perfectClear: boolean;
+}
+
 /**
  * スコアとレベル管理の設定インターフェース
  */
 interface ScoreConfig {
   /** 初期スコア */
   initialScore: number;
-  /** 消去行数に対する加算スコアのマッピング */
-  scoreTable: Record<number, number>;
+  /** 使用する得点表 */
+  scoringSystem: ScoringSystemType;
   /** 初期レベル */
   initialLevel: number;
-  /** レベルアップに必要な消去行数 */
+  /** レベルアップに必要な消去行数（固定ゴールの場合） */
   linesPerLevel: number;
-  /** レベル1の落下間隔（ミリ秒） */
+  /** レベル1の落下間隔（ミリ秒、classic の場合） */
   baseDropInterval: number;
+  /** 自然落下の速度曲線 */
+  gravityCurve: GravityCurveType;
+  /** レベルアップの条件 */
+  levelGoal: LevelGoalType;
+}
+
+/**
+ * スコアとレベルの進行状況（中断したゲームを再開するために保存する）
+ */
+export interface ScoreState {
+  score: number;
+  level: number;
+  totalLinesCleared: number;
+  combo: number;
+  backToBack: boolean;
+  goalProgress: number;
+}
+
+/**
+ * 消去行数の表示名
+ */
+const LINE_CLEAR_NAMES: Record<number, string> = {
+  1: "SINGLE",
+  2: "DOUBLE",
+  3: "TRIPLE",
+  4: "TETRIS",
+};
+
+/**
+ * 可変ゴールでの消去の種類ごとの加算行数
+ * バックトゥバック中はさらに半分を加算する
+ */
+const VARIABLE_GOAL_LINES = {
+  lineClear: { 1: 1, 2: 3, 3: 5, 4: 8 } as Record<number, number>,
+  spin: { 0: 4, 1: 8, 2: 12, 3: 16 } as Record<number, number>,
+  spinMini: { 0: 1, 1: 2, 2: 4 } as Record<number, number>,
+};
+
+/**
+ * ガイドラインの落下間隔を計算する
+ * 1行あたり (0.8 - (レベル - 1) × 0.007)^(レベル - 1) 秒
+ * @param level - レベル（1始まり）
+ * @returns 落下間隔（ミリ秒）
+ */
+export function getGuidelineDropInterval(level: number): number {
+  const exponent = Math.max(0, level - 1);
+  const base = Math.max(0, 0.8 - exponent * 0.007);
+  return Math.pow(base, exponent) * 1000;
 }
 
 /**
@@ -30,6 +224,14 @@ export class ScoreManager {
   public level: number;
   /** 累計消去行数 */
   public totalLinesCleared: number;
+  /** 現在のコンボ数（直前のピースでライン消去していない場合は-1） */
+  public combo: number = -1;
+  /** 直前のライン消去が難しい消去（テトリス・スピン）だったかどうか */
+  public backToBack: boolean = false;
+  /** 現在のレベルで達成したゴール行数 */
+  public goalProgress: number = 0;
+
+  private table: ScoreTable;
 
   /**
    * ScoreManagerのコンストラクタ
@@ -39,35 +241,294 @@ export class ScoreManager {
     this.score = config.initialScore;
     this.level = config.initialLevel;
     this.totalLinesCleared = 0;
+    this.table = SCORE_TABLES[config.scoringSystem];
   }
 
   /**
    * 行消去時に呼び出し、スコアとレベルを更新
    * @param count - 消去した行数
+   * @returns 得点の内訳
    */
-  public clearLines(count: number): void {
-    // スコアを加算
-    if (this.config.scoreTable[count] !== undefined) {
-      this.score += this.config.scoreTable[count];
+  public clearLines(count: number): ScoreAward {
+    return this.awardLock(count, NO_SPIN, false);
+  }
+
+  /**
+   * ピース固定時に呼び出し、ライン消去・スピン・コンボ・パーフェクトクリアの得点を加算する
+   * レベル倍率は加算前（レベルアップ前）のレベルで計算する
+   * @param linesCleared - 消去した行数
+   * @param spin - スピンの判定結果
+   * @param perfectClear - 消去後に盤面が空になったかどうか
+   * @returns 得点の内訳
+   */
+  public awardLock(
+    linesCleared: number,
+    spin: SpinResult,
+    perfectClear: boolean
+  ): ScoreAward {
+    const multiplier = this.table.levelMultiplier(this.level);
+    const items: ScoreItem[] = [];
+    const labels: string[] = [];
+
+    // 1. ライン消去・スピンの基本点
+    const actionLabel = this.getActionLabel(linesCleared, spin);
+    const actionTable =
+      spin.kind === "full"
+        ? this.table.spin
+        : spin.kind === "mini"
+          ? this.table.spinMini
+          : this.table.lineClear;
+    const actionPoints = (actionTable[linesCleared] ?? 0) * multiplier;
+
+    // 2. バックトゥバック（テトリスとライン消去を伴うスピンが難しい消去）
+    const isDifficult =
+      linesCleared > 0 && (linesCleared >= 4 || spin.kind !== "none");
+    const backToBack =
+      isDifficult && this.backToBack && this.table.backToBackMultiplier > 1;
+
+    if (actionPoints > 0) {
+      items.push({
+        kind: spin.kind === "none" ? "lineClear" : "spin",
+        label: actionLabel,
+        points: actionPoints,
+      });
+    }
+    if (backToBack) {
+      items.push({
+        kind: "backToBack",
+        label: "BACK-TO-BACK",
+        points: Math.floor(
+          actionPoints * (this.table.backToBackMultiplier - 1)
+        ),
+      });
+      labels.push("B2B");
+    }
+    if (actionLabel) {
+      labels.push(actionLabel);
     }
 
-    // 累計消去行数を更新
-    this.totalLinesCleared += count;
+    if (linesCleared > 0) {
+      this.backToBack = isDifficult;
+      this.combo++;
+    } else {
+      // ライン消去なしの固定ではバックトゥバックは途切れない
+      this.combo = -1;
+    }
+
+    // 3. コンボ
+    const combo = Math.max(0, this.combo);
+    if (combo > 0 && this.table.combo > 0) {
+      items.push({
+        kind: "combo",
+        label: `${combo} COMBO`,
+        points: this.table.combo * combo * multiplier,
+      });
+      labels.push(`${combo} COMBO`);
+    }
+
+    // 4. パーフェクトクリア
+    if (perfectClear && linesCleared > 0) {
+      const bonus =
+        backToBack && linesCleared === 4
+          ? this.table.backToBackPerfectClear
+          : (this.table.perfectClear[linesCleared] ?? 0);
+      if (bonus > 0) {
+        items.push({
+          kind: "perfectClear",
+          label: "PERFECT CLEAR",
+          points: bonus * multiplier,
+        });
+      }
+      labels.push("PERFECT CLEAR");
+    }
+
+    const points = items.reduce((sum, item) => sum + item.points, 0);
+    this.score += points;
+
+    // 累計消去行数とレベルを更新
+    this.totalLinesCleared += linesCleared;
+    this.advanceGoal(this.getGoalLines(linesCleared, spin, backToBack));
 
-    // レベルを計算
-    this.level =
-      this.config.initialLevel +
-      Math.floor(this.totalLinesCleared / this.config.linesPerLevel);
+    return {
+      label: labels.join(" "),
+      points,
+      items,
+      linesCleared,
+      spin: spin.kind,
+      backToBack,
+      combo,
+      perfectClear,
+    };
+  }
+
+  /**
+   * ソフトドロップ・ハードドロップの得点を加算する（レベル倍率なし）
+   * @param type - ドロップの種類
+   * @param cells - 落下したマス数
+   * @returns 得点の内訳
+   */
+  public awardDrop(type: "soft" | "hard", cells: number): ScoreAward {
+    const perCell = type === "soft" ? this.table.softDrop : this.table.hardDrop;
+    const points = perCell * cells;
+    const label = type === "soft" ? "SOFT DROP" : "HARD DROP";
+    this.score += points;
+
+    return {
+      label,
+      points,
+      items:
+        points > 0
+          ? [{ kind: type === "soft" ? "softDrop" : "hardDrop", label, points }]
+          : [],
+      linesCleared: 0,
+      spin: "none",
+      backToBack: false,
+      combo: 0,
+      perfectClear: false,
+    };
   }
 
   /**
    * 現在の落下間隔を計算して返す
-   * レベルが上がるごとに10%ずつ速くなる
+   * classic ではレベルが上がるごとに10%ずつ速くなり、guideline ではガイドラインの式に従う
    * @returns 現在のレベルに応じた落下間隔（ミリ秒）
    */
   public getDropInterval(): number {
+    if (this.config.gravityCurve === "guideline") {
+      return getGuidelineDropInterval(this.level);
+    }
     return this.config.baseDropInterval * Math.pow(0.9, this.level - 1);
   }
+
+  /**
+   * 指定したレベルをクリアするのに必要なゴール行数を取得する
+   * 固定ゴールでは linesPerLevel、可変ゴールでは レベル × 5、レベルアップしない場合は Infinity
+   * @param level - レベル
+   * @returns 必要なゴール行数
+   */
+  public getLevelGoal(level: number = this.level): number {
+    switch (this.config.levelGoal) {
+      case "variable":
+        return level * 5;
+      case "none":
+        return Infinity;
+      default:
+        return this.config.linesPerLevel;
+    }
+  }
+
+  /**
+   * 次のレベルまでに必要な残りのゴール行数を取得する
+   * @returns 残りのゴール行数
+   */
+  public getLinesToNextLevel(): number {
+    return this.getLevelGoal() - this.goalProgress;
+  }
+
+  /**
+   * 中断のために進行状況を取得する
+   * @returns スコアとレベルの進行状況
+   */
+  public getState(): ScoreState {
+    return {
+      score: this.score,
+      level: this.level,
+      totalLinesCleared: this.totalLinesCleared,
+      combo: this.combo,
+      backToBack: this.backToBack,
+      goalProgress: this.goalProgress,
+    };
+  }
+
+  /**
+   * getStateで取得した進行状況を復元する
+   * @param state - スコアとレベルの進行状況
+   */
+  public setState(state: ScoreState): void {
+    this.score = state.score;
+    this.level = state.level;
+    this.totalLinesCleared = state.totalLinesCleared;
+    this.combo = state.combo;
+    this.backToBack = state.backToBack;
+    this.goalProgress = state.goalProgress;
+  }
+
+  /**
+   * ゴール行数を加算し、必要な行数に達したらレベルを上げる
+   * @param lines - 加算するゴール行数
+   */
+  private advanceGoal(lines: number): void {
+    this.goalProgress += lines;
+    while (this.goalProgress >= this.getLevelGoal()) {
+      this.goalProgress -= this.getLevelGoal();
+      this.level++;
+    }
+  }
+
+  /**
+   * 1回の固定で加算するゴール行数を計算する
+   * 固定ゴールでは消去行数そのもの、可変ゴールでは消去の種類に応じた行数
+   * @param linesCleared - 消去した行数
+   * @param spin - スピンの判定結果
+   * @param backToBack - バックトゥバックのボーナスが適用されたかどうか
+   * @returns 加算するゴール行数
+   */
+  private getGoalLines(
+    linesCleared: number,
+    spin: SpinResult,
+    backToBack: boolean
+  ): number {
+    if (this.config.levelGoal !== "variable") {
+      return linesCleared;
+    }
+
+    const table =
+      spin.kind === "full"
+        ? VARIABLE_GOAL_LINES.spin
+        : spin.kind === "mini"
+          ? VARIABLE_GOAL_LINES.spinMini
+          : VARIABLE_GOAL_LINES.lineClear;
+    const lines = table[linesCleared] ?? 0;
+    return backToBack ? Math.floor(lines * 1.5) : lines;
+  }
+
+  /**
+   * ライン消去・スピンの表示名を作成する（例: "T-SPIN MINI DOUBLE"）
+   * @param linesCleared - 消去した行数
+   * @param spin - スピンの判定結果
+   * @returns 表示名（何も起きていない場合は空文字）
+   */
+  private getActionLabel(linesCleared: number, spin: SpinResult): string {
+    const parts: string[] = [];
+
+    if (spin.kind !== "none" && spin.pieceType !== null) {
+      parts.push(`${getTetrominoName(spin.pieceType)}-SPIN`);
+      if (spin.kind === "mini") {
+        parts.push("MINI");
+      }
+    }
+    if (linesCleared > 0) {
+      parts.push(LINE_CLEAR_NAMES[linesCleared] ?? `${linesCleared} LINES`);
+    }
+
+    return parts.join(" ");
+  }
+}
+
+/**
+ * デフォルトのスコア設定を取得する
+ * @returns デフォルトのスコア設定
+ */
+export function getDefaultScoreConfig(): ScoreConfig {
+  return {
+    initialScore: 0,
+    scoringSystem: "guideline",
+    initialLevel: 1,
+    linesPerLevel: 10,
+    baseDropInterval: 1000,
+    gravityCurve: "classic",
+    levelGoal: "fixed",
+  };
 }
 
 // 型エクスポート
@@ -0,0 +1,236 @@
+import { isPositionValid } from "./collision";
+import { RotationDirection } from "./rotationSystem";
+import { TetrominoType } from "./tetromino";
+
+/**
+ * テトロミノの形状を表す型
+ */
+export type BlockShape = number[][];
+
+/**
+ * ゲームの盤面グリッドを表す型
+ */
+export type Grid = number[][];
+
+/**
+ * スピンの判定結果の種類
+ * none: スピンなし、mini: ミニ、full: 通常のスピン
+ */
+export type SpinKind = "none" | "mini" | "full";
+
+/**
+ * スピン判定に必要な、ピースが最終位置に到達した経緯
+ */
+export interface SpinContext {
+  /** テトロミノの種類 */
+  pieceType: TetrominoType;
+  /** 最後に成功した操作が回転だったかどうか */
+  lastMoveWasRotation: boolean;
+  /** 最後の回転がTSTキック・フィンキックだったかどうか（isTstKick で判定する） */
+  tstKick: boolean;
+  /** T型以外のスピン（オールスピン）を判定するかどうか */
+  allSpin: boolean;
+}
+
+/**
+ * スピンの判定結果
+ */
+export interface SpinResult {
+  /** スピンの種類 */
+  kind: SpinKind;
+  /** スピンしたテトロミノの種類（スピンなしの場合はnull） */
+  pieceType: TetrominoType | null;
+}
+
+/**
+ * SRSで2マス縦・1マス横にずらす5番目のキック（TSTキック・フィンキック）の番号
+ * このキックを使ったT-スピンは前方の角が空いていても通常のT-スピンになる
+ */
+export const TST_KICK_INDEX = 4;
+
+/**
+ * 回転で使われたキックがTSTキック・フィンキックかどうか
+ * 180度回転のキックテーブル（SRS+）の5番目は別のずらし方のため含めない
+ * @param kickIndex - 回転で使われたキックの番号
+ * @param direction - 回転方向
+ * @returns TSTキック・フィンキックの場合true
+ */
+export function isTstKick(
+  kickIndex: number,
+  direction: RotationDirection
+): boolean {
+  return direction !== "180" && kickIndex === TST_KICK_INDEX;
+}
+
+/**
+ * スピンなしの判定結果
+ */
+export const NO_SPIN: SpinResult = { kind: "none", pieceType: null };
+
+/**
+ * 上下左右の方向 [dx, dy]
+ */
+const DIRECTIONS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+];
+
+/**
+ * 形状の指定セルがブロックかどうか（範囲外は空として扱う）
+ */
+function isShapeBlock(shape: BlockShape, row: number, col: number): boolean {
+  return (
+    row >= 0 &&
+    row < shape.length &&
+    col >= 0 &&
+    col < shape[row].length &&
+    shape[row][col] !== 0
+  );
+}
+
+/**
+ * グリッドの指定セルが埋まっているかどうか（壁・床も埋まっているとみなす）
+ */
+function isGridCellOccupied(grid: Grid, x: number, y: number): boolean {
+  if (y < 0) {
+    // 盤面より上は空いているとみなす
+    return x < 0 || x >= grid[0].length;
+  }
+  return y >= grid.length || x < 0 || x >= grid[0].length || grid[y][x] !== 0;
+}
+
+/**
+ * T型の中心セルと向きを形状から求める
+ * 中心は上下左右のうち3方向にブロックが隣接するセルで、向きは欠けた方向の反対側
+ * 回転システムごとに回転中心が異なっても同じ方法で求められる
+ * @param shape - T型の形状
+ * @returns 中心の行・列と、凸部の方向 [dx, dy]（見つからない場合はnull）
+ */
+function findTCenter(
+  shape: BlockShape
+): { row: number; col: number; front: readonly [number, number] } | null {
+  for (let row = 0; row < shape.length; row++) {
+    for (let col = 0; col < shape[row].length; col++) {
+      if (shape[row][col] === 0) continue;
+
+      const missing = DIRECTIONS.filter(
+        ([dx, dy]) => !isShapeBlock(shape, row + dy, col + dx)
+      );
+      if (missing.length === 1) {
+        const [dx, dy] = missing[0];
+        return { row, col, front: [-dx, -dy] };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 3コーナールールでT-スピンを判定する
+ * 中心の斜め4マスのうち3マス以上が埋まっていればT-スピン
+ * 凸部側の2マスが両方埋まっていれば通常、そうでなければミニ（TSTキック・フィンキックは通常扱い）
+ * @param grid - 固定前の盤面グリッド
+ * @param shape - T型の形状
+ * @param offsetX - グリッド上のX座標オフセット
+ * @param offsetY - グリッド上のY座標オフセット
+ * @param tstKick - 最後の回転がTSTキック・フィンキックだったかどうか
+ * @returns スピンの種類
+ */
+export function detectTSpin(
+  grid: Grid,
+  shape: BlockShape,
+  offsetX: number,
+  offsetY: number,
+  tstKick: boolean
+): SpinKind {
+  const center = findTCenter(shape);
+  if (!center) {
+    return "none";
+  }
+
+  const centerX = offsetX + center.col;
+  const centerY = offsetY + center.row;
+  const [frontX, frontY] = center.front;
+
+  let occupied = 0;
+  let frontOccupied = 0;
+
+  for (const dx of [-1, 1]) {
+    for (const dy of [-1, 1]) {
+      if (!isGridCellOccupied(grid, centerX + dx, centerY + dy)) continue;
+
+      occupied++;
+      // 凸部の方向と同じ側にある角が前方の角
+      if ((frontX !== 0 && dx === frontX) || (frontY !== 0 && dy === frontY)) {
+        frontOccupied++;
+      }
+    }
+  }
+
+  if (occupied < 3) {
+    return "none";
+  }
+  if (frontOccupied === 2 || tstKick) {
+    return "full";
+  }
+  return "mini";
+}
+
+/**
+ * ピースが左右・上のいずれにも動けない（その場で固定されている）かどうか
+ * @param grid - 固定前の盤面グリッド
+ * @param shape - ピースの形状
+ * @param offsetX - グリッド上のX座標オフセット
+ * @param offsetY - グリッド上のY座標オフセット
+ * @returns 動けない場合true
+ */
+export function isImmobile(
+  grid: Grid,
+  shape: BlockShape,
+  offsetX: number,
+  offsetY: number
+): boolean {
+  return (
+    !isPositionValid(grid, shape, offsetX - 1, offsetY) &&
+    !isPositionValid(grid, shape, offsetX + 1, offsetY) &&
+    !isPositionValid(grid, shape, offsetX, offsetY - 1)
+  );
+}
+
+/**
+ * 固定しようとしているピースのスピンを判定する
+ * T型は3コーナールール、S・Z・J・L・I型はオールスピン有効時のみ移動不能判定で判定する
+ * @param grid - 固定前の盤面グリッド
+ * @param shape - ピースの形状
+ * @param offsetX - グリッド上のX座標オフセット
+ * @param offsetY - グリッド上のY座標オフセット
+ * @param context - ピースが最終位置に到達した経緯
+ * @returns スピンの判定結果
+ */
+export function detectSpin(
+  grid: Grid,
+  shape: BlockShape,
+  offsetX: number,
+  offsetY: number,
+  context: SpinContext
+): SpinResult {
+  if (!context.lastMoveWasRotation) {
+    return NO_SPIN;
+  }
+
+  let kind: SpinKind = "none";
+
+  if (context.pieceType === TetrominoType.T) {
+    kind = detectTSpin(grid, shape, offsetX, offsetY, context.tstKick);
+  } else if (
+    context.allSpin &&
+    context.pieceType !== TetrominoType.O &&
+    isImmobile(grid, shape, offsetX, offsetY)
+  ) {
+    kind = "full";
+  }
+
+  return kind === "none" ? NO_SPIN : { kind, pieceType: context.pieceType };
+}
@@ -0,0 +1,264 @@
+import { KeyValueStorage, loadJSON, saveJSON } from "./storage";
+
+/**
+ * ゲームの盤面グリッドを表す型
+ * 0は空、1以上は配置済みブロックを示す
+ */
+type Grid = number[][];
+
+/**
+ * 固定したブロックの見え方
+ * normal: 常に見える、fading: 固定してから徐々に消える、invisible: 固定した瞬間に消える
+ */
+export type StackVisibilityMode = "normal" | "fading" | "invisible";
+
+/**
+ * 設定画面で選択できる見え方（選択するたびにこの順で切り替わる）
+ */
+export const STACK_VISIBILITY_MODES: ReadonlyArray<StackVisibilityMode> = [
+  "normal",
+  "fading",
+  "invisible",
+];
+
+/**
+ * 設定画面で選択できる定期的な表示の間隔（ミリ秒、0は定期的には表示しない）
+ */
+export const STACK_REVEAL_INTERVALS: ReadonlyArray<number> = [0, 10000, 5000];
+
+/**
+ * 積み上げたブロックの見え方の設定インターフェース
+ */
+export interface StackVisibilityConfig {
+  /** 固定したブロックの見え方 */
+  mode: StackVisibilityMode;
+  /** fadingで固定してから完全に見えなくなるまでの時間（ミリ秒） */
+  fadeTime: number;
+  /** 盤面全体を定期的に表示する間隔（ミリ秒、0なら定期的には表示しない） */
+  revealInterval: number;
+  /** フラッシュ・定期的な表示で盤面全体を表示する時間（ミリ秒） */
+  revealDuration: number;
+  /** ゲーム終了時に盤面全体を下から表示していくアニメーションの時間（ミリ秒） */
+  endRevealDuration: number;
+}
+
+/**
+ * 設定画面で選択して保存される項目
+ */
+export type StackVisibilitySettings = Pick<
+  StackVisibilityConfig,
+  "mode" | "revealInterval"
+>;
+
+/**
+ * 設定の保存キー
+ */
+const SETTINGS_KEY = "settings.stackVisibility";
+
+/**
+ * 固定したブロックの見え方を管理するクラス
+ * 盤面と同じ形でセルごとの固定時刻を持ち、経過時間からセルの不透明度を計算する
+ * ルールエンジンの盤面には手を加えず、描画側で盤面と並べて使う
+ */
+export class StackVisibility {
+  /** セルごとの固定時刻（空のセルはnull） */
+  private lockTimes: (number | null)[][] = [];
+  /** 可視領域の行数（終了時のアニメーションに使う） */
+  private visibleRows: number = 0;
+  /** 経過時間（ミリ秒） */
+  private now: number = 0;
+  /** フラッシュで盤面全体を表示し終える時刻 */
+  private flashUntil: number = -Infinity;
+  /** 終了時のアニメーションを開始した時刻（開始していなければnull） */
+  private endRevealStart: number | null = null;
+
+  /**
+   * StackVisibilityのコンストラクタ
+   * @param config - 見え方の設定
+   */
+  constructor(private config: StackVisibilityConfig) {}
+
+  /**
+   * ブロックを隠す設定かどうか（normalの場合は描画時に不透明度を計算しなくてよい）
+   */
+  public isActive(): boolean {
+    return this.config.mode !== "normal";
+  }
+
+  /**
+   * ゲームの開始時に状態を初期化する
+   * 開始時から盤面にあるブロック（ガベージなど）は時刻0に固定したものとして扱う
+   * @param grid - 開始時の盤面（バッファ行を含む）
+   * @param visibleRows - 可視領域の行数
+   */
+  public reset(grid: Grid, visibleRows: number = grid.length): void {
+    this.lockTimes = grid.map((row) =>
+      row.map((cell) => (cell !== 0 ? 0 : null))
+    );
+    this.visibleRows = visibleRows;
+    this.now = 0;
+    this.flashUntil = -Infinity;
+    this.endRevealStart = null;
+  }
+
+  /**
+   * 時間を進める
+   * @param delta - 経過時間（ミリ秒）
+   */
+  public update(delta: number): void {
+    this.now += delta;
+  }
+
+  /**
+   * ピースの固定後に固定時刻を更新する
+   * 消去された行を盤面と同じように詰めてから、新しく埋まったセルに現在時刻を記録する
+   * @param clearedRows - 消去された行のインデックス（固定直後の盤面での位置）
+   * @param grid - ライン消去後の盤面
+   */
+  public onLock(clearedRows: number[], grid: Grid): void {
+    [...clearedRows]
+      .sort((a, b) => b - a)
+      .forEach((row) => this.lockTimes.splice(row, 1));
+    while (this.lockTimes.length < grid.length) {
+      this.lockTimes.unshift(Array(grid[0].length).fill(null));
+    }
+    this.sync(grid);
+  }
+
+  /**
+   * 盤面と固定時刻を揃える
+   * ガベージの追加など、固定以外で盤面が変わった場合に呼び出す
+   * @param grid - 現在の盤面
+   */
+  public sync(grid: Grid): void {
+    this.lockTimes = grid.map((row, rowIndex) =>
+      row.map((cell, col) => {
+        if (cell === 0) return null;
+        return this.lockTimes[rowIndex]?.[col] ?? this.now;
+      })
+    );
+  }
+
+  /**
+   * 盤面全体を一定時間表示する（フラッシュ）
+   */
+  public flash(): void {
+    this.flashUntil = this.now + this.config.revealDuration;
+  }
+
+  /**
+   * ゲーム終了時のアニメーションを開始する
+   */
+  public startEndReveal(): void {
+    this.endRevealStart = this.now;
+  }
+
+  /**
+   * 終了時のアニメーションが進行中かどうか
+   */
+  public isEndRevealing(): boolean {
+    return (
+      this.endRevealStart !== null &&
+      this.now - this.endRevealStart < this.config.endRevealDuration
+    );
+  }
+
+  /**
+   * セルの不透明度を計算する
+   * @param row - 行（バッファ行を含む盤面でのインデックス）
+   * @param col - 列
+   * @returns 不透明度（0〜1）
+   */
+  public getAlpha(row: number, col: number): number {
+    const lockTime = this.lockTimes[row]?.[col];
+    if (lockTime === null || lockTime === undefined || this.isRevealed()) {
+      return 1;
+    }
+
+    const alpha = this.getFadeAlpha(lockTime);
+    if (this.endRevealStart === null) {
+      return alpha;
+    }
+
+    // 下の行から順に表示していく
+    const progress =
+      this.config.endRevealDuration > 0
+        ? (this.now - this.endRevealStart) / this.config.endRevealDuration
+        : 1;
+    const fromBottom = this.lockTimes.length - 1 - row;
+    const sweep = progress * this.visibleRows - fromBottom;
+    return Math.max(alpha, Math.min(1, Math.max(0, sweep)));
+  }
+
+  /**
+   * フラッシュまたは定期的な表示で、盤面全体を表示している最中かどうか
+   */
+  private isRevealed(): boolean {
+    if (this.now < this.flashUntil) {
+      return true;
+    }
+    const interval = this.config.revealInterval;
+    return (
+      interval > 0 &&
+      this.now >= interval &&
+      this.now % interval < this.config.revealDuration
+    );
+  }
+
+  /**
+   * 固定してからの経過時間による不透明度
+   * @param lockTime - 固定時刻
+   */
+  private getFadeAlpha(lockTime: number): number {
+    switch (this.config.mode) {
+      case "normal":
+        return 1;
+      case "invisible":
+        return 0;
+      case "fading":
+        if (this.config.fadeTime <= 0) return 0;
+        return Math.max(0, 1 - (this.now - lockTime) / this.config.fadeTime);
+    }
+  }
+}
+
+/**
+ * 保存されている見え方の設定を読み込む
+ * @param storage - 保存先
+ * @returns 設定（保存されていなければ常に見える設定）
+ */
+export function loadStackVisibilitySettings(
+  storage: KeyValueStorage
+): StackVisibilitySettings {
+  const defaults = getDefaultStackVisibilityConfig();
+  return loadJSON<StackVisibilitySettings>(storage, SETTINGS_KEY, {
+    mode: defaults.mode,
+    revealInterval: defaults.revealInterval,
+  });
+}
+
+/**
+ * 見え方の設定を保存する
+ * @param storage - 保存先
+ * @param settings - 設定
+ */
+export function saveStackVisibilitySettings(
+  storage: KeyValueStorage,
+  settings: StackVisibilitySettings
+): void {
+  saveJSON(storage, SETTINGS_KEY, settings);
+}
+
+/**
+ * デフォルトの見え方の設定を取得する
+ * @returns デフォルトの見え方の設定（常に見える、フェードは3秒）
+ */
+export function getDefaultStackVisibilityConfig(): StackVisibilityConfig {
+  return {
+    mode: "normal",
+    fadeTime: 3000,
+    revealInterval: 0,
+    revealDuration: 500,
+    endRevealDuration: 1000,
+  };
+}
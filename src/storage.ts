@@ -0,0 +1,103 @@
+/**
+ * キーと文字列を保存するストレージのインターフェース
+ * ブラウザの localStorage と同じ形で、テストではメモリ上の実装に差し替えられる
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * 保存するキーの接頭辞（同じオリジンの他のアプリと衝突しないように）
+ */
+export const STORAGE_PREFIX = "tetris-ts.";
+
+/**
+ * メモリ上に保存するストレージ（localStorageが使えない環境用）
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private items: Map<string, string> = new Map();
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * 実行環境で使えるストレージを取得する
+ * localStorageが使えない場合（Node.jsやプライベートブラウズ）はメモリ上のストレージを返す
+ * @returns ストレージ
+ */
+export function getDefaultStorage(): KeyValueStorage {
+  try {
+    if (typeof localStorage !== "undefined") {
+      return localStorage;
+    }
+  } catch {
+    // アクセスが拒否された場合はメモリ上のストレージを使う
+  }
+  return new MemoryStorage();
+}
+
+/**
+ * JSONとして保存された値を読み込む
+ * @param storage - ストレージ
+ * @param key - キー（接頭辞なし）
+ * @param fallback - 値がない、または壊れている場合の値
+ * @returns 読み込んだ値
+ */
+export function loadJSON<T>(
+  storage: KeyValueStorage,
+  key: string,
+  fallback: T
+): T {
+  try {
+    const raw = storage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * 値をJSONとして保存する
+ * 容量超過などで保存できなかった場合はfalseを返す
+ * @param storage - ストレージ
+ * @param key - キー（接頭辞なし）
+ * @param value - 保存する値
+ * @returns 保存できた場合true
+ */
+export function saveJSON<T>(
+  storage: KeyValueStorage,
+  key: string,
+  value: T
+): boolean {
+  try {
+    storage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 保存された値を削除する
+ * @param storage - ストレージ
+ * @param key - キー（接頭辞なし）
+ */
+export function removeJSON(storage: KeyValueStorage, key: string): void {
+  try {
+    storage.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // 削除できない場合は読み込み時の検証に任せる
+  }
+}
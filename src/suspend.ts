@@ -0,0 +1,414 @@
+import { ActivePiece, GameEngineSaveState } from "./gameEngine";
+import { LockDelayState } from "./lockDelay";
+import { ModeSaveState } from "./modes/gameMode";
+import { NextHoldState } from "./nextAndHold";
+import { RandomizerState } from "./randomizer";
+import { Replay, ReplayData, decodeReplay, encodeReplay } from "./replay";
+import { ScoreState } from "./scoreAndLevel";
+import { KeyValueStorage, loadJSON, removeJSON, saveJSON } from "./storage";
+import { TetrominoType } from "./tetromino";
+
+/**
+ * 中断したゲームの保存キー
+ */
+const SUSPEND_KEY = "suspend.game";
+
+/**
+ * 中断データの形式のバージョン
+ * 形式を変えた場合は増やし、1つ前の形式からの変換を SUSPEND_MIGRATIONS に追加する
+ */
+export const SUSPEND_VERSION = 1;
+
+/**
+ * 中断したゲーム
+ * リプレイ（モード・シード・ルールとそれまでの操作）に、エンジンとモードの内部状態を加えたもの
+ */
+export interface SuspendedGame {
+  /** 中断するまでのリプレイ（再開後も同じリプレイに記録を続ける） */
+  replay: Replay;
+  /** エンジンの内部状態 */
+  engine: GameEngineSaveState;
+  /** モードの進行状況（保存するものがないモードではnull） */
+  mode: ModeSaveState | null;
+}
+
+/**
+ * 保存形式の中断データ（リプレイは操作列を文字列に詰めた形式で保存する）
+ */
+export interface SuspendData {
+  /** 形式のバージョン */
+  version: number;
+  /** 中断するまでのリプレイ */
+  replay: ReplayData;
+  /** エンジンの内部状態 */
+  engine: GameEngineSaveState;
+  /** モードの進行状況 */
+  mode: ModeSaveState | null;
+}
+
+/**
+ * 古い形式の中断データを1つ新しいバージョンの形式に変換する処理
+ */
+export type SuspendMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+/**
+ * 変換元のバージョンごとの変換処理
+ * 変換処理のない古い形式は読み込まずに破棄する
+ */
+export const SUSPEND_MIGRATIONS: Readonly<Record<number, SuspendMigration>> =
+  {};
+
+/**
+ * 形式の誤りを、誤りのある場所を含めたエラーにする
+ * @param path - 誤りのある場所（例: "engine.grid"）
+ * @param message - 誤りの内容
+ */
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid suspended game: ${path} ${message}`);
+}
+
+/**
+ * 値がオブジェクト（配列以外）かどうか
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 有限の数であることを確認する
+ */
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    invalid(path, "must be a finite number");
+  }
+  return value;
+}
+
+/**
+ * 整数であることを確認する
+ */
+function expectInteger(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    invalid(path, "must be an integer");
+  }
+  return value;
+}
+
+/**
+ * 0以上の整数であることを確認する
+ */
+function expectNonNegativeInteger(value: unknown, path: string): number {
+  if (expectInteger(value, path) < 0) {
+    invalid(path, "must be a non-negative integer");
+  }
+  return value as number;
+}
+
+/**
+ * 真偽値であることを確認する
+ */
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    invalid(path, "must be a boolean");
+  }
+  return value;
+}
+
+/**
+ * オブジェクトであることを確認する
+ */
+function expectRecord(value: unknown, path: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    invalid(path, "must be an object");
+  }
+  return value;
+}
+
+/**
+ * 配列であることを確認し、各要素を確認した配列を返す
+ */
+function expectArray<T>(
+  value: unknown,
+  path: string,
+  expectItem: (item: unknown, path: string) => T
+): T[] {
+  if (!Array.isArray(value)) {
+    invalid(path, "must be an array");
+  }
+  return value.map((item, index) => expectItem(item, `${path}[${index}]`));
+}
+
+/**
+ * テトロミノの種類であることを確認する
+ */
+function expectPieceType(value: unknown, path: string): TetrominoType {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    !(value in TetrominoType)
+  ) {
+    invalid(path, "must be a tetromino type");
+  }
+  return value;
+}
+
+/**
+ * 操作中のピースの形式を確認する
+ */
+function decodeActivePiece(value: unknown, path: string): ActivePiece | null {
+  if (value === null) {
+    return null;
+  }
+  const piece = expectRecord(value, path);
+  const rotation = piece.rotation;
+  if (rotation !== 0 && rotation !== 1 && rotation !== 2 && rotation !== 3) {
+    invalid(`${path}.rotation`, "must be 0, 1, 2 or 3");
+  }
+  return {
+    type: expectPieceType(piece.type, `${path}.type`),
+    shape: expectArray(piece.shape, `${path}.shape`, (row, rowPath) =>
+      expectArray(row, rowPath, expectNonNegativeInteger)
+    ),
+    x: expectInteger(piece.x, `${path}.x`),
+    y: expectInteger(piece.y, `${path}.y`),
+    rotation,
+  };
+}
+
+/**
+ * ネクストとホールドの状態の形式を確認する
+ */
+function decodeNextHold(value: unknown, path: string): NextHoldState {
+  const nextHold = expectRecord(value, path);
+  const randomizer = expectRecord(nextHold.randomizer, `${path}.randomizer`);
+  const randomizerState: RandomizerState = {
+    random: expectInteger(randomizer.random, `${path}.randomizer.random`),
+    pieces: expectArray(
+      randomizer.pieces,
+      `${path}.randomizer.pieces`,
+      expectPieceType
+    ),
+  };
+  if (randomizer.first !== undefined) {
+    randomizerState.first = expectBoolean(
+      randomizer.first,
+      `${path}.randomizer.first`
+    );
+  }
+  if (randomizer.sequenceIndex !== undefined) {
+    randomizerState.sequenceIndex = expectNonNegativeInteger(
+      randomizer.sequenceIndex,
+      `${path}.randomizer.sequenceIndex`
+    );
+  }
+  return {
+    nextQueue: expectArray(
+      nextHold.nextQueue,
+      `${path}.nextQueue`,
+      expectPieceType
+    ),
+    heldPiece:
+      nextHold.heldPiece === null
+        ? null
+        : expectPieceType(nextHold.heldPiece, `${path}.heldPiece`),
+    holdUsedThisTurn: expectBoolean(
+      nextHold.holdUsedThisTurn,
+      `${path}.holdUsedThisTurn`
+    ),
+    seed: expectInteger(nextHold.seed, `${path}.seed`),
+    randomizer: randomizerState,
+  };
+}
+
+/**
+ * スコアとレベルの進行状況の形式を確認する
+ */
+function decodeScore(value: unknown, path: string): ScoreState {
+  const score = expectRecord(value, path);
+  return {
+    score: expectNumber(score.score, `${path}.score`),
+    level: expectNonNegativeInteger(score.level, `${path}.level`),
+    totalLinesCleared: expectNonNegativeInteger(
+      score.totalLinesCleared,
+      `${path}.totalLinesCleared`
+    ),
+    combo: expectInteger(score.combo, `${path}.combo`),
+    backToBack: expectBoolean(score.backToBack, `${path}.backToBack`),
+    goalProgress: expectNumber(score.goalProgress, `${path}.goalProgress`),
+  };
+}
+
+/**
+ * 固定猶予の状態の形式を確認する
+ */
+function decodeLockDelay(value: unknown, path: string): LockDelayState {
+  const lockDelay = expectRecord(value, path);
+  return {
+    delay: expectNumber(lockDelay.delay, `${path}.delay`),
+    elapsed: expectNumber(lockDelay.elapsed, `${path}.elapsed`),
+    resetsLeft: expectNonNegativeInteger(
+      lockDelay.resetsLeft,
+      `${path}.resetsLeft`
+    ),
+    lowestY:
+      lockDelay.lowestY === null
+        ? null
+        : expectInteger(lockDelay.lowestY, `${path}.lowestY`),
+    grounded: expectBoolean(lockDelay.grounded, `${path}.grounded`),
+  };
+}
+
+/**
+ * エンジンの内部状態の形式を確認する
+ * 盤面の寸法やピースの重なりは、復元する時にエンジンが確認する
+ */
+function decodeEngineState(value: unknown): GameEngineSaveState {
+  const engine = expectRecord(value, "engine");
+  if (!Array.isArray(engine.grid) || !engine.grid.every(Array.isArray)) {
+    invalid("engine.grid", "must be an array of rows");
+  }
+  const entryDelay = expectRecord(engine.entryDelay, "engine.entryDelay");
+  return {
+    grid: expectArray(engine.grid, "engine.grid", (row, path) =>
+      expectArray(row, path, expectNonNegativeInteger)
+    ),
+    activePiece: decodeActivePiece(engine.activePiece, "engine.activePiece"),
+    nextHold: decodeNextHold(engine.nextHold, "engine.nextHold"),
+    score: decodeScore(engine.score, "engine.score"),
+    lockDelay: decodeLockDelay(engine.lockDelay, "engine.lockDelay"),
+    entryDelay: {
+      are: expectNumber(entryDelay.are, "engine.entryDelay.are"),
+      lineClearDelay: expectNumber(
+        entryDelay.lineClearDelay,
+        "engine.entryDelay.lineClearDelay"
+      ),
+    },
+    gravityOverride:
+      engine.gravityOverride === null
+        ? null
+        : expectNumber(engine.gravityOverride, "engine.gravityOverride"),
+    frameAccumulator: expectNumber(
+      engine.frameAccumulator,
+      "engine.frameAccumulator"
+    ),
+    gravityProgress: expectNumber(
+      engine.gravityProgress,
+      "engine.gravityProgress"
+    ),
+    spawnDelayRemaining:
+      engine.spawnDelayRemaining === null
+        ? null
+        : expectNumber(
+            engine.spawnDelayRemaining,
+            "engine.spawnDelayRemaining"
+          ),
+    frame: expectNonNegativeInteger(engine.frame, "engine.frame"),
+    lastMoveWasRotation: expectBoolean(
+      engine.lastMoveWasRotation,
+      "engine.lastMoveWasRotation"
+    ),
+    lastTstKick: expectBoolean(engine.lastTstKick, "engine.lastTstKick"),
+  };
+}
+
+/**
+ * 中断したゲームを保存形式に変換する
+ * @param game - 中断したゲーム
+ * @returns 保存形式（JSONにできる値）
+ */
+export function encodeSuspendedGame(game: SuspendedGame): SuspendData {
+  return {
+    version: SUSPEND_VERSION,
+    replay: encodeReplay(game.replay),
+    engine: game.engine,
+    mode: game.mode,
+  };
+}
+
+/**
+ * 保存形式の中断データを検証して読み込む
+ * 古いバージョンの形式は変換処理を順に適用して現在の形式にする
+ * @param data - JSONを解析した値
+ * @param migrations - 変換元のバージョンごとの変換処理
+ * @returns 中断したゲーム
+ * @throws 形式が正しくない場合、変換できない古い形式や新しすぎる形式の場合
+ */
+export function decodeSuspendedGame(
+  data: unknown,
+  migrations: Readonly<Record<number, SuspendMigration>> = SUSPEND_MIGRATIONS
+): SuspendedGame {
+  if (!isRecord(data)) {
+    invalid("suspended game", "must be an object");
+  }
+  let current = data;
+  let version = current.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version > SUSPEND_VERSION
+  ) {
+    invalid("version", `must be an integer up to ${SUSPEND_VERSION}`);
+  }
+  while (version < SUSPEND_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      invalid("version", `${version} is no longer supported`);
+    }
+    version++;
+    current = { ...migrate(current), version };
+  }
+
+  if (current.mode !== null && !isRecord(current.mode)) {
+    invalid("mode", "must be an object or null");
+  }
+
+  return {
+    replay: decodeReplay(current.replay),
+    engine: decodeEngineState(current.engine),
+    mode: current.mode as ModeSaveState | null,
+  };
+}
+
+/**
+ * 中断したゲームを保存する（前に保存したものは上書きする）
+ * @param storage - 保存先
+ * @param game - 中断したゲーム
+ * @returns 保存できた場合true
+ */
+export function saveSuspendedGame(
+  storage: KeyValueStorage,
+  game: SuspendedGame
+): boolean {
+  return saveJSON(storage, SUSPEND_KEY, encodeSuspendedGame(game));
+}
+
+/**
+ * 保存されている中断したゲームを読み込む
+ * 壊れている、または読み込めない形式の場合は破棄する
+ * @param storage - 保存先
+ * @returns 中断したゲーム（保存されていない場合はnull）
+ */
+export function loadSuspendedGame(
+  storage: KeyValueStorage
+): SuspendedGame | null {
+  const data = loadJSON<unknown>(storage, SUSPEND_KEY, null);
+  if (data === null) {
+    return null;
+  }
+  try {
+    return decodeSuspendedGame(data);
+  } catch {
+    clearSuspendedGame(storage);
+    return null;
+  }
+}
+
+/**
+ * 保存されている中断したゲームを削除する（再開した時・ゲームを終えた時）
+ * @param storage - 保存先
+ */
+export function clearSuspendedGame(storage: KeyValueStorage): void {
+  removeJSON(storage, SUSPEND_KEY);
+}
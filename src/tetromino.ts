@@ -95,9 +95,15 @@ const TETROMINOS: BlockShape[] = [
   L_PIECE,
 ];
 
+/**
+ * ガベージ（せり上がりブロック）のセルの値
+ * テトロミノのセル（1-7）と区別するため、色定義の最後のインデックスを使う
+ */
+export const GARBAGE_CELL = 8;
+
 /**
  * テトロミノの色定義（16進数カラーコード）
- * インデックス0は空のセル、1-7が各テトロミノの色に対応
+ * インデックス0は空のセル、1-7が各テトロミノ、8がガベージの色に対応
  */
 export const TETROMINO_COLORS: number[] = [
   0x000000, // 0: 空（黒）- グリッド用
@@ -108,6 +114,7 @@ export const TETROMINO_COLORS: number[] = [
   0xff0000, // 5: Z型（赤）
   0x0000ff, // 6: J型（青）
   0xffa500, // 7: L型（オレンジ）
+  0x808080, // 8: ガベージ（灰色）
 ];
 
 /**
@@ -184,75 +191,6 @@ export function getTetrominoBounds(shape: BlockShape): {
   return { minRow, maxRow, minCol, maxCol };
 }
 
-/**
- * Super Rotation System (SRS) 準拠の壁キックデータ
- * より正確な回転を実現するため
- */
-export const SRS_WALL_KICK_DATA = {
-  // 通常のテトロミノ（I以外）
-  normal: {
-    "0->1": [
-      { x: 0, y: 0 },
-      { x: -1, y: 0 },
-      { x: -1, y: 1 },
-      { x: 0, y: -2 },
-      { x: -1, y: -2 },
-    ],
-    "1->2": [
-      { x: 0, y: 0 },
-      { x: 1, y: 0 },
-      { x: 1, y: -1 },
-      { x: 0, y: 2 },
-      { x: 1, y: 2 },
-    ],
-    "2->3": [
-      { x: 0, y: 0 },
-      { x: 1, y: 0 },
-      { x: 1, y: 1 },
-      { x: 0, y: -2 },
-      { x: 1, y: -2 },
-    ],
-    "3->0": [
-      { x: 0, y: 0 },
-      { x: -1, y: 0 },
-      { x: -1, y: -1 },
-      { x: 0, y: 2 },
-      { x: -1, y: 2 },
-    ],
-  },
-  // I型専用
-  I: {
-    "0->1": [
-      { x: 0, y: 0 },
-      { x: -2, y: 0 },
-      { x: 1, y: 0 },
-      { x: -2, y: -1 },
-      { x: 1, y: 2 },
-    ],
-    "1->2": [
-      { x: 0, y: 0 },
-      { x: -1, y: 0 },
-      { x: 2, y: 0 },
-      { x: -1, y: 2 },
-      { x: 2, y: -1 },
-    ],
-    "2->3": [
-      { x: 0, y: 0 },
-      { x: 2, y: 0 },
-      { x: -1, y: 0 },
-      { x: 2, y: 1 },
-      { x: -1, y: -2 },
-    ],
-    "3->0": [
-      { x: 0, y: 0 },
-      { x: 1, y: 0 },
-      { x: -2, y: 0 },
-      { x: 1, y: -2 },
-      { x: -2, y: 1 },
-    ],
-  },
-};
-
 /**
  * テトロミノの種類を表す列挙型
  */
@@ -0,0 +1,191 @@
+import * as Phaser from "phaser";
+import { BoardSpec } from "../boardSpec";
+import { GameEngineState } from "../gameEngine";
+import { TETROMINO_COLORS } from "../tetromino";
+
+/**
+ * 盤面の描画設定のインターフェース
+ */
+export interface BoardRendererConfig {
+  gridLineColor: number;
+  gridLineAlpha: number;
+  backgroundColor: number;
+  backgroundAlpha: number;
+  borderColor: number;
+  /** 操作中のピースのみ、フィールドの上にはみ出して描画するバッファ行数 */
+  peekRows: number;
+}
+
+/**
+ * セルの不透明度を返す関数（行はバッファ行を含む盤面でのインデックス）
+ */
+export type CellAlphaProvider = (row: number, col: number) => number;
+
+/**
+ * 盤面と操作中のピースを描画するクラス
+ * ゲーム画面とリプレイの再生画面で共通して使う
+ */
+export class BoardRenderer {
+  private graphics: Phaser.GameObjects.Graphics;
+
+  /**
+   * BoardRendererのコンストラクタ
+   * @param scene - Phaser.jsのシーン
+   * @param board - 盤面の寸法
+   * @param cellSize - セルの大きさ（ピクセル）
+   * @param origin - 可視領域の左上の座標
+   * @param config - 描画設定
+   */
+  constructor(
+    scene: Phaser.Scene,
+    private board: BoardSpec,
+    private cellSize: number,
+    private origin: { x: number; y: number },
+    private config: BoardRendererConfig = getDefaultBoardRendererConfig()
+  ) {
+    this.graphics = scene.add.graphics();
+  }
+
+  /**
+   * 盤面全体を描き直す
+   * @param state - エンジンの状態
+   * @param getAlpha - 固定したブロックの不透明度（省略時は常に見える）
+   */
+  public draw(state: GameEngineState, getAlpha?: CellAlphaProvider): void {
+    this.graphics.clear();
+    this.drawBackground();
+    this.drawGridLines();
+    this.drawBorder();
+    this.drawCells(state, getAlpha);
+    this.drawActivePiece(state);
+  }
+
+  /**
+   * 描画に使うオブジェクトを破棄する
+   */
+  public destroy(): void {
+    this.graphics.destroy();
+  }
+
+  private drawBackground(): void {
+    const { width, height } = this.board;
+
+    this.graphics.fillStyle(
+      this.config.backgroundColor,
+      this.config.backgroundAlpha
+    );
+    this.graphics.fillRect(
+      this.origin.x,
+      this.origin.y,
+      width * this.cellSize,
+      height * this.cellSize
+    );
+  }
+
+  private drawGridLines(): void {
+    const { width, height } = this.board;
+    const { x: startX, y: startY } = this.origin;
+    const cellSize = this.cellSize;
+
+    this.graphics.lineStyle(
+      1,
+      this.config.gridLineColor,
+      this.config.gridLineAlpha
+    );
+
+    for (let col = 0; col <= width; col++) {
+      const x = startX + col * cellSize;
+      this.graphics.moveTo(x, startY);
+      this.graphics.lineTo(x, startY + height * cellSize);
+    }
+
+    for (let row = 0; row <= height; row++) {
+      const y = startY + row * cellSize;
+      this.graphics.moveTo(startX, y);
+      this.graphics.lineTo(startX + width * cellSize, y);
+    }
+
+    this.graphics.strokePath();
+  }
+
+  private drawBorder(): void {
+    const { width, height } = this.board;
+
+    this.graphics.lineStyle(2, this.config.borderColor, 1);
+    this.graphics.strokeRect(
+      this.origin.x,
+      this.origin.y,
+      width * this.cellSize,
+      height * this.cellSize
+    );
+  }
+
+  private drawCells(
+    state: GameEngineState,
+    getAlpha?: CellAlphaProvider
+  ): void {
+    const { grid, board } = state;
+
+    // バッファ行は描画せず、可視領域のみを描画する
+    for (let row = 0; row < board.height; row++) {
+      for (let col = 0; col < board.width; col++) {
+        const value = grid[row + board.bufferRows][col];
+        if (value === 0) continue;
+
+        const alpha = getAlpha ? getAlpha(row + board.bufferRows, col) : 1;
+        if (alpha > 0) {
+          // グリッドセルでは値をそのまま使用（I-テトロミノの値は1）
+          this.drawCell(row, col, TETROMINO_COLORS[value] || 0xffffff, alpha);
+        }
+      }
+    }
+  }
+
+  private drawActivePiece(state: GameEngineState): void {
+    const piece = state.activePiece;
+    if (!piece) return;
+
+    // I-テトロミノ（type=0）の場合、インデックス1（シアン色）を使用
+    const color = TETROMINO_COLORS[(piece.type as number) + 1];
+
+    piece.shape.forEach((row, rowIndex) => {
+      // 出現直後のピースが見えるよう、バッファ行は peekRows 行まで描画する
+      const visibleRow = piece.y + rowIndex - state.board.bufferRows;
+      if (visibleRow < -this.config.peekRows) return;
+
+      row.forEach((cell, colIndex) => {
+        if (cell) {
+          this.drawCell(visibleRow, piece.x + colIndex, color, 1);
+        }
+      });
+    });
+  }
+
+  private drawCell(
+    row: number,
+    col: number,
+    color: number,
+    alpha: number
+  ): void {
+    const x = this.origin.x + col * this.cellSize;
+    const y = this.origin.y + row * this.cellSize;
+
+    this.graphics.fillStyle(color, alpha);
+    this.graphics.fillRect(x + 1, y + 1, this.cellSize - 2, this.cellSize - 2);
+  }
+}
+
+/**
+ * デフォルトの盤面の描画設定を取得する
+ * @returns デフォルトの描画設定
+ */
+export function getDefaultBoardRendererConfig(): BoardRendererConfig {
+  return {
+    gridLineColor: 0x888888,
+    gridLineAlpha: 0.5,
+    backgroundColor: 0x000000,
+    backgroundAlpha: 0.8,
+    borderColor: 0xffffff,
+    peekRows: 2,
+  };
+}
@@ -1,5 +1,35 @@
 import * as Phaser from "phaser";
 import { TetrominoType } from "../tetromino";
+import {
+  DailyChallenge,
+  compareDailyScores,
+  createDailyChallenge,
+  describeDailyChallenge,
+  encodeDailyResultCode,
+  formatDailyScore,
+  getDailyMetric,
+  getDailyStreak,
+  getDailyTag,
+  loadDailyHistory,
+  parseDailyResultCode,
+} from "../dailyChallenge";
+import { decodeFumen } from "../fumen";
+import { ModeHudItem, ModeResult, ModeSelection } from "../modes/gameMode";
+import { SPRINT_LINE_TARGETS } from "../modes/sprintMode";
+import { ULTRA_TIME_LIMITS, formatTimeLimit } from "../modes/ultraMode";
+import { DIG_OPTIONS } from "../modes/digMode";
+import { loadPuzzleProgress } from "../modes/puzzleMode";
+import { PuzzlePack } from "../puzzle";
+import { getDefaultStorage } from "../storage";
+import { LevelGoalType } from "../scoreAndLevel";
+import {
+  STACK_REVEAL_INTERVALS,
+  STACK_VISIBILITY_MODES,
+  StackVisibilityMode,
+  StackVisibilitySettings,
+  loadStackVisibilitySettings,
+  saveStackVisibilitySettings,
+} from "../stackVisibility";
 
 /**
  * ゲームの状態を表す列挙型
@@ -9,6 +39,7 @@ export enum GameState {
   Playing = "PLAYING",
   Paused = "PAUSED",
   GameOver = "GAME_OVER",
+  Result = "RESULT",
 }
 
 /**
@@ -44,6 +75,29 @@ const PIECE_COLORS: Record<TetrominoType, number> = {
   [TetrominoType.L]: 0xf0a000,
 };
 
+/**
+ * マラソンの選択肢（レベルアップの条件とエンドレス設定の組み合わせ）
+ */
+const MARATHON_OPTIONS: Array<{
+  text: string;
+  levelGoal: LevelGoalType;
+  endless: boolean;
+}> = [
+  { text: "FIXED GOAL", levelGoal: "fixed", endless: false },
+  { text: "VARIABLE GOAL", levelGoal: "variable", endless: false },
+  { text: "FIXED ENDLESS", levelGoal: "fixed", endless: true },
+  { text: "VARIABLE ENDLESS", levelGoal: "variable", endless: true },
+];
+
+/**
+ * 設定画面に表示するブロックの見え方の名前
+ */
+const STACK_VISIBILITY_LABELS: Record<StackVisibilityMode, string> = {
+  normal: "NORMAL",
+  fading: "FADING",
+  invisible: "INVISIBLE",
+};
+
 /**
  * テトリスのUI/HUDを管理するクラス
  */
@@ -55,13 +109,41 @@ export class GameUI {
   private scoreText!: Phaser.GameObjects.Text;
   private levelText!: Phaser.GameObjects.Text;
   private linesText!: Phaser.GameObjects.Text;
+  private awardText!: Phaser.GameObjects.Text;
+  private awardTimer: Phaser.Time.TimerEvent | null = null;
+  private messageText!: Phaser.GameObjects.Text;
+  private messageTimer: Phaser.Time.TimerEvent | null = null;
+  private modeHudTexts: Phaser.GameObjects.Text[] = [];
+  private modeHudOrigin = { x: 0, y: 0 };
   private nextPieceContainer!: Phaser.GameObjects.Container;
   private holdPieceContainer!: Phaser.GameObjects.Container;
+  private flashButton!: Phaser.GameObjects.Text;
 
   // オーバーレイ
   private mainMenuOverlay!: Phaser.GameObjects.Container;
   private pauseOverlay!: Phaser.GameObjects.Container;
   private gameOverOverlay!: Phaser.GameObjects.Container;
+  private gameOverReasonText!: Phaser.GameObjects.Text;
+  private sprintMenuOverlay!: Phaser.GameObjects.Container;
+  private ultraMenuOverlay!: Phaser.GameObjects.Container;
+  private marathonMenuOverlay!: Phaser.GameObjects.Container;
+  private zenMenuOverlay!: Phaser.GameObjects.Container;
+  private digMenuOverlay!: Phaser.GameObjects.Container;
+  private modesMenuOverlay!: Phaser.GameObjects.Container;
+  // パズルの選択画面は進捗を反映するため、表示するたびに作り直す
+  private puzzlePackMenuOverlay: Phaser.GameObjects.Container | null = null;
+  private puzzleMenuOverlay: Phaser.GameObjects.Container | null = null;
+  private puzzlePacks: PuzzlePack[] = [];
+  // 形式が正しくないため選択肢に出さなかったパズルパックの数
+  private skippedPuzzlePacks: number = 0;
+  private settingsMenuOverlay: Phaser.GameObjects.Container | null = null;
+  // デイリーの選択画面は日付と記録を反映するため、表示するたびに作り直す
+  private dailyMenuOverlay: Phaser.GameObjects.Container | null = null;
+  // 貼り付けた結果コードとの比較結果（同じ日のデイリーの間だけ表示する）
+  private dailyComparison: { date: string; text: string } | null = null;
+  private resultOverlay!: Phaser.GameObjects.Container;
+  private resultTitleText!: Phaser.GameObjects.Text;
+  private resultBodyText!: Phaser.GameObjects.Text;
 
   // 現在のゲーム状態
   private currentState: GameState = GameState.MainMenu;
@@ -97,6 +179,18 @@ export class GameUI {
     // オーバーレイ画面
     this.createOverlays();
 
+    // お知らせ（作り直されるオーバーレイよりも手前に表示する）
+    this.messageText = this.scene.add
+      .text(width / 2, height - 40, "", {
+        fontFamily: this.config.fontFamily,
+        fontSize: "18px",
+        color: this.config.textColor,
+        align: "center",
+        wordWrap: { width: width - 20 },
+      })
+      .setOrigin(0.5)
+      .setDepth(1);
+
   }
 
   /**
@@ -144,6 +238,18 @@ export class GameUI {
       color: this.config.textColor,
       align: "left",
     });
+
+    // 得点表示テキスト（例: "B2B TETRIS +1200"）
+    this.awardText = this.scene.add.text(x + 10, y + 220, "", {
+      fontFamily: this.config.fontFamily,
+      fontSize: "18px",
+      color: this.config.secondaryColor,
+      align: "left",
+      wordWrap: { width: width - 20 },
+    });
+
+    // モード固有のHUD（タイマーなど）は得点表示の下に並べる
+    this.modeHudOrigin = { x: x + 10, y: y + 290 };
   }
 
   /**
@@ -208,6 +314,21 @@ export class GameUI {
 
     // ホールドピースコンテナ
     this.holdPieceContainer = this.scene.add.container(x + width / 2, y + 380);
+
+    // フラッシュボタン（ブロックを隠す設定の時のみ表示）
+    this.flashButton = this.scene.add
+      .text(x + width / 2, y + 460, "FLASH", {
+        fontFamily: this.config.fontFamily,
+        fontSize: "16px",
+        color: this.config.primaryColor,
+        align: "center",
+      })
+      .setOrigin(0.5, 0)
+      .setInteractive({ useHandCursor: true })
+      .setVisible(false);
+    this.flashButton.on("pointerdown", () => {
+      this.scene.events.emit("stackFlash");
+    });
   }
 
   /**
@@ -216,29 +337,169 @@ export class GameUI {
   private createOverlays(): void {
     const { width, height } = this.scene.cameras.main;
 
-    // メインメニュー - 修正：startGame()を呼び出す
-    this.mainMenuOverlay = this.createOverlay("TETRIS", [
-      { text: "START", callback: () => this.startGame() }, // ← 修正点
-      { text: "SETTINGS", callback: () => {} },
+    // メインメニュー
+    this.mainMenuOverlay = this.createMainMenu(false);
+
+    // ゲームモードの選択
+    const backToModes = {
+      text: "BACK",
+      callback: () => this.showSubMenu(this.modesMenuOverlay),
+    };
+    this.modesMenuOverlay = this.createOverlay("MODES", [
+      {
+        text: "SPRINT",
+        callback: () => this.showSubMenu(this.sprintMenuOverlay),
+      },
+      {
+        text: "ULTRA",
+        callback: () => this.showSubMenu(this.ultraMenuOverlay),
+      },
+      {
+        text: "MARATHON",
+        callback: () => this.showSubMenu(this.marathonMenuOverlay),
+      },
+      {
+        text: "ZEN",
+        callback: () => this.showSubMenu(this.zenMenuOverlay),
+      },
+      {
+        text: "DIG",
+        callback: () => this.showSubMenu(this.digMenuOverlay),
+      },
+      {
+        text: "MASTER",
+        callback: () => this.startGame({ type: "master" }),
+      },
+      { text: "PUZZLE", callback: () => this.showPuzzlePacks() },
+      {
+        text: "SURVIVAL",
+        callback: () => this.startGame({ type: "survival" }),
+      },
+      { text: "BACK", callback: () => this.setState(GameState.MainMenu) },
+    ]);
+
+    // スプリントの目標ライン数の選択
+    this.sprintMenuOverlay = this.createOverlay("SPRINT", [
+      ...SPRINT_LINE_TARGETS.map((lineTarget) => ({
+        text: `${lineTarget} LINES`,
+        callback: () => this.startGame({ type: "sprint", lineTarget }),
+      })),
+      backToModes,
+    ]);
+
+    // ウルトラの制限時間の選択
+    this.ultraMenuOverlay = this.createOverlay("ULTRA", [
+      ...ULTRA_TIME_LIMITS.map((timeLimit) => ({
+        text: formatTimeLimit(timeLimit),
+        callback: () => this.startGame({ type: "ultra", timeLimit }),
+      })),
+      backToModes,
+    ]);
+
+    // マラソンのレベルアップの条件とエンドレス設定の選択
+    this.marathonMenuOverlay = this.createOverlay("MARATHON", [
+      ...MARATHON_OPTIONS.map(({ text, levelGoal, endless }) => ({
+        text,
+        callback: () =>
+          this.startGame({ type: "marathon", levelGoal, endless }),
+      })),
+      backToModes,
+    ]);
+
+    // ゼンモードの再開・新規の選択
+    this.zenMenuOverlay = this.createOverlay("ZEN", [
+      {
+        text: "CONTINUE",
+        callback: () => this.startGame({ type: "zen", resume: true }),
+      },
+      {
+        text: "NEW BOARD",
+        callback: () => this.startGame({ type: "zen", resume: false }),
+      },
+      { text: "LOAD FUMEN", callback: () => this.loadFumen() },
+      backToModes,
+    ]);
+
+    // ディグの目標ライン数と穴の開け方の選択
+    this.digMenuOverlay = this.createOverlay("DIG", [
+      ...DIG_OPTIONS.map(({ lineTarget, style }) => ({
+        text: `${style === "messy" ? "MESSY " : ""}${lineTarget} LINES`,
+        callback: () => this.startGame({ type: "dig", lineTarget, style }),
+      })),
+      backToModes,
     ]);
 
     // ポーズ画面 - 修正：resumeGame()を呼び出す
     this.pauseOverlay = this.createOverlay("PAUSED", [
       { text: "RESUME", callback: () => this.resumeGame() }, // ← 修正点
       { text: "RESTART", callback: () => this.restartGame() },
+      { text: "COPY FUMEN", callback: () => this.copyFumen() },
       { text: "QUIT", callback: () => this.goToMainMenu() }, // ← 修正点
     ]);
 
     // ゲームオーバー画面
-    this.gameOverOverlay = this.createOverlay("GAME OVER", [
+    const gameOverButtons = [
       { text: "RETRY", callback: () => this.restartGame() },
+      { text: "WATCH REPLAY", callback: () => this.watchReplay() },
+      { text: "EXPORT STATS", callback: () => this.exportStats() },
       { text: "MAIN MENU", callback: () => this.goToMainMenu() }, // ← 修正点
-    ]);
+    ];
+    this.gameOverOverlay = this.createOverlay("GAME OVER", gameOverButtons);
+
+    // ゲームオーバーの理由（タイトルの下に表示）
+    const gameOverLayout = this.getOverlayLayout(gameOverButtons.length);
+    this.gameOverReasonText = this.scene.add
+      .text(width / 2, gameOverLayout.top + 88, "", {
+        fontFamily: this.config.fontFamily,
+        fontSize: "18px",
+        color: this.config.textColor,
+        align: "center",
+      })
+      .setOrigin(0.5);
+    this.gameOverOverlay.add(this.gameOverReasonText);
+
+    // リザルト画面
+    this.resultOverlay = this.createResultOverlay();
 
     // 初期状態を設定
     this.setState(GameState.MainMenu);
   }
 
+  /**
+   * メインメニューを作成する
+   * @param canContinue - 中断したゲームを再開するボタンを表示するかどうか
+   * @returns 作成されたオーバーレイコンテナ
+   */
+  private createMainMenu(canContinue: boolean): Phaser.GameObjects.Container {
+    const buttons = [
+      { text: "START", callback: () => this.startGame() },
+      {
+        text: "MODES",
+        callback: () => this.showSubMenu(this.modesMenuOverlay),
+      },
+      { text: "DAILY", callback: () => this.showDailyMenu() },
+      { text: "SETTINGS", callback: () => this.showSettingsMenu() },
+    ];
+    if (canContinue) {
+      buttons.unshift({
+        text: "CONTINUE",
+        callback: () => this.continueGame(),
+      });
+    }
+    return this.createOverlay("TETRIS", buttons);
+  }
+
+  /**
+   * メインメニューに中断したゲームを再開するボタンを表示するかどうかを設定する
+   * @param available - 再開できるゲームが保存されている場合true
+   */
+  public setContinueAvailable(available: boolean): void {
+    const visible = this.mainMenuOverlay.visible;
+    this.mainMenuOverlay.destroy();
+    this.mainMenuOverlay = this.createMainMenu(available);
+    this.mainMenuOverlay.setVisible(visible);
+  }
+
   /**
    * オーバーレイを作成する
    * @param title - タイトル
@@ -264,11 +525,14 @@ export class GameUI {
     container.add(bg);
 
     // パネル
+    const { spacing, panelHeight, top } = this.getOverlayLayout(
+      buttons.length
+    );
     const panel = this.scene.add.rectangle(
       width / 2,
       height / 2,
       400,
-      300,
+      panelHeight,
       Phaser.Display.Color.HexStringToColor(this.config.backgroundColor).color
     );
     panel.setStrokeStyle(
@@ -279,7 +543,7 @@ export class GameUI {
 
     // タイトル
     const titleText = this.scene.add
-      .text(width / 2, height / 2 - 100, title, {
+      .text(width / 2, top + 50, title, {
         fontFamily: this.config.fontFamily,
         fontSize: "36px",
         color: this.config.primaryColor,
@@ -292,7 +556,7 @@ export class GameUI {
     buttons.forEach((btn, index) => {
       const button = this.createButton(
         width / 2,
-        height / 2 - 20 + index * 60,
+        top + 130 + index * spacing,
         btn.text,
         btn.callback
       );
@@ -303,6 +567,111 @@ export class GameUI {
     return container;
   }
 
+  /**
+   * オーバーレイのパネルとボタンの配置を計算する
+   * ボタンが多い場合はパネルを縦に伸ばし、画面に収まらない場合は間隔を詰める
+   * @param buttonCount - ボタンの数
+   * @returns ボタンの間隔、パネルの高さ、パネルの上端のY座標
+   */
+  private getOverlayLayout(buttonCount: number): {
+    spacing: number;
+    panelHeight: number;
+    top: number;
+  } {
+    const { height } = this.scene.cameras.main;
+    const spacing = Math.min(60, Math.floor((height - 220) / buttonCount));
+    const panelHeight = Math.max(300, 200 + buttonCount * spacing);
+    return { spacing, panelHeight, top: height / 2 - panelHeight / 2 };
+  }
+
+  /**
+   * リザルト画面を作成する（内容はshowResultで設定する）
+   * @returns 作成されたオーバーレイコンテナ
+   */
+  private createResultOverlay(): Phaser.GameObjects.Container {
+    const { width, height } = this.scene.cameras.main;
+    const container = this.scene.add.container(0, 0);
+    const panelHeight = Math.min(height - 20, 600);
+    const top = height / 2 - panelHeight / 2;
+
+    const bg = this.scene.add.rectangle(
+      width / 2,
+      height / 2,
+      width,
+      height,
+      0x000000,
+      0.7
+    );
+    const panel = this.scene.add.rectangle(
+      width / 2,
+      height / 2,
+      Math.min(width - 20, 400),
+      panelHeight,
+      Phaser.Display.Color.HexStringToColor(this.config.backgroundColor).color
+    );
+    panel.setStrokeStyle(
+      3,
+      Phaser.Display.Color.HexStringToColor(this.config.primaryColor).color
+    );
+
+    this.resultTitleText = this.scene.add
+      .text(width / 2, top + 40, "", {
+        fontFamily: this.config.fontFamily,
+        fontSize: "26px",
+        color: this.config.primaryColor,
+        align: "center",
+      })
+      .setOrigin(0.5);
+
+    this.resultBodyText = this.scene.add
+      .text(width / 2, top + 80, "", {
+        fontFamily: "monospace",
+        fontSize: "15px",
+        color: this.config.textColor,
+        align: "left",
+        lineSpacing: 4,
+      })
+      .setOrigin(0.5, 0);
+
+    const statsButton = this.createButton(
+      width / 2,
+      top + panelHeight - 230,
+      "EXPORT STATS",
+      () => this.exportStats()
+    );
+    const replayButton = this.createButton(
+      width / 2,
+      top + panelHeight - 170,
+      "WATCH REPLAY",
+      () => this.watchReplay()
+    );
+    const retryButton = this.createButton(
+      width / 2,
+      top + panelHeight - 110,
+      "RETRY",
+      () => this.restartGame()
+    );
+    const menuButton = this.createButton(
+      width / 2,
+      top + panelHeight - 50,
+      "MAIN MENU",
+      () => this.goToMainMenu()
+    );
+
+    container.add([
+      bg,
+      panel,
+      this.resultTitleText,
+      this.resultBodyText,
+      statsButton,
+      replayButton,
+      retryButton,
+      menuButton,
+    ]);
+    container.setVisible(false);
+    return container;
+  }
+
   /**
    * ボタンを作成する
    * @param x - X座標
@@ -360,12 +729,260 @@ export class GameUI {
 
   /**
    * ゲームを開始する - 新規追加
+   * @param selection - 開始するゲームモード（省略時はエンドレス）
    */
-  private startGame(): void {
+  private startGame(selection: ModeSelection = { type: "endless" }): void {
     this.setState(GameState.Playing);
 
     // GameSceneにゲーム開始イベントを送信
-    this.scene.events.emit("gameStart");
+    this.scene.events.emit("gameStart", selection);
+  }
+
+  /**
+   * 中断したゲームを一時停止した状態で再開する
+   */
+  private continueGame(): void {
+    this.setState(GameState.Paused);
+
+    // GameSceneに中断したゲームの再開イベントを送信
+    this.scene.events.emit("gameContinue");
+  }
+
+  /**
+   * モードの設定（目標ライン数・制限時間など）の選択画面を表示する
+   * @param overlay - 表示する選択画面
+   */
+  private showSubMenu(overlay: Phaser.GameObjects.Container): void {
+    this.setState(GameState.MainMenu);
+    this.mainMenuOverlay.setVisible(false);
+    overlay.setVisible(true);
+  }
+
+  /**
+   * 選択できるパズルパックを設定する
+   * @param packs - 読み込みと検証が済んだパズルパック
+   * @param skipped - 形式が正しくないため読み込めなかったパックの数
+   */
+  public setPuzzlePacks(packs: PuzzlePack[], skipped: number = 0): void {
+    this.puzzlePacks = packs;
+    this.skippedPuzzlePacks = skipped;
+  }
+
+  /**
+   * パズルパックの選択画面を表示する（パックが1つならパズルの選択画面を直接表示する）
+   * 読み込めなかったパックがある場合は、その数をお知らせに表示する
+   */
+  private showPuzzlePacks(): void {
+    if (this.skippedPuzzlePacks > 0) {
+      this.showMessage(
+        `${this.skippedPuzzlePacks} PUZZLE PACK(S) COULD NOT BE LOADED`
+      );
+    }
+    if (this.puzzlePacks.length === 1) {
+      this.showPuzzleMenu(this.puzzlePacks[0]);
+      return;
+    }
+
+    const storage = getDefaultStorage();
+    this.puzzlePackMenuOverlay?.destroy();
+    this.puzzlePackMenuOverlay = this.createOverlay("PUZZLE", [
+      ...this.puzzlePacks.map((pack) => {
+        const { cleared } = loadPuzzleProgress(storage, pack.id);
+        return {
+          text: `${pack.name} ${cleared.length}/${pack.puzzles.length}`,
+          callback: () => this.showPuzzleMenu(pack),
+        };
+      }),
+      {
+        text: "BACK",
+        callback: () => this.showSubMenu(this.modesMenuOverlay),
+      },
+    ]);
+    this.showSubMenu(this.puzzlePackMenuOverlay);
+  }
+
+  /**
+   * パック内のパズルの選択画面を表示する（クリア済みのパズルには印を付ける）
+   * @param pack - パズルパック
+   */
+  private showPuzzleMenu(pack: PuzzlePack): void {
+    const { cleared } = loadPuzzleProgress(getDefaultStorage(), pack.id);
+    this.puzzleMenuOverlay?.destroy();
+    this.puzzleMenuOverlay = this.createOverlay(pack.name, [
+      ...pack.puzzles.map((puzzle, index) => ({
+        text: `${cleared.includes(puzzle.id) ? "* " : ""}${puzzle.name}`,
+        callback: () => this.startGame({ type: "puzzle", pack, index }),
+      })),
+      {
+        text: "BACK",
+        callback: () =>
+          this.puzzlePacks.length === 1
+            ? this.showSubMenu(this.modesMenuOverlay)
+            : this.showPuzzlePacks(),
+      },
+    ]);
+    this.showSubMenu(this.puzzleMenuOverlay);
+  }
+
+  /**
+   * 設定画面を表示する（選択するたびに保存して表示を更新する）
+   */
+  private showSettingsMenu(): void {
+    const storage = getDefaultStorage();
+    const settings = loadStackVisibilitySettings(storage);
+    const next = <T>(values: ReadonlyArray<T>, current: T): T =>
+      values[(values.indexOf(current) + 1) % values.length];
+    const update = (changes: Partial<StackVisibilitySettings>): void => {
+      saveStackVisibilitySettings(storage, { ...settings, ...changes });
+      this.showSettingsMenu();
+    };
+    const interval = settings.revealInterval;
+
+    this.settingsMenuOverlay?.destroy();
+    this.settingsMenuOverlay = this.createOverlay("SETTINGS", [
+      {
+        text: `STACK: ${STACK_VISIBILITY_LABELS[settings.mode]}`,
+        callback: () =>
+          update({ mode: next(STACK_VISIBILITY_MODES, settings.mode) }),
+      },
+      {
+        text: `REVEAL: ${interval > 0 ? `${interval / 1000}S` : "OFF"}`,
+        callback: () =>
+          update({ revealInterval: next(STACK_REVEAL_INTERVALS, interval) }),
+      },
+      { text: "BACK", callback: () => this.setState(GameState.MainMenu) },
+    ]);
+    this.showSubMenu(this.settingsMenuOverlay);
+  }
+
+  /**
+   * デイリーの選択画面を表示する
+   * 今日のルール・連続日数・最高記録と、最高記録の結果コードを表示する
+   */
+  private showDailyMenu(): void {
+    const challenge = createDailyChallenge(new Date(), this.puzzlePacks);
+    const history = loadDailyHistory(getDefaultStorage());
+    const entry = history[challenge.date];
+    const code = entry
+      ? encodeDailyResultCode(challenge.date, entry.tag, entry.best)
+      : null;
+
+    const lines = [
+      describeDailyChallenge(challenge),
+      `STREAK ${getDailyStreak(history, challenge.date)}  BEST ${
+        entry ? formatDailyScore(getDailyMetric(entry.tag), entry.best) : "-"
+      }`,
+    ];
+    if (code) {
+      lines.push(code);
+    }
+    if (this.dailyComparison?.date === challenge.date) {
+      lines.push(this.dailyComparison.text);
+    }
+
+    const buttons = [
+      {
+        text: "PLAY",
+        callback: () => this.startGame({ type: "daily", challenge }),
+      },
+      { text: "COMPARE", callback: () => this.compareDailyCode(challenge) },
+      { text: "BACK", callback: () => this.setState(GameState.MainMenu) },
+    ];
+    if (code) {
+      buttons.splice(1, 0, {
+        text: "COPY CODE",
+        callback: () => {
+          navigator.clipboard?.writeText(code).catch(() => undefined);
+        },
+      });
+    }
+
+    const { width } = this.scene.cameras.main;
+    this.dailyMenuOverlay?.destroy();
+    this.dailyMenuOverlay = this.createOverlay(
+      `DAILY ${challenge.date.slice(5)}`,
+      buttons
+    );
+    // ボタンの下に今日の情報を表示する（createOverlayと同じ間隔で並べる）
+    const { spacing, top } = this.getOverlayLayout(buttons.length);
+    const infoText = this.scene.add
+      .text(
+        width / 2,
+        top + 110 + buttons.length * spacing,
+        lines.join("\n"),
+        {
+          fontFamily: "monospace",
+          fontSize: "14px",
+          color: this.config.textColor,
+          align: "center",
+          lineSpacing: 4,
+        }
+      )
+      .setOrigin(0.5, 0);
+    this.dailyMenuOverlay.add(infoText);
+    this.showSubMenu(this.dailyMenuOverlay);
+  }
+
+  /**
+   * 貼り付けたフュミンの盤面からゼンモードを始める
+   */
+  private loadFumen(): void {
+    const input = window.prompt("PASTE A FUMEN (v115@...)");
+    if (!input) return;
+
+    try {
+      decodeFumen(input);
+    } catch {
+      this.showMessage("INVALID FUMEN");
+      return;
+    }
+    this.startGame({ type: "zen", resume: false, fumen: input.trim() });
+  }
+
+  /**
+   * 現在の盤面をフュミンとしてコピーする
+   */
+  private copyFumen(): void {
+    this.scene.events.emit("copyFumen");
+  }
+
+  /**
+   * チームメイトの結果コードを入力し、今日の自分の最高記録と比べる
+   * @param challenge - 今日のデイリーチャレンジ
+   */
+  private compareDailyCode(challenge: DailyChallenge): void {
+    const input = window.prompt("PASTE A DAILY RESULT CODE");
+    if (!input) return;
+
+    let text: string;
+    try {
+      const rival = parseDailyResultCode(input);
+      const tag = getDailyTag(challenge.ruleset);
+      const metric = getDailyMetric(tag);
+      const entry = loadDailyHistory(getDefaultStorage())[challenge.date];
+      if (rival.date !== challenge.date || rival.tag !== tag) {
+        text = `CODE IS FOR ${rival.date}`;
+      } else if (!entry) {
+        text = `RIVAL ${formatDailyScore(metric, rival.score)}`;
+      } else {
+        const order = compareDailyScores(metric, entry.best, rival.score);
+        const verdict =
+          order < 0 ? "YOU LEAD" : order > 0 ? "RIVAL LEADS" : "TIED";
+        text = `RIVAL ${formatDailyScore(metric, rival.score)} - ${verdict}`;
+      }
+    } catch {
+      text = "INVALID CODE";
+    }
+    this.dailyComparison = { date: challenge.date, text };
+    this.showDailyMenu();
+  }
+
+  /**
+   * フラッシュボタンの表示を切り替える
+   * @param visible - 表示する場合true
+   */
+  public setFlashButtonVisible(visible: boolean): void {
+    this.flashButton.setVisible(visible);
   }
 
   /**
@@ -400,8 +1017,10 @@ export class GameUI {
 
   /**
    * ゲームオーバー状態にする - 新規追加
+   * @param reason - ゲームオーバーの理由（例: "LOCK OUT"）
    */
-  public gameOver(): void {
+  public gameOver(reason: string = ""): void {
+    this.gameOverReasonText.setText(reason);
     this.setState(GameState.GameOver);
   }
 
@@ -425,6 +1044,105 @@ export class GameUI {
     this.linesText.setText(`LINES\n${lines}`);
   }
 
+  /**
+   * スコア・レベル・ライン数の表示を切り替える
+   * モード固有のHUDで代わりの情報を表示するモードでは非表示にする
+   * @param visible - 表示する場合true
+   */
+  public setScorePanelVisible(visible: boolean): void {
+    this.scoreText.setVisible(visible);
+    this.levelText.setVisible(visible);
+    this.linesText.setVisible(visible);
+  }
+
+  /**
+   * モード固有のHUD（タイマー・自己ベストとの差など）を更新する
+   * @param items - 表示する項目（空の場合は何も表示しない）
+   */
+  public updateModeHud(items: ModeHudItem[]): void {
+    const { x, y } = this.modeHudOrigin;
+
+    // 足りない分のテキストを作成する
+    while (this.modeHudTexts.length < items.length) {
+      const index = this.modeHudTexts.length;
+      this.modeHudTexts.push(
+        this.scene.add.text(x, y + index * 48, "", {
+          fontFamily: this.config.fontFamily,
+          fontSize: "18px",
+          color: this.config.textColor,
+          align: "left",
+        })
+      );
+    }
+
+    this.modeHudTexts.forEach((text, index) => {
+      const item = items[index];
+      if (!item) {
+        text.setText("");
+        return;
+      }
+      text.setText(`${item.label}\n${item.value}`);
+      text.setColor(item.color ?? this.config.textColor);
+    });
+  }
+
+  /**
+   * モードの結果をリザルト画面に表示する
+   * @param result - モードの結果
+   */
+  public showResult(result: ModeResult): void {
+    const labelWidth = Math.max(
+      ...result.items.map((item) => item.label.length)
+    );
+    const lines = result.items.map(
+      (item) => `${item.label.padEnd(labelWidth)}  ${item.value}`
+    );
+
+    this.resultTitleText.setText(
+      result.isPersonalBest
+        ? `${result.title}\nNEW PERSONAL BEST!`
+        : result.title
+    );
+    this.resultBodyText.setY(
+      this.resultTitleText.y + (result.isPersonalBest ? 50 : 30)
+    );
+    this.resultBodyText.setText(lines.join("\n"));
+    this.setState(GameState.Result);
+  }
+
+  /**
+   * 得点の内容を一定時間表示する
+   * @param label - 表示名（例: "B2B TETRIS"）
+   * @param points - 加算された点数
+   * @param duration - 表示時間（ミリ秒）
+   */
+  public showAward(
+    label: string,
+    points: number,
+    duration: number = 1500
+  ): void {
+    this.awardText.setText(`${label}\n+${points.toLocaleString()}`);
+    this.awardTimer?.remove();
+    this.awardTimer = this.scene.time.delayedCall(duration, () => {
+      this.awardText.setText("");
+      this.awardTimer = null;
+    });
+  }
+
+  /**
+   * お知らせを画面の下部に一定時間表示する（例: 読み込みに失敗した理由）
+   * @param text - 表示する文字列
+   * @param duration - 表示時間（ミリ秒）
+   */
+  public showMessage(text: string, duration: number = 2500): void {
+    this.messageText.setText(text);
+    this.messageTimer?.remove();
+    this.messageTimer = this.scene.time.delayedCall(duration, () => {
+      this.messageText.setText("");
+      this.messageTimer = null;
+    });
+  }
+
   /**
    * 次のピースを更新する
    * @param pieces - 次のピースの配列
@@ -445,7 +1163,7 @@ export class GameUI {
   public updateHoldPiece(piece: TetrominoType | null): void {
     this.holdPieceContainer.removeAll(true);
 
-    if (piece) {
+    if (piece !== null) {
       this.drawMiniPiece(this.holdPieceContainer, 0, 0, piece);
     }
   }
@@ -523,6 +1241,17 @@ export class GameUI {
     this.mainMenuOverlay.setVisible(false);
     this.pauseOverlay.setVisible(false);
     this.gameOverOverlay.setVisible(false);
+    this.sprintMenuOverlay.setVisible(false);
+    this.ultraMenuOverlay.setVisible(false);
+    this.marathonMenuOverlay.setVisible(false);
+    this.zenMenuOverlay.setVisible(false);
+    this.digMenuOverlay.setVisible(false);
+    this.modesMenuOverlay.setVisible(false);
+    this.puzzlePackMenuOverlay?.setVisible(false);
+    this.puzzleMenuOverlay?.setVisible(false);
+    this.settingsMenuOverlay?.setVisible(false);
+    this.dailyMenuOverlay?.setVisible(false);
+    this.resultOverlay.setVisible(false);
 
     // 状態に応じて表示
     switch (state) {
@@ -537,6 +1266,9 @@ export class GameUI {
       case GameState.GameOver:
         this.gameOverOverlay.setVisible(true);
         break;
+      case GameState.Result:
+        this.resultOverlay.setVisible(true);
+        break;
     }
   }
 
@@ -558,6 +1290,20 @@ export class GameUI {
     this.setState(GameState.Playing);
   }
 
+  /**
+   * 終了したゲームのリプレイを再生する
+   */
+  private watchReplay(): void {
+    this.scene.events.emit("watchReplay");
+  }
+
+  /**
+   * 終了したゲームの統計をJSONとCSVで書き出す
+   */
+  private exportStats(): void {
+    this.scene.events.emit("exportStats");
+  }
+
   /**
    * UIを破棄する
    */
@@ -566,11 +1312,28 @@ export class GameUI {
     this.mainMenuOverlay?.destroy();
     this.pauseOverlay?.destroy();
     this.gameOverOverlay?.destroy();
+    this.sprintMenuOverlay?.destroy();
+    this.ultraMenuOverlay?.destroy();
+    this.marathonMenuOverlay?.destroy();
+    this.zenMenuOverlay?.destroy();
+    this.digMenuOverlay?.destroy();
+    this.modesMenuOverlay?.destroy();
+    this.puzzlePackMenuOverlay?.destroy();
+    this.puzzleMenuOverlay?.destroy();
+    this.settingsMenuOverlay?.destroy();
+    this.resultOverlay?.destroy();
+    this.modeHudTexts.forEach((text) => text.destroy());
+    this.modeHudTexts = [];
     this.nextPieceContainer?.destroy();
     this.holdPieceContainer?.destroy();
+    this.flashButton?.destroy();
     this.scoreText?.destroy();
     this.levelText?.destroy();
     this.linesText?.destroy();
+    this.awardTimer?.remove();
+    this.awardText?.destroy();
+    this.messageTimer?.remove();
+    this.messageText?.destroy();
   }
 
 }